@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { AccessibilityReport } from '../types';
+import { RULE_LABELS } from '../lib/accessibility';
+import { Accessibility, RefreshCw, Wand2, X, AlertCircle, Loader2, Sparkles } from 'lucide-react';
+
+interface AccessibilityPanelProps {
+  report?: AccessibilityReport;
+  isBusy?: boolean;
+  activeFindingId?: string | null;
+  onSelectFinding: (id: string) => void;
+  onAudit: () => void;
+  onRemediate: () => void;
+  onClose: () => void;
+}
+
+const scoreColor = (score: number) => score >= 90 ? 'text-emerald-600' : score >= 70 ? 'text-amber-500' : 'text-red-600';
+
+const AccessibilityPanel: React.FC<AccessibilityPanelProps> = ({ report, isBusy = false, activeFindingId, onSelectFinding, onAudit, onRemediate, onClose }) => {
+  const findings = report?.findings || [];
+  const patchable = findings.filter(f => f.fix === 'PATCH').length;
+  const needsModel = findings.length - patchable;
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-80 z-40 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="p-4 border-b border-slate-100 dark:border-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <Accessibility className="w-4 h-4 text-blue-600" /> Accessibility
+          {report && <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500">WCAG {report.level}</span>}
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-md transition-colors">
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      {!report ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 text-center gap-3">
+          <p className="text-xs text-slate-500">Check text contrast, font sizes, color-only encodings and the title, description and role screen readers rely on.</p>
+          <button onClick={onAudit} disabled={isBusy} className="px-4 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg disabled:opacity-50 flex items-center gap-2">
+            <Accessibility className="w-4 h-4" /> Run Audit
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="p-4 space-y-3 border-b border-slate-100 dark:border-white/5">
+            {report.skipped ? (
+              <div className="flex items-start gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-300">
+                <AlertCircle className="w-4 h-4 shrink-0" /> {report.skipped}
+              </div>
+            ) : (
+              <div className="flex items-end justify-between">
+                <div>
+                  <span className={`text-3xl font-bold ${scoreColor(report.score)}`}>{report.score}</span>
+                  <p className="text-[10px] text-slate-400 uppercase font-bold mt-1">accessibility score</p>
+                </div>
+                <div className="text-right text-[11px] text-slate-500">
+                  <p>{report.textsChecked} text elements</p>
+                  <p className="font-bold text-slate-700 dark:text-slate-300">{findings.length} issue{findings.length === 1 ? '' : 's'}</p>
+                </div>
+              </div>
+            )}
+            <p className="text-[10px] text-slate-400">
+              Checked {new Date(report.checkedAt).toLocaleString()}
+              {findings.length > 0 && ` • ${patchable} fixable in place, ${needsModel} need${needsModel === 1 ? 's' : ''} the model`}
+            </p>
+            <div className="flex gap-2">
+              <button onClick={onAudit} disabled={isBusy} className="flex-1 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center justify-center gap-1.5">
+                <RefreshCw className="w-3.5 h-3.5" /> Re-check
+              </button>
+              <button
+                onClick={onRemediate}
+                disabled={isBusy || findings.length === 0}
+                className="flex-1 px-3 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg disabled:opacity-50 flex items-center justify-center gap-1.5"
+                title="Patch the markup where possible; send the rest to the model as an edit"
+              >
+                {isBusy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />} Fix All
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+            {findings.length === 0 ? (
+              <p className="text-xs text-slate-400 text-center mt-6">{report.skipped ? '' : 'No accessibility issues found.'}</p>
+            ) : findings.map(f => (
+              <button
+                key={f.id}
+                onClick={() => onSelectFinding(f.id)}
+                className={`w-full text-left p-2.5 rounded-xl transition-colors ${activeFindingId === f.id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className={`text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded shrink-0 ${f.severity === 'error' ? 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' : 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300'}`}>
+                    {RULE_LABELS[f.rule]}
+                  </span>
+                  {f.fix === 'MODEL' && (
+                    <span className="text-[9px] font-bold text-slate-400 flex items-center gap-1" title="Needs a model edit">
+                      <Sparkles className="w-3 h-3" /> AI fix
+                    </span>
+                  )}
+                </div>
+                <p className="text-[11px] text-slate-600 dark:text-slate-300 mt-1.5 leading-snug">{f.message}</p>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccessibilityPanel;
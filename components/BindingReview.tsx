@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { AnalysisResult, ChartPlan, ChartType, ComparisonPeriod, DataSource, FilterOperator, KpiPlan, SpecAggregation } from '../types';
+import { parseSampleData } from '../lib/data';
+import { AGGREGATIONS, CHART_TYPES, COMPARISON_LABELS, COMPARISON_PERIODS, FILTER_OPERATORS, bindingIssues } from '../lib/bindings';
+import { Link2, Play, X, AlertTriangle } from 'lucide-react';
+
+interface BindingReviewProps {
+  analysis: AnalysisResult;
+  sources: DataSource[];
+  onConfirm: (analysis: AnalysisResult) => void;
+  onCancel: () => void;
+}
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded p-1 text-[11px] text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-900 outline-none";
+
+const labelClass = "block text-[10px] font-bold text-slate-400 uppercase mb-1";
+
+const BindingReview: React.FC<BindingReviewProps> = ({ analysis, sources, onConfirm, onCancel }) => {
+  const [draft, setDraft] = useState<AnalysisResult>(analysis);
+
+  useEffect(() => {
+    setDraft(analysis);
+  }, [analysis]);
+
+  // Only sources with parseable rows can be bound
+  const tables = sources.flatMap(s => {
+    const table = parseSampleData(s.sampleData);
+    return table ? [{ source: s, columns: table.columns }] : [];
+  });
+  const columnsOf = (sourceId?: string) => tables.find(t => t.source.id === sourceId)?.columns || [];
+
+  const updateKpi = (id: string, patch: Partial<KpiPlan>) =>
+    setDraft(prev => ({ ...prev, kpis: prev.kpis.map(k => k.id === id ? { ...k, ...patch } : k) }));
+
+  const updateChart = (id: string, patch: Partial<ChartPlan>) =>
+    setDraft(prev => ({ ...prev, suggestedCharts: prev.suggestedCharts.map(c => c.id === id ? { ...c, ...patch } : c) }));
+
+  const sourceSelect = (value: string | undefined, onChange: (sourceId: string | undefined) => void) => (
+    <select className={inputClass} value={value || ''} onChange={e => onChange(e.target.value || undefined)}>
+      <option value="">Unbound (illustrative)</option>
+      {tables.map(t => <option key={t.source.id} value={t.source.id}>{t.source.name}</option>)}
+      {value && !tables.some(t => t.source.id === value) && <option value={value}>Unknown: {value}</option>}
+    </select>
+  );
+
+  const columnSelect = (sourceId: string | undefined, value: string | undefined, onChange: (column: string | undefined) => void, emptyLabel = '—') => {
+    const columns = columnsOf(sourceId);
+    return (
+      <select className={inputClass} value={value || ''} disabled={!sourceId} onChange={e => onChange(e.target.value || undefined)}>
+        <option value="">{emptyLabel}</option>
+        {columns.map(c => <option key={c} value={c}>{c}</option>)}
+        {value && !columns.includes(value) && <option value={value}>Unknown: {value}</option>}
+      </select>
+    );
+  };
+
+  const aggregationSelect = (value: SpecAggregation, onChange: (aggregation: SpecAggregation) => void) => (
+    <select className={inputClass} value={value} onChange={e => onChange(e.target.value as SpecAggregation)}>
+      {AGGREGATIONS.map(a => <option key={a} value={a}>{a}</option>)}
+    </select>
+  );
+
+  const issueList = (issues: string[]) => issues.length > 0 && (
+    <div className="mt-2 space-y-1">
+      {issues.map(issue => (
+        <p key={issue} className="text-[10px] text-amber-700 dark:text-amber-300 flex items-center gap-1">
+          <AlertTriangle className="w-3 h-3 shrink-0" /> {issue}
+        </p>
+      ))}
+    </div>
+  );
+
+  const issueCount = [...draft.kpis, ...draft.suggestedCharts].reduce((n, plan) => n + bindingIssues(plan, sources).length, 0);
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-sm flex flex-col animate-in fade-in duration-200">
+      {/* Header */}
+      <div className="shrink-0 px-6 py-4 border-b border-slate-200 dark:border-white/10 bg-white/80 dark:bg-slate-900/80 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <Link2 className="w-5 h-5" /> Review Data Bindings
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            Check which columns each KPI and chart is computed from before the dashboard is rendered.
+            {issueCount > 0 && <span className="text-amber-600 dark:text-amber-400 font-bold"> {issueCount} issue{issueCount === 1 ? '' : 's'} found.</span>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors flex items-center gap-2"
+          >
+            <X className="w-4 h-4" /> Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(draft)}
+            className="px-4 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg transition-colors flex items-center gap-2"
+          >
+            <Play className="w-4 h-4 fill-current" /> Render Dashboard
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+        {draft.dashboardStrategy && (
+          <p className="text-sm text-slate-600 dark:text-slate-300 italic">{draft.dashboardStrategy}</p>
+        )}
+
+        <section>
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-3">KPIs</h4>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+            {draft.kpis.map(kpi => (
+              <div key={kpi.id} className="p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/5 rounded-lg">
+                <input className={`${inputClass} font-bold mb-2`} value={kpi.label} onChange={e => updateKpi(kpi.id, { label: e.target.value })} />
+                <div className="grid grid-cols-4 gap-2">
+                  <div>
+                    <label className={labelClass}>Source</label>
+                    {sourceSelect(kpi.sourceId, sourceId => updateKpi(kpi.id, { sourceId, field: undefined }))}
+                  </div>
+                  <div>
+                    <label className={labelClass}>Field</label>
+                    {columnSelect(kpi.sourceId, kpi.field, field => updateKpi(kpi.id, { field }))}
+                  </div>
+                  <div>
+                    <label className={labelClass}>Aggregation</label>
+                    {aggregationSelect(kpi.aggregation, aggregation => updateKpi(kpi.id, { aggregation }))}
+                  </div>
+                  <div>
+                    <label className={labelClass}>Compare</label>
+                    <select className={inputClass} value={kpi.comparison} onChange={e => updateKpi(kpi.id, { comparison: e.target.value as ComparisonPeriod })}>
+                      {COMPARISON_PERIODS.map(p => <option key={p} value={p}>{COMPARISON_LABELS[p]}</option>)}
+                    </select>
+                  </div>
+                </div>
+                {issueList(bindingIssues(kpi, sources))}
+              </div>
+            ))}
+          </div>
+        </section>
+
+        <section>
+          <h4 className="text-xs font-bold text-slate-500 uppercase mb-3">Charts</h4>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+            {draft.suggestedCharts.map(chart => (
+              <div key={chart.id} className="p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/5 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <input className={`${inputClass} font-bold`} value={chart.title} onChange={e => updateChart(chart.id, { title: e.target.value })} />
+                  <select className={`${inputClass} w-24 shrink-0`} value={chart.type} onChange={e => updateChart(chart.id, { type: e.target.value as ChartType })}>
+                    {CHART_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                  </select>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <div>
+                    <label className={labelClass}>Source</label>
+                    {sourceSelect(chart.sourceId, sourceId => updateChart(chart.id, { sourceId, xField: undefined, yField: undefined, seriesField: undefined, filter: undefined }))}
+                  </div>
+                  <div>
+                    <label className={labelClass}>X axis</label>
+                    {columnSelect(chart.sourceId, chart.xField, xField => updateChart(chart.id, { xField }))}
+                  </div>
+                  <div>
+                    <label className={labelClass}>Y (measure)</label>
+                    {columnSelect(chart.sourceId, chart.yField, yField => updateChart(chart.id, { yField }))}
+                  </div>
+                  <div>
+                    <label className={labelClass}>Series</label>
+                    {columnSelect(chart.sourceId, chart.seriesField, seriesField => updateChart(chart.id, { seriesField }), 'None')}
+                  </div>
+                  <div>
+                    <label className={labelClass}>Aggregation</label>
+                    {aggregationSelect(chart.aggregation, aggregation => updateChart(chart.id, { aggregation }))}
+                  </div>
+                </div>
+                <div>
+                  <label className={labelClass}>Filter</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {columnSelect(chart.sourceId, chart.filter?.field, field => updateChart(chart.id, { filter: field ? { operator: 'eq', value: '', ...chart.filter, field } : undefined }), 'No filter')}
+                    <select
+                      className={inputClass}
+                      value={chart.filter?.operator || 'eq'}
+                      disabled={!chart.filter}
+                      onChange={e => chart.filter && updateChart(chart.id, { filter: { ...chart.filter, operator: e.target.value as FilterOperator } })}
+                    >
+                      {FILTER_OPERATORS.map(o => <option key={o} value={o}>{o}</option>)}
+                    </select>
+                    <input
+                      className={inputClass}
+                      placeholder="Value"
+                      value={chart.filter?.value || ''}
+                      disabled={!chart.filter}
+                      onChange={e => chart.filter && updateChart(chart.id, { filter: { ...chart.filter, value: e.target.value } })}
+                    />
+                  </div>
+                </div>
+                {issueList(bindingIssues(chart, sources))}
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default BindingReview;
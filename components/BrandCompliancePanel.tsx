@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { BrandReport, BrandViolationKind } from '../types';
+import { BadgeCheck, Wand2, X, AlertCircle, Loader2, Lock, Palette, Type, Image as ImageIcon, ArrowRight } from 'lucide-react';
+
+interface BrandCompliancePanelProps {
+  report?: BrandReport; // Absent when no brand kit is configured
+  strict: boolean;
+  isBusy?: boolean;
+  onSnap: () => void;
+  onOpenBrandKit: () => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<BrandViolationKind, React.ReactNode> = {
+  COLOR: <Palette className="w-3.5 h-3.5" />,
+  FONT: <Type className="w-3.5 h-3.5" />,
+  LOGO: <ImageIcon className="w-3.5 h-3.5" />,
+};
+
+const BrandCompliancePanel: React.FC<BrandCompliancePanelProps> = ({ report, strict, isBusy = false, onSnap, onOpenBrandKit, onClose }) => {
+  const violations = report?.violations || [];
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-80 z-40 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="p-4 border-b border-slate-100 dark:border-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <BadgeCheck className="w-4 h-4 text-blue-600" /> Brand Compliance
+          {strict && <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 flex items-center gap-1"><Lock className="w-2.5 h-2.5" /> Strict</span>}
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-md transition-colors">
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      {!report ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 text-center gap-3">
+          <p className="text-xs text-slate-500">Set up a brand kit to check colors, fonts and the logo in generated dashboards.</p>
+          <button onClick={onOpenBrandKit} className="px-4 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg flex items-center gap-2">
+            <Palette className="w-4 h-4" /> Configure Brand Kit
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="p-4 space-y-3 border-b border-slate-100 dark:border-white/5">
+            {report.skipped ? (
+              <div className="flex items-start gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-300">
+                <AlertCircle className="w-4 h-4 shrink-0" /> {report.skipped}
+              </div>
+            ) : (
+              <div className="flex items-end justify-between">
+                <div>
+                  <span className={`text-3xl font-bold ${violations.length === 0 ? 'text-emerald-600' : strict ? 'text-red-600' : 'text-amber-500'}`}>{violations.length}</span>
+                  <p className="text-[10px] text-slate-400 uppercase font-bold mt-1">violation{violations.length === 1 ? '' : 's'}</p>
+                </div>
+                <div className="text-right text-[11px] text-slate-500">
+                  <p>{report.colorsChecked} colors • {report.fontsChecked} fonts</p>
+                  <p>Tolerance ΔE {report.tolerance}</p>
+                </div>
+              </div>
+            )}
+            {strict && violations.length > 0 && (
+              <p className="text-[11px] text-red-600 dark:text-red-300 font-medium">Export is blocked until this version is compliant.</p>
+            )}
+            <button
+              onClick={onSnap}
+              disabled={isBusy || violations.length === 0}
+              className="w-full px-3 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg disabled:opacity-50 flex items-center justify-center gap-1.5"
+              title="Replace off-palette colors with the nearest brand color, off-brand fonts with the brand font, and add a missing logo"
+            >
+              {isBusy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />} Snap to Brand Palette
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+            {violations.length === 0 ? (
+              <p className="text-xs text-slate-400 text-center mt-6">{report.skipped ? '' : 'This version follows the brand kit.'}</p>
+            ) : violations.map(v => (
+              <div key={v.id} className="p-2.5 rounded-xl hover:bg-slate-50 dark:hover:bg-slate-800">
+                <div className="flex items-center gap-2 text-xs font-bold text-slate-800 dark:text-slate-200">
+                  <span className="text-slate-400">{KIND_ICONS[v.kind]}</span>
+                  {v.kind === 'COLOR' ? (
+                    <>
+                      <span className="w-4 h-4 rounded border border-slate-200 dark:border-slate-700" style={{ backgroundColor: v.value }}></span>
+                      <span className="font-mono">{v.value}</span>
+                      <ArrowRight className="w-3 h-3 text-slate-400" />
+                      <span className="w-4 h-4 rounded border border-slate-200 dark:border-slate-700" style={{ backgroundColor: v.nearest }}></span>
+                      <span className="font-mono">{v.nearest}</span>
+                    </>
+                  ) : v.kind === 'FONT' ? (
+                    <span className="truncate">{v.value} → {v.nearest}</span>
+                  ) : (
+                    <span>Logo missing</span>
+                  )}
+                  {v.count > 1 && <span className="ml-auto text-[10px] font-medium text-slate-400">×{v.count}</span>}
+                </div>
+                <p className="text-[11px] text-slate-500 mt-1 leading-snug">{v.message}</p>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BrandCompliancePanel;
@@ -4,11 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useEffect, useState } from 'react';
-import { Project, DataSource, Folder } from '../types';
+import { Project, DataSource, Folder, SearchResultItem } from '../types';
 import { db } from '../lib/db';
 import { generateThumbnail } from '../lib/image';
-import { Plus, Trash2, Clock, BarChart3, Layout, Layers, Folder as FolderIcon, FolderPlus, Move } from 'lucide-react';
+import { formatBytes } from '../lib/usage';
+import { inspectDataSource, describeFindings } from '../lib/untrusted';
+import { Plus, Trash2, Clock, BarChart3, Layout, Layers, Folder as FolderIcon, FolderPlus, Move, ImagePlus } from 'lucide-react';
 import ResearchBar from './ResearchBar';
+import ScreenshotImport from './ScreenshotImport';
 
 interface DashboardProps {
   onCreateNew: () => void;
@@ -23,6 +26,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onCreateNew, onOpenProject }) =>
   const [isCreatingFolder, setIsCreatingFolder] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
   const [movingProjectId, setMovingProjectId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [storage, setStorage] = useState<{ used: number; quota: number | null }>({ used: 0, quota: null });
 
   useEffect(() => {
     loadData();
@@ -37,6 +42,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onCreateNew, onOpenProject }) =>
       ]);
       setProjects(allProjects);
       setFolders(allFolders);
+      loadStorage();
       
       // Background: Generate missing thumbnails for projects that have history
       const missingThumbs = allProjects.filter(p => !p.thumbnail && p.history && p.history.length > 0);
@@ -59,6 +65,16 @@ const Dashboard: React.FC<DashboardProps> = ({ onCreateNew, onOpenProject }) =>
     }
   };
 
+  const loadStorage = async () => {
+    try {
+      const [breakdown, estimate] = await Promise.all([db.getStorageBreakdown(), navigator.storage?.estimate?.()]);
+      const used = Object.values(breakdown).reduce((a, b) => a + b, 0);
+      setStorage({ used, quota: estimate?.quota ?? null });
+    } catch (e) {
+      console.error("Failed to measure storage", e);
+    }
+  };
+
   const loadProjects = async () => {
     const data = await db.getAllProjects();
     setProjects(data);
@@ -72,15 +88,30 @@ const Dashboard: React.FC<DashboardProps> = ({ onCreateNew, onOpenProject }) =>
     }
   };
 
-  const handleGenerateVisuals = async (topic: string, summary: string, style: any, colorPalette: string, aspectRatio: string) => {
+  const handleGenerateVisuals = async (topic: string, summary: string, citations: SearchResultItem[], style: any, colorPalette: string, aspectRatio: string) => {
     const newProjectId = Date.now().toString();
-    const researchDataSource: DataSource = {
+    // Web research is untrusted: flagged summaries need confirmation in the Editor before generation
+    const researchDataSource: DataSource = inspectDataSource({
       id: Date.now().toString(),
       name: `Research: ${topic}`,
       type: 'API_REST',
       status: 'CONNECTED',
-      sampleData: summary
-    };
+      sampleData: summary,
+      citations
+    });
+    if (researchDataSource.injection) {
+      const user = await db.getCurrentUser();
+      await db.logAudit({
+        id: crypto.randomUUID(),
+        userId: user?.id || 'sys',
+        userName: user?.name || 'System',
+        action: 'SECURITY',
+        resourceId: researchDataSource.id,
+        resourceType: 'DATA_SOURCE',
+        details: describeFindings(researchDataSource, researchDataSource.injection.findings),
+        timestamp: Date.now()
+      });
+    }
 
     const newProject: Project = {
       id: newProjectId,
@@ -222,9 +253,9 @@ const Dashboard: React.FC<DashboardProps> = ({ onCreateNew, onOpenProject }) =>
             <div className="bg-slate-50 dark:bg-slate-900/50 rounded-2xl p-4">
                 <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Storage</p>
                 <div className="h-1.5 w-full bg-slate-200 dark:bg-slate-800 rounded-full overflow-hidden">
-                    <div className="h-full bg-brand-blue w-[12%] rounded-full"></div>
+                    <div className="h-full bg-brand-blue rounded-full" style={{ width: `${storage.quota ? Math.min(100, Math.max(1, (storage.used / storage.quota) * 100)) : 0}%` }}></div>
                 </div>
-                <p className="text-[10px] text-slate-500 mt-2 font-medium">1.2GB of 10GB used</p>
+                <p className="text-[10px] text-slate-500 mt-2 font-medium">{formatBytes(storage.used)}{storage.quota ? ` of ${formatBytes(storage.quota)}` : ''} used</p>
             </div>
         </div>
       </div>
@@ -244,15 +275,32 @@ const Dashboard: React.FC<DashboardProps> = ({ onCreateNew, onOpenProject }) =>
                   : "Manage your visual research projects across all folders."}
               </p>
           </div>
-          <button 
-              onClick={onCreateNew}
-              className="flex items-center gap-2 bg-brand-blue hover:bg-brand-blue-dark text-white px-6 py-3.5 rounded-2xl font-bold shadow-xl shadow-brand-blue/20 transition-all hover:scale-[1.02] active:scale-95"
-          >
-              <Plus className="w-5 h-5" />
-              <span>New Project</span>
-          </button>
+          <div className="flex items-center gap-3">
+            <button 
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center gap-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:border-brand-blue px-5 py-3.5 rounded-2xl font-bold transition-all hover:scale-[1.02] active:scale-95"
+                title="Rebuild a legacy dashboard from a PNG or JPEG screenshot"
+            >
+                <ImagePlus className="w-5 h-5" />
+                <span>Import Screenshot</span>
+            </button>
+            <button 
+                onClick={onCreateNew}
+                className="flex items-center gap-2 bg-brand-blue hover:bg-brand-blue-dark text-white px-6 py-3.5 rounded-2xl font-bold shadow-xl shadow-brand-blue/20 transition-all hover:scale-[1.02] active:scale-95"
+            >
+                <Plus className="w-5 h-5" />
+                <span>New Project</span>
+            </button>
+          </div>
         </div>
 
+        <ScreenshotImport
+          isOpen={isImportOpen}
+          folderId={selectedFolderId || undefined}
+          onClose={() => setIsImportOpen(false)}
+          onImported={id => { setIsImportOpen(false); onOpenProject(id); }}
+        />
+
         <ResearchBar onGenerateVisuals={handleGenerateVisuals} />
 
         {/* Grid */}
@@ -2,20 +2,41 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useRef, useEffect } from 'react';
-import { GeneratedImage, Annotation, Comment } from '../types';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { GeneratedImage, Annotation, Comment, SvgSelection, EditTurn } from '../types';
+import { sanitizeSvg } from '../lib/svg';
+import { formatTemplateRef } from '../lib/prompts';
+import { DEFAULT_LOCALE, getLocaleOption } from '../lib/locale';
+import { resolvePersona } from '../lib/persona';
+import { formatOrigin } from '../lib/models';
+import { elementPath, describeSelection } from '../lib/fragment';
+import { appendSourcesToSvg, formatCitations, isWebUrl } from '../lib/citations';
+import { appendNarrativeToSvg, layoutNarrative, narrativeHeight, narrativeToHtml } from '../lib/narrative';
+import { escapeXml } from '../lib/renderer';
 import { 
     RotateCcw, RotateCw, Type, MessageSquare, Trash2, Maximize2, X, 
     Download, Bold, Italic, FileImage, FileText, ChevronUp, ChevronDown, 
-    Check, Sidebar, Plus, GripVertical, Palette, ChevronsUp, ChevronsDown 
+    Check, Sidebar, Plus, GripVertical, Palette, ChevronsUp, ChevronsDown, SquareDashedMousePointer, PencilRuler 
 } from 'lucide-react';
 import { Tooltip } from './Tooltip';
 import { ExportModal, ExportOptions } from './ExportModal';
+import EditThread from './EditThread';
+
+export interface CanvasHighlight {
+  id: string;
+  x: number; // % of canvas width, like annotations
+  y: number;
+  tone: 'error' | 'warning' | 'ok';
+  label: string;
+}
 
 interface DashboardCanvasProps {
   image: GeneratedImage;
-  onEdit: (prompt: string) => void;
+  onEdit: (prompt: string, target?: SvgSelection) => void; // `target` scopes the edit to one element
+  thread?: EditTurn[]; // The project's edit conversation, oldest first
   isEditing: boolean;
+  isPreview?: boolean; // Rendering partial, still-streaming output
+  exportBlockedReason?: string; // Set while a workspace policy (strict brand compliance) forbids export
   canUndo?: boolean;
   canRedo?: boolean;
   onUndo?: () => void;
@@ -23,18 +44,27 @@ interface DashboardCanvasProps {
   history?: GeneratedImage[];
   currentIndex?: number;
   onJumpToHistory?: (index: number) => void;
+  layoutReference?: string; // Project's layout sketch (data URI), offered as a comparison overlay
   
   // Persisted state from parent
   annotations: Annotation[];
   onUpdateAnnotations: (anns: Annotation[]) => void;
   comments: Comment[];
   onUpdateComments: (comms: Comment[]) => void;
+
+  // Read-only markers from checks such as the data-fidelity report
+  highlights?: CanvasHighlight[];
+  activeHighlightId?: string | null;
+  onSelectHighlight?: (id: string) => void;
 }
 
 const DashboardCanvas: React.FC<DashboardCanvasProps> = ({ 
     image, 
     onEdit, 
+    thread = [],
     isEditing,
+    isPreview = false,
+    exportBlockedReason,
     canUndo = false,
     canRedo = false,
     onUndo,
@@ -42,18 +72,23 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
     history = [],
     currentIndex = 0,
     onJumpToHistory,
+    layoutReference,
     annotations,
     onUpdateAnnotations,
     comments,
-    onUpdateComments
+    onUpdateComments,
+    highlights = [],
+    activeHighlightId,
+    onSelectHighlight
 }) => {
-  const [editPrompt, setEditPrompt] = useState('');
-  const [activeTool, setActiveTool] = useState<'none' | 'text' | 'comment'>('none');
+  const [activeTool, setActiveTool] = useState<'none' | 'text' | 'comment' | 'select'>('none');
   const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
   const [activeCommentId, setActiveCommentId] = useState<string | null>(null);
   const [showCommentSidebar, setShowCommentSidebar] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showExportModal, setShowExportModal] = useState(false);
+  const [showSketchOverlay, setShowSketchOverlay] = useState(false);
+  const [sketchOpacity, setSketchOpacity] = useState(0.5);
   
   // Dragging State
   const [isDragging, setIsDragging] = useState(false);
@@ -70,19 +105,109 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
   // Cache container dimensions during drag to prevent layout thrashing
   const dragRectRef = useRef<{ width: number; height: number; left: number; top: number } | null>(null);
 
+  // Element Selection State (targeted edits)
+  const [selection, setSelection] = useState<SvgSelection | null>(null);
+  const [selectionBox, setSelectionBox] = useState<{ x: number; y: number; w: number; h: number } | null>(null);
+  const [lasso, setLasso] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+  const selectedElRef = useRef<Element | null>(null);
+  const svgHostRef = useRef<HTMLDivElement>(null);
+
   const imageContainerRef = useRef<HTMLDivElement>(null);
   const GRID_SIZE = 10; // Snap grid size in pixels
 
   const isSvg = image.data.startsWith('data:image/svg+xml');
 
-  // Helper to safely render interactive SVG
-  const svgContent = isSvg ? decodeURIComponent(escape(atob(image.data.split(',')[1]))) : '';
+  // Helper to safely render interactive SVG (stored versions may predate sanitization)
+  const svgCheck = useMemo(
+    () => isSvg ? sanitizeSvg(decodeURIComponent(escape(atob(image.data.split(',')[1])))) : null,
+    [image.data, isSvg]
+  );
+  const svgContent = svgCheck?.svg || '';
+
+  const handleSend = (text: string) => {
+    onEdit(text, selection || undefined);
+    clearSelection();
+  };
+
+  // --- Element Selection (targeted edits) ---
+
+  // Selections are paths into this version's markup, so they never carry over to another version
+  useEffect(() => clearSelection(), [image.id]);
+
+  const svgRoot = () => svgHostRef.current?.querySelector('svg') || null;
+
+  const clearSelection = () => {
+    selectedElRef.current = null;
+    setSelection(null);
+    setSelectionBox(null);
+  };
+
+  const selectElement = (el: Element | null) => {
+    const root = svgRoot();
+    const path = root && el && el !== root ? elementPath(root, el) : null;
+    if (!el || !path || path.length === 0 || !imageContainerRef.current) {
+      clearSelection();
+      return;
+    }
+    const c = imageContainerRef.current.getBoundingClientRect();
+    const r = el.getBoundingClientRect();
+    selectedElRef.current = el;
+    setSelection(describeSelection(el, path));
+    setSelectionBox({
+      x: ((r.left - c.left) / c.width) * 100,
+      y: ((r.top - c.top) / c.height) * 100,
+      w: (r.width / c.width) * 100,
+      h: (r.height / c.height) * 100,
+    });
+  };
+
+  const selectParent = () => {
+    const parent = selectedElRef.current?.parentElement;
+    if (parent && parent !== svgRoot()) selectElement(parent);
+  };
+
+  // A click selects the enclosing group; a lasso selects the smallest element containing everything inside it.
+  const handleSelectPointerDown = (e: React.PointerEvent) => {
+    if (activeTool !== 'select' || !imageContainerRef.current) return;
+    const c = imageContainerRef.current.getBoundingClientRect();
+    const x = e.clientX - c.left;
+    const y = e.clientY - c.top;
+    setLasso({ x0: x, y0: y, x1: x, y1: y });
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleSelectPointerMove = (e: React.PointerEvent) => {
+    if (!lasso || !imageContainerRef.current) return;
+    const c = imageContainerRef.current.getBoundingClientRect();
+    setLasso({ ...lasso, x1: e.clientX - c.left, y1: e.clientY - c.top });
+  };
+
+  const handleSelectPointerUp = (e: React.PointerEvent) => {
+    if (!lasso || !imageContainerRef.current) return;
+    setLasso(null);
+    try { e.currentTarget.releasePointerCapture(e.pointerId); } catch (err) {}
+    const root = svgRoot();
+    if (!root) return;
+
+    if (Math.abs(lasso.x1 - lasso.x0) < 5 && Math.abs(lasso.y1 - lasso.y0) < 5) {
+      const hit = document.elementFromPoint(e.clientX, e.clientY);
+      if (!hit || hit === root || !root.contains(hit)) return clearSelection();
+      const group = hit.closest('g');
+      return selectElement(group && root.contains(group) ? group : hit);
+    }
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!editPrompt.trim()) return;
-    onEdit(editPrompt);
-    setEditPrompt('');
+    const c = imageContainerRef.current.getBoundingClientRect();
+    const left = c.left + Math.min(lasso.x0, lasso.x1), right = c.left + Math.max(lasso.x0, lasso.x1);
+    const top = c.top + Math.min(lasso.y0, lasso.y1), bottom = c.top + Math.max(lasso.y0, lasso.y1);
+    const inside = Array.from<Element>(root.querySelectorAll('*')).filter(el => {
+      if (el.closest('defs, style, title, desc, clipPath, mask, linearGradient, radialGradient, pattern, filter')) return false;
+      const r = el.getBoundingClientRect();
+      return (r.width > 0 || r.height > 0) && r.left >= left && r.right <= right && r.top >= top && r.bottom <= bottom;
+    });
+    if (inside.length === 0) return clearSelection();
+    let common: Element | null = inside[0];
+    while (common && !inside.every(el => common!.contains(el))) common = common.parentElement;
+    selectElement(common && common !== root ? common : null);
   };
 
   /**
@@ -143,12 +268,29 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
 
       const img = new Image();
       img.crossOrigin = "anonymous";
-      img.src = image.data;
+      img.src = isSvg ? `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svgContent)))}` : image.data;
       await new Promise(resolve => img.onload = resolve);
 
       const scale = options.scale || 1;
-      canvas.width = img.naturalWidth * scale;
-      canvas.height = img.naturalHeight * scale;
+      const imageW = img.naturalWidth * scale;
+      const imageH = img.naturalHeight * scale;
+
+      // Sources appendix below the dashboard
+      const sourceLines = options.includeSources ? formatCitations(image.citations || []) : [];
+      const sourceFont = Math.max(11, Math.round(imageW / 110));
+      const sourceLineH = sourceFont * 1.6;
+      const appendixH = sourceLines.length > 0 ? sourceFont * 4 + sourceLineH * (sourceLines.length + 1) : 0;
+
+      // Narrative between the dashboard and the sources; wrapped against the body font before the canvas is sized
+      const narrativeFont = sourceFont + 1;
+      ctx.font = `${narrativeFont}px sans-serif`;
+      const narrativeLines = options.includeNarrative && image.narrative
+          ? layoutNarrative(image.narrative, line => ctx.measureText(line).width <= imageW - narrativeFont * 4)
+          : [];
+      const narrativeH = narrativeLines.length > 0 ? narrativeFont * 4 + narrativeHeight(narrativeLines, narrativeFont) : 0;
+
+      canvas.width = imageW;
+      canvas.height = imageH + narrativeH + appendixH;
 
       const fillBackground = options.format === 'jpg' || options.format === 'pdf' || !options.transparentBg;
 
@@ -158,12 +300,12 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
       }
 
       // Draw Base Image
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      ctx.drawImage(img, 0, 0, imageW, imageH);
 
       // Draw Annotations
       annotations.forEach(ann => {
-          const x = (ann.x / 100) * canvas.width;
-          const y = (ann.y / 100) * canvas.height;
+          const x = (ann.x / 100) * imageW;
+          const y = (ann.y / 100) * imageH;
           
           const scaleFactor = canvas.width / 800; 
           const fontSize = Math.max(12, ann.fontSize * scaleFactor);
@@ -175,15 +317,62 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
           ctx.fillText(ann.text, x, y);
       });
 
+      if (narrativeH > 0) {
+          const left = narrativeFont * 2;
+          let y = imageH + narrativeFont * 2;
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(0, imageH, imageW, narrativeH);
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'alphabetic';
+          narrativeLines.forEach(line => {
+              const heading = line.kind === 'heading';
+              if (line.gapBefore) y += narrativeFont * (heading ? 1.2 : 0.5);
+              y += narrativeFont * (heading ? 1.9 : 1.5);
+              ctx.fillStyle = heading ? '#0f172a' : '#334155';
+              ctx.font = heading ? `bold ${Math.round(narrativeFont * 1.2)}px sans-serif` : `${narrativeFont}px sans-serif`;
+              ctx.fillText(line.text, left, y);
+          });
+      }
+
+      if (appendixH > 0) {
+          const left = sourceFont * 2;
+          const maxW = imageW - left * 2;
+          const top = imageH + narrativeH;
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(0, top, imageW, appendixH);
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'alphabetic';
+          ctx.fillStyle = '#0f172a';
+          ctx.font = `bold ${Math.round(sourceFont * 1.15)}px sans-serif`;
+          ctx.fillText('Sources', left, top + sourceFont * 2 + sourceLineH);
+          ctx.fillStyle = '#334155';
+          ctx.font = `${sourceFont}px sans-serif`;
+          sourceLines.forEach((line, i) => {
+              let text = line;
+              while (text.length > 4 && ctx.measureText(text).width > maxW) text = `${text.slice(0, -2)}…`;
+              ctx.fillText(text, left, top + sourceFont * 2 + sourceLineH * (i + 2));
+          });
+      }
+
       return canvas;
   };
 
   const handleExport = async (options: ExportOptions) => {
       setShowExportModal(false);
+      if (exportBlockedReason) {
+          alert(`Export blocked: ${exportBlockedReason}`);
+          return;
+      }
+      if (isSvg && !svgContent) {
+          alert(`Export blocked: the SVG failed validation. ${svgCheck?.errors.join(' ') || ''}`);
+          return;
+      }
       try {
           if (options.format === 'svg' && isSvg) {
               // Export raw SVG
-              const blob = new Blob([svgContent], { type: 'image/svg+xml' });
+              const narrated = options.includeNarrative && image.narrative ? appendNarrativeToSvg(svgContent, image.narrative) : svgContent;
+              const exported = options.includeSources ? appendSourcesToSvg(narrated, image.citations || []) : narrated;
+              const blob = new Blob([exported], { type: 'image/svg+xml' });
               const url = URL.createObjectURL(blob);
               const link = document.createElement('a');
               link.href = url;
@@ -195,17 +384,26 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
               return;
           }
 
-          const canvas = await generateCanvas(options);
+          const canvas = await generateCanvas({ ...options, includeSources: options.includeSources && options.format !== 'pdf', includeNarrative: options.includeNarrative && options.format !== 'pdf' });
           const mimeType = options.format === 'jpg' ? 'image/jpeg' : 'image/png';
           const dataUrl = canvas.toDataURL(mimeType, options.quality);
 
           if (options.format === 'pdf') {
              const win = window.open('', '_blank');
              if (win) {
+                 // The print page carries the narrative and sources as text instead of drawing them into the image
+                 const narrative = options.includeNarrative && image.narrative ? narrativeToHtml(image.narrative) : '';
+                 const sources = options.includeSources && image.citations?.length
+                     ? `<section style="page-break-before:always; font-family:sans-serif; padding:32px; background:#fff;"><h2>Sources</h2><ol>${image.citations.map(c => `<li value="${c.id}">${isWebUrl(c.url) ? `<a href="${escapeXml(c.url)}">${escapeXml(c.title)}</a>` : `${escapeXml(c.title)} (${escapeXml(c.url)})`} — ${escapeXml(c.domain)}</li>`).join('')}</ol></section>`
+                     : '';
                  win.document.write(`
                     <html>
-                        <body style="margin:0; display:flex; justify-content:center; align-items:center; height:100vh; background:#555;">
-                            <img src="${dataUrl}" style="max-width:100%; max-height:100%; box-shadow: 0 0 20px rgba(0,0,0,0.5);" />
+                        <body style="margin:0; background:#555;">
+                            <div style="display:flex; justify-content:center; align-items:center; height:100vh;">
+                                <img src="${dataUrl}" style="max-width:100%; max-height:100%; box-shadow: 0 0 20px rgba(0,0,0,0.5);" />
+                            </div>
+                            ${narrative}
+                            ${sources}
                             <script>setTimeout(() => window.print(), 500);</script>
                         </body>
                     </html>
@@ -359,7 +557,7 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
   };
 
   const handleImageClick = (e: React.MouseEvent) => {
-    if (isDragging || isResizing) return;
+    if (isDragging || isResizing || activeTool === 'select') return;
 
     // Deselect if clicking empty space
     if (activeTool === 'none') {
@@ -433,8 +631,16 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
         ref={imageContainerRef}
         className={`relative group w-full bg-slate-100 dark:bg-slate-900 rounded-lg overflow-hidden shadow-2xl border border-slate-200 dark:border-slate-700/50 ${activeTool !== 'none' ? 'cursor-crosshair' : 'cursor-default'}`}
         onClick={handleImageClick}
+        onPointerDown={handleSelectPointerDown}
+        onPointerMove={handleSelectPointerMove}
+        onPointerUp={handleSelectPointerUp}
         style={{ minHeight: '300px' }}
       >
+        {isPreview && (
+          <div className="absolute bottom-3 right-3 z-30 px-2.5 py-1 rounded-full bg-blue-600 text-white text-[10px] font-bold uppercase tracking-wider shadow-lg animate-pulse pointer-events-none">
+            Live Preview
+          </div>
+        )}
         {/* Dynamic Grid Overlay (visible only during drag) */}
         {isDragging && (
           <div 
@@ -447,9 +653,15 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
           />
         )}
 
-        {isSvg ? (
+        {isSvg && !svgContent ? (
+            <div className="w-full aspect-video relative z-10 flex flex-col items-center justify-center gap-2 p-8 text-center bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300">
+                <p className="font-bold text-sm">This version failed SVG validation and was not rendered.</p>
+                <p className="text-xs opacity-80">{svgCheck?.errors.join(' ')}</p>
+            </div>
+        ) : isSvg ? (
              /* Inline SVG Rendering for Interactivity */
             <div 
+                ref={svgHostRef}
                 className={`w-full h-auto max-h-[70vh] relative z-10 select-none transition-opacity duration-300 ${isDragging ? 'opacity-70' : 'opacity-100'}`}
                 dangerouslySetInnerHTML={{ __html: svgContent }}
             />
@@ -462,6 +674,15 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
             />
         )}
 
+        {/* Layout sketch, stretched over the output for comparison */}
+        {showSketchOverlay && layoutReference && (
+            <img
+                src={layoutReference}
+                alt="Layout sketch overlay"
+                className="absolute inset-0 w-full h-full object-fill z-[12] pointer-events-none select-none mix-blend-multiply dark:mix-blend-screen"
+                style={{ opacity: sketchOpacity }}
+            />
+        )}
 
         {/* Annotations */}
         {annotations.map(ann => {
@@ -703,6 +924,35 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
             </div>
         ))}
         
+        {/* Element Selection */}
+        {selectionBox && (
+            <div
+                className="absolute z-[24] pointer-events-none border-2 border-dashed border-blue-500 bg-blue-500/10 rounded-sm"
+                style={{ left: `${selectionBox.x}%`, top: `${selectionBox.y}%`, width: `${selectionBox.w}%`, height: `${selectionBox.h}%` }}
+            />
+        )}
+        {lasso && (
+            <div
+                className="absolute z-[26] pointer-events-none border border-blue-600 bg-blue-600/10"
+                style={{ left: Math.min(lasso.x0, lasso.x1), top: Math.min(lasso.y0, lasso.y1), width: Math.abs(lasso.x1 - lasso.x0), height: Math.abs(lasso.y1 - lasso.y0) }}
+            />
+        )}
+
+        {/* Check Highlights */}
+        {highlights.map(h => {
+            const isActive = activeHighlightId === h.id;
+            const color = h.tone === 'error' ? 'bg-red-500 ring-red-500/30' : h.tone === 'warning' ? 'bg-amber-400 ring-amber-400/30' : 'bg-emerald-500 ring-emerald-500/20';
+            return (
+                <button
+                    key={h.id}
+                    className={`absolute z-[25] -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white shadow transition-all ${color} ${isActive ? 'w-5 h-5 ring-8 animate-pulse' : 'w-3 h-3 ring-4 hover:scale-150'}`}
+                    style={{ left: `${h.x}%`, top: `${h.y}%` }}
+                    title={h.label}
+                    onClick={(e) => { e.stopPropagation(); onSelectHighlight?.(h.id); }}
+                />
+            );
+        })}
+
         {/* Comment Collapsible Sidebar */}
         {showCommentSidebar && (
              <div className="absolute top-0 right-0 bottom-0 w-80 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl shadow-[-10px_0_30px_rgba(0,0,0,0.1)] border-l border-slate-200 dark:border-white/10 p-5 z-[70] overflow-y-auto animate-in slide-in-from-right duration-500 flex flex-col" onClick={(e) => e.stopPropagation()}>
@@ -798,40 +1048,46 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
       {/* Control Bar */}
       <div className="w-full mt-6 bg-white dark:bg-slate-800 p-4 rounded-2xl shadow-xl border border-slate-200 dark:border-white/10 flex flex-col gap-5">
           
-          {/* Top Row: AI Command Center */}
-          <div className="flex gap-3">
-            <form onSubmit={handleSubmit} className="flex-1 flex gap-3">
-                <div className="relative flex-1">
-                   <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none">
-                      <RotateCcw className="w-4 h-4 text-blue-500 animate-pulse" />
-                   </div>
-                   <input 
-                        value={editPrompt}
-                        onChange={(e) => setEditPrompt(e.target.value)}
-                        placeholder="Refine dashboard (e.g. 'Use dark charts', 'Add a user growth sidebar')..."
-                        className="w-full bg-slate-50 dark:bg-slate-900 pl-11 pr-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 text-sm focus:ring-2 focus:ring-blue-900/20 outline-none text-slate-900 dark:text-white placeholder:text-slate-400 transition-shadow"
-                        disabled={isEditing}
-                    />
-                </div>
-                <button type="submit" disabled={isEditing || !editPrompt.trim()} className="bg-blue-900 text-white px-6 py-3 rounded-xl text-sm font-bold hover:bg-blue-800 disabled:opacity-50 transition-all shadow-lg shadow-blue-900/20 active:scale-95 flex items-center gap-2">
-                    {isEditing ? <RotateCcw className="w-4 h-4 animate-spin" /> : <RotateCw className="w-4 h-4" />}
-                    <span>{isEditing ? 'Syncing...' : 'AI Refine'}</span>
-                </button>
-            </form>
-            
-            {/* Export Quick Access */}
-            <div className="relative">
-                <Tooltip content="Export Visual (PNG, JPG, PDF, SVG)" position="top">
-                    <button 
-                        onClick={() => setShowExportModal(true)}
-                        className="h-full px-5 rounded-xl border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-slate-700 dark:text-slate-300 font-bold text-sm transition-all shadow-sm"
-                    >
-                        <Download className="w-4 h-4" />
-                        <span className="hidden sm:inline">Export</span>
-                    </button>
-                </Tooltip>
+          {selection && (
+            <div className="flex items-center gap-2 -mb-2 text-xs">
+              <span className="px-2.5 py-1 rounded-lg bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 font-bold flex items-center gap-1.5 min-w-0">
+                <SquareDashedMousePointer className="w-3.5 h-3.5 shrink-0" />
+                <span className="truncate font-mono">Editing only {selection.label}</span>
+              </span>
+              <button onClick={selectParent} disabled={selection.path.length <= 1} className="px-2 py-1 rounded-lg text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-30 flex items-center gap-1 font-bold" title="Select the enclosing group">
+                <ChevronsUp className="w-3.5 h-3.5" /> Parent
+              </button>
+              <button onClick={clearSelection} className="p-1 rounded-lg text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700" title="Clear selection">
+                <X className="w-3.5 h-3.5" />
+              </button>
             </div>
-          </div>
+          )}
+
+          {/* Top Row: AI Command Center */}
+          <EditThread
+              turns={thread}
+              history={history}
+              currentImageId={image.id}
+              isSending={isEditing}
+              placeholder={selection ? "Describe the change to the selected element..." : thread.length > 0 ? "Refine further, or refer to an earlier edit (e.g. 'undo the color change')..." : "Refine dashboard (e.g. 'Use dark charts', 'Add a user growth sidebar')..."}
+              onSend={handleSend}
+              onOpenVersion={onJumpToHistory}
+              actions={
+                  /* Export Quick Access */
+                  <div className="relative">
+                      <Tooltip content={exportBlockedReason || "Export Visual (PNG, JPG, PDF, SVG)"} position="top">
+                          <button 
+                              onClick={() => setShowExportModal(true)}
+                              disabled={isPreview || !!exportBlockedReason}
+                              className="disabled:opacity-50 h-full px-5 rounded-xl border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 flex items-center gap-2 text-slate-700 dark:text-slate-300 font-bold text-sm transition-all shadow-sm"
+                          >
+                              <Download className="w-4 h-4" />
+                              <span className="hidden sm:inline">Export</span>
+                          </button>
+                      </Tooltip>
+                  </div>
+              }
+          />
 
           <div className="h-px bg-slate-100 dark:bg-slate-700 w-full"></div>
 
@@ -848,6 +1104,15 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
                         <Type size={16}/> <span className="hidden sm:inline">Text</span>
                     </button>
                 </Tooltip>
+                <Tooltip content="Select Element (click or lasso) for a targeted edit" position="top">
+                    <button 
+                      onClick={() => setActiveTool(activeTool === 'select' ? 'none' : 'select')} 
+                      disabled={!svgContent || isPreview}
+                      className={`px-4 py-2.5 rounded-xl flex items-center gap-2 text-xs font-bold uppercase tracking-widest transition-all disabled:opacity-30 ${activeTool === 'select' ? 'bg-blue-100 text-blue-900 dark:bg-blue-900/50 dark:text-blue-300 ring-2 ring-blue-500/50 shadow-md' : 'text-slate-500 hover:bg-slate-50 dark:hover:bg-slate-900'}`} 
+                    >
+                        <SquareDashedMousePointer size={16}/> <span className="hidden sm:inline">Select</span>
+                    </button>
+                </Tooltip>
                 <Tooltip content="Pin Comment" position="top">
                     <button 
                       onClick={() => setActiveTool(activeTool === 'comment' ? 'none' : 'comment')} 
@@ -867,6 +1132,30 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
                         <Sidebar size={18}/>
                     </button>
                 </Tooltip>
+                {layoutReference && (
+                    <>
+                        <Tooltip content="Overlay Layout Sketch" position="top">
+                            <button 
+                              onClick={() => setShowSketchOverlay(prev => !prev)} 
+                              className={`p-2.5 rounded-xl transition-all ${showSketchOverlay ? 'bg-slate-100 dark:bg-slate-700 text-blue-600 scale-110' : 'text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-900'}`} 
+                            >
+                                <PencilRuler size={18}/>
+                            </button>
+                        </Tooltip>
+                        {showSketchOverlay && (
+                            <input
+                              type="range"
+                              min={0.1}
+                              max={0.9}
+                              step={0.1}
+                              value={sketchOpacity}
+                              onChange={e => setSketchOpacity(Number(e.target.value))}
+                              className="w-20 accent-blue-600"
+                              title="Sketch opacity"
+                            />
+                        )}
+                    </>
+                )}
             </div>
 
             <div className="w-px h-8 bg-slate-200 dark:bg-slate-700 shrink-0"></div>
@@ -888,6 +1177,7 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
                         {history.map((h, i) => {
                             const isCurrent = i === currentIndex;
                             const dateLabel = new Date(h.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+                            const persona = resolvePersona(h.persona);
                             return (
                                 <button 
                                     key={h.id} 
@@ -899,7 +1189,7 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
                                             : 'border-slate-200 dark:border-slate-700 opacity-60 hover:opacity-100 hover:border-blue-400 hover:scale-105'
                                         }
                                     `}
-                                    title={`Rev ${history.length - i}: ${h.prompt.substring(0, 50)}${h.prompt.length > 50 ? '...' : ''} (${dateLabel})`}
+                                    title={`Rev ${history.length - i}: ${h.prompt.substring(0, 50)}${h.prompt.length > 50 ? '...' : ''} (${dateLabel})${h.template ? ` • Template: ${formatTemplateRef(h.template)}` : ''}${h.origin ? ` • ${formatOrigin(h.origin)}` : ''}${h.variant ? ` • Variant ${h.variant.index + 1} of ${h.variant.total}` : ''}${h.locale ? ` • ${getLocaleOption(h.locale).language}` : ''}${persona ? ` • Persona: ${persona.label}` : ''}`}
                                 >
                                     <img 
                                         src={h.data} 
@@ -907,6 +1197,13 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
                                         className="w-full h-full object-cover bg-slate-100 dark:bg-slate-800" 
                                         loading="lazy"
                                     />
+
+                                    {h.locale && h.locale !== DEFAULT_LOCALE && (
+                                        <span className="absolute bottom-0.5 left-0.5 px-1 rounded bg-slate-900/70 text-white text-[8px] font-bold uppercase leading-tight">{h.locale.split('-')[0]}</span>
+                                    )}
+                                    {persona && (
+                                        <span className="absolute bottom-0.5 right-0.5 px-1 rounded bg-blue-600/80 text-white text-[8px] font-bold uppercase leading-tight">{persona.label.split(' ').map(w => w[0]).join('')}</span>
+                                    )}
                                     
                                     {/* Selection Overlay */}
                                     {isCurrent && (
@@ -961,6 +1258,8 @@ const DashboardCanvas: React.FC<DashboardCanvasProps> = ({
         onClose={() => setShowExportModal(false)} 
         onExport={handleExport}
         isSvg={isSvg}
+        sourceCount={image.citations?.length || 0}
+        hasNarrative={!!image.narrative}
       />
 
     </div>
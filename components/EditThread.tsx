@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { EditTurn, GeneratedImage } from '../types';
+import { versionLabel } from '../lib/thread';
+import { RotateCcw, RotateCw, MessagesSquare, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface EditThreadProps {
+  turns: EditTurn[];
+  history: GeneratedImage[];
+  currentImageId?: string;
+  isSending: boolean;
+  placeholder: string;
+  onSend: (text: string) => void;
+  onOpenVersion?: (index: number) => void;
+  actions?: React.ReactNode; // Extra controls at the end of the composer row
+}
+
+const EditThread: React.FC<EditThreadProps> = ({ turns, history, currentImageId, isSending, placeholder, onSend, onOpenVersion, actions }) => {
+  const [draft, setDraft] = useState('');
+  const [expanded, setExpanded] = useState(true);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [turns.length, expanded]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    onSend(draft);
+    setDraft('');
+  };
+
+  const versionLink = (imageId?: string) => {
+    const label = versionLabel(history, imageId);
+    if (!label) return null;
+    const index = history.findIndex(h => h.id === imageId);
+    const isCurrent = imageId === currentImageId;
+    return (
+      <button
+        onClick={() => onOpenVersion?.(index)}
+        disabled={!onOpenVersion || isCurrent}
+        className={`font-bold ${isCurrent ? 'text-blue-700 dark:text-blue-300' : 'text-slate-500 hover:text-blue-600 hover:underline'}`}
+        title={isCurrent ? 'Currently shown' : 'Show this version'}
+      >
+        {label}
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-2 min-w-0">
+      {turns.length > 0 && (
+        <div>
+          <button
+            onClick={() => setExpanded(e => !e)}
+            className="text-[10px] font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1 hover:text-slate-600 dark:hover:text-slate-300"
+          >
+            <MessagesSquare className="w-3 h-3" /> Edit thread ({turns.filter(t => t.role === 'user').length})
+            {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          </button>
+          {expanded && (
+            <div ref={listRef} className="mt-2 max-h-56 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+              {turns.map(turn => turn.role === 'user' ? (
+                <div key={turn.id} className="flex justify-end">
+                  <div className="max-w-[80%] px-3 py-2 rounded-xl rounded-br-sm bg-blue-900 text-white text-xs">
+                    <p className="whitespace-pre-wrap break-words">{turn.text}</p>
+                    <p className="mt-1 text-[10px] text-blue-200">
+                      {turn.author || 'You'}{versionLabel(history, turn.imageId) && ` • on ${versionLabel(history, turn.imageId)}`}{turn.target && ` • ${turn.target}`}
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <div key={turn.id} className="flex justify-start">
+                  <div className={`max-w-[80%] px-3 py-2 rounded-xl rounded-bl-sm text-xs ${turn.failed ? 'bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300' : 'bg-slate-100 dark:bg-slate-900 text-slate-700 dark:text-slate-200'}`}>
+                    <p className="whitespace-pre-wrap break-words">{turn.text}</p>
+                    {!turn.failed && turn.imageId && (
+                      <p className="mt-1 text-[10px] text-slate-400">Created {versionLink(turn.imageId) || 'a version that was removed'}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <form onSubmit={handleSubmit} className="flex-1 flex gap-3">
+          <div className="relative flex-1">
+            <div className="absolute inset-y-0 left-4 flex items-center pointer-events-none">
+              <RotateCcw className="w-4 h-4 text-blue-500 animate-pulse" />
+            </div>
+            <input
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={placeholder}
+              className="w-full bg-slate-50 dark:bg-slate-900 pl-11 pr-4 py-3 rounded-xl border border-slate-200 dark:border-slate-700 text-sm focus:ring-2 focus:ring-blue-900/20 outline-none text-slate-900 dark:text-white placeholder:text-slate-400 transition-shadow"
+              disabled={isSending}
+            />
+          </div>
+          <button type="submit" disabled={isSending || !draft.trim()} className="bg-blue-900 text-white px-6 py-3 rounded-xl text-sm font-bold hover:bg-blue-800 disabled:opacity-50 transition-all shadow-lg shadow-blue-900/20 active:scale-95 flex items-center gap-2">
+            {isSending ? <RotateCcw className="w-4 h-4 animate-spin" /> : <RotateCw className="w-4 h-4" />}
+            <span>{isSending ? 'Syncing...' : 'AI Refine'}</span>
+          </button>
+        </form>
+        {actions}
+      </div>
+    </div>
+  );
+};
+
+export default EditThread;
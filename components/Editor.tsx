@@ -2,22 +2,43 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect } from 'react';
-import { Project, ComplexityLevel, VisualStyle, DataSource, GeneratedImage, Annotation, Comment, BrandKit } from '../types';
-import { analyzeDashboardRequirements, generateDashboardImage, editDashboardImage, AIError } from '../lib/gemini';
-import { generateThumbnail } from '../lib/image';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Project, ComplexityLevel, VisualStyle, DataSource, GeneratedImage, Annotation, Comment, BrandKit, BrandComplianceConfig, DashboardSpec, GenerationProgress, SvgSelection, AnalysisResult, EditTurn, Narrative, LayoutReference } from '../types';
+import { analyzeDashboardRequirements, generateDashboardImage, generateDashboardVariants, editDashboardImage, translateDashboardImage, generateNarrative, renderSpecToDataUri, AIError, MAX_VARIANTS } from '../lib/gemini';
+import { generateThumbnail, checkImageUpload, readFileAsDataUrl, IMAGE_UPLOAD_TYPES } from '../lib/image';
+import { setUsageProject } from '../lib/usage';
+import { verifyDashboardFidelity, buildFidelityFixInstruction, isFidelityIssue } from '../lib/fidelity';
+import { auditAccessibility, applyAccessibilityFixes, buildAccessibilityFixInstruction, wcagLevelFor } from '../lib/accessibility';
+import { lintBrandCompliance, snapToBrand, getBrandComplianceConfig, DEFAULT_BRAND_COMPLIANCE } from '../lib/brand';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, getLocaleOption } from '../lib/locale';
+import { PERSONA_PROFILES, resolvePersona, describePersona, setProjectPersona } from '../lib/persona';
+import { inspectDataSource, needsConfirmation, confirmInjectionWarning, describeFindings, buildDataContext } from '../lib/untrusted';
+import { collectCitations, buildCitationContext } from '../lib/citations';
+import { formatAnalysisForPrompt } from '../lib/bindings';
+import { parseSampleData } from '../lib/data';
+import { createTurn, formatThreadForPrompt } from '../lib/thread';
 import { db } from '../lib/db';
-import DashboardCanvas from './DashboardCanvas'; 
+import DashboardCanvas, { CanvasHighlight } from './DashboardCanvas'; 
 import DataConnectors from './DataConnectors';
 import BrandKitEditor from './BrandKitEditor';
+import SpecEditor from './SpecEditor';
 import Loading from './Loading';
-import { AlertCircle, ArrowLeft, Database, FileSpreadsheet, CheckCircle2, Save, Plus, Settings, Layers, X, Play, Palette, Undo2, Redo2 } from 'lucide-react';
+import VariantGrid from './VariantGrid';
+import FidelityPanel from './FidelityPanel';
+import AccessibilityPanel from './AccessibilityPanel';
+import BrandCompliancePanel from './BrandCompliancePanel';
+import NarrativePanel from './NarrativePanel';
+import BindingReview from './BindingReview';
+import ObjectiveInput from './ObjectiveInput';
+import { AlertCircle, ArrowLeft, Database, FileSpreadsheet, CheckCircle2, Save, Plus, Settings, Layers, X, Play, Palette, Undo2, Redo2, Archive, ShieldCheck, AlertTriangle, Accessibility, BadgeCheck, Languages, ScrollText, PencilRuler, RefreshCw } from 'lucide-react';
 
 interface EditorProps {
   projectId: string | null;
   onBack: () => void;
 }
 
+const SKETCH_MAX_SIZE = 1600; // Layout sketches are downscaled to this many pixels per side
+
 const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
   // --- State ---
   const [internalProjectId] = useState<string>(projectId || Date.now().toString());
@@ -29,7 +50,17 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
   const [style, setStyle] = useState<VisualStyle>('Modern SaaS');
   const [aspectRatio, setAspectRatio] = useState('16:9');
   const [colorPalette, setColorPalette] = useState('Brand Default');
+  const [locale, setLocale] = useState(DEFAULT_LOCALE);
+  const [persona, setPersona] = useState(''); // Project override; empty uses the user's persona
+  const [userPersona, setUserPersona] = useState<string | undefined>();
+  const [bypassCache, setBypassCache] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [reviewBindings, setReviewBindings] = useState(true);
   const [brandKit, setBrandKit] = useState<BrandKit | undefined>();
+  const [brandCompliance, setBrandCompliance] = useState<BrandComplianceConfig>(DEFAULT_BRAND_COMPLIANCE);
+  const [layoutReference, setLayoutReference] = useState<LayoutReference | undefined>();
+  const [sketchError, setSketchError] = useState<string | null>(null);
+  const sketchInputRef = useRef<HTMLInputElement>(null);
   
   // Canvas State (Lifted Up)
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
@@ -37,14 +68,35 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
 
   // Generation State
   const [isLoading, setIsLoading] = useState(false);
-  const [loadingMessage, setLoadingMessage] = useState('');
-  const [loadingStep, setLoadingStep] = useState(0);
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const [previewData, setPreviewData] = useState<string | null>(null);
   const [analysisFacts, setAnalysisFacts] = useState<string[]>([]);
   const [error, setError] = useState<{ message: string; type?: string; action?: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   
   // History
   const [history, setHistory] = useState<GeneratedImage[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const [editThread, setEditThread] = useState<EditTurn[]>([]);
+
+  // Variants: a fresh multi-variant run awaiting a decision, and previously discarded ones
+  const [pendingVariants, setPendingVariants] = useState<GeneratedImage[]>([]);
+  const [variantFailures, setVariantFailures] = useState<string[]>([]);
+  const [alternatives, setAlternatives] = useState<GeneratedImage[]>([]);
+  const [showAlternatives, setShowAlternatives] = useState(false);
+
+  // Side panels (data fidelity, accessibility, brand, narrative); one is open at a time and owns the canvas highlights
+  const [checkPanel, setCheckPanel] = useState<'FIDELITY' | 'ACCESSIBILITY' | 'BRAND' | 'NARRATIVE' | null>(null);
+  const [isNarrating, setIsNarrating] = useState(false);
+  // Set when an async result has been merged into history by version id; the next render saves from current state
+  const [historySavePending, setHistorySavePending] = useState(false);
+  const [activeFindingId, setActiveFindingId] = useState<string | null>(null);
+
+  // Sources flagged for instruction-like content, awaiting the user's decision before the action that sends them
+  const [injectionReview, setInjectionReview] = useState<{ sources: DataSource[]; action: 'GENERATE' | 'NARRATIVE' } | null>(null);
+
+  // Analysis awaiting binding review before the render step
+  const [pendingAnalysis, setPendingAnalysis] = useState<{ analysis: AnalysisResult; sources: DataSource[] } | null>(null);
   
   // UI State
   const [showDataModal, setShowDataModal] = useState(false);
@@ -84,10 +136,36 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
     }
   }, [projectId]);
 
+  // Attribute model usage from this editor session to the open project
+  useEffect(() => {
+    setUsageProject(internalProjectId);
+    return () => setUsageProject(undefined);
+  }, [internalProjectId]);
+
+  // Prompts from this editor session follow the project's persona override, if any
+  useEffect(() => {
+    setProjectPersona(persona || undefined);
+    return () => setProjectPersona(undefined);
+  }, [persona]);
+
+  useEffect(() => {
+    db.getCurrentUser().then(user => setUserPersona(user?.persona)).catch(() => undefined);
+  }, []);
+
+  // Leaving the editor cancels any generation still in flight
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!historySavePending) return;
+    setHistorySavePending(false);
+    saveProjectState();
+  }, [historySavePending]);
+
   const loadBrandKit = async () => {
     try {
       const kit = await db.getBrandKit();
       setBrandKit(kit);
+      setBrandCompliance(await getBrandComplianceConfig());
     } catch (e) {
       console.error("Failed to load brand kit", e);
     }
@@ -104,7 +182,12 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
         setStyle(p.style);
         setAspectRatio(p.aspectRatio || '16:9');
         setColorPalette(p.colorPalette || 'Brand Default');
+        setLocale(p.locale || DEFAULT_LOCALE);
+        setPersona(p.persona || '');
+        setLayoutReference(p.layoutReference);
         setDataSources(p.dataSources || []);
+        setAlternatives(p.alternatives || []);
+        setEditThread(p.editThread || []);
         
         // Restore Canvas State
         if (p.canvasState) {
@@ -142,7 +225,7 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
       setTimeout(() => setIsSaving(false), 800);
   };
 
-  const saveProjectState = async (newImage?: string) => {
+  const saveProjectState = async (newImage?: string, nextHistory: GeneratedImage[] = history, nextAlternatives: GeneratedImage[] = alternatives, nextSources: DataSource[] = dataSources, nextThread: EditTurn[] = editThread) => {
       const currentImg = newImage || (history[currentIndex]?.data);
       
       let thumbnail = project?.thumbnail;
@@ -160,16 +243,21 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
           title: objective || "Untitled Dashboard",
           createdAt: project?.createdAt || Date.now(),
           updatedAt: Date.now(),
-          dataSources,
+          dataSources: nextSources,
           prompt: objective,
           targetAudience,
           level,
           style,
           aspectRatio,
           colorPalette,
+          locale,
+          persona: persona || undefined,
+          layoutReference,
           canvasState: { annotations, comments },
           thumbnail: thumbnail,
-          history: history // Persist entire history stack
+          history: nextHistory, // Persist entire history stack
+          alternatives: nextAlternatives,
+          editThread: nextThread
       };
       
       if (!project) await db.createProject(p);
@@ -182,80 +270,139 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
 
   // --- Handlers ---
 
-  const handleConnectSource = (source: DataSource) => {
-    const updated = [...dataSources, source];
+  const handleConnectSource = async (source: DataSource) => {
+    const checked = inspectDataSource(source);
+    if (checked.injection) await logSecurityEvent(describeFindings(checked, checked.injection.findings), checked.id);
+    const updated = [...dataSources, checked];
     setDataSources(updated);
-    db.addDataSource(source);
+    db.addDataSource(checked);
     setShowDataModal(false);
-    saveProjectState();
+    saveProjectState(undefined, history, alternatives, updated);
+  };
+
+  // Keeps the last renderable preview; progress events without one only update stage and bytes.
+  const handleProgress = (p: GenerationProgress) => {
+    setProgress(p);
+    if (p.preview) setPreviewData(p.preview);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Cancelled runs leave history untouched; only the audit trail records them.
+  const logCancellation = async (details: string) => {
+    const user = await db.getCurrentUser();
+    await db.logAudit({
+        id: crypto.randomUUID(),
+        userId: user?.id || 'sys',
+        userName: user?.name || 'System',
+        action: 'CANCEL',
+        details,
+        timestamp: Date.now()
+    });
+  };
+
+  const logSecurityEvent = async (details: string, resourceId: string) => {
+    const user = await db.getCurrentUser();
+    await db.logAudit({
+        id: crypto.randomUUID(),
+        userId: user?.id || 'sys',
+        userName: user?.name || 'System',
+        action: 'SECURITY',
+        resourceId,
+        resourceType: 'DATA_SOURCE',
+        details,
+        timestamp: Date.now()
+    });
+  };
+
+  // Re-scans connected data before it reaches a prompt; new detections are audited and the warnings persisted.
+  const inspectSources = async (sources: DataSource[]): Promise<DataSource[]> => {
+    const inspected = sources.map(inspectDataSource);
+    if (inspected.every((s, i) => s === sources[i])) return sources;
+    for (const s of inspected) {
+        if (s.injection && s.injection !== sources.find(o => o.id === s.id)?.injection) {
+            await logSecurityEvent(describeFindings(s, s.injection.findings), s.id);
+        }
+    }
+    setDataSources(inspected);
+    await saveProjectState(undefined, history, alternatives, inspected);
+    return inspected;
   };
 
-  const handleGenerate = async () => {
+  const handleConfirmInjection = async () => {
+    if (!injectionReview) return;
+    const user = await db.getCurrentUser();
+    const { sources, action } = injectionReview;
+    const reviewed = new Set(sources.map(s => s.id));
+    const confirmed = dataSources.map(s => reviewed.has(s.id) && s.injection ? { ...s, injection: confirmInjectionWarning(s.injection, user?.name || 'System') } : s);
+    const what = action === 'NARRATIVE' ? 'Narrative' : 'Generation';
+    for (const s of sources) await logSecurityEvent(`${what} confirmed despite flagged content in "${s.name}"`, s.id);
+    setInjectionReview(null);
+    setDataSources(confirmed);
+    await saveProjectState(undefined, history, alternatives, confirmed);
+    if (action === 'NARRATIVE') handleGenerateNarrative(confirmed);
+    else handleGenerate(confirmed);
+  };
+
+  // `confirmedSources` is passed once the user has reviewed flagged content, so it is not re-checked.
+  const handleGenerate = async (confirmedSources?: DataSource[]) => {
     if (isLoading || !objective.trim()) return;
 
-    setIsLoading(true);
-    setLoadingStep(1);
-    setLoadingMessage("Analyzing real-time data streams...");
+    const sources = confirmedSources || await inspectSources(dataSources);
+    const flagged = sources.filter(needsConfirmation);
+    if (flagged.length > 0) {
+        setInjectionReview({ sources: flagged, action: 'GENERATE' });
+        return;
+    }
+
     setAnalysisFacts([]);
+    await runGeneration(async signal => {
+        // Construct rich context with actual sample data, delimited as untrusted content
+        const dataContext = buildDataContext(sources);
+        const analysis = await analyzeDashboardRequirements(objective, dataContext, level, style, brandKit, targetAudience, handleProgress, signal, bypassCache, sources);
+        setAnalysisFacts(describeAnalysis(analysis));
+
+        // Bindings are only worth reviewing when there are columns to bind to
+        if (reviewBindings && sources.some(s => parseSampleData(s.sampleData))) {
+            setPendingAnalysis({ analysis, sources });
+            return;
+        }
+        await renderAnalysis(analysis, sources, signal);
+    });
+  };
+
+  const handleConfirmBindings = (analysis: AnalysisResult) => {
+    if (!pendingAnalysis) return;
+    const { sources } = pendingAnalysis;
+    setPendingAnalysis(null);
+    setAnalysisFacts(describeAnalysis(analysis));
+    runGeneration(signal => renderAnalysis(analysis, sources, signal));
+  };
+
+  const describeAnalysis = (analysis: AnalysisResult): string[] => [
+    `Strategy: ${analysis.dashboardStrategy}`,
+    `KPIs: ${analysis.kpis.map(k => k.label).join(', ')}`,
+    `Visuals: ${analysis.suggestedCharts.map(c => `${c.title} (${c.type})`).join(', ')}`
+  ];
+
+  // Shared loading, cancellation and error handling for the analysis and render steps.
+  const runGeneration = async (task: (signal: AbortSignal) => Promise<void>) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsLoading(true);
+    setProgress(null);
+    setPreviewData(null);
     setError(null);
 
     try {
-        // Construct rich context with actual sample data
-        const dataContext = dataSources.map(d => `
-        SOURCE: ${d.name} (${d.type})
-        SAMPLE DATA: 
-        ${d.sampleData || 'No specific rows, use mock data.'}
-        `).join('\n---\n');
-        
-        const analysis = await analyzeDashboardRequirements(objective, dataContext, level, style, brandKit, targetAudience);
-        setAnalysisFacts([
-            `Strategy: ${analysis.dashboardStrategy}`,
-            `KPIs: ${analysis.kpis.join(', ')}`,
-            `Visuals: ${analysis.suggestedCharts.join(', ')}`
-        ]);
-
-        setLoadingStep(2);
-        setLoadingMessage("Architecting multi-page layout...");
-        
-        await new Promise(r => setTimeout(r, 1500)); // Visual pacing
-
-        setLoadingStep(3);
-        setLoadingMessage("Rendering interactive SVG components...");
-
-        const promptContext = `
-            Strategy: ${analysis.dashboardStrategy}
-            KPIs to show: ${analysis.kpis.join(', ')}
-            Charts to render: ${analysis.suggestedCharts.join(', ')}
-            
-            REAL DATA TO VISUALIZE:
-            ${dataContext}
-        `;
-        const base64 = await generateDashboardImage(promptContext, style, brandKit, aspectRatio, colorPalette, targetAudience);
-
-        setLoadingStep(4);
-        setLoadingMessage("Finalizing UI...");
-
-        const newImage: GeneratedImage = {
-            id: Date.now().toString(),
-            data: base64,
-            prompt: objective,
-            targetAudience,
-            timestamp: Date.now(),
-            level,
-            style,
-            aspectRatio,
-            colorPalette
-        };
-        
-        // Push new image to history stack
-        const newHistory = [newImage, ...history];
-        setHistory(newHistory);
-        setCurrentIndex(0);
-        
-        // Save project with new history
-        await saveProjectState(base64);
-
+        await task(controller.signal);
     } catch (err: any) {
+        if (err instanceof AIError && err.type === 'CANCELLED') {
+            await logCancellation(`Cancelled generation: "${objective.slice(0, 80)}"`);
+            return;
+        }
         console.error(err);
         if (err instanceof AIError) {
             let action = "Please try again.";
@@ -266,51 +413,442 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
             setError({ message: err.message || "An unexpected error occurred during generation." });
         }
     } finally {
+        abortRef.current = null;
         setIsLoading(false);
-        setLoadingStep(0);
+        setProgress(null);
+        setPreviewData(null);
+    }
+  };
+
+  const renderAnalysis = async (analysis: AnalysisResult, sources: DataSource[], signal: AbortSignal) => {
+    const dataContext = buildDataContext(sources);
+    const citations = collectCitations(sources);
+    const promptContext = `
+        ${formatAnalysisForPrompt(analysis, sources)}
+        
+        REAL DATA TO VISUALIZE:
+        ${dataContext}
+
+        ${buildCitationContext(citations)}
+    `;
+    if (variantCount > 1) {
+        await generateVariants(promptContext, analysis, sources, signal);
+        return;
     }
+
+    const result = await generateDashboardImage(promptContext, style, brandKit, aspectRatio, colorPalette, targetAudience, sources, handleProgress, signal, bypassCache, 'NORMAL', locale, layoutReference);
+
+    setProgress(p => ({ stage: 'FINALIZING', bytes: p?.bytes || 0 }));
+
+    const newImage: GeneratedImage = {
+        id: Date.now().toString(),
+        data: result.data,
+        prompt: objective,
+        targetAudience,
+        timestamp: Date.now(),
+        level,
+        style,
+        aspectRatio,
+        colorPalette,
+        locale,
+        analysis,
+        persona: result.persona,
+        spec: result.spec,
+        template: result.template,
+        origin: result.origin,
+        citations: citations.length > 0 ? citations : undefined
+    };
+    
+    // Push new image to history stack
+    const newHistory = [newImage, ...history];
+    setHistory(newHistory);
+    setCurrentIndex(0);
+    
+    // Save project with new history
+    await saveProjectState(result.data, newHistory);
   };
 
-  const handleEdit = async (editPrompt: string) => {
-      if (history.length === 0) return;
+  // Variants are held for comparison rather than pushed to history; the user decides which to promote.
+  const generateVariants = async (promptContext: string, analysis: AnalysisResult, sources: DataSource[], signal: AbortSignal) => {
+      const results = await generateDashboardVariants(variantCount, promptContext, style, brandKit, aspectRatio, colorPalette, targetAudience, sources, handleProgress, signal, bypassCache, locale, layoutReference);
+      const succeeded = results.filter(v => v.result);
+      if (succeeded.length === 0) throw results[0].error;
+
+      const groupId = Date.now().toString();
+      const citations = collectCitations(sources);
+      setPendingVariants(succeeded.map(v => ({
+          id: `${groupId}-${v.index}`,
+          data: v.result!.data,
+          prompt: objective,
+          targetAudience,
+          timestamp: Date.now(),
+          level,
+          style,
+          aspectRatio,
+          colorPalette,
+          locale,
+          analysis,
+          persona: v.result!.persona,
+          spec: v.result!.spec,
+          template: v.result!.template,
+          origin: v.result!.origin,
+          variant: { groupId, index: v.index, total: results.length, direction: v.direction },
+          citations: citations.length > 0 ? citations : undefined
+      })));
+      setVariantFailures(results.filter(v => v.error).map(v => `Variant ${v.index + 1} failed: ${v.error!.message}`));
+  };
+
+  const toAlternatives = (images: GeneratedImage[]): GeneratedImage[] =>
+      images.map(img => ({ ...img, variant: img.variant && { ...img.variant, discardedAt: Date.now() } }));
+
+  const fromAlternatives = (images: GeneratedImage[]): GeneratedImage[] =>
+      images.map(img => ({ ...img, variant: img.variant && { ...img.variant, discardedAt: undefined } }));
+
+  // Selected variants join history (first selected becomes current); the rest are kept as alternatives.
+  const handlePromoteVariants = async (ids: string[]) => {
+      const promoted = fromAlternatives(pendingVariants.filter(v => ids.includes(v.id)));
+      const discarded = toAlternatives(pendingVariants.filter(v => !ids.includes(v.id)));
+      const newHistory = [...promoted, ...history];
+      const newAlternatives = [...discarded, ...alternatives];
+      setPendingVariants([]);
+      setVariantFailures([]);
+      setHistory(newHistory);
+      setAlternatives(newAlternatives);
+      setCurrentIndex(0);
+      await saveProjectState(promoted[0]?.data, newHistory, newAlternatives);
+  };
+
+  const handleDiscardVariants = async () => {
+      const newAlternatives = [...toAlternatives(pendingVariants), ...alternatives];
+      setPendingVariants([]);
+      setVariantFailures([]);
+      setAlternatives(newAlternatives);
+      await saveProjectState(undefined, history, newAlternatives);
+  };
+
+  const handleRestoreAlternatives = async (ids: string[]) => {
+      const restored = fromAlternatives(alternatives.filter(v => ids.includes(v.id)));
+      const newHistory = [...restored, ...history];
+      const newAlternatives = alternatives.filter(v => !ids.includes(v.id));
+      setHistory(newHistory);
+      setAlternatives(newAlternatives);
+      setCurrentIndex(0);
+      setShowAlternatives(false);
+      await saveProjectState(restored[0]?.data, newHistory, newAlternatives);
+  };
+
+  // Each edit is a turn in the project's thread; the earlier turns go with the prompt so instructions can refer back to them.
+  // `baseHistory` edits its newest entry instead of the current version, for callers that just added one.
+  const handleEdit = async (editPrompt: string, target?: SvgSelection, baseHistory?: GeneratedImage[]) => {
+      const versions = baseHistory || history;
+      if (versions.length === 0) return;
+      const current = baseHistory ? baseHistory[0] : history[currentIndex];
+      const user = await db.getCurrentUser();
+      const threadContext = formatThreadForPrompt(editThread, versions, current.id);
+      const thread = [...editThread, createTurn('user', editPrompt, { author: user?.name, imageId: current.id, target: target?.label })];
+      setEditThread(thread);
+
+      const controller = new AbortController();
+      abortRef.current = controller;
       setIsLoading(true);
-      setLoadingStep(2);
-      setLoadingMessage("Analyzing revision request...");
+      setProgress(null);
+      setPreviewData(null);
+
+      const recordFailure = async (text: string) => {
+          const failed = [...thread, createTurn('assistant', text, { failed: true })];
+          setEditThread(failed);
+          await saveProjectState(undefined, versions, alternatives, dataSources, failed);
+      };
 
       try {
-          const base64 = await editDashboardImage(history[currentIndex].data, editPrompt, brandKit);
-          const newImage = { 
-              ...history[currentIndex], 
+          const result = await editDashboardImage(current.data, editPrompt, brandKit, handleProgress, controller.signal, target, threadContext);
+          // Free-form edits diverge from the spec, so the new version is no longer re-renderable.
+          const newImage: GeneratedImage = { 
+              ...current, 
               id: Date.now().toString(), 
-              data: base64, 
-              prompt: editPrompt, 
-              timestamp: Date.now() 
+              data: result.data, 
+              prompt: target ? `${editPrompt} (on ${target.label})` : editPrompt, 
+              timestamp: Date.now(),
+              spec: undefined,
+              template: result.template,
+              origin: result.origin,
+              persona: result.persona,
+              fidelity: undefined,
+              accessibility: undefined,
+              narrative: undefined
           };
           
-          setLoadingStep(4);
-          setLoadingMessage("Saving version snapshot...");
+          setProgress(p => ({ stage: 'FINALIZING', bytes: p?.bytes || 0 }));
 
-          const newHistory = [newImage, ...history];
+          const newHistory = [newImage, ...versions];
+          const nextThread = [...thread, createTurn('assistant', result.changes || 'Applied the edit.', { imageId: newImage.id })];
           setHistory(newHistory);
           setCurrentIndex(0);
-          await saveProjectState(base64);
+          setEditThread(nextThread);
+          await saveProjectState(result.data, newHistory, alternatives, dataSources, nextThread);
 
       } catch (err: any) {
+          if (err instanceof AIError && err.type === 'CANCELLED') {
+              await recordFailure('Edit cancelled.');
+              await logCancellation(`Cancelled edit: "${editPrompt.slice(0, 80)}"`);
+              return;
+          }
           console.error(err);
+          await recordFailure(`Edit failed: ${err.message || 'unknown error'}`);
           if (err instanceof AIError) {
               let action = "Please try again.";
               if (err.type === 'RATE_LIMIT') action = "Wait a moment before trying again.";
-              if (err.type === 'INVALID_PROMPT') action = "Try a different edit instruction.";
+              if (err.type === 'INVALID_PROMPT') action = target ? "Select the element again, or try a different instruction." : "Try a different edit instruction.";
+              if (err.type === 'INVALID_SVG') action = "The edited SVG was rejected by the safety check. Try rephrasing the instruction.";
               setError({ message: err.message, type: err.type, action });
           } else {
               setError({ message: err.message || "An unexpected error occurred during editing." });
           }
       } finally {
+          abortRef.current = null;
           setIsLoading(false);
-          setLoadingStep(0);
+          setProgress(null);
+          setPreviewData(null);
       }
   };
 
+  const handleApplyLayout = async (spec: DashboardSpec) => {
+      const current = history[currentIndex];
+      if (!current) return;
+      const data = renderSpecToDataUri(spec, current.style, brandKit, current.aspectRatio, current.colorPalette, dataSources, current.locale);
+      const newImage: GeneratedImage = {
+          ...current,
+          id: Date.now().toString(),
+          data,
+          prompt: 'Layout edit',
+          timestamp: Date.now(),
+          spec,
+          fidelity: undefined,
+          accessibility: undefined,
+          narrative: undefined
+      };
+      const newHistory = [newImage, ...history];
+      setHistory(newHistory);
+      setCurrentIndex(0);
+      await saveProjectState(data, newHistory);
+  };
+
+  // Only the text nodes change, so the translation is a version of its own rather than a regeneration.
+  const handleTranslate = async () => {
+      const current = history[currentIndex];
+      if (!current) return;
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsLoading(true);
+      setProgress(null);
+      setPreviewData(null);
+      try {
+          const result = await translateDashboardImage(current.data, locale, handleProgress, controller.signal);
+          setProgress(p => ({ stage: 'FINALIZING', bytes: p?.bytes || 0 }));
+          const translated: GeneratedImage = {
+              ...current,
+              id: Date.now().toString(),
+              data: result.data,
+              prompt: `Translated to ${getLocaleOption(locale).language}`,
+              timestamp: Date.now(),
+              locale,
+              spec: undefined,
+              template: result.template,
+              origin: result.origin,
+              fidelity: undefined,
+              accessibility: undefined,
+              narrative: undefined
+          };
+          const newHistory = [translated, ...history];
+          setHistory(newHistory);
+          setCurrentIndex(0);
+          await saveProjectState(result.data, newHistory);
+      } catch (err: any) {
+          if (err instanceof AIError && err.type === 'CANCELLED') {
+              await logCancellation(`Cancelled translation to ${locale}`);
+              return;
+          }
+          console.error(err);
+          setError({
+              message: err.message || "An unexpected error occurred during translation.",
+              type: err instanceof AIError ? err.type : undefined,
+              action: err instanceof AIError && err.type === 'RATE_LIMIT' ? "Wait a moment before trying again." : "Please try again."
+          });
+      } finally {
+          abortRef.current = null;
+          setIsLoading(false);
+          setProgress(null);
+          setPreviewData(null);
+      }
+  };
+
+  // Reports are stored on the version they checked; versions are immutable, so they never go stale.
+  const handleVerifyFidelity = async () => {
+      const current = history[currentIndex];
+      if (!current) return;
+      const report = verifyDashboardFidelity(current.data, dataSources);
+      const newHistory = history.map((h, i) => i === currentIndex ? { ...h, fidelity: report } : h);
+      setHistory(newHistory);
+      setActiveFindingId(null);
+      setCheckPanel('FIDELITY');
+      await saveProjectState(undefined, newHistory);
+  };
+
+  const handleFidelityAutoFix = async () => {
+      const report = history[currentIndex]?.fidelity;
+      const instruction = report && buildFidelityFixInstruction(report);
+      if (!instruction) return;
+      setActiveFindingId(null);
+      await handleEdit(instruction);
+  };
+
+  const handleAuditAccessibility = async () => {
+      const current = history[currentIndex];
+      if (!current) return;
+      const report = auditAccessibility(current.data, wcagLevelFor(current.style));
+      const newHistory = history.map((h, i) => i === currentIndex ? { ...h, accessibility: report } : h);
+      setHistory(newHistory);
+      setActiveFindingId(null);
+      setCheckPanel('ACCESSIBILITY');
+      await saveProjectState(undefined, newHistory);
+  };
+
+  // Markup patches become a version of their own; whatever they cannot fix is sent to the model as an edit of that version.
+  const handleAccessibilityFix = async () => {
+      const current = history[currentIndex];
+      if (!current) return;
+      const { data, fixed, report } = applyAccessibilityFixes(current.data, wcagLevelFor(current.style));
+      let versions: GeneratedImage[] | undefined;
+      if (data) {
+          // Only colors, sizes and metadata change, so the fidelity report still holds.
+          const patched: GeneratedImage = {
+              ...current,
+              id: Date.now().toString(),
+              data,
+              prompt: `Accessibility fixes (${fixed} patched)`,
+              timestamp: Date.now(),
+              spec: undefined,
+              accessibility: report
+          };
+          versions = [patched, ...history];
+          setHistory(versions);
+          setCurrentIndex(0);
+          await saveProjectState(data, versions);
+      }
+      setActiveFindingId(null);
+      const instruction = buildAccessibilityFixInstruction(report);
+      if (instruction) await handleEdit(instruction, undefined, versions);
+  };
+
+  // Brand compliance follows the current brand kit, so it is computed live rather than stored on the version.
+  const currentImage = history[currentIndex];
+  const brandReport = useMemo(
+      () => currentImage && brandKit ? lintBrandCompliance(currentImage.data, brandKit, brandCompliance) : undefined,
+      [currentImage?.data, brandKit, brandCompliance]
+  );
+  const exportBlockedReason = brandCompliance.strict && brandReport && brandReport.violations.length > 0
+      ? `Strict brand compliance is on: fix ${brandReport.violations.length} brand violation${brandReport.violations.length === 1 ? '' : 's'} before exporting.`
+      : undefined;
+
+  const handleSnapToBrand = async () => {
+      const current = history[currentIndex];
+      if (!current || !brandKit) return;
+      const { data, changed } = snapToBrand(current.data, brandKit, brandCompliance);
+      if (!data) return;
+      // Text is untouched, so the fidelity report still holds; contrast may not.
+      const snapped: GeneratedImage = {
+          ...current,
+          id: Date.now().toString(),
+          data,
+          prompt: `Snapped to brand (${changed} change${changed === 1 ? '' : 's'})`,
+          timestamp: Date.now(),
+          spec: undefined,
+          accessibility: undefined
+      };
+      const newHistory = [snapped, ...history];
+      setHistory(newHistory);
+      setCurrentIndex(0);
+      await saveProjectState(data, newHistory);
+  };
+
+  // The narrative is stored on the version it describes; edits that change the figures start without one.
+  // Flagged sources need the same confirmation as generation. The result is matched to its version by id,
+  // since the user may edit or switch versions while the call runs.
+  const handleGenerateNarrative = async (confirmedSources?: DataSource[]) => {
+      const current = history[currentIndex];
+      if (!current || isNarrating) return;
+
+      const sources = confirmedSources || await inspectSources(dataSources);
+      const flagged = sources.filter(needsConfirmation);
+      if (flagged.length > 0) {
+          setInjectionReview({ sources: flagged, action: 'NARRATIVE' });
+          return;
+      }
+
+      const versionId = current.id;
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setIsNarrating(true);
+      try {
+          const narrative = await generateNarrative(current, sources, current.level, controller.signal);
+          setHistory(prev => prev.map(h => h.id === versionId ? { ...h, narrative } : h));
+          setHistorySavePending(true);
+      } catch (err: any) {
+          if (err instanceof AIError && err.type === 'CANCELLED') {
+              await logCancellation(`Cancelled narrative for version ${versionId}`);
+              return;
+          }
+          console.error(err);
+          setError({
+              message: err.message || "An unexpected error occurred while writing the narrative.",
+              type: err instanceof AIError ? err.type : undefined,
+              action: err instanceof AIError && err.type === 'RATE_LIMIT' ? "Wait a moment before trying again." : "Please try again."
+          });
+      } finally {
+          if (abortRef.current === controller) abortRef.current = null;
+          setIsNarrating(false);
+      }
+  };
+
+  const handleSaveNarrative = async (narrative: Narrative) => {
+      const newHistory = history.map((h, i) => i === currentIndex ? { ...h, narrative } : h);
+      setHistory(newHistory);
+      await saveProjectState(undefined, newHistory);
+  };
+
+  // Stored reports reopen without re-running; a version without one is checked on open.
+  const toggleCheckPanel = (panel: 'FIDELITY' | 'ACCESSIBILITY' | 'BRAND' | 'NARRATIVE') => {
+      setActiveFindingId(null);
+      if (checkPanel === panel) return setCheckPanel(null);
+      if (panel === 'FIDELITY' && !history[currentIndex]?.fidelity) return handleVerifyFidelity();
+      if (panel === 'ACCESSIBILITY' && !history[currentIndex]?.accessibility) return handleAuditAccessibility();
+      setCheckPanel(panel);
+  };
+
+  const accessibilityHighlights: CanvasHighlight[] = checkPanel === 'ACCESSIBILITY' && !previewData
+      ? (history[currentIndex]?.accessibility?.findings || [])
+          .filter(f => f.x !== undefined && f.y !== undefined)
+          .map(f => ({
+              id: f.id,
+              x: f.x!,
+              y: f.y!,
+              tone: f.severity === 'error' ? 'error' : 'warning',
+              label: f.message
+          }))
+      : [];
+
+  const fidelityHighlights: CanvasHighlight[] = checkPanel === 'FIDELITY' && !previewData
+      ? (history[currentIndex]?.fidelity?.findings || [])
+          .filter(f => isFidelityIssue(f) || f.id === activeFindingId)
+          .map(f => ({
+              id: f.id,
+              x: f.x,
+              y: f.y,
+              tone: f.status === 'INVENTED_NUMBER' ? 'error' : f.status === 'MISMATCHED_LABEL' ? 'warning' : 'ok',
+              label: `${f.text}${f.reference ? ` → ${f.reference}` : ''}`
+          }))
+      : [];
+
   const handleJumpToHistory = (index: number) => {
       setCurrentIndex(index);
       // Optional: Restore context from that history point if we stored it
@@ -329,6 +867,22 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
       setCurrentIndex(prev => Math.max(prev - 1, 0));
   };
 
+  const handleSketchUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+      const problem = checkImageUpload(file);
+      setSketchError(problem);
+      if (problem) return;
+      try {
+          const data = await generateThumbnail(await readFileAsDataUrl(file), SKETCH_MAX_SIZE, SKETCH_MAX_SIZE);
+          setLayoutReference({ name: file.name, data, addedAt: Date.now() });
+      } catch (err) {
+          console.error("Failed to read layout sketch", err);
+          setSketchError("The sketch could not be read.");
+      }
+  };
+
   const handleDeleteSource = (id: string) => {
       setDataSources(dataSources.filter(ds => ds.id !== id));
       saveProjectState();
@@ -343,7 +897,7 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
           }, 1500); // 1.5s debounce
           return () => clearTimeout(timer);
       }
-  }, [annotations, comments, level, style, aspectRatio, colorPalette, targetAudience, objective, isLoaded]);
+  }, [annotations, comments, level, style, aspectRatio, colorPalette, locale, persona, layoutReference, targetAudience, objective, isLoaded]);
 
   return (
     <div className="flex flex-col h-full bg-slate-50 dark:bg-slate-950 overflow-hidden">
@@ -382,6 +936,39 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
                     <Redo2 className="w-4 h-4" />
                  </button>
              </div>
+             <button 
+                onClick={() => toggleCheckPanel('FIDELITY')}
+                disabled={history.length === 0 || isLoading}
+                className={`p-2 rounded-lg transition-all disabled:opacity-30 ${checkPanel === 'FIDELITY' ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/20' : 'text-slate-400 hover:bg-slate-100'}`}
+                title="Verify data fidelity"
+             >
+                <ShieldCheck className="w-5 h-5" />
+             </button>
+             <button 
+                onClick={() => toggleCheckPanel('ACCESSIBILITY')}
+                disabled={history.length === 0 || isLoading}
+                className={`p-2 rounded-lg transition-all disabled:opacity-30 ${checkPanel === 'ACCESSIBILITY' ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/20' : 'text-slate-400 hover:bg-slate-100'}`}
+                title="Audit accessibility"
+             >
+                <Accessibility className="w-5 h-5" />
+             </button>
+             <button 
+                onClick={() => toggleCheckPanel('BRAND')}
+                disabled={history.length === 0 || isLoading}
+                className={`relative p-2 rounded-lg transition-all disabled:opacity-30 ${checkPanel === 'BRAND' ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/20' : 'text-slate-400 hover:bg-slate-100'}`}
+                title="Check brand compliance"
+             >
+                <BadgeCheck className="w-5 h-5" />
+                {brandReport && brandReport.violations.length > 0 && <span className={`absolute top-1 right-1 w-2 h-2 rounded-full ${brandCompliance.strict ? 'bg-red-500' : 'bg-amber-400'}`}></span>}
+             </button>
+             <button 
+                onClick={() => toggleCheckPanel('NARRATIVE')}
+                disabled={history.length === 0 || isLoading}
+                className={`p-2 rounded-lg transition-all disabled:opacity-30 ${checkPanel === 'NARRATIVE' ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/20' : 'text-slate-400 hover:bg-slate-100'}`}
+                title="Narrative for leadership decks"
+             >
+                <ScrollText className="w-5 h-5" />
+             </button>
              <button 
                 onClick={() => setShowBrandModal(true)}
                 className={`p-2 rounded-lg transition-all ${brandKit ? 'text-blue-600 bg-blue-50 dark:bg-blue-900/20' : 'text-slate-400 hover:bg-slate-100'}`}
@@ -436,6 +1023,14 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
                                             <span className={`text-[10px] uppercase font-bold mt-1 ${ds.status === 'ERROR' ? 'text-red-500' : 'text-slate-400'}`}>{ds.status}</span>
                                           </div>
                                       </div>
+                                      {ds.injection && (
+                                          <span
+                                            className={`shrink-0 ml-1 ${ds.injection.confirmedAt ? 'text-slate-400' : 'text-amber-500'}`}
+                                            title={`${ds.injection.findings.map(f => f.label).join('\n')}${ds.injection.confirmedAt ? `\nConfirmed by ${ds.injection.confirmedBy}` : ''}`}
+                                          >
+                                              <AlertTriangle className="w-3.5 h-3.5" />
+                                          </span>
+                                      )}
                                       <button onClick={() => handleDeleteSource(ds.id)} className="opacity-0 group-hover:opacity-100 text-slate-400 hover:text-red-500 transition-opacity">
                                           <X className="w-3 h-3" />
                                       </button>
@@ -465,6 +1060,21 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
                       />
                   </div>
 
+                  <div>
+                      <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1.5">Persona</label>
+                      <select 
+                          value={persona} 
+                          onChange={(e) => setPersona(e.target.value)}
+                          className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg p-2 text-xs font-bold text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-900 outline-none"
+                          title="Tone, density, chart preferences and terminology of generated output"
+                      >
+                          <option value="">Profile default ({resolvePersona(userPersona)?.label || 'none'})</option>
+                          {PERSONA_PROFILES.map(p => (
+                              <option key={p.id} value={p.id}>{describePersona(p)}</option>
+                          ))}
+                      </select>
+                  </div>
+
                   <div>
                       <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1.5">Complexity Level</label>
                               <div className="grid grid-cols-2 gap-2">
@@ -548,30 +1158,128 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
                                   <option value="9:16">9:16 (Vertical)</option>
                               </select>
                           </div>
+
+                          <div>
+                              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1.5">Language</label>
+                              <select 
+                                  value={locale} 
+                                  onChange={(e) => setLocale(e.target.value)}
+                                  className="w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg p-2 text-xs font-bold text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-900 outline-none"
+                              >
+                                  {SUPPORTED_LOCALES.map(l => (
+                                      <option key={l.code} value={l.code}>{l.nativeName === l.language ? l.language : `${l.nativeName} (${l.language})`}</option>
+                                  ))}
+                              </select>
+                              <button
+                                  onClick={handleTranslate}
+                                  disabled={!history[currentIndex] || isLoading || (history[currentIndex].locale || DEFAULT_LOCALE) === locale || !history[currentIndex].data.startsWith('data:image/svg+xml')}
+                                  className="mt-2 w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-[10px] font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-40 transition-colors"
+                                  title="Rewrite the text of the current version in this language as a new version; the layout is kept"
+                              >
+                                  <Languages className="w-3.5 h-3.5" /> Translate this version
+                              </button>
+                          </div>
+
+                          <div>
+                              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1.5">Layout Sketch</label>
+                              <input ref={sketchInputRef} type="file" accept={IMAGE_UPLOAD_TYPES.join(',')} className="hidden" onChange={handleSketchUpload} />
+                              {layoutReference ? (
+                                  <div className="flex items-center gap-2 p-1.5 rounded-lg border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900">
+                                      <img src={layoutReference.data} alt="Layout sketch" className="w-14 h-9 object-cover rounded bg-white shrink-0" />
+                                      <span className="flex-1 text-[10px] font-medium text-slate-600 dark:text-slate-300 truncate" title={layoutReference.name}>{layoutReference.name}</span>
+                                      <button onClick={() => sketchInputRef.current?.click()} disabled={isLoading} className="p-1 text-slate-400 hover:text-blue-600 disabled:opacity-40" title="Replace sketch">
+                                          <RefreshCw className="w-3.5 h-3.5" />
+                                      </button>
+                                      <button onClick={() => setLayoutReference(undefined)} disabled={isLoading} className="p-1 text-slate-400 hover:text-red-500 disabled:opacity-40" title="Remove sketch">
+                                          <X className="w-3.5 h-3.5" />
+                                      </button>
+                                  </div>
+                              ) : (
+                                  <button
+                                      onClick={() => sketchInputRef.current?.click()}
+                                      disabled={isLoading}
+                                      className="w-full flex items-center justify-center gap-1.5 py-1.5 rounded-lg border border-dashed border-slate-300 dark:border-slate-700 text-[10px] font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-40 transition-colors"
+                                      title="Upload a whiteboard photo or hand-drawn wireframe (PNG or JPEG)"
+                                  >
+                                      <PencilRuler className="w-3.5 h-3.5" /> Attach sketch or wireframe
+                                  </button>
+                              )}
+                              {sketchError && <p className="text-[10px] text-red-500 mt-1">{sketchError}</p>}
+                              <p className="text-[10px] text-slate-400 mt-1 italic">New versions keep the sketch's panel positions and relative sizes.</p>
+                          </div>
                       </div>
                   </div>
 
                   <hr className="border-slate-100 dark:border-slate-800" />
 
+                  {/* Layout Section (spec-rendered versions only) */}
+                  {history[currentIndex]?.spec && (
+                      <>
+                          <SpecEditor spec={history[currentIndex].spec!} onApply={handleApplyLayout} disabled={isLoading} />
+                          <hr className="border-slate-100 dark:border-slate-800" />
+                      </>
+                  )}
+
                   {/* Generation Section */}
                   <div>
                       <h3 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-3">
                           <Layers className="w-4 h-4" /> Prompt
                       </h3>
-                      <textarea 
-                          className="w-full h-32 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl p-3 text-sm text-slate-900 dark:text-white font-medium focus:ring-2 focus:ring-blue-900 outline-none resize-none"
-                          placeholder="Describe the dashboard you need..."
+                      <ObjectiveInput
                           value={objective}
-                          onChange={e => setObjective(e.target.value)}
+                          onChange={setObjective}
+                          dataSources={dataSources}
+                          targetAudience={targetAudience}
+                          disabled={isLoading}
                       />
+                      <div className="mt-3 flex items-center justify-between">
+                          <label className="text-[10px] font-bold text-slate-400 uppercase">Variants</label>
+                          <select
+                              value={variantCount}
+                              onChange={(e) => setVariantCount(Number(e.target.value))}
+                              disabled={isLoading}
+                              className="bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1 text-xs font-bold text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-900 outline-none"
+                              title="Generate several layouts and compare them before adding one to history"
+                          >
+                              {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                                  <option key={n} value={n}>{n === 1 ? 'Single' : `${n} to compare`}</option>
+                              ))}
+                          </select>
+                      </div>
                       <button 
-                          onClick={handleGenerate}
-                          disabled={isLoading || !objective}
+                          onClick={() => handleGenerate()}
+                          disabled={isLoading || !objective || pendingVariants.length > 0 || !!pendingAnalysis}
                           className="w-full mt-3 bg-brand-blue hover:bg-brand-blue-dark text-white font-bold py-3 rounded-xl transition-all shadow-lg shadow-brand-blue/20 disabled:opacity-50 flex items-center justify-center gap-2"
                       >
                           {isLoading ? <div className="animate-spin w-4 h-4 border-2 border-white/30 border-t-white rounded-full"></div> : <Play className="w-4 h-4 fill-current" />}
                           {isLoading ? 'Generating...' : history.length > 0 ? 'Re-Generate' : 'Generate'}
                       </button>
+                      <label className="mt-2 flex items-center gap-2 text-[11px] font-medium text-slate-500 cursor-pointer select-none" title="Always call the model, even if an identical request is cached">
+                          <input
+                              type="checkbox"
+                              checked={bypassCache}
+                              onChange={e => setBypassCache(e.target.checked)}
+                              className="rounded border-slate-300 text-blue-900 focus:ring-blue-900"
+                          />
+                          Bypass response cache
+                      </label>
+                      <label className="mt-1 flex items-center gap-2 text-[11px] font-medium text-slate-500 cursor-pointer select-none" title="Check the source columns behind each KPI and chart before rendering">
+                          <input
+                              type="checkbox"
+                              checked={reviewBindings}
+                              onChange={e => setReviewBindings(e.target.checked)}
+                              className="rounded border-slate-300 text-blue-900 focus:ring-blue-900"
+                          />
+                          Review data bindings
+                      </label>
+                      {alternatives.length > 0 && (
+                          <button
+                              onClick={() => setShowAlternatives(true)}
+                              className="mt-2 flex items-center gap-2 text-[11px] font-bold text-brand-blue dark:text-brand-orange hover:underline"
+                          >
+                              <Archive className="w-3 h-3" /> Discarded alternatives ({alternatives.length})
+                          </button>
+                      )}
                   </div>
               </div>
           </div>
@@ -579,9 +1287,15 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
           {/* Main Canvas Area */}
           <div className="flex-1 overflow-hidden relative bg-slate-100 dark:bg-slate-950/50 flex flex-col">
                
-               {isLoading && (
+               {isLoading && !previewData && (
                    <div className="absolute inset-0 z-50 bg-white/90 dark:bg-slate-950/90 backdrop-blur-sm p-8 overflow-y-auto">
-                        <Loading status={loadingMessage} step={loadingStep} facts={analysisFacts} />
+                        <Loading progress={progress} facts={analysisFacts} onCancel={handleCancel} />
+                   </div>
+               )}
+
+               {isLoading && previewData && (
+                   <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50">
+                        <Loading progress={progress} compact onCancel={handleCancel} />
                    </div>
                )}
 
@@ -589,7 +1303,7 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
                    <div className="absolute top-4 left-4 right-4 z-50 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-500/30 text-red-600 dark:text-red-300 p-4 rounded-xl flex items-start gap-3 shadow-lg animate-in slide-in-from-top-2">
                        <AlertCircle className="w-5 h-5 shrink-0 mt-0.5" />
                        <div className="flex-1">
-                           <h4 className="font-bold text-sm">{error.type === 'RATE_LIMIT' ? 'Too Many Requests' : error.type === 'TIMEOUT' ? 'Request Timed Out' : 'Generation Error'}</h4>
+                           <h4 className="font-bold text-sm">{error.type === 'RATE_LIMIT' ? 'Too Many Requests' : error.type === 'TIMEOUT' ? 'Request Timed Out' : error.type === 'INVALID_SVG' ? 'Unsafe Output Rejected' : 'Generation Error'}</h4>
                            <p className="text-sm mt-1">{error.message}</p>
                            {error.action && <p className="text-xs mt-2 font-medium opacity-80">{error.action}</p>}
                        </div>
@@ -597,11 +1311,89 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
                    </div>
                )}
 
+               {checkPanel === 'FIDELITY' && history[currentIndex] && (
+                   <FidelityPanel
+                       report={history[currentIndex].fidelity}
+                       isBusy={isLoading}
+                       activeFindingId={activeFindingId}
+                       onSelectFinding={setActiveFindingId}
+                       onVerify={handleVerifyFidelity}
+                       onAutoFix={handleFidelityAutoFix}
+                       onClose={() => setCheckPanel(null)}
+                   />
+               )}
+
+               {checkPanel === 'ACCESSIBILITY' && history[currentIndex] && (
+                   <AccessibilityPanel
+                       report={history[currentIndex].accessibility}
+                       isBusy={isLoading}
+                       activeFindingId={activeFindingId}
+                       onSelectFinding={setActiveFindingId}
+                       onAudit={handleAuditAccessibility}
+                       onRemediate={handleAccessibilityFix}
+                       onClose={() => setCheckPanel(null)}
+                   />
+               )}
+
+               {checkPanel === 'BRAND' && history[currentIndex] && (
+                   <BrandCompliancePanel
+                       report={brandReport}
+                       strict={brandCompliance.strict}
+                       isBusy={isLoading}
+                       onSnap={handleSnapToBrand}
+                       onOpenBrandKit={() => setShowBrandModal(true)}
+                       onClose={() => setCheckPanel(null)}
+                   />
+               )}
+
+               {checkPanel === 'NARRATIVE' && history[currentIndex] && (
+                   <NarrativePanel
+                       narrative={history[currentIndex].narrative}
+                       isBusy={isNarrating}
+                       onGenerate={() => handleGenerateNarrative()}
+                       onCancel={handleCancel}
+                       onSave={handleSaveNarrative}
+                       onClose={() => setCheckPanel(null)}
+                   />
+               )}
+
+               {pendingAnalysis && !isLoading && (
+                   <BindingReview
+                       analysis={pendingAnalysis.analysis}
+                       sources={pendingAnalysis.sources}
+                       onConfirm={handleConfirmBindings}
+                       onCancel={() => setPendingAnalysis(null)}
+                   />
+               )}
+
+               {pendingVariants.length > 0 && !isLoading && (
+                   <VariantGrid
+                       variants={pendingVariants}
+                       mode="NEW"
+                       failures={variantFailures}
+                       onPromote={handlePromoteVariants}
+                       onDiscardAll={handleDiscardVariants}
+                       onClose={handleDiscardVariants}
+                   />
+               )}
+
+               {showAlternatives && pendingVariants.length === 0 && (
+                   <VariantGrid
+                       variants={alternatives}
+                       mode="ALTERNATIVES"
+                       onPromote={handleRestoreAlternatives}
+                       onClose={() => setShowAlternatives(false)}
+                   />
+               )}
+
                <div className="flex-1 overflow-y-auto p-4 md:p-8 flex items-center justify-center">
-                   {history.length > 0 ? (
+                   {history.length > 0 || previewData ? (
                         <DashboardCanvas 
-                            image={history[currentIndex]}
+                            image={previewData ? { ...(history[currentIndex] || { id: 'preview', prompt: objective, timestamp: Date.now(), level, style }), data: previewData } : history[currentIndex]}
+                            isPreview={!!previewData}
+                            exportBlockedReason={exportBlockedReason}
                             onEdit={handleEdit}
+                            thread={editThread}
                             isEditing={isLoading}
                             canUndo={currentIndex < history.length - 1}
                             canRedo={currentIndex > 0}
@@ -610,12 +1402,17 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
                             history={history}
                             currentIndex={currentIndex}
                             onJumpToHistory={handleJumpToHistory}
+                            layoutReference={layoutReference?.data}
                             
                             // Passing lifted state down
                             annotations={annotations}
                             onUpdateAnnotations={setAnnotations}
                             comments={comments}
                             onUpdateComments={setComments}
+
+                            highlights={checkPanel === 'ACCESSIBILITY' ? accessibilityHighlights : fidelityHighlights}
+                            activeHighlightId={activeFindingId}
+                            onSelectHighlight={setActiveFindingId}
                         />
                    ) : (
                        <div className="text-center max-w-md mx-auto opacity-50">
@@ -647,6 +1444,43 @@ const Editor: React.FC<EditorProps> = ({ projectId, onBack }) => {
           </div>
       )}
 
+      {/* Untrusted Content Review */}
+      {injectionReview && (
+          <div className="fixed inset-0 z-[100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+              <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col">
+                  <div className="p-6 border-b border-slate-100 dark:border-white/5">
+                      <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                          <AlertTriangle className="w-5 h-5 text-amber-500" /> Review Connected Data
+                      </h2>
+                      <p className="text-xs text-slate-500 mt-1">
+                          These sources contain text that reads like instructions to the AI. It will be sent as delimited data only, but check that it is what you expect before generating.
+                      </p>
+                  </div>
+                  <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-4">
+                      {injectionReview.sources.map(s => (
+                          <div key={s.id}>
+                              <p className="text-sm font-bold text-slate-800 dark:text-slate-200">{s.name}</p>
+                              {s.injection?.findings.map(f => (
+                                  <div key={f.pattern} className="mt-2 p-2.5 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                                      <p className="text-[10px] font-bold uppercase text-amber-700 dark:text-amber-300">{f.label}</p>
+                                      <p className="text-xs font-mono text-slate-700 dark:text-slate-300 mt-1 break-words">{f.excerpt}</p>
+                                  </div>
+                              ))}
+                          </div>
+                      ))}
+                  </div>
+                  <div className="p-4 border-t border-slate-100 dark:border-white/5 flex justify-end gap-2">
+                      <button onClick={() => setInjectionReview(null)} className="px-4 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800">
+                          Cancel
+                      </button>
+                      <button onClick={handleConfirmInjection} className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white text-xs font-bold rounded-lg">
+                          Generate Anyway
+                      </button>
+                  </div>
+              </div>
+          </div>
+      )}
+
       {/* Brand Kit Modal */}
       {showBrandModal && (
           <div className="fixed inset-0 z-[100] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
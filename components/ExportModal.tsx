@@ -6,6 +6,8 @@ export interface ExportOptions {
   quality: number; // 0.1 to 1.0
   scale: number; // 1, 2, 4
   transparentBg: boolean;
+  includeSources: boolean; // Append the cited research sources below the dashboard
+  includeNarrative: boolean; // Append the version's summary, insights and speaker notes
 }
 
 interface ExportModalProps {
@@ -13,13 +15,17 @@ interface ExportModalProps {
   onClose: () => void;
   onExport: (options: ExportOptions) => void;
   isSvg: boolean;
+  sourceCount?: number; // Research sources cited by the version
+  hasNarrative?: boolean; // The version has a written narrative
 }
 
-export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, isSvg }) => {
+export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExport, isSvg, sourceCount = 0, hasNarrative = false }) => {
   const [format, setFormat] = useState<'png' | 'jpg' | 'pdf' | 'svg'>('png');
   const [quality, setQuality] = useState(0.9);
   const [scale, setScale] = useState(2);
   const [transparentBg, setTransparentBg] = useState(true);
+  const [includeSources, setIncludeSources] = useState(true);
+  const [includeNarrative, setIncludeNarrative] = useState(true);
 
   if (!isOpen) return null;
 
@@ -122,6 +128,30 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExp
                 <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Transparent Background</span>
               </label>
             )}
+
+            {sourceCount > 0 && (
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={includeSources} 
+                  onChange={(e) => setIncludeSources(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Sources Appendix ({sourceCount})</span>
+              </label>
+            )}
+
+            {hasNarrative && (
+              <label className="flex items-center gap-3 cursor-pointer">
+                <input 
+                  type="checkbox" 
+                  checked={includeNarrative} 
+                  onChange={(e) => setIncludeNarrative(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded border-slate-300 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Narrative (summary, insights, notes)</span>
+              </label>
+            )}
           </div>
         </div>
 
@@ -133,7 +163,7 @@ export const ExportModal: React.FC<ExportModalProps> = ({ isOpen, onClose, onExp
             Cancel
           </button>
           <button 
-            onClick={() => onExport({ format, quality, scale, transparentBg })}
+            onClick={() => onExport({ format, quality, scale, transparentBg, includeSources: includeSources && sourceCount > 0, includeNarrative: includeNarrative && hasNarrative })}
             className="px-5 py-2.5 rounded-xl font-bold text-white bg-blue-600 hover:bg-blue-700 shadow-lg shadow-blue-600/20 transition-all flex items-center gap-2"
           >
             <Download className="w-4 h-4" /> Export Now
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { FidelityFinding, FidelityReport, FidelityStatus } from '../types';
+import { isFidelityIssue } from '../lib/fidelity';
+import { ShieldCheck, RefreshCw, Wand2, X, AlertCircle, Loader2 } from 'lucide-react';
+
+interface FidelityPanelProps {
+  report?: FidelityReport;
+  isBusy?: boolean;
+  activeFindingId?: string | null;
+  onSelectFinding: (id: string) => void;
+  onVerify: () => void;
+  onAutoFix: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<FidelityStatus, { label: string; className: string }> = {
+  INVENTED_NUMBER: { label: 'Not in data', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+  MISMATCHED_LABEL: { label: 'Label mismatch', className: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+  AXIS_TICK: { label: 'Axis / scale', className: 'bg-slate-100 text-slate-500 dark:bg-slate-800' },
+  MATCH: { label: 'Matches', className: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' },
+};
+
+const scoreColor = (score: number) => score >= 90 ? 'text-emerald-600' : score >= 70 ? 'text-amber-500' : 'text-red-600';
+
+const FidelityPanel: React.FC<FidelityPanelProps> = ({ report, isBusy = false, activeFindingId, onSelectFinding, onVerify, onAutoFix, onClose }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const issues = report?.findings.filter(isFidelityIssue) || [];
+  const visible: FidelityFinding[] = showAll ? report?.findings || [] : issues;
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-80 z-40 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="p-4 border-b border-slate-100 dark:border-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-blue-600" /> Data Fidelity
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-md transition-colors">
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      {!report ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 text-center gap-3">
+          <p className="text-xs text-slate-500">Check every number and label in this version against the connected data sources.</p>
+          <button onClick={onVerify} disabled={isBusy} className="px-4 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg disabled:opacity-50 flex items-center gap-2">
+            <ShieldCheck className="w-4 h-4" /> Run Check
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="p-4 space-y-3 border-b border-slate-100 dark:border-white/5">
+            {report.skipped ? (
+              <div className="flex items-start gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-800 text-xs text-slate-600 dark:text-slate-300">
+                <AlertCircle className="w-4 h-4 shrink-0" /> {report.skipped}
+              </div>
+            ) : (
+              <div className="flex items-end justify-between">
+                <div>
+                  <span className={`text-3xl font-bold ${scoreColor(report.score)}`}>{report.score}%</span>
+                  <p className="text-[10px] text-slate-400 uppercase font-bold mt-1">traceable to data</p>
+                </div>
+                <div className="text-right text-[11px] text-slate-500">
+                  <p>{report.numbersChecked} numbers • {report.labelsChecked} labels</p>
+                  <p className="font-bold text-slate-700 dark:text-slate-300">{issues.length} issue{issues.length === 1 ? '' : 's'}</p>
+                </div>
+              </div>
+            )}
+            <p className="text-[10px] text-slate-400">
+              Checked {new Date(report.checkedAt).toLocaleString()}{report.sources.length > 0 && ` against ${report.sources.join(', ')}`}
+            </p>
+            <div className="flex gap-2">
+              <button onClick={onVerify} disabled={isBusy} className="flex-1 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center justify-center gap-1.5">
+                <RefreshCw className="w-3.5 h-3.5" /> Re-check
+              </button>
+              <button
+                onClick={onAutoFix}
+                disabled={isBusy || issues.length === 0}
+                className="flex-1 px-3 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg disabled:opacity-50 flex items-center justify-center gap-1.5"
+                title="Send the discrepancies to the model as an edit"
+              >
+                {isBusy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />} Auto-fix
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-2">
+            {visible.length === 0 ? (
+              <p className="text-xs text-slate-400 text-center mt-6">{report.skipped ? '' : 'No discrepancies found.'}</p>
+            ) : visible.map(f => (
+              <button
+                key={f.id}
+                onClick={() => onSelectFinding(f.id)}
+                className={`w-full text-left p-2.5 rounded-xl transition-colors ${activeFindingId === f.id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs font-mono font-bold text-slate-800 dark:text-slate-200 truncate">{f.text}</span>
+                  <span className={`text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded shrink-0 ${STATUS_LABELS[f.status].className}`}>{STATUS_LABELS[f.status].label}</span>
+                </div>
+                {f.reference && (
+                  <p className="text-[10px] text-slate-500 mt-1 truncate" title={f.reference}>
+                    {f.status === 'MATCH' ? 'Source: ' : f.kind === 'LABEL' ? 'Expected: ' : 'Nearest: '}{f.reference}
+                  </p>
+                )}
+              </button>
+            ))}
+          </div>
+
+          {!report.skipped && report.findings.length > issues.length && (
+            <label className="p-3 border-t border-slate-100 dark:border-white/5 flex items-center gap-2 text-[11px] font-medium text-slate-500 cursor-pointer select-none">
+              <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} className="rounded border-slate-300 text-blue-900 focus:ring-blue-900" />
+              Show matched values and axis ticks
+            </label>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FidelityPanel;
@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useEffect } from 'react';
-import { LayoutGrid, FileImage, Settings as SettingsIcon, Moon, Sun } from 'lucide-react';
+import { LayoutGrid, FileImage, Settings as SettingsIcon, Moon, Sun, Activity, Hourglass } from 'lucide-react';
 import { BrandKit } from '../types';
 import { db } from '../lib/db';
+import { scheduler, SchedulerStatus } from '../lib/scheduler';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -18,11 +19,21 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children, activeView, onNavigate, isDarkMode, toggleTheme }) => {
   const [brand, setBrand] = useState<BrandKit | undefined>();
+  const [queue, setQueue] = useState<SchedulerStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
 
   useEffect(() => {
     loadBrand();
+    return scheduler.subscribe(setQueue);
   }, []);
 
+  // Tick once a second while a rate-limit pause is counting down
+  useEffect(() => {
+    if (!queue?.pausedUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [queue?.pausedUntil]);
+
   const loadBrand = async () => {
     try {
       const kit = await db.getBrandKit();
@@ -32,6 +43,10 @@ const Layout: React.FC<LayoutProps> = ({ children, activeView, onNavigate, isDar
     }
   };
 
+  const pausedFor = queue?.pausedUntil ? Math.max(0, Math.ceil((queue.pausedUntil - now) / 1000)) : 0;
+  const remoteActive = queue ? queue.remoteRunning + queue.remoteQueued : 0;
+  const showQueue = !!queue && (queue.running + queue.queued > 0 || remoteActive > 0 || pausedFor > 0);
+
   return (
     <div className="flex h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-200 font-sans overflow-hidden transition-colors duration-300">
       
@@ -78,6 +93,22 @@ const Layout: React.FC<LayoutProps> = ({ children, activeView, onNavigate, isDar
         </nav>
 
         <div className="p-2 md:p-4 border-t border-slate-200 dark:border-white/10 space-y-2">
+            {showQueue && queue && (
+              <div
+                className={`flex items-center gap-3 px-3 py-2 rounded-lg text-xs ${pausedFor > 0 ? 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300' : 'bg-blue-50 text-blue-900 dark:bg-blue-900/20 dark:text-blue-300'}`}
+                title={`AI queue — interactive ${queue.queuedByPriority.INTERACTIVE}, generation ${queue.queuedByPriority.NORMAL}, batch ${queue.queuedByPriority.BATCH} waiting`}
+              >
+                {pausedFor > 0 ? <Hourglass className="w-5 h-5 shrink-0" /> : <Activity className="w-5 h-5 shrink-0 animate-pulse" />}
+                <div className="hidden md:block min-w-0">
+                  <p className="font-bold truncate">{queue.running} running • {queue.queued} queued</p>
+                  {pausedFor > 0 ? (
+                    <p className="text-[10px] truncate">Rate limited — resuming in {pausedFor}s</p>
+                  ) : remoteActive > 0 && (
+                    <p className="text-[10px] opacity-75 truncate">+{remoteActive} in other tabs</p>
+                  )}
+                </div>
+              </div>
+            )}
             <button 
                 onClick={toggleTheme}
                 className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors"
@@ -3,15 +3,31 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useEffect, useState } from 'react';
-import { Loader2, BrainCircuit, Sparkles, Database, DraftingCompass, Layers, Palette } from 'lucide-react';
+import { Loader2, BrainCircuit, Sparkles, Database, DraftingCompass, Layers, Palette, X } from 'lucide-react';
+import { GenerationProgress, GenerationStage } from '../types';
+import { formatBytes } from '../lib/usage';
 
 interface LoadingProps {
-  status: string;
-  step: number; 
+  progress: GenerationProgress | null;
   facts?: string[];
+  compact?: boolean; // Small status card, used while a live preview is visible
+  onCancel?: () => void;
 }
 
-const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
+const STAGES: Record<GenerationStage, { step: number; label: string }> = {
+  ANALYZING: { step: 1, label: 'Analyzing data sources' },
+  LAYOUT: { step: 2, label: 'Designing layout spec' },
+  DRAWING: { step: 3, label: 'Streaming SVG' },
+  EDITING: { step: 3, label: 'Applying revision' },
+  RASTER: { step: 3, label: 'Rendering raster fallback' },
+  FINALIZING: { step: 4, label: 'Validating & saving' },
+};
+
+const Loading: React.FC<LoadingProps> = ({ progress, facts = [], compact = false, onCancel }) => {
+  const step = progress ? STAGES[progress.stage].step : 0;
+  const status = progress ? STAGES[progress.stage].label : '';
+  const bytes = progress && progress.bytes > 0 ? `${formatBytes(progress.bytes)} received` : '';
+  const variants = progress?.variants ? `${progress.variants.done} of ${progress.variants.total} variants ready` : '';
   const [currentFactIndex, setCurrentFactIndex] = useState(0);
   
   useEffect(() => {
@@ -30,6 +46,25 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
     { id: 4, label: 'Final Polish', icon: Palette },
   ];
 
+  if (compact) {
+    return (
+      <div className="flex items-center gap-3 px-4 py-2.5 rounded-xl bg-white/95 dark:bg-slate-900/95 border border-slate-200 dark:border-white/10 shadow-lg backdrop-blur-md">
+        <Loader2 className="w-4 h-4 text-blue-600 animate-spin" />
+        <span className="text-xs font-bold uppercase tracking-wider text-blue-700 dark:text-blue-300">{status || 'Initializing...'}</span>
+        {bytes && <span className="text-xs font-mono text-slate-500">{bytes}</span>}
+        {variants && <span className="text-xs font-bold text-slate-500">{variants}</span>}
+        <div className="flex gap-1 ml-2">
+          {steps.map(s => <span key={s.id} className={`w-1.5 h-1.5 rounded-full ${step >= s.id ? 'bg-blue-600' : 'bg-slate-300 dark:bg-slate-700'}`} />)}
+        </div>
+        {onCancel && (
+          <button onClick={onCancel} className="ml-2 flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-bold text-slate-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors" title="Cancel">
+            <X className="w-3 h-3" /> Cancel
+          </button>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="relative flex flex-col items-center justify-center w-full max-w-4xl mx-auto mt-8 min-h-[400px] overflow-hidden rounded-3xl bg-white/40 dark:bg-slate-900/40 border border-slate-200 dark:border-white/10 shadow-2xl backdrop-blur-md transition-colors">
       
@@ -89,6 +124,8 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
             <Loader2 className="w-3 h-3 animate-spin" />
             {status || 'Initializing...'}
         </div>
+        {bytes && <p className="text-xs font-mono text-slate-500 dark:text-slate-400 -mt-2 mb-2">{bytes}</p>}
+        {variants && <p className="text-xs font-bold text-slate-600 dark:text-slate-300 mb-2">{variants}</p>}
         
         <div className="h-20 flex items-center justify-center">
             {facts.length > 0 ? (
@@ -99,6 +136,12 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [] }) => {
                 <p className="text-slate-400 text-sm">Analyzing request parameters...</p>
             )}
         </div>
+
+        {onCancel && (
+            <button onClick={onCancel} className="mt-2 inline-flex items-center gap-2 px-4 py-2 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 bg-white/70 dark:bg-slate-800/70 border border-slate-200 dark:border-slate-700 hover:text-red-600 hover:border-red-200 dark:hover:border-red-900 transition-colors">
+                <X className="w-4 h-4" /> Cancel
+            </button>
+        )}
       </div>
 
     </div>
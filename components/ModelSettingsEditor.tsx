@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { FallbackStep, FallbackStepConfig, ModelRole, ModelSettings } from '../types';
+import { DEFAULT_MODEL_SETTINGS, FALLBACK_STEP_LABELS, KNOWN_MODELS, MODEL_ROLE_LABELS, stepModel } from '../lib/models';
+import { Layers, ChevronUp, ChevronDown, Trash2, Plus, RotateCcw } from 'lucide-react';
+
+interface ModelSettingsEditorProps {
+  settings?: ModelSettings;
+  onChange: (settings: ModelSettings) => void;
+}
+
+const ROLES = Object.keys(MODEL_ROLE_LABELS) as ModelRole[];
+const STEPS = Object.keys(FALLBACK_STEP_LABELS) as FallbackStep[];
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none";
+const smallInputClass = "bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg px-2 py-1.5 text-xs focus:ring-2 focus:ring-blue-500 outline-none";
+const iconButtonClass = "p-1.5 rounded-md text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-800 disabled:opacity-30 transition-colors";
+
+const ModelSettingsEditor: React.FC<ModelSettingsEditorProps> = ({ settings, onChange }) => {
+  const current: ModelSettings = {
+    models: { ...DEFAULT_MODEL_SETTINGS.models, ...settings?.models },
+    fallbackChain: settings?.fallbackChain?.length ? settings.fallbackChain : DEFAULT_MODEL_SETTINGS.fallbackChain,
+  };
+  const chain = current.fallbackChain;
+
+  const setModel = (role: ModelRole, model: string) =>
+    onChange({ ...current, models: { ...current.models, [role]: model.trim() } });
+
+  const setChain = (next: FallbackStepConfig[]) => onChange({ ...current, fallbackChain: next });
+
+  const updateStep = (index: number, patch: Partial<FallbackStepConfig>) =>
+    setChain(chain.map((s, i) => i === index ? { ...s, ...patch } : s));
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...chain];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setChain(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+        <Layers className="w-4 h-4" /> Models & Fallback Chain
+      </h3>
+
+      <datalist id="known-models">
+        {KNOWN_MODELS.map(m => <option key={m} value={m} />)}
+      </datalist>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {ROLES.map(role => (
+          <div key={role} className="space-y-2">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{MODEL_ROLE_LABELS[role]}</label>
+            <input
+              list="known-models"
+              placeholder={DEFAULT_MODEL_SETTINGS.models[role]}
+              value={current.models[role]}
+              onChange={e => setModel(role, e.target.value)}
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Generation Fallback Order</label>
+          <button
+            onClick={() => setChain(DEFAULT_MODEL_SETTINGS.fallbackChain)}
+            className="text-[10px] font-bold text-slate-500 hover:text-blue-700 dark:hover:text-blue-300 flex items-center gap-1"
+          >
+            <RotateCcw className="w-3 h-3" /> Reset
+          </button>
+        </div>
+        {chain.map((step, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2 p-2 rounded-xl border border-slate-200 dark:border-slate-700">
+            <span className="w-6 text-center text-xs font-bold text-slate-400">{i + 1}</span>
+            <select
+              value={step.step}
+              onChange={e => updateStep(i, { step: e.target.value as FallbackStep })}
+              className={smallInputClass}
+            >
+              {STEPS.map(s => <option key={s} value={s}>{FALLBACK_STEP_LABELS[s]}</option>)}
+            </select>
+            <input
+              list="known-models"
+              placeholder={stepModel(current, { ...step, model: undefined })}
+              value={step.model || ''}
+              onChange={e => updateStep(i, { model: e.target.value.trim() || undefined })}
+              className={`${smallInputClass} flex-1 min-w-[12rem] font-mono`}
+              title="Leave empty to use the role model"
+            />
+            <label className="flex items-center gap-1 text-[10px] font-bold text-slate-500 uppercase">
+              Timeout
+              <input
+                type="number"
+                min={5}
+                value={Math.round(step.timeoutMs / 1000)}
+                onChange={e => updateStep(i, { timeoutMs: Math.max(5, Number(e.target.value) || 0) * 1000 })}
+                className={`${smallInputClass} w-16`}
+              />
+              s
+            </label>
+            <button onClick={() => moveStep(i, -1)} disabled={i === 0} className={iconButtonClass} title="Move up"><ChevronUp className="w-4 h-4" /></button>
+            <button onClick={() => moveStep(i, 1)} disabled={i === chain.length - 1} className={iconButtonClass} title="Move down"><ChevronDown className="w-4 h-4" /></button>
+            <button onClick={() => setChain(chain.filter((_, j) => j !== i))} disabled={chain.length === 1} className={iconButtonClass} title="Remove step"><Trash2 className="w-4 h-4" /></button>
+          </div>
+        ))}
+        <button
+          onClick={() => setChain([...chain, { step: 'RASTER', timeoutMs: 90000 }])}
+          className="text-xs font-bold text-blue-700 dark:text-blue-300 flex items-center gap-1 hover:underline"
+        >
+          <Plus className="w-3 h-3" /> Add step
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500">Steps run in order until one produces a dashboard. Each timeout covers the whole step, retries included. Rate limits and cancellations stop the chain. Every version records the model and step that produced it.</p>
+    </div>
+  );
+};
+
+export default ModelSettingsEditor;
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { Narrative } from '../types';
+import { MIN_INSIGHTS, MAX_INSIGHTS } from '../lib/narrative';
+import { ScrollText, RefreshCw, Save, X, Loader2, Plus, Trash2, Sparkles } from 'lucide-react';
+
+interface NarrativePanelProps {
+  narrative?: Narrative;
+  isBusy?: boolean;
+  onGenerate: () => void;
+  onCancel?: () => void; // While busy, the write button cancels the running call
+  onSave: (narrative: Narrative) => void;
+  onClose: () => void;
+}
+
+const FIELD_CLASS = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg p-2 text-xs text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-900 outline-none resize-none";
+
+const NarrativePanel: React.FC<NarrativePanelProps> = ({ narrative, isBusy = false, onGenerate, onCancel, onSave, onClose }) => {
+  const [draft, setDraft] = useState<Narrative | undefined>(narrative);
+
+  // A newly generated narrative or a different version replaces the draft
+  useEffect(() => setDraft(narrative), [narrative]);
+
+  const isDirty = !!draft && !!narrative && JSON.stringify(draft) !== JSON.stringify(narrative);
+  const update = (patch: Partial<Narrative>) => setDraft(prev => prev ? { ...prev, ...patch } : prev);
+  const setInsight = (index: number, text: string) => update({ insights: draft!.insights.map((t, i) => i === index ? text : t) });
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave({ ...draft, insights: draft.insights.map(i => i.trim()).filter(Boolean), editedAt: Date.now() });
+  };
+
+  return (
+    <div className="absolute top-4 right-4 bottom-4 w-96 z-40 bg-white/95 dark:bg-slate-900/95 backdrop-blur-xl rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-col animate-in slide-in-from-right duration-300">
+      <div className="p-4 border-b border-slate-100 dark:border-white/5 flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-2">
+          <ScrollText className="w-4 h-4 text-blue-600" /> Narrative
+          {narrative?.editedAt && <span className="text-[9px] font-bold uppercase tracking-wider px-1.5 py-0.5 rounded bg-slate-100 dark:bg-slate-800 text-slate-500">Edited</span>}
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-md transition-colors">
+          <X className="w-4 h-4 text-slate-500" />
+        </button>
+      </div>
+
+      {!draft ? (
+        <div className="flex-1 flex flex-col items-center justify-center p-6 text-center gap-3">
+          <p className="text-xs text-slate-500">Write an executive summary, speaker notes and "so what" insights for this version, tuned to its complexity level and your persona.</p>
+          <button onClick={isBusy ? onCancel : onGenerate} disabled={isBusy && !onCancel} className="px-4 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg disabled:opacity-50 flex items-center gap-2">
+            {isBusy ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />} {isBusy && onCancel ? 'Cancel' : 'Write Narrative'}
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+            <p className="text-[10px] text-slate-400">
+              {draft.level}{draft.persona && ` • for ${draft.persona}`} • written {new Date(draft.generatedAt).toLocaleString()}
+            </p>
+
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1.5">Executive Summary</label>
+              <textarea rows={5} value={draft.summary} onChange={e => update({ summary: e.target.value })} className={FIELD_CLASS} />
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1.5">Key Insights</label>
+              <div className="space-y-2">
+                {draft.insights.map((insight, i) => (
+                  <div key={i} className="flex gap-1.5 items-start">
+                    <textarea rows={2} value={insight} onChange={e => setInsight(i, e.target.value)} className={FIELD_CLASS} />
+                    <button onClick={() => update({ insights: draft.insights.filter((_, j) => j !== i) })} className="p-1.5 text-slate-400 hover:text-red-500 transition-colors" title="Remove insight">
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <button
+                  onClick={() => update({ insights: [...draft.insights, ''] })}
+                  disabled={draft.insights.length >= MAX_INSIGHTS}
+                  className="text-[10px] font-bold text-brand-blue dark:text-brand-orange disabled:opacity-40 flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Add insight
+                </button>
+                {draft.insights.length < MIN_INSIGHTS && <span className="text-[10px] text-amber-500">Decks usually carry {MIN_INSIGHTS}–{MAX_INSIGHTS} insights.</span>}
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1.5">Speaker Notes</label>
+              <textarea rows={8} value={draft.speakerNotes} onChange={e => update({ speakerNotes: e.target.value })} className={FIELD_CLASS} />
+            </div>
+          </div>
+
+          <div className="p-4 border-t border-slate-100 dark:border-white/5 flex gap-2">
+            <button
+              onClick={isBusy ? onCancel : onGenerate}
+              disabled={isBusy && !onCancel}
+              className="flex-1 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50 flex items-center justify-center gap-1.5"
+              title={isDirty ? "Discards your unsaved changes" : "Write a new narrative for this version"}
+            >
+              {isBusy ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />} {isBusy && onCancel ? 'Cancel' : 'Regenerate'}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isBusy || !isDirty || !draft.summary.trim()}
+              className="flex-1 px-3 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg disabled:opacity-50 flex items-center justify-center gap-1.5"
+            >
+              <Save className="w-3.5 h-3.5" /> Save
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NarrativePanel;
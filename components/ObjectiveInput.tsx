@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { DataSource, FieldKind, FieldProfile, ObjectiveSuggestion } from '../types';
+import { profileFields, suggestObjectives, mergeSuggestions, completeField, applyCompletion, findMentionedFields, describeField } from '../lib/suggestions';
+import { AIError, suggestDashboardObjectives } from '../lib/gemini';
+import { Lightbulb, LineChart, BarChart3, PieChart, AreaChart, Table, Gauge, HelpCircle, ChevronDown, ChevronRight, Sparkles, Loader2, Hash, Calendar, Tag, Type } from 'lucide-react';
+
+interface ObjectiveInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  dataSources: DataSource[];
+  targetAudience?: string;
+  disabled?: boolean;
+}
+
+const VISUAL_ICONS: Record<ObjectiveSuggestion['visual'], React.ReactNode> = {
+  line: <LineChart className="w-3.5 h-3.5" />,
+  area: <AreaChart className="w-3.5 h-3.5" />,
+  bar: <BarChart3 className="w-3.5 h-3.5" />,
+  pie: <PieChart className="w-3.5 h-3.5" />,
+  donut: <PieChart className="w-3.5 h-3.5" />,
+  table: <Table className="w-3.5 h-3.5" />,
+  kpi: <Gauge className="w-3.5 h-3.5" />,
+};
+
+const KIND_ICONS: Record<FieldKind, React.ReactNode> = {
+  NUMBER: <Hash className="w-3 h-3" />,
+  DATE: <Calendar className="w-3 h-3" />,
+  CATEGORY: <Tag className="w-3 h-3" />,
+  TEXT: <Type className="w-3 h-3" />,
+};
+
+const ObjectiveInput: React.FC<ObjectiveInputProps> = ({ value, onChange, dataSources, targetAudience, disabled = false }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+  const [isOpen, setIsOpen] = useState(!value.trim());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [modelSuggestions, setModelSuggestions] = useState<ObjectiveSuggestion[]>([]);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
+  const suggestAbortRef = useRef<AbortController | null>(null);
+
+  const fields = useMemo(() => profileFields(dataSources), [dataSources]);
+  const local = useMemo(() => suggestObjectives(dataSources), [dataSources]);
+  const suggestions = useMemo(() => mergeSuggestions(local, modelSuggestions, local.length + modelSuggestions.length), [local, modelSuggestions]);
+  const completion = useMemo(() => dismissed ? null : completeField(value, caret, fields), [value, caret, fields, dismissed]);
+  const mentioned = useMemo(() => findMentionedFields(value, fields), [value, fields]);
+
+  // Model ideas belong to the columns they were asked about: a change of sources (or unmounting)
+  // cancels a pending request and drops them.
+  useEffect(() => {
+    setModelSuggestions([]);
+    setSuggestError(null);
+    return () => suggestAbortRef.current?.abort();
+  }, [dataSources]);
+
+  const syncCaret = (e: React.SyntheticEvent<HTMLTextAreaElement>) => setCaret(e.currentTarget.selectionStart);
+
+  const accept = (field: FieldProfile) => {
+    if (!completion) return;
+    const next = applyCompletion(value, completion, field);
+    onChange(next.text);
+    setCaret(next.caret);
+    setActiveIndex(0);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!completion) return;
+    const count = completion.matches.length;
+    if (e.key === 'ArrowDown') { e.preventDefault(); setActiveIndex(i => (i + 1) % count); }
+    else if (e.key === 'ArrowUp') { e.preventDefault(); setActiveIndex(i => (i - 1 + count) % count); }
+    else if (e.key === 'Enter' || e.key === 'Tab') { e.preventDefault(); accept(completion.matches[Math.min(activeIndex, count - 1)]); }
+    else if (e.key === 'Escape') { e.preventDefault(); setDismissed(true); }
+  };
+
+  const handleMoreIdeas = async () => {
+    const controller = new AbortController();
+    suggestAbortRef.current = controller;
+    setIsSuggesting(true);
+    setSuggestError(null);
+    try {
+      const more = await suggestDashboardObjectives(dataSources, suggestions, targetAudience, controller.signal);
+      if (controller.signal.aborted) return;
+      setModelSuggestions(prev => [...prev, ...more]);
+      if (more.length === 0) setSuggestError("No further ideas fit the connected columns.");
+    } catch (err) {
+      if (err instanceof AIError && err.type === 'CANCELLED') return;
+      setSuggestError(err instanceof AIError ? err.message : "Could not fetch more ideas.");
+    } finally {
+      if (suggestAbortRef.current === controller) suggestAbortRef.current = null;
+      setIsSuggesting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <textarea
+            ref={textareaRef}
+            className="w-full h-32 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl p-3 text-sm text-slate-900 dark:text-white font-medium focus:ring-2 focus:ring-blue-900 outline-none resize-none"
+            placeholder={fields.length > 0 ? "Describe the dashboard you need... (field names autocomplete)" : "Describe the dashboard you need..."}
+            value={value}
+            disabled={disabled}
+            onChange={e => { onChange(e.target.value); syncCaret(e); setDismissed(false); setActiveIndex(0); }}
+            onSelect={syncCaret}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setDismissed(true)}
+            onFocus={() => setDismissed(false)}
+        />
+        {completion && (
+            <div className="absolute left-2 right-2 top-full -mt-1 z-30 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-xl overflow-hidden">
+                {completion.matches.map((f, i) => (
+                    <button
+                        key={`${f.sourceId}-${f.name}`}
+                        onMouseDown={e => { e.preventDefault(); accept(f); }}
+                        className={`w-full flex items-center gap-2 px-2.5 py-1.5 text-left text-xs ${i === activeIndex ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-slate-50 dark:hover:bg-slate-700'}`}
+                        title={describeField(f)}
+                    >
+                        <span className="text-slate-400">{KIND_ICONS[f.kind]}</span>
+                        <span className="font-mono font-bold text-slate-800 dark:text-slate-200 truncate">{f.name}</span>
+                        <span className="ml-auto text-[10px] text-slate-400 truncate">{f.sourceName}</span>
+                    </button>
+                ))}
+            </div>
+        )}
+      </div>
+
+      {mentioned.length > 0 && (
+          <div className="mt-1.5 flex flex-wrap items-center gap-1">
+              <span className="text-[10px] font-bold text-slate-400 uppercase mr-0.5">Fields</span>
+              {mentioned.map(f => (
+                  <span key={f.name} className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-blue-50 dark:bg-blue-900/20 text-[10px] font-mono font-bold text-blue-700 dark:text-blue-300" title={describeField(f)}>
+                      {KIND_ICONS[f.kind]} {f.name}
+                  </span>
+              ))}
+          </div>
+      )}
+
+      {fields.length > 0 && (
+          <div className="mt-3">
+              <div className="flex items-center justify-between">
+                  <button onClick={() => setIsOpen(o => !o)} className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase hover:text-slate-600">
+                      {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                      <Lightbulb className="w-3 h-3" /> Suggestions ({suggestions.length})
+                  </button>
+                  {isOpen && (
+                      <button
+                          onClick={handleMoreIdeas}
+                          disabled={disabled || isSuggesting}
+                          className="flex items-center gap-1 text-[10px] font-bold text-brand-blue dark:text-brand-orange disabled:opacity-40"
+                          title="Ask the model for further objectives"
+                      >
+                          {isSuggesting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />} More ideas
+                      </button>
+                  )}
+              </div>
+              {isOpen && (
+                  <div className="mt-2 space-y-1">
+                      {suggestions.map(s => (
+                          <div key={s.id} className="rounded-lg border border-slate-100 dark:border-slate-800">
+                              <div className="flex items-center gap-1">
+                                  <button
+                                      onClick={() => onChange(s.text)}
+                                      disabled={disabled}
+                                      className="flex-1 flex items-center gap-2 px-2 py-1.5 text-left text-xs font-medium text-slate-700 dark:text-slate-200 hover:bg-slate-50 dark:hover:bg-slate-800 rounded-lg disabled:opacity-50"
+                                      title="Use this objective"
+                                  >
+                                      <span className="text-slate-400 shrink-0">{VISUAL_ICONS[s.visual]}</span>
+                                      <span className="flex-1">{s.text}</span>
+                                      {s.origin === 'MODEL' && <span className="text-[9px] font-bold uppercase px-1 rounded bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">AI</span>}
+                                  </button>
+                                  {s.why && (
+                                      <button
+                                          onClick={() => setExpandedId(id => id === s.id ? null : s.id)}
+                                          className={`p-1.5 rounded-md transition-colors ${expandedId === s.id ? 'text-blue-600' : 'text-slate-400 hover:text-slate-600'}`}
+                                          title="Why this chart"
+                                      >
+                                          <HelpCircle className="w-3.5 h-3.5" />
+                                      </button>
+                                  )}
+                              </div>
+                              {expandedId === s.id && (
+                                  <p className="px-2 pb-2 text-[11px] text-slate-500 leading-snug">
+                                      <span className="font-bold text-slate-600 dark:text-slate-300">Why this chart: </span>{s.why}
+                                  </p>
+                              )}
+                          </div>
+                      ))}
+                      {suggestions.length === 0 && <p className="text-[11px] text-slate-400">No numeric columns to build suggestions from yet.</p>}
+                      {suggestError && <p className="text-[11px] text-amber-600">{suggestError}</p>}
+                  </div>
+              )}
+          </div>
+      )}
+    </div>
+  );
+};
+
+export default ObjectiveInput;
@@ -18,9 +18,9 @@ const STEPS = [
 ];
 
 const ROLES = [
-  { id: 'strategy', label: 'Strategic Advisor', desc: 'Focus on high-level KPIs and trends.', icon: '🎯' },
-  { id: 'analyst', label: 'Data Analyst', desc: 'Focus on density, tables, and correlations.', icon: '📊' },
-  { id: 'product', label: 'Product Manager', desc: 'Focus on user growth and engagement.', icon: '🚀' }
+  { id: 'strategy', label: 'Strategic Advisor', desc: 'Focus on high-level KPIs and trends.', icon: '🎯', persona: 'strategic-advisor' },
+  { id: 'analyst', label: 'Data Analyst', desc: 'Focus on density, tables, and correlations.', icon: '📊', persona: 'deep-analyst' },
+  { id: 'product', label: 'Product Manager', desc: 'Focus on user growth and engagement.', icon: '🚀', persona: 'product-manager' }
 ];
 
 const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
@@ -48,7 +48,7 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
       name: userName || 'Admin User',
       email: 'admin@infogenius.com',
       role: 'ADMIN',
-      persona: ROLES.find(r => r.id === selectedRole)?.label || 'General User'
+      persona: ROLES.find(r => r.id === selectedRole)?.persona
     };
     await db.updateCurrentUser(newUser);
 
@@ -71,7 +71,7 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({ onComplete }) => {
     await db.updateBrandKit(newWorkspace.brandKit!);
 
     // 3. Log Audit
-    await db.addAuditLog({
+    await db.logAudit({
         id: Date.now().toString(),
         userId: newUser.id,
         userName: newUser.name,
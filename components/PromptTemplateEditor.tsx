@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { PromptTemplateId, PromptTemplateOverride } from '../types';
+import { PROMPT_TEMPLATES, PromptRegistry, findUnknownVariables } from '../lib/prompts';
+import { FileCode2, Lock, RotateCcw, Save, AlertCircle, Loader2 } from 'lucide-react';
+
+export interface PromptTemplateDraft {
+  system?: string;
+  prompt: string;
+  cases?: Record<string, string>;
+}
+
+interface PromptTemplateEditorProps {
+  overrides: Partial<Record<PromptTemplateId, PromptTemplateOverride>>;
+  canEdit: boolean;
+  isSaving?: boolean;
+  onSave: (id: PromptTemplateId, draft: PromptTemplateDraft) => void;
+  onReset: (id: PromptTemplateId) => void;
+}
+
+const TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({ overrides, canEdit, isSaving = false, onSave, onReset }) => {
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('analysis');
+  const [draft, setDraft] = useState<PromptTemplateDraft>({ prompt: '' });
+
+  const builtin = PROMPT_TEMPLATES[selectedId];
+  const effective = new PromptRegistry(overrides).get(selectedId);
+  const override = overrides[selectedId];
+  const isOverridden = effective.ref.source === 'WORKSPACE';
+
+  // Load the effective wording whenever the selection or saved overrides change
+  useEffect(() => {
+    setDraft({ system: effective.system, prompt: effective.prompt, cases: effective.cases });
+  }, [selectedId, overrides]);
+
+  const unknown = findUnknownVariables(selectedId, [draft.system || '', draft.prompt, ...Object.values(draft.cases || {})].join('\n'));
+  const isDirty = draft.prompt !== effective.prompt
+    || (draft.system || '') !== (effective.system || '')
+    || JSON.stringify(draft.cases || {}) !== JSON.stringify(effective.cases || {});
+
+  const inputClass = "w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3 text-xs font-mono leading-relaxed focus:ring-2 focus:ring-blue-500 outline-none text-slate-900 dark:text-white disabled:opacity-70";
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      {/* Template List */}
+      <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-sm p-2 h-fit">
+        {TEMPLATE_IDS.map(id => {
+          const ref = new PromptRegistry(overrides).get(id).ref;
+          const active = id === selectedId;
+          return (
+            <button
+              key={id}
+              onClick={() => setSelectedId(id)}
+              className={`w-full flex items-center justify-between gap-2 px-3 py-2.5 rounded-xl text-left transition-colors ${active ? 'bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300' : 'text-slate-600 dark:text-slate-400 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+            >
+              <span className="flex items-center gap-2 text-sm font-bold truncate">
+                <FileCode2 className="w-4 h-4 shrink-0" /> {PROMPT_TEMPLATES[id].name}
+              </span>
+              <span className={`text-[10px] font-bold uppercase tracking-wider px-2 py-0.5 rounded-full shrink-0 ${ref.source === 'WORKSPACE' ? 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300' : 'bg-slate-100 text-slate-500 dark:bg-slate-800'}`}>
+                v{ref.version}{ref.source === 'WORKSPACE' ? ' WS' : ''}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Template Detail */}
+      <div className="md:col-span-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-sm p-6 space-y-5">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h3 className="text-lg font-bold text-slate-900 dark:text-white">{builtin.name}</h3>
+            <p className="text-xs text-slate-500 mt-1">{builtin.description}</p>
+            <p className="text-[10px] font-mono text-slate-400 mt-2">
+              id: {builtin.id} • built-in v{builtin.version}
+              {isOverridden && override && ` • workspace v${override.version} by ${override.updatedBy}, ${new Date(override.updatedAt).toLocaleDateString()}`}
+            </p>
+          </div>
+          {!canEdit && (
+            <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wider text-slate-400 shrink-0">
+              <Lock className="w-3 h-3" /> Admins only
+            </span>
+          )}
+        </div>
+
+        {isOverridden && override && override.basedOn < builtin.version && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs text-amber-800 dark:text-amber-300">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            This override was written against built-in v{override.basedOn}; the built-in template is now v{builtin.version}.
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Variables</label>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(builtin.variables).map(([name, description]) => (
+              <span key={name} title={description} className="px-2 py-1 rounded-lg bg-slate-100 dark:bg-slate-800 text-[11px] font-mono text-slate-600 dark:text-slate-300">
+                {`{{${name}}}`}
+              </span>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-400">{'Wrap text in {{#name}}...{{/name}} to include it only when the variable is set.'}</p>
+        </div>
+
+        {builtin.system !== undefined && (
+          <div className="space-y-2">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">System Instruction</label>
+            <textarea
+              value={draft.system || ''}
+              onChange={e => setDraft(prev => ({ ...prev, system: e.target.value }))}
+              disabled={!canEdit}
+              rows={5}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{builtin.cases ? 'Fallback' : 'Prompt'}</label>
+          <textarea
+            value={draft.prompt}
+            onChange={e => setDraft(prev => ({ ...prev, prompt: e.target.value }))}
+            disabled={!canEdit}
+            rows={builtin.cases ? 2 : 12}
+            className={inputClass}
+          />
+        </div>
+
+        {draft.cases && (
+          <div className="space-y-3">
+            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Cases (by {builtin.selector})</label>
+            {Object.entries(draft.cases).map(([key, text]) => (
+              <div key={key} className="space-y-1">
+                <span className="text-xs font-bold text-slate-700 dark:text-slate-300">{key}</span>
+                <textarea
+                  value={text}
+                  onChange={e => setDraft(prev => ({ ...prev, cases: { ...prev.cases, [key]: e.target.value } }))}
+                  disabled={!canEdit}
+                  rows={2}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {unknown.length > 0 && (
+          <div className="flex items-center gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-xs text-red-700 dark:text-red-300">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            Unknown variables: {unknown.map(v => `{{${v}}}`).join(', ')}
+          </div>
+        )}
+
+        {canEdit && (
+          <div className="pt-4 border-t border-slate-100 dark:border-white/5 flex justify-end gap-3">
+            {isOverridden && (
+              <button
+                onClick={() => onReset(selectedId)}
+                disabled={isSaving}
+                className="px-4 py-2.5 rounded-xl border border-slate-200 dark:border-slate-700 text-sm font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors flex items-center gap-2"
+              >
+                <RotateCcw className="w-4 h-4" /> Reset to Built-in
+              </button>
+            )}
+            <button
+              onClick={() => onSave(selectedId, draft)}
+              disabled={isSaving || !isDirty || unknown.length > 0 || !draft.prompt.trim()}
+              className="px-6 py-2.5 bg-blue-900 hover:bg-blue-800 disabled:opacity-50 text-white rounded-xl font-bold text-sm shadow-lg shadow-blue-900/20 active:scale-95 transition-all flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Save Override
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -1,17 +1,18 @@
 import React, { useState } from 'react';
-import { Search, Loader2, ArrowRight, ExternalLink, Settings2 } from 'lucide-react';
+import { Search, Loader2, ArrowRight, Settings2 } from 'lucide-react';
 import { researchTopic } from '../lib/gemini';
-import { VisualStyle } from '../types';
+import { VisualStyle, SearchResultItem } from '../types';
+import SearchResults from './SearchResults';
 
 interface ResearchBarProps {
-  onGenerateVisuals: (topic: string, summary: string, style: VisualStyle, colorPalette: string, aspectRatio: string) => void;
+  onGenerateVisuals: (topic: string, summary: string, citations: SearchResultItem[], style: VisualStyle, colorPalette: string, aspectRatio: string) => void;
 }
 
 const ResearchBar: React.FC<ResearchBarProps> = ({ onGenerateVisuals }) => {
   const [topic, setTopic] = useState('');
   const [audience, setAudience] = useState('General Business');
   const [isResearching, setIsResearching] = useState(false);
-  const [researchResult, setResearchResult] = useState<{ summary: string, sources: any[] } | null>(null);
+  const [researchResult, setResearchResult] = useState<{ summary: string, sources: SearchResultItem[] } | null>(null);
   
   const [showOptions, setShowOptions] = useState(false);
   const [style, setStyle] = useState<VisualStyle>('Modern SaaS');
@@ -146,34 +147,11 @@ const ResearchBar: React.FC<ResearchBarProps> = ({ onGenerateVisuals }) => {
               {researchResult.summary}
             </div>
             
-            {researchResult.sources && researchResult.sources.length > 0 && (
-              <div className="mb-6">
-                <h4 className="font-bold text-xs text-slate-500 uppercase mb-3">Sources</h4>
-                <div className="flex flex-wrap gap-2">
-                  {researchResult.sources.map((source: any, idx: number) => {
-                    if (source.web?.uri) {
-                      return (
-                        <a 
-                          key={idx} 
-                          href={source.web.uri} 
-                          target="_blank" 
-                          rel="noopener noreferrer"
-                          className="flex items-center gap-1 text-xs bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 px-3 py-1.5 rounded-full hover:border-brand-blue hover:text-brand-blue transition-colors"
-                        >
-                          <span className="truncate max-w-[200px]">{source.web.title || source.web.uri}</span>
-                          <ExternalLink className="w-3 h-3" />
-                        </a>
-                      );
-                    }
-                    return null;
-                  })}
-                </div>
-              </div>
-            )}
+            <SearchResults results={researchResult.sources} />
 
             <div className="flex justify-end pt-4 border-t border-slate-200 dark:border-slate-800">
               <button
-                onClick={() => onGenerateVisuals(topic, researchResult.summary, style, colorPalette, aspectRatio)}
+                onClick={() => onGenerateVisuals(topic, researchResult.summary, researchResult.sources, style, colorPalette, aspectRatio)}
                 className="bg-brand-orange hover:bg-brand-orange-dark text-white px-6 py-2.5 rounded-lg font-bold transition-all shadow-lg shadow-brand-orange/20 flex items-center gap-2"
               >
                 Generate Visuals
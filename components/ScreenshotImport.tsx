@@ -0,0 +1,315 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { GeneratedImage, Project, ScreenshotLayout, VisualStyle } from '../types';
+import { db } from '../lib/db';
+import { extractScreenshotLayout, generateDashboardImage } from '../lib/gemini';
+import { generateThumbnail, checkImageUpload, readFileAsDataUrl, IMAGE_UPLOAD_TYPES } from '../lib/image';
+import { setUsageProject } from '../lib/usage';
+import { buildDataContext, describeFindings, needsConfirmation } from '../lib/untrusted';
+import { describeLayoutForPrompt, nearestAspectRatio, placeholderDataSources, summarizeLayout } from '../lib/screenshot';
+import { X, ImagePlus, Upload, Loader2, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface ScreenshotImportProps {
+  isOpen: boolean;
+  folderId?: string;
+  onClose: () => void;
+  onImported: (projectId: string) => void;
+}
+
+type ImportStage = 'READING' | 'CREATING' | 'GENERATING';
+
+const STAGE_LABELS: Record<ImportStage, string> = {
+  READING: 'Reading layout, KPIs and charts...',
+  CREATING: 'Creating project with placeholder sources...',
+  GENERATING: 'Rebuilding the dashboard...',
+};
+
+const imageSize = (dataUrl: string): Promise<{ width: number; height: number }> => new Promise(resolve => {
+  const img = new Image();
+  img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+  img.onerror = () => resolve({ width: 0, height: 0 });
+  img.src = dataUrl;
+});
+
+const ScreenshotImport: React.FC<ScreenshotImportProps> = ({ isOpen, folderId, onClose, onImported }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<{ name: string; dataUrl: string; mimeType: string } | null>(null);
+  const [notes, setNotes] = useState('');
+  const [style, setStyle] = useState<VisualStyle>('Modern SaaS');
+  const [useBrandKit, setUseBrandKit] = useState(true);
+  const [stage, setStage] = useState<ImportStage | null>(null);
+  const [layout, setLayout] = useState<ScreenshotLayout | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [createdId, setCreatedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const reset = () => {
+    setPreview(null);
+    setNotes('');
+    setLayout(null);
+    setError(null);
+    setCreatedId(null);
+  };
+
+  const handleClose = () => {
+    if (stage) return;
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    reset();
+    const problem = checkImageUpload(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setPreview({ name: file.name, dataUrl: await readFileAsDataUrl(file), mimeType: file.type });
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const projectId = Date.now().toString();
+    let created = false;
+    setError(null);
+    setUsageProject(projectId);
+    try {
+      setStage('READING');
+      const read = await extractScreenshotLayout({ mimeType: preview.mimeType, data: preview.dataUrl.split(',')[1] }, notes.trim());
+      setLayout(read);
+
+      setStage('CREATING');
+      const user = await db.getCurrentUser();
+      const sources = placeholderDataSources(read);
+      for (const s of sources.filter(s => s.injection)) {
+        await db.logAudit({
+          id: crypto.randomUUID(),
+          userId: user?.id || 'sys',
+          userName: user?.name || 'System',
+          action: 'SECURITY',
+          resourceId: s.id,
+          resourceType: 'DATA_SOURCE',
+          details: describeFindings(s, s.injection!.findings),
+          timestamp: Date.now()
+        });
+      }
+      const { width, height } = await imageSize(preview.dataUrl);
+      const project: Project = {
+        id: projectId,
+        title: read.title,
+        createdAt: Date.now(),
+        updatedAt: Date.now(),
+        prompt: read.objective,
+        level: 'Operational',
+        style,
+        colorPalette: 'Brand Default',
+        aspectRatio: nearestAspectRatio(width, height),
+        dataSources: sources,
+        canvasState: { annotations: [], comments: [] },
+        history: [],
+        folderId
+      };
+      await db.createProject(project);
+      created = true;
+      setCreatedId(projectId);
+
+      // Flagged placeholder rows need confirmation in the Editor before anything is generated from them
+      if (sources.some(needsConfirmation)) {
+        setError("Some text read from the screenshot looks like instructions. The project was created; review the flagged sources in the Editor before generating.");
+        return;
+      }
+
+      setStage('GENERATING');
+      const brandKit = useBrandKit ? await db.getBrandKit() : undefined;
+      const prompt = `
+        ${read.objective}
+
+        ${describeLayoutForPrompt(read)}
+
+        REAL DATA TO VISUALIZE:
+        ${buildDataContext(sources)}
+      `;
+      const result = await generateDashboardImage(prompt, style, brandKit, project.aspectRatio, project.colorPalette, undefined, sources, undefined, undefined, false, 'INTERACTIVE');
+      if (!result.data.startsWith('data:image/svg+xml')) {
+        setError("The dashboard could only be rebuilt as a raster image, so it was not saved. Open the project to regenerate it as SVG.");
+        return;
+      }
+
+      const version: GeneratedImage = {
+        id: Date.now().toString(),
+        data: result.data,
+        prompt: read.objective,
+        timestamp: Date.now(),
+        level: project.level,
+        style,
+        aspectRatio: project.aspectRatio,
+        colorPalette: project.colorPalette,
+        persona: result.persona,
+        spec: result.spec,
+        template: result.template,
+        origin: result.origin
+      };
+      let thumbnail = result.data;
+      try {
+        thumbnail = await generateThumbnail(result.data);
+      } catch (e) {
+        console.error("Failed to generate thumbnail", e);
+      }
+      await db.updateProject({ ...project, history: [version], thumbnail, updatedAt: Date.now() });
+      await db.logAudit({
+        id: crypto.randomUUID(),
+        userId: user?.id || 'sys',
+        userName: user?.name || 'System',
+        action: 'GENERATE',
+        resourceId: projectId,
+        resourceType: 'PROJECT',
+        details: `Imported dashboard screenshot "${preview.name}" (${summarizeLayout(read)})`,
+        timestamp: Date.now()
+      });
+
+      reset();
+      onImported(projectId);
+    } catch (err: any) {
+      console.error("Screenshot import failed", err);
+      setError(created
+        ? `The project was created but the dashboard could not be rebuilt: ${err.message || 'unknown error'}`
+        : err.message || "The screenshot could not be imported.");
+    } finally {
+      setStage(null);
+      setUsageProject(undefined);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-900/50 backdrop-blur-sm flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-white dark:bg-slate-900 rounded-2xl shadow-2xl border border-slate-200 dark:border-slate-700 w-full max-w-lg overflow-hidden animate-in zoom-in-95 duration-200">
+        <div className="flex justify-between items-center p-5 border-b border-slate-100 dark:border-slate-800">
+          <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2">
+            <ImagePlus className="w-5 h-5 text-blue-600" />
+            Import Screenshot
+          </h2>
+          <button onClick={handleClose} disabled={!!stage} className="p-2 text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors disabled:opacity-40">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            Upload a screenshot of a legacy BI dashboard. Its panels, KPI labels and chart types are read into a new project with placeholder data sources, then rebuilt in the style you choose.
+          </p>
+
+          <input ref={fileInputRef} type="file" accept={IMAGE_UPLOAD_TYPES.join(',')} className="hidden" onChange={handleFile} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!stage}
+            className="w-full h-48 rounded-xl border-2 border-dashed border-slate-200 dark:border-slate-700 hover:border-blue-400 bg-slate-50 dark:bg-slate-950 flex flex-col items-center justify-center gap-2 overflow-hidden transition-colors disabled:opacity-60"
+          >
+            {preview ? (
+              <img src={preview.dataUrl} alt={preview.name} className="max-h-full max-w-full object-contain" />
+            ) : (
+              <>
+                <Upload className="w-8 h-8 text-slate-400" />
+                <span className="text-sm font-bold text-slate-600 dark:text-slate-300">Choose a PNG or JPEG</span>
+              </>
+            )}
+          </button>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Notes (optional)</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={e => setNotes(e.target.value)}
+              disabled={!!stage}
+              placeholder="e.g. Weekly sales review used by regional managers"
+              className="w-full bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-brand-blue outline-none"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 items-end">
+            <div>
+              <label className="block text-xs font-bold text-slate-500 uppercase mb-2">Visual Style</label>
+              <select
+                value={style}
+                onChange={e => setStyle(e.target.value as VisualStyle)}
+                disabled={!!stage}
+                className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-900 dark:text-white focus:ring-2 focus:ring-brand-blue outline-none"
+              >
+                <optgroup label="Enterprise Standard">
+                  <option>Modern SaaS</option>
+                  <option>Corporate Clean</option>
+                  <option>Financial Traditional</option>
+                  <option>Dark Mode Analytics</option>
+                  <option>Minimalist</option>
+                </optgroup>
+                <optgroup label="Creative & Modern">
+                  <option>Glassmorphism</option>
+                  <option>Neumorphism</option>
+                  <option>Cyberpunk Neon</option>
+                  <option>Isometric 3D</option>
+                  <option>Swiss Design</option>
+                </optgroup>
+                <optgroup label="Specialized">
+                  <option>Data Journalism</option>
+                  <option>Hand-Drawn Sketch</option>
+                  <option>Futuristic HUD</option>
+                  <option>Vintage Terminal</option>
+                  <option>High Contrast</option>
+                  <option>Paper Wireframe</option>
+                </optgroup>
+              </select>
+            </div>
+            <label className="flex items-center gap-2 py-2 text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={useBrandKit} onChange={e => setUseBrandKit(e.target.checked)} disabled={!!stage} className="rounded" />
+              Apply brand kit
+            </label>
+          </div>
+
+          {stage && (
+            <div className="flex items-center gap-2 text-sm text-blue-700 dark:text-blue-300">
+              <Loader2 className="w-4 h-4 animate-spin" /> {STAGE_LABELS[stage]}
+            </div>
+          )}
+          {layout && !stage && !error && (
+            <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+              <CheckCircle2 className="w-4 h-4" /> Found {summarizeLayout(layout)}
+            </div>
+          )}
+          {error && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 text-xs text-amber-800 dark:text-amber-300">
+              <AlertTriangle className="w-4 h-4 shrink-0" /> <span>{error}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="p-5 border-t border-slate-100 dark:border-slate-800 flex justify-end gap-3">
+          {createdId && !stage ? (
+            <button
+              onClick={() => { reset(); onImported(createdId); }}
+              className="px-5 py-2.5 bg-brand-blue hover:bg-brand-blue-dark text-white rounded-xl font-bold text-sm transition-colors"
+            >
+              Open Project
+            </button>
+          ) : (
+            <button
+              onClick={handleImport}
+              disabled={!preview || !!stage}
+              className="px-5 py-2.5 bg-brand-blue hover:bg-brand-blue-dark text-white rounded-xl font-bold text-sm disabled:opacity-50 transition-colors flex items-center gap-2"
+            >
+              {stage ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImagePlus className="w-4 h-4" />} Import & Rebuild
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScreenshotImport;
@@ -5,6 +5,7 @@
 */
 import React from 'react';
 import { SearchResultItem } from '../types';
+import { isWebUrl } from '../lib/citations';
 import { ExternalLink, BookOpen, Link as LinkIcon } from 'lucide-react';
 
 interface SearchResultsProps {
@@ -15,8 +16,8 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
   if (!results || results.length === 0) return null;
 
   return (
-    <div className="w-full max-w-6xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-8 duration-1000">
-      <div className="flex items-center gap-3 mb-6 border-t border-slate-200 dark:border-white/10 pt-8 transition-colors">
+    <div className="w-full mb-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
+      <div className="flex items-center gap-3 mb-4">
         <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-blue-900 dark:text-blue-400 shadow-sm">
             <BookOpen className="w-5 h-5" />
         </div>
@@ -24,10 +25,10 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {results.map((result, index) => (
+        {results.map(result => (
           <a 
-            key={index} 
-            href={result.url} 
+            key={result.id} 
+            href={isWebUrl(result.url) ? result.url : undefined} 
             target="_blank" 
             rel="noopener noreferrer"
             className="group relative flex flex-col p-5 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl hover:border-orange-500/30 hover:bg-slate-50 dark:hover:bg-slate-800/80 transition-all duration-300 overflow-hidden shadow-sm hover:shadow-md"
@@ -36,21 +37,24 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
             
             <div className="flex items-start justify-between gap-3 mb-3">
                <h4 className="font-display font-bold text-slate-800 dark:text-slate-200 group-hover:text-blue-900 dark:group-hover:text-blue-400 transition-colors line-clamp-2 leading-tight text-sm">
-                 {result.title}
+                 <span className="font-mono text-brand-orange mr-1.5">[{result.id}]</span>{result.title}
                </h4>
                <ExternalLink className="w-3.5 h-3.5 text-slate-400 dark:text-slate-600 group-hover:text-blue-900 dark:group-hover:text-blue-400 flex-shrink-0 transition-colors mt-0.5" />
             </div>
             
+            {result.claims.length > 0 && (
+              <ul className="mb-3 space-y-1">
+                {result.claims.slice(0, 3).map((claim, i) => (
+                  <li key={i} className="text-[11px] text-slate-500 dark:text-slate-400 line-clamp-2 pl-2 border-l-2 border-slate-200 dark:border-slate-700">{claim}</li>
+                ))}
+                {result.claims.length > 3 && <li className="text-[10px] text-slate-400">+{result.claims.length - 3} more passages</li>}
+              </ul>
+            )}
+
             <div className="mt-auto flex items-center gap-2 text-[10px] text-slate-500 font-mono">
               <LinkIcon className="w-3 h-3" />
               <span className="truncate max-w-full opacity-70 group-hover:opacity-100 transition-opacity uppercase tracking-wider">
-                {(() => {
-                  try {
-                    return new URL(result.url).hostname.replace('www.', '');
-                  } catch {
-                    return 'External Source';
-                  }
-                })()}
+                {result.domain}
               </span>
             </div>
           </a>
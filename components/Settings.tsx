@@ -7,13 +7,21 @@ import {
     User as UserIcon, Settings as SettingsIcon, Users, Palette, Database, Shield, 
     BarChart3, History, Globe, Mail, ChevronRight, Save, Trash2, 
     Plus, Lock, ExternalLink, RefreshCw, Smartphone, Check, X,
-    Slack, Github, Figma, MoreVertical, Send, Loader2, Info, AlertCircle, Key, Search
+    Slack, Github, Figma, MoreVertical, Send, Loader2, Info, AlertCircle, Key, Search, Cpu, FileCode2, BadgeCheck
 } from 'lucide-react';
 import { db } from '../lib/db';
-import { TeamMember, AuditEntry, BrandKit, Workspace, User } from '../types';
+import { TeamMember, AuditEntry, BrandKit, Workspace, User, AIProviderKind, UsageStats, UsageRecord, UsageOperation, PromptTemplateId, CacheStats } from '../types';
+import { getUsageStats, summarizeUsage, billingPeriod, formatBytes, PLAN_TOKEN_QUOTA, OPERATION_LABELS, UsageBucket } from '../lib/usage';
+import { formatNumber } from '../lib/data';
+import { PROMPT_TEMPLATES } from '../lib/prompts';
+import { getCacheSummary, DEFAULT_CACHE_CONFIG } from '../lib/cache';
+import { DEFAULT_BRAND_COMPLIANCE } from '../lib/brand';
+import { PERSONA_PROFILES, resolvePersona, describePersona } from '../lib/persona';
 import BrandKitEditor from './BrandKitEditor';
+import PromptTemplateEditor, { PromptTemplateDraft } from './PromptTemplateEditor';
+import ModelSettingsEditor from './ModelSettingsEditor';
 
-type SettingsTab = 'profile' | 'workspace' | 'team' | 'integrations' | 'security' | 'usage' | 'audit';
+type SettingsTab = 'profile' | 'workspace' | 'prompts' | 'team' | 'integrations' | 'security' | 'usage' | 'audit';
 
 const Settings: React.FC = () => {
     const [activeTab, setActiveTab] = useState<SettingsTab>('profile');
@@ -42,6 +50,14 @@ const Settings: React.FC = () => {
 
     // Audit / General UI
     const [logs, setLogs] = useState<AuditEntry[]>([]);
+
+    // Usage State
+    const [usagePeriod, setUsagePeriod] = useState(billingPeriod());
+    const [usagePeriods, setUsagePeriods] = useState<string[]>([billingPeriod()]);
+    const [usage, setUsage] = useState<{ stats: UsageStats; records: UsageRecord[]; storage: Record<string, number> } | null>(null);
+    const [storageQuota, setStorageQuota] = useState<number | null>(null);
+    const [projectTitles, setProjectTitles] = useState<Record<string, string>>({});
+    const [cacheSummary, setCacheSummary] = useState<{ stats: CacheStats; entries: number } | null>(null);
     const [isSaving, setIsSaving] = useState(false);
     const [toast, setToast] = useState<{message: string, type: 'success' | 'error'} | null>(null);
 
@@ -49,6 +65,25 @@ const Settings: React.FC = () => {
         loadData();
     }, []);
 
+    useEffect(() => {
+        if (activeTab === 'usage') loadUsage();
+    }, [activeTab, usagePeriod]);
+
+    const loadUsage = async () => {
+        const [result, allRecords, projects, cache] = await Promise.all([
+            getUsageStats(usagePeriod),
+            db.getUsageRecords(),
+            db.getAllProjects(),
+            getCacheSummary(usagePeriod)
+        ]);
+        setUsage(result);
+        setCacheSummary(cache);
+        setUsagePeriods(Array.from(new Set([billingPeriod(), ...allRecords.map(r => r.period)])).sort().reverse());
+        setProjectTitles(Object.fromEntries(projects.map(p => [p.id, p.title])));
+        const estimate = await navigator.storage?.estimate?.();
+        setStorageQuota(estimate?.quota ?? null);
+    };
+
     const loadData = async () => {
         const user = await db.getCurrentUser();
         const ws = await db.getWorkspace();
@@ -62,7 +97,7 @@ const Settings: React.FC = () => {
                 name: 'John Doe', 
                 email: 'john@enterprise.com', 
                 role: 'ADMIN', 
-                persona: 'Strategic Advisor (Concise, High-level)' 
+                persona: 'strategic-advisor' 
             };
             await db.updateCurrentUser(newUser);
             setCurrentUser(newUser);
@@ -116,7 +151,7 @@ const Settings: React.FC = () => {
         await db.updateCurrentUser(updatedUser);
         setCurrentUser(updatedUser);
         
-        await db.addAuditLog({
+        await db.logAudit({
             id: Date.now().toString(),
             userId: currentUser.id,
             userName: currentUser.name,
@@ -148,7 +183,7 @@ const Settings: React.FC = () => {
         };
 
         await db.updateMember(newMember);
-        await db.addAuditLog({
+        await db.logAudit({
             id: Date.now().toString(),
             userId: currentUser?.id || 'sys',
             userName: currentUser?.name || 'System',
@@ -176,7 +211,7 @@ const Settings: React.FC = () => {
         const updatedTeam = await db.getTeam();
         setTeam(updatedTeam);
         
-        await db.addAuditLog({
+        await db.logAudit({
             id: Date.now().toString(),
             userId: currentUser?.id || 'sys',
             userName: currentUser?.name || 'System',
@@ -193,7 +228,7 @@ const Settings: React.FC = () => {
         if (!workspace) return;
         setIsSaving(true);
         await db.updateWorkspace(workspace);
-        await db.addAuditLog({
+        await db.logAudit({
             id: Date.now().toString(),
             userId: currentUser?.id || 'sys',
             userName: currentUser?.name || 'System',
@@ -208,10 +243,55 @@ const Settings: React.FC = () => {
         }, 600);
     };
 
+    // Overrides are saved immediately (not via "Apply Workspace Changes") so each save is its own version.
+    const updatePromptOverride = async (id: PromptTemplateId, draft: PromptTemplateDraft | null) => {
+        if (!workspace) return;
+        setIsSaving(true);
+        const previous = workspace.promptOverrides?.[id];
+        const version = (previous?.version || 0) + (draft ? 1 : 0);
+        const next: Workspace = {
+            ...workspace,
+            promptOverrides: {
+                ...workspace.promptOverrides,
+                [id]: draft
+                    ? { ...draft, version, basedOn: PROMPT_TEMPLATES[id].version, updatedAt: Date.now(), updatedBy: currentUser?.name || 'System' }
+                    : { ...previous!, disabled: true, updatedAt: Date.now(), updatedBy: currentUser?.name || 'System' }
+            }
+        };
+        await db.updateWorkspace(next);
+        await db.logAudit({
+            id: Date.now().toString(),
+            userId: currentUser?.id || 'sys',
+            userName: currentUser?.name || 'System',
+            action: 'EDIT',
+            details: draft ? `Saved prompt template "${id}" as workspace v${version}` : `Reset prompt template "${id}" to built-in`,
+            timestamp: Date.now()
+        });
+        setWorkspace(next);
+        setLogs(await db.getAuditLogs());
+        setIsSaving(false);
+        showToast(draft ? "Prompt template saved" : "Prompt template reset");
+    };
+
+    const handleClearCache = async () => {
+        await db.clearCache();
+        await db.logAudit({
+            id: Date.now().toString(),
+            userId: currentUser?.id || 'sys',
+            userName: currentUser?.name || 'System',
+            action: 'DELETE',
+            details: 'Cleared AI response cache',
+            timestamp: Date.now()
+        });
+        setLogs(await db.getAuditLogs());
+        await loadUsage();
+        showToast("Response cache cleared");
+    };
+
     const handleSaveSSO = async () => {
         setIsSaving(true);
         await new Promise(r => setTimeout(r, 800)); // Simulate API Call
-        await db.addAuditLog({
+        await db.logAudit({
             id: Date.now().toString(),
             userId: currentUser?.id || 'sys',
             userName: currentUser?.name || 'System',
@@ -228,6 +308,7 @@ const Settings: React.FC = () => {
     const generalItems = [
         { id: 'profile', label: 'Personal Profile', icon: <UserIcon className="w-4 h-4" /> },
         { id: 'workspace', label: 'Workspace & Brand', icon: <Globe className="w-4 h-4" /> },
+        { id: 'prompts', label: 'Prompt Templates', icon: <FileCode2 className="w-4 h-4" /> },
         { id: 'team', label: 'Team Management', icon: <Users className="w-4 h-4" /> },
         { id: 'integrations', label: 'Integrations', icon: <Database className="w-4 h-4" /> },
     ];
@@ -357,15 +438,16 @@ const Settings: React.FC = () => {
                                     <div className="space-y-2">
                                         <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">AI Persona</label>
                                         <select 
-                                            value={profilePersona}
+                                            value={resolvePersona(profilePersona)?.id || ''}
                                             onChange={(e) => setProfilePersona(e.target.value)}
                                             className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
                                         >
-                                            <option>Strategic Advisor (Concise, High-level)</option>
-                                            <option>Deep Analyst (Data-heavy, Detailed)</option>
-                                            <option>Creative Partner (Visual-first, Inspiring)</option>
-                                            <option>Proofreader (Grammar & Flow focus)</option>
+                                            <option value="">None</option>
+                                            {PERSONA_PROFILES.map(p => (
+                                                <option key={p.id} value={p.id}>{describePersona(p)}</option>
+                                            ))}
                                         </select>
+                                        <p className="text-[11px] text-slate-400">Sets tone, density, chart choice and terminology in generation, editing, research and narratives. Projects can override it.</p>
                                     </div>
                                 </div>
 
@@ -418,7 +500,140 @@ const Settings: React.FC = () => {
 
                                 <hr className="border-slate-100 dark:border-white/5" />
 
-                                <BrandKitEditor 
+                                <div className="space-y-4">
+                                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                                        <Cpu className="w-4 h-4" /> AI Provider
+                                    </h3>
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                        {([
+                                            { kind: 'GEMINI', label: 'Google Gemini', desc: 'Hosted Gemini models with search grounding.' },
+                                            { kind: 'OPENAI_COMPATIBLE', label: 'OpenAI-Compatible', desc: 'Self-hosted or proxied gateway.' },
+                                            { kind: 'FIXTURE', label: 'Offline Fixtures', desc: 'Deterministic demo output, no network.' },
+                                        ] as { kind: AIProviderKind, label: string, desc: string }[]).map(opt => {
+                                            const active = (workspace?.aiProvider?.kind || 'GEMINI') === opt.kind;
+                                            return (
+                                                <button
+                                                    key={opt.kind}
+                                                    onClick={() => setWorkspace(prev => prev ? {...prev, aiProvider: { ...prev.aiProvider, kind: opt.kind }} : null)}
+                                                    className={`p-4 rounded-xl border text-left transition-all ${active ? 'bg-blue-50 dark:bg-blue-900/20 border-blue-500 ring-1 ring-blue-500' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                                                >
+                                                    <span className={`block text-sm font-bold ${active ? 'text-blue-700 dark:text-blue-300' : 'text-slate-700 dark:text-slate-300'}`}>{opt.label}</span>
+                                                    <span className="block text-[10px] text-slate-500 mt-1">{opt.desc}</span>
+                                                </button>
+                                            );
+                                        })}
+                                    </div>
+                                    {workspace?.aiProvider?.kind === 'OPENAI_COMPATIBLE' && (
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 animate-in fade-in slide-in-from-top-2">
+                                            <div className="space-y-2">
+                                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Gateway Base URL</label>
+                                                <input
+                                                    placeholder="https://llm.internal.company.com/v1"
+                                                    value={workspace.aiProvider.baseUrl || ''}
+                                                    onChange={e => setWorkspace(prev => prev ? {...prev, aiProvider: { kind: 'OPENAI_COMPATIBLE', ...prev.aiProvider, baseUrl: e.target.value }} : null)}
+                                                    className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none font-mono"
+                                                />
+                                            </div>
+                                            <div className="space-y-2">
+                                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">API Key</label>
+                                                <div className="relative">
+                                                    <input
+                                                        type="password"
+                                                        value={workspace.aiProvider.apiKey || ''}
+                                                        onChange={e => setWorkspace(prev => prev ? {...prev, aiProvider: { kind: 'OPENAI_COMPATIBLE', ...prev.aiProvider, apiKey: e.target.value }} : null)}
+                                                        className="w-full bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl p-3 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                                                    />
+                                                    <Key className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                                                </div>
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+
+                                <hr className="border-slate-100 dark:border-white/5" />
+
+                                <ModelSettingsEditor
+                                    settings={workspace?.modelSettings}
+                                    onChange={modelSettings => setWorkspace(prev => prev ? {...prev, modelSettings} : null)}
+                                />
+
+                                <hr className="border-slate-100 dark:border-white/5" />
+
+                                <div className="space-y-4">
+                                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                                        <Database className="w-4 h-4" /> Response Cache
+                                    </h3>
+                                    <div className="flex flex-wrap items-center gap-6">
+                                        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={(workspace?.responseCache || DEFAULT_CACHE_CONFIG).enabled}
+                                                onChange={e => setWorkspace(prev => prev ? {...prev, responseCache: { ...DEFAULT_CACHE_CONFIG, ...prev.responseCache, enabled: e.target.checked }} : null)}
+                                                className="rounded border-slate-300 text-blue-900 focus:ring-blue-900"
+                                            />
+                                            Reuse identical AI responses
+                                        </label>
+                                        <div className="flex items-center gap-2">
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Expire After</label>
+                                            <select
+                                                value={(workspace?.responseCache || DEFAULT_CACHE_CONFIG).ttlHours}
+                                                onChange={e => setWorkspace(prev => prev ? {...prev, responseCache: { ...DEFAULT_CACHE_CONFIG, ...prev.responseCache, ttlHours: Number(e.target.value) }} : null)}
+                                                className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm outline-none"
+                                            >
+                                                <option value={1}>1 hour</option>
+                                                <option value={6}>6 hours</option>
+                                                <option value={24}>24 hours</option>
+                                                <option value={168}>7 days</option>
+                                                <option value={720}>30 days</option>
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <p className="text-[10px] text-slate-500">Analysis and layout responses are keyed by model, prompt, schema and data. Image outputs are never cached.</p>
+                                </div>
+
+                                <hr className="border-slate-100 dark:border-white/5" />
+
+                                <div className="space-y-4">
+                                    <h3 className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+                                        <BadgeCheck className="w-4 h-4" /> Brand Compliance
+                                    </h3>
+                                    <div className="flex flex-wrap items-center gap-6">
+                                        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={(workspace?.brandCompliance || DEFAULT_BRAND_COMPLIANCE).strict}
+                                                onChange={e => setWorkspace(prev => prev ? {...prev, brandCompliance: { ...DEFAULT_BRAND_COMPLIANCE, ...prev.brandCompliance, strict: e.target.checked }} : null)}
+                                                className="rounded border-slate-300 text-blue-900 focus:ring-blue-900"
+                                            />
+                                            Block export of off-brand versions
+                                        </label>
+                                        <label className="flex items-center gap-2 text-sm font-medium text-slate-700 dark:text-slate-300 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={(workspace?.brandCompliance || DEFAULT_BRAND_COMPLIANCE).allowNeutrals}
+                                                onChange={e => setWorkspace(prev => prev ? {...prev, brandCompliance: { ...DEFAULT_BRAND_COMPLIANCE, ...prev.brandCompliance, allowNeutrals: e.target.checked }} : null)}
+                                                className="rounded border-slate-300 text-blue-900 focus:ring-blue-900"
+                                            />
+                                            Allow greys and neutrals
+                                        </label>
+                                        <div className="flex items-center gap-2">
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Tolerance (ΔE)</label>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={50}
+                                                value={(workspace?.brandCompliance || DEFAULT_BRAND_COMPLIANCE).tolerance}
+                                                onChange={e => setWorkspace(prev => prev ? {...prev, brandCompliance: { ...DEFAULT_BRAND_COMPLIANCE, ...prev.brandCompliance, tolerance: Math.max(1, Number(e.target.value) || DEFAULT_BRAND_COMPLIANCE.tolerance) }} : null)}
+                                                className="w-20 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm outline-none"
+                                            />
+                                        </div>
+                                    </div>
+                                    <p className="text-[10px] text-slate-500">Colors further than the tolerance (CIEDE2000) from every brand color, fonts outside the brand fonts and a missing logo are reported as violations.</p>
+                                </div>
+
+                                <hr className="border-slate-100 dark:border-white/5" />
+
+                                <BrandKitEditor
                                     onClose={() => {}} 
                                     onUpdate={(kit) => setWorkspace(prev => prev ? {...prev, brandKit: kit} : null)} 
                                 />
@@ -437,6 +652,22 @@ const Settings: React.FC = () => {
                         </section>
                     )}
 
+                    {activeTab === 'prompts' && (
+                        <section className="space-y-8 animate-in slide-in-from-bottom-2 duration-300">
+                            <div>
+                                <h2 className="text-2xl font-bold text-slate-900 dark:text-white">Prompt Templates</h2>
+                                <p className="text-slate-500">Review and override the prompts used for analysis, generation and editing. Every version records the template that produced it.</p>
+                            </div>
+                            <PromptTemplateEditor
+                                overrides={workspace?.promptOverrides || {}}
+                                canEdit={currentUser?.role === 'ADMIN'}
+                                isSaving={isSaving}
+                                onSave={(id, draft) => updatePromptOverride(id, draft)}
+                                onReset={(id) => updatePromptOverride(id, null)}
+                            />
+                        </section>
+                    )}
+
                     {activeTab === 'team' && (
                         <section className="space-y-8 animate-in slide-in-from-bottom-2 duration-300">
                             <div className="flex justify-between items-center">
@@ -764,11 +995,107 @@ const Settings: React.FC = () => {
                                 <p className="text-slate-500">Monitor your consumption metrics and manage subscriptions.</p>
                             </div>
 
-                            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                                <UsageCard icon={<BarChart3 className="text-blue-600" />} label="Token Usage" value="1.2M / 5M" sub="24% of quota" color="blue" />
-                                <UsageCard icon={<Plus className="text-emerald-600" />} label="AI Generations" value="482" sub="Unlimited" color="emerald" />
-                                <UsageCard icon={<Database className="text-orange-600" />} label="Storage" value="2.4 GB" sub="24% of 10GB" color="orange" />
-                            </div>
+                            {(() => {
+                                const stats = usage?.stats;
+                                const quota = PLAN_TOKEN_QUOTA[workspace?.plan || 'ENTERPRISE'];
+                                const tokenPct = stats ? Math.min(100, (stats.tokensUsed / quota) * 100) : 0;
+                                const storagePct = stats && storageQuota ? Math.min(100, (stats.storageBytes / storageQuota) * 100) : 0;
+                                const breakdown = usage ? summarizeUsage(usage.records, usagePeriod) : null;
+                                const maxDay = Math.max(1, ...(breakdown?.byDay.map(d => d.tokens) || [0]));
+                                return (
+                                    <>
+                                        <div className="flex items-center gap-3">
+                                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Billing Period</label>
+                                            <select
+                                                value={usagePeriod}
+                                                onChange={(e) => setUsagePeriod(e.target.value)}
+                                                className="bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-3 py-2 text-sm font-bold text-slate-800 dark:text-slate-200 outline-none"
+                                            >
+                                                {usagePeriods.map(p => <option key={p} value={p}>{p}</option>)}
+                                            </select>
+                                            {stats && <span className="ml-auto text-xs text-slate-500">Estimated cost: <strong className="text-slate-900 dark:text-white">${stats.estimatedCost.toFixed(2)}</strong></span>}
+                                        </div>
+
+                                        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                                            <UsageCard icon={<BarChart3 className="text-blue-600" />} label="Token Usage" value={stats ? `${formatNumber(stats.tokensUsed)} / ${formatNumber(quota)}` : '—'} sub={`${tokenPct.toFixed(1)}% of quota`} color="blue" percent={tokenPct} />
+                                            <UsageCard icon={<Plus className="text-emerald-600" />} label="AI Generations" value={stats ? stats.imagesGenerated.toLocaleString() : '—'} sub={stats ? `${stats.requests.toLocaleString()} model calls` : ''} color="emerald" />
+                                            <UsageCard icon={<Database className="text-orange-600" />} label="Storage" value={stats?.storageUsed || '—'} sub={storageQuota ? `${storagePct.toFixed(2)}% of ${formatBytes(storageQuota)} browser quota` : 'Local IndexedDB'} color="orange" percent={storagePct} />
+                                        </div>
+
+                                        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-sm p-6">
+                                            <h3 className="text-sm font-bold text-slate-900 dark:text-white mb-4">Daily Token Usage</h3>
+                                            <div className="flex items-end gap-1 h-32">
+                                                {breakdown?.byDay.map(d => (
+                                                    <div key={d.key} className="flex-1 flex flex-col justify-end h-full group relative" title={`Day ${d.key}: ${d.tokens.toLocaleString()} tokens, ${d.calls} calls`}>
+                                                        <div className="bg-blue-500 dark:bg-blue-400 rounded-t-sm group-hover:bg-blue-700 transition-colors" style={{ height: `${(d.tokens / maxDay) * 100}%`, minHeight: d.tokens > 0 ? 2 : 0 }} />
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            <div className="flex justify-between text-[10px] text-slate-400 mt-2">
+                                                <span>1</span><span>{breakdown?.byDay.length}</span>
+                                            </div>
+                                        </div>
+
+                                        {cacheSummary && (() => {
+                                            const { hits, misses, tokensSaved, costSaved } = cacheSummary.stats;
+                                            const hitRate = hits + misses > 0 ? (hits / (hits + misses)) * 100 : 0;
+                                            return (
+                                                <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-sm p-6">
+                                                    <div className="flex justify-between items-center mb-4">
+                                                        <h3 className="text-sm font-bold text-slate-900 dark:text-white">Response Cache</h3>
+                                                        <button onClick={handleClearCache} className="px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors flex items-center gap-1">
+                                                            <Trash2 className="w-3 h-3" /> Clear Cache
+                                                        </button>
+                                                    </div>
+                                                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                                                        <div>
+                                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Hits</p>
+                                                            <p className="text-sm font-bold text-emerald-600">{hits.toLocaleString()}</p>
+                                                        </div>
+                                                        <div>
+                                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Misses</p>
+                                                            <p className="text-sm font-bold text-slate-900 dark:text-white">{misses.toLocaleString()}</p>
+                                                        </div>
+                                                        <div>
+                                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Hit Rate</p>
+                                                            <p className="text-sm font-bold text-slate-900 dark:text-white">{hitRate.toFixed(1)}%</p>
+                                                        </div>
+                                                        <div>
+                                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Saved</p>
+                                                            <p className="text-sm font-bold text-slate-900 dark:text-white">{formatNumber(tokensSaved)} tokens · ${costSaved.toFixed(2)}</p>
+                                                        </div>
+                                                        <div>
+                                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Entries</p>
+                                                            <p className="text-sm font-bold text-slate-900 dark:text-white">{cacheSummary.entries.toLocaleString()}</p>
+                                                        </div>
+                                                    </div>
+                                                </div>
+                                            );
+                                        })()}
+
+                                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                            <UsageBarList title="By User" buckets={breakdown?.byUser || []} />
+                                            <UsageBarList title="By Project" buckets={(breakdown?.byProject || []).map(b => ({ ...b, key: projectTitles[b.key] || b.key }))} />
+                                            <UsageBarList title="By Model" buckets={breakdown?.byModel || []} />
+                                            <UsageBarList title="By Operation" buckets={(breakdown?.byOperation || []).map(b => ({ ...b, key: OPERATION_LABELS[b.key as UsageOperation] || b.key }))} />
+                                        </div>
+
+                                        {usage && (
+                                            <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-sm p-6">
+                                                <h3 className="text-sm font-bold text-slate-900 dark:text-white mb-4">Storage by Collection</h3>
+                                                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                                    {(Object.entries(usage.storage) as [string, number][]).sort((a, b) => b[1] - a[1]).map(([store, bytes]) => (
+                                                        <div key={store}>
+                                                            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{store.replace('_', ' ')}</p>
+                                                            <p className="text-sm font-bold text-slate-900 dark:text-white">{formatBytes(bytes)}</p>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        )}
+                                    </>
+                                );
+                            })()}
 
                             <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-sm p-8 flex flex-col md:flex-row gap-8 items-center">
                                 <div className="flex-1 space-y-4">
@@ -784,7 +1111,7 @@ const Settings: React.FC = () => {
                                 </div>
                                 <div className="w-full md:w-64 bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-6 text-center border border-slate-100 dark:border-white/5 shadow-inner">
                                     <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-1">Next Billing Date</p>
-                                    <p className="text-lg font-bold text-slate-900 dark:text-white mb-4">Oct 24, 2024</p>
+                                    <p className="text-lg font-bold text-slate-900 dark:text-white mb-4">{new Date((usage?.stats.periodEnd ?? Date.now()) + 1).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}</p>
                                     <button className="w-full py-2.5 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-xl text-xs font-bold shadow-sm hover:shadow-md transition-all">
                                         Manage Billing
                                     </button>
@@ -914,7 +1241,7 @@ const IntegrationCard = ({ icon, name, desc, connected }: { icon: React.ReactNod
     </div>
 );
 
-const UsageCard = ({ icon, label, value, sub, color }: { icon: React.ReactNode, label: string, value: string, sub: string, color: string }) => {
+const UsageCard = ({ icon, label, value, sub, color, percent = 0 }: { icon: React.ReactNode, label: string, value: string, sub: string, color: string, percent?: number }) => {
     const colorClasses: Record<string, string> = {
         blue: 'border-blue-200 dark:border-blue-900/30',
         emerald: 'border-emerald-200 dark:border-emerald-900/30',
@@ -925,7 +1252,7 @@ const UsageCard = ({ icon, label, value, sub, color }: { icon: React.ReactNode,
             <div className="flex justify-between items-start mb-4">
                 <div className={`p-2 rounded-lg bg-slate-50 dark:bg-slate-800`}>{icon}</div>
                 <div className="flex h-1.5 w-12 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
-                    <div className={`h-full bg-blue-500 w-[40%]`} />
+                    <div className="h-full bg-blue-500" style={{ width: `${percent}%` }} />
                 </div>
             </div>
             <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{label}</p>
@@ -935,4 +1262,30 @@ const UsageCard = ({ icon, label, value, sub, color }: { icon: React.ReactNode,
     );
 };
 
+const UsageBarList = ({ title, buckets }: { title: string, buckets: UsageBucket[] }) => {
+    const max = Math.max(1, ...buckets.map(b => b.tokens));
+    return (
+        <div className="bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-2xl shadow-sm p-6">
+            <h3 className="text-sm font-bold text-slate-900 dark:text-white mb-4">{title}</h3>
+            {buckets.length === 0 ? (
+                <p className="text-xs text-slate-400 italic">No usage recorded in this period.</p>
+            ) : (
+                <div className="space-y-3">
+                    {buckets.slice(0, 8).map(b => (
+                        <div key={b.key}>
+                            <div className="flex justify-between text-xs mb-1">
+                                <span className="font-medium text-slate-700 dark:text-slate-300 truncate pr-2" title={b.key}>{b.key}</span>
+                                <span className="text-slate-500 shrink-0">{formatNumber(b.tokens)} tok · ${b.cost.toFixed(2)} · {b.calls} calls</span>
+                            </div>
+                            <div className="h-1.5 bg-slate-100 dark:bg-slate-800 rounded-full overflow-hidden">
+                                <div className="h-full bg-blue-500" style={{ width: `${(b.tokens / max) * 100}%` }} />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 export default Settings;
\ No newline at end of file
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { DashboardSpec, SpecPanel } from '../types';
+import { LayoutGrid, RefreshCw } from 'lucide-react';
+
+interface SpecEditorProps {
+  spec: DashboardSpec;
+  onApply: (spec: DashboardSpec) => void;
+  disabled?: boolean;
+}
+
+const CHART_TYPES = ['line', 'area', 'bar', 'pie', 'donut'] as const;
+
+const inputClass = "w-full bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded p-1 text-[11px] text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-blue-900 outline-none";
+
+const SpecEditor: React.FC<SpecEditorProps> = ({ spec, onApply, disabled }) => {
+  const [draft, setDraft] = useState<DashboardSpec>(spec);
+
+  useEffect(() => {
+    setDraft(spec);
+  }, [spec]);
+
+  const updatePanel = (id: string, patch: Partial<SpecPanel>) => {
+    setDraft(prev => ({ ...prev, panels: prev.panels.map(p => p.id === id ? { ...p, ...patch } : p) }));
+  };
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(spec);
+
+  return (
+    <div>
+      <h3 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2 mb-3">
+        <LayoutGrid className="w-4 h-4" /> Layout
+      </h3>
+
+      <div className="space-y-3">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Title</label>
+          <input
+            className={inputClass}
+            value={draft.header.title}
+            onChange={e => setDraft({ ...draft, header: { ...draft.header, title: e.target.value } })}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Columns</label>
+            <input type="number" min={1} max={12} className={inputClass} value={draft.grid.columns}
+              onChange={e => setDraft({ ...draft, grid: { ...draft.grid, columns: Number(e.target.value) } })} />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Rows</label>
+            <input type="number" min={1} max={12} className={inputClass} value={draft.grid.rows}
+              onChange={e => setDraft({ ...draft, grid: { ...draft.grid, rows: Number(e.target.value) } })} />
+          </div>
+        </div>
+
+        {draft.panels.map(panel => (
+          <div key={panel.id} className="p-2 bg-slate-50 dark:bg-slate-900 border border-slate-200 dark:border-white/5 rounded-lg space-y-1.5">
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] font-bold uppercase text-slate-400 w-10 shrink-0">{panel.kind}</span>
+              <input className={inputClass} value={panel.title} onChange={e => updatePanel(panel.id, { title: e.target.value })} />
+            </div>
+            <div className="grid grid-cols-4 gap-1">
+              {(['col', 'row', 'colSpan', 'rowSpan'] as const).map(key => (
+                <input
+                  key={key}
+                  type="number"
+                  min={key.endsWith('Span') ? 1 : 0}
+                  title={key}
+                  className={inputClass}
+                  value={panel[key]}
+                  onChange={e => updatePanel(panel.id, { [key]: Number(e.target.value) })}
+                />
+              ))}
+            </div>
+            {panel.chart && (
+              <select
+                className={inputClass}
+                value={panel.chart.type}
+                onChange={e => updatePanel(panel.id, { chart: { ...panel.chart!, type: e.target.value as typeof CHART_TYPES[number] } })}
+              >
+                {CHART_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            )}
+          </div>
+        ))}
+
+        <button
+          onClick={() => onApply(draft)}
+          disabled={disabled || !isDirty}
+          className="w-full py-2 rounded-lg text-xs font-bold border border-brand-blue text-brand-blue hover:bg-brand-blue/10 disabled:opacity-40 transition-colors flex items-center justify-center gap-2"
+        >
+          <RefreshCw className="w-3 h-3" /> Apply Layout
+        </button>
+        <p className="text-[10px] text-slate-400 italic">Re-rendered locally; no AI credits used.</p>
+      </div>
+    </div>
+  );
+};
+
+export default SpecEditor;
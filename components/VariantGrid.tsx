@@ -0,0 +1,204 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { GeneratedImage } from '../types';
+import { CheckCircle2, Circle, Columns2, Maximize2, ZoomIn, ZoomOut, X, ArrowUpToLine, Archive, AlertCircle } from 'lucide-react';
+
+interface VariantGridProps {
+  variants: GeneratedImage[];
+  mode: 'NEW' | 'ALTERNATIVES'; // Fresh run awaiting a decision, or previously discarded variants
+  failures?: string[];
+  onPromote: (ids: string[]) => void;
+  onDiscardAll?: () => void;
+  onClose: () => void;
+}
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+
+const variantLabel = (image: GeneratedImage) => image.variant ? `Variant ${image.variant.index + 1} of ${image.variant.total}` : 'Variant';
+
+const VariantGrid: React.FC<VariantGridProps> = ({ variants, mode, failures = [], onPromote, onDiscardAll, onClose }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+  const [compareIds, setCompareIds] = useState<string[] | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const paneRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const syncing = useRef(false);
+
+  useEffect(() => {
+    setSelected(ids => ids.filter(id => variants.some(v => v.id === id)));
+  }, [variants]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && compareIds) setCompareIds(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [compareIds]);
+
+  const toggle = (id: string) => setSelected(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+
+  const openCompare = (ids: string[]) => {
+    setZoom(1);
+    setCompareIds(ids);
+  };
+
+  // Keeps every compare pane on the same region so the same detail is visible side by side
+  const handlePaneScroll = (sourceId: string) => {
+    if (syncing.current) return;
+    const source = paneRefs.current[sourceId];
+    if (!source) return;
+    syncing.current = true;
+    Object.keys(paneRefs.current).forEach(id => {
+      const pane = paneRefs.current[id];
+      if (id !== sourceId && pane) {
+        pane.scrollLeft = source.scrollLeft;
+        pane.scrollTop = source.scrollTop;
+      }
+    });
+    requestAnimationFrame(() => { syncing.current = false; });
+  };
+
+  const compared = compareIds ? variants.filter(v => compareIds.includes(v.id)) : [];
+  const zoomStep = (delta: number) => setZoom(z => ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, Math.max(0, ZOOM_LEVELS.indexOf(z) + delta))]);
+
+  return (
+    <div className="absolute inset-0 z-40 bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-sm flex flex-col animate-in fade-in duration-200">
+      {/* Header */}
+      <div className="shrink-0 px-6 py-4 border-b border-slate-200 dark:border-white/10 bg-white/80 dark:bg-slate-900/80 flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 dark:text-white">
+            {mode === 'NEW' ? `Compare ${variants.length} Variants` : 'Discarded Alternatives'}
+          </h3>
+          <p className="text-xs text-slate-500 mt-0.5">
+            {mode === 'NEW'
+              ? 'Select one or more variants to add to the version history. The rest are kept as alternatives.'
+              : 'Variants that were not promoted. Restore any of them into the version history.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => openCompare(selected.length > 0 ? selected : variants.map(v => v.id))}
+            disabled={variants.length === 0}
+            className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <Columns2 className="w-4 h-4" /> Compare {selected.length > 0 ? `(${selected.length})` : 'All'}
+          </button>
+          {mode === 'NEW' && onDiscardAll && (
+            <button
+              onClick={onDiscardAll}
+              className="px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 transition-colors flex items-center gap-2"
+            >
+              <Archive className="w-4 h-4" /> Keep All as Alternatives
+            </button>
+          )}
+          <button
+            onClick={() => onPromote(selected)}
+            disabled={selected.length === 0}
+            className="px-4 py-2 bg-brand-blue hover:bg-brand-blue-dark text-white text-xs font-bold rounded-lg shadow-sm disabled:opacity-50 transition-colors flex items-center gap-2"
+          >
+            <ArrowUpToLine className="w-4 h-4" /> {mode === 'NEW' ? 'Promote' : 'Restore'} {selected.length > 0 ? `(${selected.length})` : ''}
+          </button>
+          {mode === 'ALTERNATIVES' && (
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-800 rounded-full transition-colors" title="Close">
+              <X className="w-5 h-5 text-slate-500" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {failures.length > 0 && (
+        <div className="mx-6 mt-4 flex items-start gap-2 p-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs text-amber-800 dark:text-amber-300">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <div>{failures.map((f, i) => <p key={i}>{f}</p>)}</div>
+        </div>
+      )}
+
+      {/* Grid */}
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-6">
+        {variants.length === 0 ? (
+          <p className="text-center text-sm text-slate-400 mt-12">No alternatives stored for this project.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+            {variants.map(v => {
+              const isSelected = selected.includes(v.id);
+              return (
+                <div
+                  key={v.id}
+                  onClick={() => toggle(v.id)}
+                  className={`group relative rounded-2xl overflow-hidden border-2 bg-white dark:bg-slate-900 cursor-pointer transition-all ${isSelected ? 'border-brand-blue shadow-lg' : 'border-transparent hover:border-slate-300 dark:hover:border-slate-700'}`}
+                >
+                  <div className="bg-slate-50 dark:bg-slate-950 flex items-center justify-center aspect-video">
+                    <img src={v.data} alt={variantLabel(v)} className="max-w-full max-h-full object-contain" />
+                  </div>
+                  <div className="p-3 flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-bold text-slate-800 dark:text-slate-200">{variantLabel(v)}</p>
+                      <p className="text-[11px] text-slate-500 truncate" title={v.variant?.direction}>{v.variant?.direction || v.prompt}</p>
+                      {v.variant?.discardedAt && <p className="text-[10px] text-slate-400 mt-1">Discarded {new Date(v.variant.discardedAt).toLocaleString()}</p>}
+                    </div>
+                    {isSelected ? <CheckCircle2 className="w-5 h-5 text-brand-blue shrink-0" /> : <Circle className="w-5 h-5 text-slate-300 shrink-0" />}
+                  </div>
+                  <button
+                    onClick={e => { e.stopPropagation(); openCompare([v.id]); }}
+                    className="absolute top-2 right-2 p-1.5 rounded-lg bg-white/90 dark:bg-slate-900/90 text-slate-600 dark:text-slate-300 opacity-0 group-hover:opacity-100 transition-opacity shadow"
+                    title="Zoom"
+                  >
+                    <Maximize2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Zoom-to-Compare */}
+      {compareIds && (
+        <div className="absolute inset-0 z-50 bg-slate-950/95 flex flex-col animate-in fade-in duration-150">
+          <div className="shrink-0 px-6 py-3 flex items-center justify-between text-white">
+            <span className="text-sm font-bold">{compared.length === 1 ? variantLabel(compared[0]) : `Comparing ${compared.length} variants`}</span>
+            <div className="flex items-center gap-2">
+              <button onClick={() => zoomStep(-1)} disabled={zoom === ZOOM_LEVELS[0]} className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-30" title="Zoom out">
+                <ZoomOut className="w-4 h-4" />
+              </button>
+              <span className="text-xs font-mono w-12 text-center">{Math.round(zoom * 100)}%</span>
+              <button onClick={() => zoomStep(1)} disabled={zoom === ZOOM_LEVELS[ZOOM_LEVELS.length - 1]} className="p-2 rounded-lg hover:bg-white/10 disabled:opacity-30" title="Zoom in">
+                <ZoomIn className="w-4 h-4" />
+              </button>
+              <button onClick={() => setCompareIds(null)} className="ml-2 p-2 rounded-lg hover:bg-white/10" title="Close (Esc)">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+          <div className="flex-1 flex gap-2 px-2 pb-2 min-h-0">
+            {compared.map(v => (
+              <div key={v.id} className="flex-1 min-w-0 flex flex-col rounded-xl overflow-hidden bg-slate-900 border border-white/10">
+                <div className="px-3 py-1.5 flex items-center justify-between text-[11px] font-bold text-slate-300">
+                  <span>{variantLabel(v)}</span>
+                  <button
+                    onClick={() => toggle(v.id)}
+                    className={`flex items-center gap-1 ${selected.includes(v.id) ? 'text-blue-300' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {selected.includes(v.id) ? <CheckCircle2 className="w-3.5 h-3.5" /> : <Circle className="w-3.5 h-3.5" />} Select
+                  </button>
+                </div>
+                <div
+                  ref={el => { paneRefs.current[v.id] = el; }}
+                  onScroll={() => handlePaneScroll(v.id)}
+                  className="flex-1 overflow-auto custom-scrollbar"
+                >
+                  <img src={v.data} alt={variantLabel(v)} style={{ width: `${zoom * 100}%` }} className="max-w-none block" />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantGrid;
@@ -0,0 +1,574 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/accessibility.ts
+ * Accessibility audit and remediation for generated dashboards.
+ *
+ * Text is checked for WCAG contrast against the shapes painted beneath it and for a minimum
+ * font size, charts for series told apart by color alone, and the document for a title,
+ * description and role. Most findings are patched directly in the markup; the rest (color-only
+ * encodings, contrast no shade of the text color can reach) become an edit instruction.
+ */
+
+import { AccessibilityFinding, AccessibilityReport, AccessibilityRule, VisualStyle, WcagLevel } from '../types';
+import { sanitizeSvg, decodeSvgDataUri, encodeSvgDataUri, translationOf } from './svg';
+import { Rgba, parseColor, toHex, luminance, contrastRatio } from './color';
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface TextUnit {
+  el: Element;
+  text: string;
+  x: number; // Approximate glyph centre in viewBox units
+  y: number;
+  fontSize: number;
+  bold: boolean;
+}
+
+// A finding plus the markup change that resolves it, when one exists.
+interface Detection {
+  finding: Omit<AccessibilityFinding, 'id'>;
+  patch?: () => void;
+}
+
+// Font minimums are not a WCAG criterion; they are in viewBox units, roughly CSS px at natural size.
+const REQUIREMENTS: Record<WcagLevel, { normal: number; large: number; minFontSize: number }> = {
+  AA: { normal: 4.5, large: 3, minFontSize: 11 },
+  AAA: { normal: 7, large: 4.5, minFontSize: 14 },
+};
+
+// Maximum score deduction per rule; text rules scale with the share of failing text.
+const RULE_WEIGHTS: Record<AccessibilityRule, number> = {
+  CONTRAST: 35, FONT_SIZE: 20, COLOR_ONLY: 20, MISSING_TITLE: 10, MISSING_ROLE: 10, MISSING_DESC: 5,
+};
+
+const RULE_SEVERITY: Record<AccessibilityRule, AccessibilityFinding['severity']> = {
+  CONTRAST: 'error', FONT_SIZE: 'warning', COLOR_ONLY: 'error', MISSING_TITLE: 'error', MISSING_ROLE: 'warning', MISSING_DESC: 'warning',
+};
+
+export const RULE_LABELS: Record<AccessibilityRule, string> = {
+  CONTRAST: 'Contrast',
+  FONT_SIZE: 'Font size',
+  COLOR_ONLY: 'Color only',
+  MISSING_TITLE: 'No title',
+  MISSING_DESC: 'No description',
+  MISSING_ROLE: 'No role',
+};
+
+const WHITE: Rgba = [255, 255, 255, 1]; // The canvas and exports sit on white
+const BLACK: Rgba = [0, 0, 0, 1];
+const NON_RENDERED = 'defs, clipPath, mask, pattern, symbol, marker, title, desc';
+const SWATCH_SIZE = 16;      // Shapes this small are legend keys, not data marks
+const LABEL_DISTANCE = 24;   // A mark with text this close counts as directly labelled
+const ACCEPTED_ROLES = ['img', 'graphics-document', 'figure', 'document'];
+
+/** High Contrast versions are held to AAA; everything else to AA. */
+export const wcagLevelFor = (style: VisualStyle): WcagLevel => style === 'High Contrast' ? 'AAA' : 'AA';
+
+// --- Color ---
+
+const blend = (top: Rgba, bottom: Rgba): Rgba => {
+  const a = top[3];
+  return [top[0] * a + bottom[0] * (1 - a), top[1] * a + bottom[1] * (1 - a), top[2] * a + bottom[2] * (1 - a), 1];
+};
+
+const mix = (c: Rgba, target: Rgba, t: number): Rgba =>
+  [c[0] + (target[0] - c[0]) * t, c[1] + (target[1] - c[1]) * t, c[2] + (target[2] - c[2]) * t, c[3]];
+
+// Contrast varies monotonically with luminance, so the darkest and lightest candidates bound it.
+const extremes = (colors: Rgba[]): Rgba[] => {
+  if (colors.length <= 2) return colors;
+  const sorted = [...colors].sort((a, b) => luminance(a) - luminance(b));
+  return [sorted[0], sorted[sorted.length - 1]];
+};
+
+const worstContrast = (fills: Rgba[], backgrounds: Rgba[]): { ratio: number; fill: Rgba; background: Rgba } => {
+  let worst = { ratio: Infinity, fill: BLACK, background: WHITE };
+  for (const background of backgrounds) {
+    for (const fill of fills) {
+      const ratio = contrastRatio(blend(fill, background), background);
+      if (ratio < worst.ratio) worst = { ratio, fill, background };
+    }
+  }
+  return worst;
+};
+
+// --- Style Resolution ---
+
+interface CssRule {
+  selector: string;
+  declarations: Map<string, string>;
+}
+
+const parseDeclarations = (text: string): Map<string, string> => {
+  const out = new Map<string, string>();
+  for (const part of text.split(';')) {
+    const colon = part.indexOf(':');
+    if (colon < 0) continue;
+    out.set(part.slice(0, colon).trim().toLowerCase(), part.slice(colon + 1).replace(/!important/i, '').trim());
+  }
+  return out;
+};
+
+// Simple selectors only; pseudo-classes (:hover) never apply to a static render.
+function parseStyleSheets(doc: Document): CssRule[] {
+  const rules: CssRule[] = [];
+  for (const style of Array.from(doc.getElementsByTagName('style'))) {
+    const css = (style.textContent || '').replace(/\/\*[\s\S]*?\*\//g, '');
+    for (const m of css.matchAll(/([^{}@]+)\{([^{}]*)\}/g)) {
+      const declarations = parseDeclarations(m[2]);
+      m[1].split(',').map(s => s.trim()).filter(s => s && !s.includes(':')).forEach(selector => rules.push({ selector, declarations }));
+    }
+  }
+  return rules;
+}
+
+/** Own value of a property: inline style, then stylesheet rules (last wins), then the presentation attribute. */
+const createStyleResolver = (doc: Document) => {
+  const rules = parseStyleSheets(doc);
+  return (el: Element, prop: string): string | null => {
+    const inline = parseDeclarations(el.getAttribute('style') || '').get(prop);
+    if (inline) return inline;
+    for (let i = rules.length - 1; i >= 0; i--) {
+      const value = rules[i].declarations.get(prop);
+      if (!value) continue;
+      try {
+        if (el.matches(rules[i].selector)) return value;
+      } catch {
+        // Selector the DOM cannot evaluate; ignore the rule
+      }
+    }
+    return el.getAttribute(prop);
+  };
+};
+
+const setStyleProperty = (el: Element, prop: string, value: string) => {
+  const kept = (el.getAttribute('style') || '').split(';').map(s => s.trim()).filter(s => s && s.split(':')[0].trim().toLowerCase() !== prop);
+  el.setAttribute('style', [...kept, `${prop}:${value}`].join(';'));
+};
+
+// --- Geometry ---
+
+const PATH_ARGS: Record<string, number> = { m: 2, l: 2, h: 1, v: 1, c: 6, s: 4, q: 4, t: 2, a: 7, z: 0 };
+
+// End points of each path segment; curve bulges are ignored, which is close enough for proximity checks.
+function pathPoints(d: string): [number, number][] {
+  const points: [number, number][] = [];
+  let x = 0, y = 0, startX = 0, startY = 0;
+  for (const [, cmd, args] of d.matchAll(/([MmLlHhVvCcSsQqTtAaZz])([^MmLlHhVvCcSsQqTtAaZz]*)/g)) {
+    const lower = cmd.toLowerCase();
+    const relative = cmd === lower;
+    const size = PATH_ARGS[lower];
+    if (size === 0) {
+      x = startX;
+      y = startY;
+      continue;
+    }
+    const nums = (args.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi) || []).map(Number);
+    for (let i = 0; i + size <= nums.length; i += size) {
+      if (lower === 'h') x = (relative ? x : 0) + nums[i];
+      else if (lower === 'v') y = (relative ? y : 0) + nums[i];
+      else {
+        x = (relative ? x : 0) + nums[i + size - 2];
+        y = (relative ? y : 0) + nums[i + size - 1];
+      }
+      points.push([x, y]);
+      if (lower === 'm' && i === 0) {
+        startX = x;
+        startY = y;
+      }
+    }
+  }
+  return points;
+}
+
+const boxOfPoints = (points: [number, number][]): Box | null => {
+  if (points.length === 0) return null;
+  const xs = points.map(p => p[0]);
+  const ys = points.map(p => p[1]);
+  const x = Math.min(...xs), y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+};
+
+const distanceToBox = (px: number, py: number, b: Box) =>
+  Math.hypot(Math.max(b.x - px, 0, px - (b.x + b.w)), Math.max(b.y - py, 0, py - (b.y + b.h)));
+
+// --- Analysis ---
+
+/**
+ * Runs every rule against a parsed document. Each detection carries a closure that patches
+ * the same document in place when a deterministic fix exists.
+ */
+function analyze(doc: Document, level: WcagLevel): { detections: Detection[]; textsChecked: number; toPercent: (x: number, y: number) => { x: number; y: number } } | null {
+  const root = doc.documentElement;
+  const [minX, minY, width, height] = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (!(width > 0 && height > 0)) return null;
+  const requirement = REQUIREMENTS[level];
+  const styleOf = createStyleResolver(doc);
+  const detections: Detection[] = [];
+  const toPercent = (x: number, y: number) => ({
+    x: Math.min(100, Math.max(0, ((x - minX) / width) * 100)),
+    y: Math.min(100, Math.max(0, ((y - minY) / height) * 100)),
+  });
+
+  const inherited = (el: Element, prop: string): string | null => {
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      const value = styleOf(node, prop);
+      if (value && value !== 'inherit') return value;
+    }
+    return null;
+  };
+
+  const isHidden = (el: Element) => {
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      if (styleOf(node, 'display') === 'none' || styleOf(node, 'opacity') === '0') return true;
+    }
+    return ['hidden', 'collapse'].includes(inherited(el, 'visibility') || '');
+  };
+
+  const opacityOf = (el: Element) => {
+    let opacity = 1;
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      const own = parseFloat(styleOf(node, 'opacity') || '1');
+      if (isFinite(own)) opacity *= own;
+    }
+    return opacity;
+  };
+
+  const offsetOf = (el: Element): [number, number] => {
+    let dx = 0, dy = 0;
+    for (let node: Element | null = el; node && node !== root; node = node.parentElement) {
+      const [tx, ty] = translationOf(node);
+      dx += tx;
+      dy += ty;
+    }
+    return [dx, dy];
+  };
+
+  const fontSizeOf = (el: Element | null): number => {
+    if (!el) return 16;
+    const raw = styleOf(el, 'font-size');
+    const parentSize = () => fontSizeOf(el.parentElement);
+    if (!raw || raw === 'inherit') return parentSize();
+    const n = parseFloat(raw);
+    if (!isFinite(n)) return parentSize();
+    if (raw.endsWith('%')) return (n / 100) * parentSize();
+    if (raw.endsWith('rem')) return n * 16;
+    if (raw.endsWith('em')) return n * parentSize();
+    if (raw.endsWith('pt')) return (n * 4) / 3;
+    return n;
+  };
+
+  const isBold = (el: Element) => {
+    const weight = inherited(el, 'font-weight') || 'normal';
+    return weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600;
+  };
+
+  const gradientStops = (gradient: Element): Rgba[] | null => {
+    let stops = Array.from(gradient.getElementsByTagName('stop'));
+    const ref = gradient.getAttribute('href') || gradient.getAttribute('xlink:href');
+    if (stops.length === 0 && ref?.startsWith('#')) {
+      stops = Array.from(doc.querySelector(`[id="${ref.slice(1)}"]`)?.getElementsByTagName('stop') || []);
+    }
+    const colors = stops.map(stop => {
+      const color = parseColor(styleOf(stop, 'stop-color') || 'black');
+      const opacity = parseFloat(styleOf(stop, 'stop-opacity') || '1');
+      return color && ([color[0], color[1], color[2], color[3] * (isFinite(opacity) ? opacity : 1)] as Rgba);
+    });
+    return colors.length > 0 && colors.every(Boolean) ? colors as Rgba[] : null;
+  };
+
+  /** Colors a paint can show (several for gradients); [] for none, null when unknown (patterns, unparsed values). */
+  const paintOf = (el: Element, prop: 'fill' | 'stroke'): Rgba[] | null => {
+    const value = (inherited(el, prop) || (prop === 'fill' ? 'black' : 'none')).trim();
+    if (value === 'none') return [];
+    const opacity = parseFloat(inherited(el, `${prop}-opacity`) || '1');
+    const alpha = (isFinite(opacity) ? opacity : 1) * opacityOf(el);
+    let colors: Rgba[] | null;
+    const ref = value.match(/^url\(\s*['"]?#([^'")]+)['"]?\s*\)/);
+    if (ref) {
+      const target = doc.querySelector(`[id="${ref[1]}"]`);
+      colors = target && /gradient$/i.test(target.localName) ? gradientStops(target) : null;
+    } else {
+      const color = parseColor(value.toLowerCase() === 'currentcolor' ? inherited(el, 'color') || 'black' : value);
+      colors = color && [color];
+    }
+    return colors && colors.map(c => [c[0], c[1], c[2], c[3] * alpha] as Rgba);
+  };
+
+  const all = Array.from(root.getElementsByTagName('*')).filter(el => !el.closest(NON_RENDERED));
+  const order = new Map(all.map((el, i) => [el, i]));
+
+  // Painted areas text can sit on. Images make whatever is above them uncheckable.
+  const surfaces: { el: Element; box: Box; paint: Rgba[] | null }[] = [];
+  for (const el of all) {
+    if (!['rect', 'circle', 'ellipse', 'image'].includes(el.localName) || isHidden(el)) continue;
+    const [dx, dy] = offsetOf(el);
+    const num = (attr: string, extent = 0) => {
+      const raw = el.getAttribute(attr) || '0';
+      const n = parseFloat(raw);
+      return isFinite(n) ? (raw.trim().endsWith('%') ? (n / 100) * extent : n) : 0;
+    };
+    let box: Box;
+    if (el.localName === 'circle') {
+      const r = num('r');
+      box = { x: num('cx') - r + dx, y: num('cy') - r + dy, w: r * 2, h: r * 2 };
+    } else if (el.localName === 'ellipse') {
+      box = { x: num('cx') - num('rx') + dx, y: num('cy') - num('ry') + dy, w: num('rx') * 2, h: num('ry') * 2 };
+    } else {
+      box = { x: num('x', width) + dx, y: num('y', height) + dy, w: num('width', width), h: num('height', height) };
+    }
+    surfaces.push({ el, box, paint: el.localName === 'image' ? null : paintOf(el, 'fill') });
+  }
+
+  // --- Text units ---
+  const units: TextUnit[] = [];
+  const firstLength = (value: string | null) => {
+    const n = parseFloat((value || '').trim().split(/[\s,]+/)[0]);
+    return isNaN(n) ? 0 : n;
+  };
+  const addUnit = (el: Element, text: string) => {
+    const trimmed = text.replace(/\s+/g, ' ').trim();
+    if (!trimmed || isHidden(el)) return;
+    const parent = el.localName === 'tspan' ? el.closest('text') : null;
+    const x = firstLength(el.getAttribute('x') ?? parent?.getAttribute('x') ?? null);
+    const y = firstLength(el.getAttribute('y') ?? parent?.getAttribute('y') ?? null);
+    const [dx, dy] = offsetOf(el);
+    const fontSize = fontSizeOf(el);
+    const anchor = inherited(el, 'text-anchor');
+    const shift = anchor === 'middle' ? 0 : anchor === 'end' ? -fontSize * 0.3 : fontSize * 0.3;
+    units.push({ el, text: trimmed, x: x + dx + shift, y: y + dy - fontSize * 0.35, fontSize, bold: isBold(el) });
+  };
+  for (const text of Array.from(root.getElementsByTagName('text'))) {
+    if (text.closest(NON_RENDERED)) continue;
+    const spans = Array.from(text.getElementsByTagName('tspan'));
+    if (spans.length === 0) {
+      addUnit(text, text.textContent || '');
+      continue;
+    }
+    spans.filter(s => s.getElementsByTagName('tspan').length === 0).forEach(s => addUnit(s, s.textContent || ''));
+    addUnit(text, Array.from(text.childNodes).filter(n => n.nodeType === 3).map(n => n.textContent).join(' '));
+  }
+
+  // --- Contrast and font size ---
+  const textsChecked = units.length;
+  for (const unit of units) {
+    const large = unit.fontSize >= 24 || (unit.bold && unit.fontSize >= 18.66);
+    const required = large ? requirement.large : requirement.normal;
+    const position = toPercent(unit.x, unit.y);
+    const label = unit.text.length > 40 ? `${unit.text.slice(0, 39)}…` : unit.text;
+
+    let backgrounds: Rgba[] | null = [WHITE];
+    const index = order.get(unit.el) ?? Infinity;
+    for (const surface of surfaces) {
+      if ((order.get(surface.el) ?? Infinity) > index || distanceToBox(unit.x, unit.y, surface.box) > 0) continue;
+      if (!surface.paint) { backgrounds = null; break; }
+      if (surface.paint.length === 0) continue;
+      backgrounds = extremes(surface.paint.flatMap(c => backgrounds!.map(b => blend(c, b))));
+    }
+    const fills = paintOf(unit.el, 'fill');
+    if (backgrounds && fills && fills.length > 0) {
+      const worst = worstContrast(fills, backgrounds);
+      if (worst.ratio < required) {
+        // Darken or lighten the text just enough, keeping its hue
+        const alpha = opacityOf(unit.el);
+        let replacement: Rgba | null = null;
+        for (let t = 0.05; t <= 1.0001 && !replacement; t += 0.05) {
+          replacement = [BLACK, WHITE].map(target => mix(worst.fill, target, t))
+            .find(c => worstContrast([[c[0], c[1], c[2], alpha]], backgrounds!).ratio >= required) || null;
+        }
+        detections.push({
+          finding: {
+            rule: 'CONTRAST',
+            severity: RULE_SEVERITY.CONTRAST,
+            message: `"${label}" has ${worst.ratio.toFixed(2)}:1 contrast (${toHex(blend(worst.fill, worst.background))} on ${toHex(worst.background)}); it needs ${required}:1.`,
+            text: unit.text,
+            ratio: Math.round(worst.ratio * 100) / 100,
+            required,
+            fix: replacement ? 'PATCH' : 'MODEL',
+            ...position,
+          },
+          patch: replacement ? () => {
+            setStyleProperty(unit.el, 'fill', toHex(replacement!));
+            setStyleProperty(unit.el, 'fill-opacity', '1');
+          } : undefined,
+        });
+      }
+    }
+
+    // Superscript footnote markers are exempt from the size minimum
+    if (unit.fontSize < requirement.minFontSize - 0.01 && unit.el.getAttribute('data-role') !== 'footnote') {
+      detections.push({
+        finding: {
+          rule: 'FONT_SIZE',
+          severity: RULE_SEVERITY.FONT_SIZE,
+          message: `"${label}" is set at ${Math.round(unit.fontSize * 10) / 10}px; the minimum is ${requirement.minFontSize}px.`,
+          text: unit.text,
+          fix: 'PATCH',
+          ...position,
+        },
+        patch: () => setStyleProperty(unit.el, 'font-size', `${requirement.minFontSize}px`),
+      });
+    }
+  }
+
+  // --- Color-only encodings ---
+  // Data marks sharing a parent are one chart; several series colors without direct labels or
+  // distinct line styles means the reader has to match colors to a legend.
+  interface Mark { color: string; kind: 'fill' | 'stroke'; box: Box; style: string }
+  const groups = new Map<Element, Mark[]>();
+  const anchors = units.map(u => [u.x, u.y] as const);
+  for (const el of all) {
+    if (!['rect', 'circle', 'ellipse', 'path', 'polygon', 'polyline'].includes(el.localName) || isHidden(el)) continue;
+    const [dx, dy] = offsetOf(el);
+    let points: [number, number][];
+    if (el.localName === 'path') points = pathPoints(el.getAttribute('d') || '');
+    else if (el.localName === 'polygon' || el.localName === 'polyline') {
+      const nums = (el.getAttribute('points') || '').trim().split(/[\s,]+/).map(Number);
+      points = [];
+      for (let i = 0; i + 1 < nums.length; i += 2) points.push([nums[i], nums[i + 1]]);
+    } else {
+      const surface = surfaces.find(s => s.el === el);
+      points = surface ? [[surface.box.x - dx, surface.box.y - dy], [surface.box.x + surface.box.w - dx, surface.box.y + surface.box.h - dy]] : [];
+    }
+    const box = boxOfPoints(points.map(([x, y]) => [x + dx, y + dy]));
+    if (!box || box.w * box.h > width * height * 0.25) continue;
+
+    const fill = paintOf(el, 'fill');
+    const stroke = paintOf(el, 'stroke');
+    let mark: Mark | null = null;
+    if (fill && fill.length === 1 && fill[0][3] > 0.3) {
+      const isSwatch = box.w <= SWATCH_SIZE && box.h <= SWATCH_SIZE;
+      const holdsText = anchors.some(([x, y]) => distanceToBox(x, y, box) === 0 && box.w > SWATCH_SIZE * 4);
+      if (!isSwatch && !holdsText) mark = { color: toHex(fill[0]), kind: 'fill', box, style: '' };
+    } else if (fill?.length === 0 && stroke?.length === 1 && points.length >= 3) {
+      const style = [inherited(el, 'stroke-dasharray') || 'none', el.getAttribute('marker-start'), el.getAttribute('marker-mid'), el.getAttribute('marker-end')].join('|');
+      mark = { color: toHex(stroke[0]), kind: 'stroke', box, style };
+    }
+    if (!mark || !el.parentElement) continue;
+    groups.set(el.parentElement, [...(groups.get(el.parentElement) || []), mark]);
+  }
+
+  for (const marks of groups.values()) {
+    for (const kind of ['fill', 'stroke'] as const) {
+      const ofKind = marks.filter(m => m.kind === kind);
+      const colors = Array.from(new Set(ofKind.map(m => m.color)));
+      if (colors.length < (kind === 'fill' ? 3 : 2)) continue;
+      const unlabelled = colors.filter(color => !ofKind.some(m => m.color === color && anchors.some(([x, y]) => distanceToBox(x, y, m.box) <= LABEL_DISTANCE)));
+      const styles = new Set(ofKind.filter(m => unlabelled.includes(m.color)).map(m => m.style));
+      if (unlabelled.length < 2 || styles.size >= unlabelled.length) continue;
+      const box = boxOfPoints(ofKind.flatMap(m => [[m.box.x, m.box.y], [m.box.x + m.box.w, m.box.y + m.box.h]] as [number, number][]))!;
+      detections.push({
+        finding: {
+          rule: 'COLOR_ONLY',
+          severity: RULE_SEVERITY.COLOR_ONLY,
+          message: `${unlabelled.length} ${kind === 'fill' ? 'series' : 'lines'} are told apart by color alone (${unlabelled.slice(0, 5).join(', ')}${unlabelled.length > 5 ? ', …' : ''}).`,
+          fix: 'MODEL',
+          ...toPercent(box.x + box.w / 2, box.y + box.h / 2),
+        },
+      });
+    }
+  }
+
+  // --- Document ---
+  const childText = (name: string) => Array.from(root.children).find(c => c.localName === name)?.textContent?.trim() || '';
+  const heading = [...units].sort((a, b) => b.fontSize - a.fontSize)[0]?.text.slice(0, 120) || 'Dashboard';
+  const insertFirst = (name: string, text: string) => {
+    Array.from(root.children).filter(c => c.localName === name).forEach(c => c.remove());
+    const el = doc.createElementNS('http://www.w3.org/2000/svg', name);
+    el.textContent = text;
+    const title = Array.from(root.children).find(c => c.localName === 'title');
+    root.insertBefore(el, name === 'desc' && title ? title.nextSibling : root.firstChild);
+  };
+  if (!childText('title')) {
+    detections.push({
+      finding: { rule: 'MISSING_TITLE', severity: RULE_SEVERITY.MISSING_TITLE, message: 'The SVG has no <title>, so screen readers have no name for it.', fix: 'PATCH' },
+      patch: () => insertFirst('title', heading),
+    });
+  }
+  if (!childText('desc')) {
+    const sections = Array.from(new Set(units.filter(u => u.bold && u.fontSize >= 13 && u.text !== heading).map(u => u.text))).slice(0, 12);
+    const summary = sections.length > 0 ? `${heading}. Sections: ${sections.join(', ')}.` : `${heading}.`;
+    detections.push({
+      finding: { rule: 'MISSING_DESC', severity: RULE_SEVERITY.MISSING_DESC, message: 'The SVG has no <desc> summarising its content.', fix: 'PATCH' },
+      patch: () => insertFirst('desc', summary),
+    });
+  }
+  if (!ACCEPTED_ROLES.includes(root.getAttribute('role') || '')) {
+    detections.push({
+      finding: { rule: 'MISSING_ROLE', severity: RULE_SEVERITY.MISSING_ROLE, message: 'The root <svg> has no role="img", so it may be skipped or read element by element.', fix: 'PATCH' },
+      patch: () => root.setAttribute('role', 'img'),
+    });
+  }
+
+  return { detections, textsChecked, toPercent };
+}
+
+const parseSvg = (imageData: string): Document | null => {
+  const markup = decodeSvgDataUri(imageData);
+  const svg = markup ? sanitizeSvg(markup).svg : null;
+  return svg ? new DOMParser().parseFromString(svg, 'image/svg+xml') : null;
+};
+
+const scoreFindings = (findings: AccessibilityFinding[], textsChecked: number): number => {
+  let deduction = 0;
+  for (const rule of Object.keys(RULE_WEIGHTS) as AccessibilityRule[]) {
+    const count = findings.filter(f => f.rule === rule).length;
+    if (count === 0) continue;
+    if (rule === 'CONTRAST' || rule === 'FONT_SIZE') deduction += Math.max(5, Math.round(RULE_WEIGHTS[rule] * count / Math.max(1, textsChecked)));
+    else if (rule === 'COLOR_ONLY') deduction += Math.min(RULE_WEIGHTS[rule], 10 * count);
+    else deduction += RULE_WEIGHTS[rule];
+  }
+  return Math.max(0, 100 - deduction);
+};
+
+/**
+ * Audits a generated version. Raster output and SVGs without a viewBox produce a report
+ * with `skipped` set.
+ */
+export function auditAccessibility(imageData: string, level: WcagLevel): AccessibilityReport {
+  const base: AccessibilityReport = { checkedAt: Date.now(), level, score: 100, textsChecked: 0, findings: [] };
+  const doc = parseSvg(imageData);
+  if (!doc) return { ...base, skipped: 'Only SVG versions can be audited; raster images have no readable structure.' };
+  const result = analyze(doc, level);
+  if (!result) return { ...base, skipped: 'The SVG has no usable viewBox.' };
+
+  const findings = result.detections.map((d, i) => ({ id: `a${i}`, ...d.finding }));
+  return { ...base, findings, textsChecked: result.textsChecked, score: scoreFindings(findings, result.textsChecked) };
+}
+
+/**
+ * Applies every deterministic fix and re-audits the result. `data` is null when nothing could
+ * be patched; `report` lists what is left for the model.
+ */
+export function applyAccessibilityFixes(imageData: string, level: WcagLevel): { data: string | null; fixed: number; report: AccessibilityReport } {
+  const doc = parseSvg(imageData);
+  const patches = doc ? (analyze(doc, level)?.detections || []).filter(d => d.patch) : [];
+  if (!doc || patches.length === 0) return { data: null, fixed: 0, report: auditAccessibility(imageData, level) };
+
+  patches.forEach(d => d.patch!());
+  const patched = sanitizeSvg(new XMLSerializer().serializeToString(doc.documentElement)).svg;
+  if (!patched) return { data: null, fixed: 0, report: auditAccessibility(imageData, level) };
+  const data = encodeSvgDataUri(patched);
+  return { data, fixed: patches.length, report: auditAccessibility(data, level) };
+}
+
+/** Turns the findings only the model can resolve into an edit instruction; null when there are none. */
+export function buildAccessibilityFixInstruction(report: AccessibilityReport): string | null {
+  const issues = report.findings.filter(f => f.fix === 'MODEL');
+  if (issues.length === 0) return null;
+  const where = (f: AccessibilityFinding) => f.x !== undefined ? ` (around ${Math.round(f.x)}% across, ${Math.round(f.y!)}% down)` : '';
+  const lines = issues.map(f => f.rule === 'COLOR_ONLY'
+    ? `- ${f.message.replace(/\.$/, '')}${where(f)}. Add direct labels, patterns or distinct line/marker styles so the series can be told apart without color.`
+    : `- ${f.message.replace(/\.$/, '')}${where(f)}. Change the text color or the background behind it so it reaches at least ${f.required}:1.`);
+  return [
+    `Fix these accessibility problems (WCAG ${report.level}). Keep the data, layout and every other element unchanged.`,
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/bindings.ts
+ * Chart and KPI plans produced by the analysis step.
+ *
+ * Each plan names the source id, columns, aggregation and filter it is computed from, so the
+ * user can review and correct the bindings before rendering. The reviewed plans are handed to
+ * the render step as the content requirements.
+ */
+
+import { AnalysisResult, ChartPlan, ChartType, ComparisonPeriod, DataFilter, DataSource, FilterOperator, KpiPlan, SpecAggregation } from '../types';
+import { findSourceTable } from './data';
+import { quoteUntrusted } from './untrusted';
+
+export const CHART_TYPES: ChartType[] = ['line', 'area', 'bar', 'pie', 'donut', 'table'];
+export const AGGREGATIONS: SpecAggregation[] = ['sum', 'avg', 'count', 'min', 'max'];
+export const FILTER_OPERATORS: FilterOperator[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains'];
+export const COMPARISON_PERIODS: ComparisonPeriod[] = ['none', 'previous_period', 'previous_year', 'target'];
+
+export const COMPARISON_LABELS: Record<ComparisonPeriod, string> = {
+  none: 'No comparison',
+  previous_period: 'vs previous period',
+  previous_year: 'vs previous year',
+  target: 'vs target',
+};
+
+const OPERATOR_SYMBOLS: Record<FilterOperator, string> = { eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', contains: 'contains' };
+
+const pick = <T extends string>(value: unknown, allowed: T[], fallback: T): T =>
+  allowed.includes(value as T) ? value as T : fallback;
+
+// Models return "" for fields they could not bind; treat those as absent.
+const optional = (value: unknown): string | undefined => {
+  const str = typeof value === 'string' ? value.trim() : '';
+  return str || undefined;
+};
+
+const normalizeFilter = (raw: any): DataFilter | undefined => {
+  const field = optional(raw?.field);
+  if (!field) return undefined;
+  return { field, operator: pick(raw.operator, FILTER_OPERATORS, 'eq'), value: String(raw.value ?? '') };
+};
+
+/**
+ * Coerces a model response into a well-formed `AnalysisResult`. Cached responses from before
+ * bindings were introduced carry plain strings; those become unbound plans.
+ */
+export function normalizeAnalysis(raw: any): AnalysisResult {
+  const kpis: KpiPlan[] = (Array.isArray(raw?.kpis) ? raw.kpis : []).map((k: any, i: number) => typeof k === 'string'
+    ? { id: `kpi-${i + 1}`, label: k, aggregation: 'sum', comparison: 'none' }
+    : {
+        id: `kpi-${i + 1}`,
+        label: String(k?.label || `KPI ${i + 1}`),
+        sourceId: optional(k?.sourceId),
+        field: optional(k?.field),
+        aggregation: pick(k?.aggregation, AGGREGATIONS, 'sum'),
+        comparison: pick(k?.comparison, COMPARISON_PERIODS, 'none'),
+      });
+  const suggestedCharts: ChartPlan[] = (Array.isArray(raw?.suggestedCharts) ? raw.suggestedCharts : []).map((c: any, i: number) => typeof c === 'string'
+    ? { id: `chart-${i + 1}`, title: c, type: 'bar', aggregation: 'sum' }
+    : {
+        id: `chart-${i + 1}`,
+        title: String(c?.title || `Chart ${i + 1}`),
+        type: pick(c?.type, CHART_TYPES, 'bar'),
+        sourceId: optional(c?.sourceId),
+        xField: optional(c?.xField),
+        yField: optional(c?.yField),
+        seriesField: optional(c?.seriesField),
+        aggregation: pick(c?.aggregation, AGGREGATIONS, 'sum'),
+        filter: normalizeFilter(c?.filter),
+      });
+  return { dashboardStrategy: String(raw?.dashboardStrategy || ''), kpis, suggestedCharts };
+}
+
+const isChart = (plan: ChartPlan | KpiPlan): plan is ChartPlan => 'type' in plan;
+
+/** Problems with a plan's binding against the connected sources; empty when the plan is unbound or valid. */
+export function bindingIssues(plan: ChartPlan | KpiPlan, sources: DataSource[]): string[] {
+  if (!plan.sourceId) return [];
+  const table = findSourceTable(sources, plan.sourceId);
+  if (!table) return ['Source is not connected or has no parseable rows'];
+
+  const issues: string[] = [];
+  const checkColumn = (name: string | undefined, role: string) => {
+    if (name && !table.columns.includes(name)) issues.push(`${role} column "${name}" does not exist`);
+  };
+  const measure = isChart(plan) ? plan.yField : plan.field;
+  if (!measure) issues.push('No measure column selected');
+  checkColumn(measure, 'Measure');
+  if (isChart(plan)) {
+    checkColumn(plan.xField, 'X axis');
+    checkColumn(plan.seriesField, 'Series');
+    checkColumn(plan.filter?.field, 'Filter');
+    if (!plan.xField && plan.type !== 'table') issues.push('No category / time column selected');
+  }
+  if (measure && table.columns.includes(measure) && plan.aggregation !== 'count' && !table.rows.some(r => typeof r[measure] === 'number')) {
+    issues.push(`"${measure}" has no numeric values to ${plan.aggregation}`);
+  }
+  return issues;
+}
+
+const sourceName = (sources: DataSource[], id: string) => sources.find(s => s.id === id)?.name || id;
+
+// Titles, source and column names and filter values come from user data, so each is quoted and escaped.
+const q = quoteUntrusted;
+
+/** One-line description, e.g. `"Revenue by region" (bar): sum of "Revenue" by "Region" from "Sales" where "Year" = "2024"`. */
+export function describeChartPlan(plan: ChartPlan, sources: DataSource[]): string {
+  if (!plan.sourceId || !plan.yField) return `${q(plan.title)} (${plan.type})`;
+  const parts = [`${q(plan.title)} (${plan.type}): ${plan.aggregation} of ${q(plan.yField)}`];
+  if (plan.xField) parts.push(`by ${q(plan.xField)}`);
+  if (plan.seriesField) parts.push(`split by ${q(plan.seriesField)}`);
+  parts.push(`from ${q(sourceName(sources, plan.sourceId))} (source id ${q(plan.sourceId)})`);
+  if (plan.filter) parts.push(`where ${q(plan.filter.field)} ${OPERATOR_SYMBOLS[plan.filter.operator]} ${q(plan.filter.value)}`);
+  return parts.join(' ');
+}
+
+export function describeKpiPlan(plan: KpiPlan, sources: DataSource[]): string {
+  const comparison = plan.comparison !== 'none' ? `, ${COMPARISON_LABELS[plan.comparison]}` : '';
+  if (!plan.sourceId || !plan.field) return `${q(plan.label)}${comparison}`;
+  return `${q(plan.label)}: ${plan.aggregation} of ${q(plan.field)} from ${q(sourceName(sources, plan.sourceId))} (source id ${q(plan.sourceId)})${comparison}`;
+}
+
+/** Content requirements for the render step, with every reviewed binding spelled out. */
+export const formatAnalysisForPrompt = (analysis: AnalysisResult, sources: DataSource[]): string => `
+Strategy: ${analysis.dashboardStrategy}
+KPIs to show (use these bindings exactly where given):
+${analysis.kpis.map(k => `- ${describeKpiPlan(k, sources)}`).join('\n')}
+Charts to render (use these bindings exactly where given):
+${analysis.suggestedCharts.map(c => `- ${describeChartPlan(c, sources)}`).join('\n')}`;
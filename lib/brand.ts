@@ -0,0 +1,223 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/brand.ts
+ * Brand compliance linter for generated dashboards.
+ *
+ * Every color in fills, strokes, gradient stops and CSS (attributes, inline styles and <style>
+ * rules) is compared with the active BrandKit using CIEDE2000, and every font-family with the
+ * brand fonts. The logo must be embedded when the kit has one. "Snap to brand" rewrites
+ * off-palette colors to their nearest brand color and off-brand fonts to the brand font.
+ */
+
+import { BrandComplianceConfig, BrandKit, BrandReport, BrandViolation } from '../types';
+import { sanitizeSvg, decodeSvgDataUri, encodeSvgDataUri } from './svg';
+import { Rgba, parseColor, toHex, chroma, deltaE2000 } from './color';
+import { db } from './db';
+
+export const DEFAULT_BRAND_COMPLIANCE: BrandComplianceConfig = { strict: false, tolerance: 10, allowNeutrals: true };
+
+const COLOR_PROPERTIES = new Set(['fill', 'stroke', 'stop-color', 'flood-color', 'lighting-color', 'color']);
+const GENERIC_FONTS = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif', 'ui-serif', 'ui-monospace', 'inherit']);
+const NEUTRAL_CHROMA = 16; // Greys, including the cool slate greys UI kits use
+const LOGO_SIZE = 40;      // Same placement as the spec renderer: top right, 24 units in
+
+export async function getBrandComplianceConfig(): Promise<BrandComplianceConfig> {
+  try {
+    const ws = await db.getWorkspace();
+    return { ...DEFAULT_BRAND_COMPLIANCE, ...ws?.brandCompliance };
+  } catch {
+    return DEFAULT_BRAND_COMPLIANCE;
+  }
+}
+
+// --- Markup Traversal ---
+
+// Called with each color or font-family value; a returned string replaces it.
+type Visitor = (property: string, value: string) => string | void;
+
+const rewriteDeclarations = (css: string, visit: Visitor): string =>
+  css.replace(/(^|[;{\s])([a-z-]+)(\s*:\s*)([^;{}]+)/gi, (match, pre: string, prop: string, colon: string, value: string) => {
+    const name = prop.toLowerCase();
+    if (!COLOR_PROPERTIES.has(name) && name !== 'font-family') return match;
+    const important = /!important\s*$/i.test(value) ? ' !important' : '';
+    const bare = value.replace(/!important\s*$/i, '').trim();
+    const next = visit(name, bare);
+    return typeof next === 'string' ? `${pre}${prop}${colon}${next}${important}` : match;
+  });
+
+/** Visits every color and font-family in attributes, inline styles and stylesheets, rewriting where the visitor says so. */
+function visitStyles(root: Element, visit: Visitor) {
+  for (const el of [root, ...Array.from(root.getElementsByTagName('*'))]) {
+    for (const attr of Array.from(el.attributes)) {
+      const name = attr.name.toLowerCase();
+      if (name === 'style') {
+        const next = rewriteDeclarations(attr.value, visit);
+        if (next !== attr.value) el.setAttribute('style', next);
+      } else if (COLOR_PROPERTIES.has(name) || name === 'font-family') {
+        const next = visit(name, attr.value.trim());
+        if (typeof next === 'string') el.setAttribute(attr.name, next);
+      }
+    }
+    if (el.localName === 'style' && el.textContent) {
+      const next = rewriteDeclarations(el.textContent, visit);
+      if (next !== el.textContent) el.textContent = next;
+    }
+  }
+}
+
+const primaryFamily = (stack: string) => stack.split(',')[0].trim().replace(/^['"]|['"]$/g, '').toLowerCase();
+
+const quoteFamily = (family: string) => /^[\w-]+$/.test(family.trim()) ? family.trim() : `"${family.trim().replace(/"/g, '')}"`;
+
+// --- Matching ---
+
+interface BrandColor {
+  name: string;
+  hex: string;
+  rgba: Rgba;
+}
+
+const brandColors = (kit: BrandKit): BrandColor[] =>
+  ([['Primary', kit.primaryColor], ['Secondary', kit.secondaryColor], ['Accent', kit.accentColor], ['Background', kit.backgroundColor]] as const)
+    .map(([name, hex]): BrandColor | null => {
+      const rgba = parseColor(hex);
+      return rgba && { name, hex, rgba };
+    })
+    .filter((c): c is BrandColor => !!c);
+
+const nearestBrandColor = (color: Rgba, palette: BrandColor[]): { color: BrandColor; deltaE: number } | null => {
+  let best: { color: BrandColor; deltaE: number } | null = null;
+  for (const c of palette) {
+    const deltaE = deltaE2000(color, c.rgba);
+    if (!best || deltaE < best.deltaE) best = { color: c, deltaE };
+  }
+  return best;
+};
+
+// Colors outside the palette and its tolerance; transparent and (optionally) neutral colors always pass.
+const isOffPalette = (color: Rgba, palette: BrandColor[], config: BrandComplianceConfig) => {
+  if (color[3] === 0) return null;
+  if (config.allowNeutrals && chroma(color) < NEUTRAL_CHROMA) return null;
+  const nearest = nearestBrandColor(color, palette);
+  return nearest && nearest.deltaE > config.tolerance ? nearest : null;
+};
+
+const brandFonts = (kit: BrandKit) => new Set([primaryFamily(kit.fontFamily), primaryFamily(kit.headingFont)].filter(Boolean));
+
+const isOffBrandFont = (stack: string, fonts: Set<string>) => {
+  const family = primaryFamily(stack);
+  return !!family && !GENERIC_FONTS.has(family) && !fonts.has(family);
+};
+
+const hasLogo = (root: Element, logo: string) =>
+  Array.from(root.getElementsByTagName('image')).some(img => (img.getAttribute('href') || img.getAttribute('xlink:href')) === logo);
+
+const parseSvg = (imageData: string): Document | null => {
+  const markup = decodeSvgDataUri(imageData);
+  const svg = markup ? sanitizeSvg(markup).svg : null;
+  return svg ? new DOMParser().parseFromString(svg, 'image/svg+xml') : null;
+};
+
+/**
+ * Lints a generated version against the brand kit. Raster output produces a report with
+ * `skipped` set.
+ */
+export function lintBrandCompliance(imageData: string, kit: BrandKit, config: BrandComplianceConfig = DEFAULT_BRAND_COMPLIANCE): BrandReport {
+  const base: BrandReport = { checkedAt: Date.now(), tolerance: config.tolerance, colorsChecked: 0, fontsChecked: 0, violations: [] };
+  const doc = parseSvg(imageData);
+  if (!doc) return { ...base, skipped: 'Only SVG versions can be checked; raster images have no readable colors or fonts.' };
+
+  const colors = new Map<string, { rgba: Rgba; count: number }>();
+  const fonts = new Map<string, { stack: string; count: number }>();
+  visitStyles(doc.documentElement, (prop, value) => {
+    if (prop === 'font-family') {
+      const key = primaryFamily(value);
+      if (key) fonts.set(key, { stack: value, count: (fonts.get(key)?.count || 0) + 1 });
+      return;
+    }
+    const rgba = parseColor(value);
+    if (!rgba) return;
+    const key = toHex(rgba);
+    colors.set(key, { rgba, count: (colors.get(key)?.count || 0) + 1 });
+  });
+
+  const palette = brandColors(kit);
+  const allowedFonts = brandFonts(kit);
+  const violations: BrandViolation[] = [];
+  for (const [hex, { rgba, count }] of colors) {
+    const nearest = isOffPalette(rgba, palette, config);
+    if (!nearest) continue;
+    violations.push({
+      id: `b${violations.length}`,
+      kind: 'COLOR',
+      value: hex,
+      count,
+      nearest: nearest.color.hex,
+      deltaE: Math.round(nearest.deltaE * 10) / 10,
+      message: `${hex} is ΔE ${nearest.deltaE.toFixed(1)} from the closest brand color (${nearest.color.name}, ${nearest.color.hex}).`,
+    });
+  }
+  for (const { stack, count } of fonts.values()) {
+    if (!isOffBrandFont(stack, allowedFonts)) continue;
+    violations.push({
+      id: `b${violations.length}`,
+      kind: 'FONT',
+      value: stack.split(',')[0].trim().replace(/^['"]|['"]$/g, ''),
+      count,
+      nearest: kit.fontFamily,
+      message: `Font "${stack}" is not a brand font (${kit.fontFamily} / ${kit.headingFont}).`,
+    });
+  }
+  if (kit.logo && !hasLogo(doc.documentElement, kit.logo)) {
+    violations.push({ id: `b${violations.length}`, kind: 'LOGO', value: '', count: 0, message: 'The brand logo is not embedded in this version.' });
+  }
+
+  return { ...base, colorsChecked: colors.size, fontsChecked: fonts.size, violations };
+}
+
+/**
+ * Rewrites off-palette colors to their nearest brand color (keeping alpha), off-brand fonts
+ * to the brand body font, and embeds a missing logo. `data` is null when nothing changed.
+ */
+export function snapToBrand(imageData: string, kit: BrandKit, config: BrandComplianceConfig = DEFAULT_BRAND_COMPLIANCE): { data: string | null; changed: number } {
+  const doc = parseSvg(imageData);
+  if (!doc) return { data: null, changed: 0 };
+  const root = doc.documentElement;
+  const palette = brandColors(kit);
+  const allowedFonts = brandFonts(kit);
+  let changed = 0;
+
+  visitStyles(root, (prop, value) => {
+    if (prop === 'font-family') {
+      if (!isOffBrandFont(value, allowedFonts)) return;
+      changed++;
+      const rest = value.split(',').slice(1).map(s => s.trim()).filter(Boolean);
+      return [quoteFamily(kit.fontFamily), ...rest].join(', ');
+    }
+    const rgba = parseColor(value);
+    const nearest = rgba && isOffPalette(rgba, palette, config);
+    if (!rgba || !nearest) return;
+    changed++;
+    const [r, g, b] = nearest.color.rgba;
+    return rgba[3] < 1 ? `rgba(${r},${g},${b},${Math.round(rgba[3] * 1000) / 1000})` : nearest.color.hex;
+  });
+
+  if (kit.logo && !hasLogo(root, kit.logo)) {
+    const [minX, minY, width] = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+    const image = doc.createElementNS('http://www.w3.org/2000/svg', 'image');
+    image.setAttribute('href', kit.logo);
+    image.setAttribute('x', String(minX + width - 24 - LOGO_SIZE));
+    image.setAttribute('y', String(minY + 24));
+    image.setAttribute('width', String(LOGO_SIZE));
+    image.setAttribute('height', String(LOGO_SIZE));
+    image.setAttribute('preserveAspectRatio', 'xMidYMid meet');
+    root.appendChild(image);
+    changed++;
+  }
+
+  if (changed === 0) return { data: null, changed };
+  const result = sanitizeSvg(new XMLSerializer().serializeToString(root));
+  return result.svg ? { data: encodeSvgDataUri(result.svg), changed } : { data: null, changed: 0 };
+}
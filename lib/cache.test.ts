@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CacheEntry } from '../types';
+import { CacheRequest, cacheKey, withCache } from './cache';
+
+const entries = vi.hoisted(() => new Map<string, CacheEntry>());
+
+vi.mock('./db', () => ({
+  db: {
+    getWorkspace: async () => undefined,
+    getCacheEntry: async (key: string) => entries.get(key),
+    putCacheEntry: async (entry: CacheEntry) => { entries.set(entry.key, entry); },
+    updateCacheStats: async () => undefined,
+  },
+}));
+
+const sha256 = async (input: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const REQUEST = { operation: 'GENERATE' as const, model: 'm', prompt: 'Draw revenue', system: 'sys', data: 'a,b\n1,2' };
+
+describe('cacheKey', () => {
+  it('is stable and changes with every part of the request', async () => {
+    const key = await cacheKey(REQUEST);
+    expect(await cacheKey({ ...REQUEST })).toBe(key);
+    const changes: Partial<CacheRequest>[] = [{ operation: 'EDIT' }, { model: 'n' }, { prompt: 'Draw cost' }, { system: '' }, { data: 'a,b\n1,3' }, { schema: { type: 'object' } }, { image: 'iVBOR' }];
+    for (const change of changes) {
+      expect(await cacheKey({ ...REQUEST, ...change })).not.toBe(key);
+    }
+  });
+
+  it('keeps keys of requests without an image unchanged', async () => {
+    const legacy = await sha256(JSON.stringify(['GENERATE', 'm', 'sys', 'Draw revenue', null, await sha256('a,b\n1,2')]));
+    expect(await cacheKey(REQUEST)).toBe(legacy);
+  });
+});
+
+describe('withCache', () => {
+  beforeEach(() => entries.clear());
+
+  it('serves a fresh entry without calling the model, unless bypassed', async () => {
+    const call = vi.fn(async () => ({ text: 'svg', usage: { inputTokens: 10, outputTokens: 5 } }));
+    expect(await withCache(REQUEST, false, call)).toEqual({ text: 'svg', usage: { inputTokens: 10, outputTokens: 5 } });
+    await vi.waitFor(() => expect(entries.size).toBe(1));
+
+    expect(await withCache(REQUEST, false, call)).toMatchObject({ text: 'svg', cached: true });
+    expect(call).toHaveBeenCalledTimes(1);
+    await withCache(REQUEST, true, call);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not store responses the caller rejects', async () => {
+    await withCache(REQUEST, false, async () => ({ text: 'not svg' }), text => text.startsWith('<svg'));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(entries.size).toBe(0);
+  });
+
+  it('ignores expired entries', async () => {
+    entries.set(await cacheKey(REQUEST), { key: await cacheKey(REQUEST), operation: 'GENERATE', model: 'm', text: 'old', inputTokens: 0, outputTokens: 0, createdAt: 0, expiresAt: Date.now() - 1 });
+    const result = await withCache(REQUEST, false, async () => ({ text: 'new' }));
+    expect(result.text).toBe('new');
+  });
+});
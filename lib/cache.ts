@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/cache.ts
+ * Content-addressed cache for model responses.
+ *
+ * Entries are keyed by a SHA-256 of the fully resolved request (model, prompts, schema
+ * and a hash of the data context), so any change to the prompt template, brand kit or
+ * data produces a new key. Only text/JSON responses are cached; images are not.
+ */
+
+import { CacheStats, ResponseCacheConfig, UsageOperation } from '../types';
+import { JSONSchema, TextResult } from './providers';
+import { billingPeriod, estimateCost } from './usage';
+import { db } from './db';
+
+export const DEFAULT_CACHE_CONFIG: ResponseCacheConfig = { enabled: true, ttlHours: 24 };
+
+export interface CacheRequest {
+  operation: UsageOperation;
+  model: string;
+  prompt: string;
+  system?: string;
+  schema?: JSONSchema;
+  data?: string; // Data context; hashed separately so large samples do not bloat the key material
+  image?: string; // Base64 of an attached reference image, hashed like `data`
+}
+
+const sha256 = async (input: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export async function cacheKey(req: CacheRequest): Promise<string> {
+  const dataHash = req.data ? await sha256(req.data) : '';
+  // Appended only when present so keys of requests without an image are unchanged
+  const imageHash = req.image ? [await sha256(req.image)] : [];
+  return sha256(JSON.stringify([req.operation, req.model, req.system || '', req.prompt, req.schema || null, dataHash, ...imageHash]));
+}
+
+export async function getCacheConfig(): Promise<ResponseCacheConfig> {
+  try {
+    const ws = await db.getWorkspace();
+    return { ...DEFAULT_CACHE_CONFIG, ...ws?.responseCache };
+  } catch {
+    return DEFAULT_CACHE_CONFIG;
+  }
+}
+
+const countLookup = (hit: boolean, tokens = 0, cost = 0) =>
+  db.updateCacheStats(billingPeriod(), stats => ({
+    ...stats,
+    hits: stats.hits + (hit ? 1 : 0),
+    misses: stats.misses + (hit ? 0 : 1),
+    tokensSaved: stats.tokensSaved + tokens,
+    costSaved: stats.costSaved + cost,
+  })).catch(e => console.warn("Failed to update cache stats", e));
+
+/**
+ * Returns a cached response for `req` when one is fresh, otherwise runs `call` and stores
+ * its result if `cacheable` accepts it. `cached` is set on hits so callers can skip usage accounting.
+ * Cache failures never fail the request; they degrade to a direct call.
+ */
+export async function withCache(req: CacheRequest, bypass: boolean, call: () => Promise<TextResult>, cacheable: (text: string) => boolean = () => true): Promise<TextResult & { cached?: boolean }> {
+  const config = await getCacheConfig();
+  if (!config.enabled || !globalThis.crypto?.subtle) return call();
+
+  let key: string | null = null;
+  try {
+    key = await cacheKey(req);
+    const entry = bypass ? undefined : await db.getCacheEntry(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      countLookup(true, entry.inputTokens + entry.outputTokens, estimateCost(entry.model, entry.inputTokens, entry.outputTokens));
+      return { text: entry.text, usage: { inputTokens: entry.inputTokens, outputTokens: entry.outputTokens }, cached: true };
+    }
+  } catch (e) {
+    console.warn("Response cache lookup failed", e);
+  }
+
+  if (!bypass) countLookup(false);
+  const result = await call();
+  if (key && result.text && cacheable(result.text)) {
+    const now = Date.now();
+    db.putCacheEntry({
+      key,
+      operation: req.operation,
+      model: req.model,
+      text: result.text,
+      inputTokens: result.usage?.inputTokens || 0,
+      outputTokens: result.usage?.outputTokens || 0,
+      createdAt: now,
+      expiresAt: now + config.ttlHours * 3600_000,
+    }).catch(e => console.warn("Failed to store cached response", e));
+  }
+  return result;
+}
+
+/** Current-period counters plus the number of live entries; expired entries are pruned first. */
+export async function getCacheSummary(period: string = billingPeriod()): Promise<{ stats: CacheStats; entries: number }> {
+  await db.pruneCache();
+  const [stats, entries] = await Promise.all([db.getCacheStats(period), db.countCacheEntries()]);
+  return { stats: stats || { period, hits: 0, misses: 0, tokensSaved: 0, costSaved: 0 }, entries };
+}
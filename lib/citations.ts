@@ -0,0 +1,134 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/citations.ts
+ * Structured citations for research-grounded dashboards.
+ *
+ * Grounding metadata (sources plus the answer segments each one supports) becomes numbered
+ * `SearchResultItem`s, and the summary gets matching [n] markers. The markers travel with the
+ * research `DataSource`, so generation can tie footnotes to individual statistics and exports
+ * can append the full source list.
+ */
+
+import { DataSource, SearchResultItem } from '../types';
+import { GroundingSource, GroundingSupport } from './providers';
+import { escapeXml } from './renderer';
+
+const domainOf = (url: string): string => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return 'External source';
+  }
+};
+
+/** True for absolute http(s) URLs — the only ones rendered as links. */
+export const isWebUrl = (url: string): boolean => {
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Numbers the grounding sources (deduplicated by URL) and inserts [n] markers after each
+ * supported segment of `text`. Segments are located by text rather than offset, since
+ * providers report offsets in different units. Sources without an http(s) URL are skipped.
+ */
+export function buildCitations(text: string, sources: GroundingSource[], supports: GroundingSupport[]): { summary: string; items: SearchResultItem[] } {
+  const items: SearchResultItem[] = [];
+  const byUrl = new Map<string, SearchResultItem>();
+  const idForIndex = sources.map(source => {
+    const url = source.web?.uri;
+    if (!url || !isWebUrl(url)) return null;
+    let item = byUrl.get(url);
+    if (!item) {
+      item = { id: items.length + 1, title: source.web?.title || domainOf(url), url, domain: domainOf(url), claims: [] };
+      byUrl.set(url, item);
+      items.push(item);
+    }
+    return item.id;
+  });
+
+  const inserts: { at: number; ids: number[] }[] = [];
+  let searchFrom = 0;
+  for (const support of supports) {
+    const ids = Array.from(new Set(support.sourceIndices.map(i => idForIndex[i]).filter((id): id is number => id !== null && id !== undefined))).sort((a, b) => a - b);
+    if (ids.length === 0) continue;
+    const segment = support.text.trim();
+    ids.forEach(id => {
+      const claims = items[id - 1].claims;
+      if (!claims.includes(segment)) claims.push(segment);
+    });
+    // Supports arrive in answer order; fall back to a full search if one is out of order
+    let at = text.indexOf(segment, searchFrom);
+    if (at < 0) at = text.indexOf(segment);
+    if (at < 0) continue;
+    searchFrom = at + segment.length;
+    inserts.push({ at: at + segment.length, ids });
+  }
+
+  let summary = text;
+  inserts
+    .sort((a, b) => b.at - a.at)
+    .forEach(({ at, ids }) => { summary = `${summary.slice(0, at)} ${ids.map(id => `[${id}]`).join('')}${summary.slice(at)}`; });
+  return { summary, items };
+}
+
+/** Citations of every research source, deduplicated by footnote number. */
+export function collectCitations(sources: DataSource[]): SearchResultItem[] {
+  const seen = new Map<number, SearchResultItem>();
+  sources.forEach(s => s.citations?.forEach(c => { if (!seen.has(c.id)) seen.set(c.id, c); }));
+  return Array.from(seen.values()).sort((a, b) => a.id - b.id);
+}
+
+/** Prompt section telling the model which sources exist and how to footnote statistics taken from them. */
+export function buildCitationContext(citations: SearchResultItem[]): string {
+  if (citations.length === 0) return '';
+  return `CITATIONS:
+Passages in the research data end with [n] markers that refer to these sources:
+${citations.map(c => `[${c.id}] ${c.title} (${c.domain})`).join('\n')}
+Every statistic taken from a marked passage must carry its footnote number(s) (in a layout spec, list them in the panel's "citations").
+When drawing the dashboard directly, show the numbers as small superscripts next to the figure and add a compact "Sources" line at the bottom listing the cited numbers with titles.`;
+}
+
+/** Plain-text lines of a sources appendix, e.g. "[1] Title — example.com — https://…". */
+export const formatCitations = (citations: SearchResultItem[]): string[] =>
+  citations.map(c => `[${c.id}] ${c.title} — ${c.domain} — ${c.url}`);
+
+/**
+ * Extends an SVG document downwards with a sources appendix. The original content keeps
+ * its coordinates; only the viewBox (and a fixed height, if set) grow.
+ */
+export function appendSourcesToSvg(svg: string, citations: SearchResultItem[]): string {
+  if (citations.length === 0) return svg;
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [minX, minY, width, height] = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (!(width > 0 && height > 0)) return svg;
+
+  const fontSize = Math.max(11, Math.round(width / 110));
+  const lineHeight = fontSize * 1.6;
+  const pad = fontSize * 2;
+  const extra = pad * 2 + lineHeight * (citations.length + 1);
+  const x = minX + pad;
+  const top = minY + height;
+
+  const lines = formatCitations(citations).map((line, i) =>
+    `<text x="${x}" y="${top + pad + lineHeight * (i + 2)}" font-size="${fontSize}" fill="#334155">${escapeXml(line)}</text>`
+  ).join('');
+  const appendix = `<g id="sources-appendix" data-role="sources" font-family="Inter, Helvetica, Arial, sans-serif">` +
+    `<rect x="${minX}" y="${top}" width="${width}" height="${extra}" fill="#ffffff"/>` +
+    `<text x="${x}" y="${top + pad + lineHeight}" font-size="${fontSize * 1.15}" font-weight="bold" fill="#0f172a">Sources</text>` +
+    lines + `</g>`;
+
+  const fragment = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg">${appendix}</svg>`, 'image/svg+xml');
+  root.appendChild(doc.importNode(fragment.documentElement.firstElementChild!, true));
+  root.setAttribute('viewBox', `${minX} ${minY} ${width} ${height + extra}`);
+  const fixedHeight = parseFloat(root.getAttribute('height') || '');
+  if (fixedHeight > 0) root.setAttribute('height', String(fixedHeight * (height + extra) / height));
+  return new XMLSerializer().serializeToString(doc);
+}
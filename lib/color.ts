@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/color.ts
+ * Color parsing and comparison shared by the output checks.
+ *
+ * Covers the CSS color syntaxes models actually emit (hex, rgb()/rgba(), common names),
+ * WCAG relative luminance and contrast, and CIEDE2000 distance in CIELAB for perceptual
+ * comparisons against brand colors.
+ */
+
+export type Rgba = [number, number, number, number]; // 0–255 channels, alpha 0–1
+
+type Lab = [number, number, number];
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff', yellow: '#ffff00',
+  orange: '#ffa500', purple: '#800080', gray: '#808080', grey: '#808080', silver: '#c0c0c0', navy: '#000080',
+  teal: '#008080', maroon: '#800000', lime: '#00ff00', aqua: '#00ffff', cyan: '#00ffff', fuchsia: '#ff00ff',
+  magenta: '#ff00ff', olive: '#808000', gold: '#ffd700', crimson: '#dc143c', indigo: '#4b0082', pink: '#ffc0cb',
+  brown: '#a52a2a', darkgray: '#a9a9a9', darkgrey: '#a9a9a9', lightgray: '#d3d3d3', lightgrey: '#d3d3d3',
+  dimgray: '#696969', slategray: '#708090', whitesmoke: '#f5f5f5',
+};
+
+/** Parses a CSS color; null for anything else (none, url(), currentColor, unsupported syntax). */
+export function parseColor(value: string): Rgba | null {
+  const v = value.trim().toLowerCase();
+  if (v === 'transparent') return [0, 0, 0, 0];
+  const hex = (NAMED_COLORS[v] || v).match(/^#([0-9a-f]{3,8})$/);
+  if (hex) {
+    let h = hex[1];
+    if (h.length === 3 || h.length === 4) h = h.split('').map(c => c + c).join('');
+    if (h.length !== 6 && h.length !== 8) return null;
+    const n = (i: number) => parseInt(h.slice(i, i + 2), 16);
+    return [n(0), n(2), n(4), h.length === 8 ? n(6) / 255 : 1];
+  }
+  const fn = v.match(/^rgba?\(([^)]*)\)$/);
+  if (fn) {
+    const parts = fn[1].split(/[\s,/]+/).filter(Boolean);
+    if (parts.length < 3) return null;
+    const channel = (p: string) => p.endsWith('%') ? parseFloat(p) * 2.55 : parseFloat(p);
+    const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+    const rgba: Rgba = [channel(parts[0]), channel(parts[1]), channel(parts[2]), alpha];
+    return rgba.every(n => isFinite(n)) ? rgba : null;
+  }
+  return null;
+}
+
+export const toHex = (c: Rgba) => `#${c.slice(0, 3).map(n => Math.round(Math.min(255, Math.max(0, n))).toString(16).padStart(2, '0')).join('')}`;
+
+const linear = (c: number) => {
+  const s = c / 255;
+  return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+};
+
+export const luminance = ([r, g, b]: Rgba) => 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+
+/** WCAG 2.x contrast ratio between two opaque colors (1–21). */
+export const contrastRatio = (a: Rgba, b: Rgba): number => {
+  const [hi, lo] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+// --- CIELAB ---
+
+// sRGB (D65) to CIELAB
+const toLab = ([r, g, b]: Rgba): Lab => {
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047;
+  const y = 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+  const z = (0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883;
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))];
+};
+
+/** CIELAB chroma; near 0 for greys. */
+export const chroma = (c: Rgba): number => {
+  const [, a, b] = toLab(c);
+  return Math.hypot(a, b);
+};
+
+/** CIEDE2000 color difference. About 2.3 is a just-noticeable difference; above 10 reads as a different color. */
+export function deltaE2000(c1: Rgba, c2: Rgba): number {
+  const [L1, a1, b1] = toLab(c1);
+  const [L2, a2, b2] = toLab(c2);
+  const rad = Math.PI / 180;
+  const Cbar = (Math.hypot(a1, b1) + Math.hypot(a2, b2)) / 2;
+  const G = 0.5 * (1 - Math.sqrt(Math.pow(Cbar, 7) / (Math.pow(Cbar, 7) + Math.pow(25, 7))));
+  const a1p = a1 * (1 + G), a2p = a2 * (1 + G);
+  const C1p = Math.hypot(a1p, b1), C2p = Math.hypot(a2p, b2);
+  const hue = (b: number, a: number) => (a === 0 && b === 0) ? 0 : (Math.atan2(b, a) / rad + 360) % 360;
+  const h1p = hue(b1, a1p), h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const Lbarp = (L1 + L2) / 2;
+  const Cbarp = (C1p + C2p) / 2;
+  let hbarp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    hbarp = Math.abs(h1p - h2p) <= 180 ? hbarp / 2 : (h1p + h2p < 360 ? (hbarp + 360) / 2 : (hbarp - 360) / 2);
+  }
+  const T = 1 - 0.17 * Math.cos((hbarp - 30) * rad) + 0.24 * Math.cos(2 * hbarp * rad)
+    + 0.32 * Math.cos((3 * hbarp + 6) * rad) - 0.2 * Math.cos((4 * hbarp - 63) * rad);
+  const dTheta = 30 * Math.exp(-Math.pow((hbarp - 275) / 25, 2));
+  const Rc = 2 * Math.sqrt(Math.pow(Cbarp, 7) / (Math.pow(Cbarp, 7) + Math.pow(25, 7)));
+  const Sl = 1 + (0.015 * Math.pow(Lbarp - 50, 2)) / Math.sqrt(20 + Math.pow(Lbarp - 50, 2));
+  const Sc = 1 + 0.045 * Cbarp;
+  const Sh = 1 + 0.015 * Cbarp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  return Math.sqrt(
+    Math.pow(dLp / Sl, 2) + Math.pow(dCp / Sc, 2) + Math.pow(dHp / Sh, 2) + Rt * (dCp / Sc) * (dHp / Sh)
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/data.ts
+ * Parses `DataSource.sampleData` into rows and computes aggregates locally,
+ * so rendered numbers come from the data rather than from the model.
+ */
+
+import { DataSource, DataFilter, SpecAggregation } from '../types';
+
+export type CellValue = string | number;
+export type DataRow = Record<string, CellValue>;
+
+export interface ParsedTable {
+  columns: string[];
+  rows: DataRow[];
+}
+
+const toCell = (raw: unknown): CellValue => {
+  if (typeof raw === 'number') return raw;
+  const str = String(raw ?? '').trim();
+  const numeric = str.replace(/[$,%\s]/g, '');
+  return numeric !== '' && !isNaN(Number(numeric)) ? Number(numeric) : str;
+};
+
+// Minimal RFC 4180 line splitter (handles quoted commas and escaped quotes).
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else current += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') { cells.push(current); current = ''; }
+    else current += ch;
+  }
+  cells.push(current);
+  return cells;
+};
+
+/**
+ * Parses CSV or JSON sample data. Returns null for free text (e.g. research summaries).
+ */
+export function parseSampleData(sampleData?: string): ParsedTable | null {
+  const text = sampleData?.trim();
+  if (!text) return null;
+
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      const json = JSON.parse(text);
+      const arr: unknown[] = Array.isArray(json) ? json : [json];
+      const objects = arr.filter((r): r is Record<string, unknown> => !!r && typeof r === 'object' && !Array.isArray(r));
+      if (objects.length === 0) return null;
+      const columns = Array.from(new Set(objects.flatMap(o => Object.keys(o))));
+      const rows = objects.map(o => Object.fromEntries(columns.map(c => [c, toCell(o[c])])));
+      return { columns, rows };
+    } catch {
+      return null;
+    }
+  }
+
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length < 2 || !lines[0].includes(',')) return null;
+  const columns = splitCsvLine(lines[0]).map(c => c.trim());
+  const rows = lines.slice(1).map(line => {
+    const cells = splitCsvLine(line);
+    return Object.fromEntries(columns.map((c, i) => [c, toCell(cells[i])]));
+  });
+  return { columns, rows };
+}
+
+export function findSourceTable(sources: DataSource[], sourceId: string): ParsedTable | null {
+  const source = sources.find(s => s.id === sourceId);
+  return source ? parseSampleData(source.sampleData) : null;
+}
+
+/** Keeps rows matching `filter`; numeric comparisons apply when both sides are numbers. */
+export function applyFilter(rows: DataRow[], filter?: DataFilter): DataRow[] {
+  if (!filter?.field) return rows;
+  const target = toCell(filter.value);
+  return rows.filter(row => {
+    const cell = row[filter.field];
+    const numeric = typeof cell === 'number' && typeof target === 'number';
+    switch (filter.operator) {
+      case 'neq': return String(cell).toLowerCase() !== String(target).toLowerCase();
+      case 'gt': return numeric && cell > target;
+      case 'gte': return numeric && cell >= target;
+      case 'lt': return numeric && cell < target;
+      case 'lte': return numeric && cell <= target;
+      case 'contains': return String(cell).toLowerCase().includes(String(filter.value).toLowerCase());
+      case 'eq':
+      default: return String(cell).toLowerCase() === String(target).toLowerCase();
+    }
+  });
+}
+
+export function aggregate(values: CellValue[], aggregation: SpecAggregation): number {
+  if (aggregation === 'count') return values.length;
+  const nums = values.filter((v): v is number => typeof v === 'number');
+  if (nums.length === 0) return 0;
+  switch (aggregation) {
+    case 'avg': return nums.reduce((a, b) => a + b, 0) / nums.length;
+    case 'min': return Math.min(...nums);
+    case 'max': return Math.max(...nums);
+    case 'sum':
+    default: return nums.reduce((a, b) => a + b, 0);
+  }
+}
+
+/** Groups `rows` by `xField` and aggregates `yField` per group, preserving first-seen order. */
+export function groupBy(rows: DataRow[], xField: string, yField: string, aggregation: SpecAggregation): { label: string; value: number }[] {
+  const groups = new Map<string, CellValue[]>();
+  for (const row of rows) {
+    const key = String(row[xField] ?? '');
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row[yField]);
+  }
+  return Array.from(groups, ([label, values]) => ({ label, value: aggregate(values, aggregation) }));
+}
+
+/** Compact display format for rendered numbers (1.2K, 3.4M). Other locales use their own separators and compact units. */
+export function formatNumber(value: number, locale?: string): string {
+  const abs = Math.abs(value);
+  if (locale && locale !== 'en-US') {
+    const fractions = Number.isInteger(value) ? 0 : 2;
+    return new Intl.NumberFormat(locale, abs >= 1e4
+      ? { notation: 'compact', maximumFractionDigits: 1 }
+      : { minimumFractionDigits: fractions, maximumFractionDigits: fractions }).format(value);
+  }
+  if (abs >= 1e9) return `${(value / 1e9).toFixed(1)}B`;
+  if (abs >= 1e6) return `${(value / 1e6).toFixed(1)}M`;
+  if (abs >= 1e4) return `${(value / 1e3).toFixed(1)}K`;
+  return Number.isInteger(value) ? value.toLocaleString('en-US') : value.toFixed(2);
+}
@@ -12,6 +12,9 @@
  * - STORE_CONFIG: Stores global settings like BrandKit, Workspace details, and Current User.
  * - STORE_TEAM: Stores team member profiles.
  * - STORE_AUDIT: Stores action logs for compliance.
+ * - STORE_USAGE: Stores per-call token/cost records, indexed by billing period.
+ * - STORE_CACHE: Stores AI responses keyed by request hash, indexed by expiry.
+ * - STORE_CACHE_STATS: Stores cache hit/miss counters per billing period.
  * 
  * Sync Considerations:
  * - This implementation is currently local-only.
@@ -22,16 +25,20 @@
  *   4. Resolve conflicts using a Last-Write-Wins strategy or CRDTs.
  */
 
-import { Project, DataSource, BrandKit, TeamMember, AuditEntry, Workspace, User, Folder } from '../types';
+import { Project, DataSource, BrandKit, TeamMember, AuditEntry, Workspace, User, Folder, UsageRecord, CacheEntry, CacheStats } from '../types';
 
 const DB_NAME = 'infogenius_enterprise_db';
-const DB_VERSION = 5;
+const DB_VERSION = 7;
 const STORE_PROJECTS = 'projects';
 const STORE_SOURCES = 'data_sources';
 const STORE_CONFIG = 'config';
 const STORE_TEAM = 'team';
 const STORE_AUDIT = 'audit';
 const STORE_FOLDERS = 'folders';
+const STORE_USAGE = 'usage';
+const STORE_CACHE = 'response_cache';
+const STORE_CACHE_STATS = 'cache_stats';
+const ALL_STORES = [STORE_PROJECTS, STORE_SOURCES, STORE_CONFIG, STORE_TEAM, STORE_AUDIT, STORE_FOLDERS, STORE_USAGE, STORE_CACHE, STORE_CACHE_STATS];
 
 class LocalDatabase {
   private db: IDBDatabase | null = null;
@@ -75,6 +82,17 @@ class LocalDatabase {
         if (!db.objectStoreNames.contains(STORE_FOLDERS)) {
           db.createObjectStore(STORE_FOLDERS, { keyPath: 'id' });
         }
+        if (!db.objectStoreNames.contains(STORE_USAGE)) {
+          const usageStore = db.createObjectStore(STORE_USAGE, { keyPath: 'id' });
+          usageStore.createIndex('period', 'period', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(STORE_CACHE)) {
+          const cacheStore = db.createObjectStore(STORE_CACHE, { keyPath: 'key' });
+          cacheStore.createIndex('expiresAt', 'expiresAt', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(STORE_CACHE_STATS)) {
+          db.createObjectStore(STORE_CACHE_STATS, { keyPath: 'period' });
+        }
       };
     });
   }
@@ -280,13 +298,25 @@ class LocalDatabase {
 
   async addAuditLog(entry: AuditEntry): Promise<void> {
     const db = await this.init();
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       const tx = db.transaction([STORE_AUDIT], 'readwrite');
       tx.objectStore(STORE_AUDIT).add(entry);
       tx.oncomplete = () => resolve();
+      // A failed add (e.g. a duplicate id) aborts the transaction; settle instead of hanging the caller.
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error || new Error('Audit log write was aborted.'));
     });
   }
 
+  /** Records an audit entry for a user action; a failed write is logged and never fails the action. */
+  async logAudit(entry: AuditEntry): Promise<void> {
+    try {
+      await this.addAuditLog(entry);
+    } catch (e) {
+      console.warn("Failed to write audit log entry", e);
+    }
+  }
+
   async getAuditLogs(): Promise<AuditEntry[]> {
     const db = await this.init();
     return new Promise((resolve) => {
@@ -306,6 +336,138 @@ class LocalDatabase {
     });
   }
 
+  // --- Usage Accounting ---
+
+  async addUsageRecord(record: UsageRecord): Promise<void> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_USAGE], 'readwrite');
+      tx.objectStore(STORE_USAGE).add(record);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Returns usage for one billing period ("YYYY-MM"), or all periods when omitted. */
+  async getUsageRecords(period?: string): Promise<UsageRecord[]> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const store = db.transaction([STORE_USAGE], 'readonly').objectStore(STORE_USAGE);
+      const request = period ? store.index('period').getAll(period) : store.getAll();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // --- Response Cache ---
+
+  async getCacheEntry(key: string): Promise<CacheEntry | undefined> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([STORE_CACHE], 'readonly').objectStore(STORE_CACHE).get(key);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async putCacheEntry(entry: CacheEntry): Promise<void> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_CACHE], 'readwrite');
+      tx.objectStore(STORE_CACHE).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  /** Deletes entries that expired before `now`; returns how many were removed. */
+  async pruneCache(now: number = Date.now()): Promise<number> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_CACHE], 'readwrite');
+      const request = tx.objectStore(STORE_CACHE).index('expiresAt').openCursor(IDBKeyRange.upperBound(now));
+      let removed = 0;
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          cursor.delete();
+          removed++;
+          cursor.continue();
+        }
+      };
+      tx.oncomplete = () => resolve(removed);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async clearCache(): Promise<void> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_CACHE], 'readwrite');
+      tx.objectStore(STORE_CACHE).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async countCacheEntries(): Promise<number> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([STORE_CACHE], 'readonly').objectStore(STORE_CACHE).count();
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /** Applies `update` to a period's counters inside one transaction so concurrent lookups are not lost. */
+  async updateCacheStats(period: string, update: (stats: CacheStats) => CacheStats): Promise<void> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([STORE_CACHE_STATS], 'readwrite');
+      const store = tx.objectStore(STORE_CACHE_STATS);
+      const request = store.get(period);
+      request.onsuccess = () => {
+        store.put(update(request.result || { period, hits: 0, misses: 0, tokensSaved: 0, costSaved: 0 }));
+      };
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  async getCacheStats(period: string): Promise<CacheStats | undefined> {
+    const db = await this.init();
+    return new Promise((resolve, reject) => {
+      const request = db.transaction([STORE_CACHE_STATS], 'readonly').objectStore(STORE_CACHE_STATS).get(period);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // --- Storage ---
+
+  /** Approximate bytes held per object store, measured from the serialized records. */
+  async getStorageBreakdown(): Promise<Record<string, number>> {
+    const db = await this.init();
+    const encoder = new TextEncoder();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(ALL_STORES, 'readonly');
+      const sizes: Record<string, number> = {};
+      for (const name of ALL_STORES) {
+        sizes[name] = 0;
+        const request = tx.objectStore(name).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (cursor) {
+            sizes[name] += encoder.encode(JSON.stringify(cursor.value) || '').length;
+            cursor.continue();
+          }
+        };
+      }
+      tx.oncomplete = () => resolve(sizes);
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
   // --- Brand Kit Operations ---
 
   async getBrandKit(): Promise<BrandKit | undefined> {
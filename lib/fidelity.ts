@@ -0,0 +1,300 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/fidelity.ts
+ * Data-fidelity verification for generated dashboards.
+ *
+ * Every text node of the SVG is split into numeric tokens and plain labels. Numbers are
+ * matched (within display rounding) against the parsed sample data and aggregates derived
+ * from it; labels are matched against column names and category values. Anything that
+ * cannot be traced back to the data is reported with its position on the canvas.
+ */
+
+import { DataSource, FidelityFinding, FidelityReport } from '../types';
+import { parseSampleData, aggregate, groupBy, formatNumber } from './data';
+import { sanitizeSvg, decodeSvgDataUri, translationOf } from './svg';
+
+interface ReferenceValue {
+  value: number;
+  label: string;
+}
+
+interface TextNode {
+  text: string;
+  x: number;
+  y: number;
+}
+
+const MAX_REFERENCES = 20000;
+const MAX_GROUP_CARDINALITY = 50; // Columns with more distinct values are treated as identifiers, not categories
+const NEAR_MISS_RATIO = 0.25;     // Nearest reference reported for invented numbers within this relative distance
+
+// Numbers with optional sign, currency, thousands separators, decimals and a K/M/B or % suffix.
+// Digits glued to letters ("Q3", "FY24", "H2O") are not values and are skipped.
+const NUMBER_TOKEN = /(?<![A-Za-z\d.])([-+−]?)([$€£¥]?)(\d[\d,]*(?:\.\d+)?)\s?([KMB%]?)(?![A-Za-z\d])/gi;
+const SUFFIX_MULTIPLIER: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9 };
+
+const normalizeLabel = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = above;
+    }
+  }
+  return prev[b.length];
+};
+
+// --- Reference Data ---
+
+/** Cell values, column aggregates, per-category aggregates and shares for every parseable source. */
+function buildReferences(dataSources: DataSource[]): { values: ReferenceValue[]; labels: Map<string, string>; sources: string[] } {
+  const values: ReferenceValue[] = [];
+  const labels = new Map<string, string>(); // normalized -> original
+  const sources: string[] = [];
+  const addLabel = (label: string) => {
+    const key = normalizeLabel(label);
+    if (key && !labels.has(key)) labels.set(key, label);
+  };
+  const add = (value: number, label: string) => {
+    if (values.length < MAX_REFERENCES && isFinite(value)) values.push({ value, label });
+  };
+
+  for (const source of dataSources) {
+    const table = parseSampleData(source.sampleData);
+    if (!table || table.rows.length === 0) continue;
+    sources.push(source.name);
+    addLabel(source.name);
+    add(table.rows.length, `${source.name} (row count)`);
+
+    const numeric = table.columns.filter(c => table.rows.some(r => typeof r[c] === 'number'));
+    const categorical = table.columns.filter(c => !numeric.includes(c));
+    table.columns.forEach(addLabel);
+
+    for (const column of numeric) {
+      const cells = table.rows.map(r => r[column]);
+      cells.forEach(v => typeof v === 'number' && add(v, `${column} = ${formatNumber(v)}`));
+      (['sum', 'avg', 'min', 'max'] as const).forEach(agg => add(aggregate(cells, agg), `${column} (${agg})`));
+
+      // Period-over-period and first-to-last change, as KPI deltas usually show
+      const nums = cells.filter((v): v is number => typeof v === 'number');
+      for (let i = 1; i < nums.length; i++) {
+        if (nums[i - 1] !== 0) add(((nums[i] - nums[i - 1]) / Math.abs(nums[i - 1])) * 100, `${column} change, row ${i} to ${i + 1} (%)`);
+      }
+      if (nums.length > 2 && nums[0] !== 0) add(((nums[nums.length - 1] - nums[0]) / Math.abs(nums[0])) * 100, `${column} change, first to last (%)`);
+    }
+
+    for (const category of categorical) {
+      const distinct = new Set(table.rows.map(r => String(r[category] ?? '')));
+      distinct.forEach(addLabel);
+      if (distinct.size > MAX_GROUP_CARDINALITY) continue;
+      for (const column of numeric) {
+        const total = aggregate(table.rows.map(r => r[column]), 'sum');
+        groupBy(table.rows, category, column, 'sum').forEach(g => {
+          add(g.value, `${column} for "${g.label}" (sum)`);
+          if (total !== 0) add((g.value / total) * 100, `${column} share of "${g.label}" (%)`);
+        });
+        groupBy(table.rows, category, column, 'avg').forEach(g => add(g.value, `${column} for "${g.label}" (avg)`));
+        groupBy(table.rows, category, column, 'count').forEach(g => add(g.value, `Rows for "${g.label}"`));
+      }
+    }
+  }
+  return { values, labels, sources };
+}
+
+// --- SVG Text Extraction ---
+
+const firstLength = (value: string | null) => {
+  const n = parseFloat((value || '').trim().split(/[\s,]+/)[0]);
+  return isNaN(n) ? 0 : n;
+};
+
+function extractTextNodes(svg: string): { nodes: TextNode[]; width: number; height: number } | null {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [minX, minY, width, height] = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (!(width > 0 && height > 0)) return null;
+
+  const nodes: TextNode[] = [];
+  const anchor = (el: Element): [number, number] => {
+    let x = firstLength(el.getAttribute('x'));
+    let y = firstLength(el.getAttribute('y'));
+    if (el.localName === 'tspan' && el.parentElement?.localName === 'text') {
+      if (!el.hasAttribute('x')) x = firstLength(el.parentElement.getAttribute('x'));
+      if (!el.hasAttribute('y')) y = firstLength(el.parentElement.getAttribute('y'));
+    }
+    for (let node: Element | null = el; node && node !== root; node = node.parentElement) {
+      const [dx, dy] = translationOf(node);
+      x += dx;
+      y += dy;
+    }
+    return [x, y];
+  };
+  const push = (el: Element, text: string) => {
+    const trimmed = text.replace(/\s+/g, ' ').trim();
+    if (!trimmed) return;
+    const [x, y] = anchor(el);
+    nodes.push({
+      text: trimmed,
+      x: Math.min(100, Math.max(0, ((x - minX) / width) * 100)),
+      y: Math.min(100, Math.max(0, ((y - minY) / height) * 100)),
+    });
+  };
+
+  for (const text of Array.from(doc.getElementsByTagName('text'))) {
+    if (text.closest('[data-role="sources"]')) continue; // Citation footer, not data
+    const spans = Array.from(text.getElementsByTagName('tspan'));
+    if (spans.length === 0) {
+      push(text, text.textContent || '');
+      continue;
+    }
+    spans
+      .filter(s => s.getElementsByTagName('tspan').length === 0 && s.getAttribute('data-role') !== 'footnote')
+      .forEach(s => push(s, s.textContent || ''));
+    // Loose text directly inside <text>, alongside the spans
+    push(text, Array.from(text.childNodes).filter(n => n.nodeType === 3).map(n => n.textContent).join(' '));
+  }
+  return { nodes, width, height };
+}
+
+// --- Matching ---
+
+interface ParsedNumber {
+  value: number;
+  tolerance: number; // Half a unit of the last displayed digit
+  percent: boolean;
+  plain: boolean;    // No separators, currency or suffix (candidate year or axis value)
+}
+
+const parseToken = (m: RegExpMatchArray): ParsedNumber => {
+  const [, , currency, digits, rawSuffix] = m;
+  const suffix = rawSuffix.toUpperCase();
+  const multiplier = SUFFIX_MULTIPLIER[suffix] || 1;
+  const decimals = digits.includes('.') ? digits.split('.')[1].length : 0;
+  return {
+    value: Math.abs(parseFloat(digits.replace(/,/g, ''))) * multiplier,
+    tolerance: 0.5 * Math.pow(10, -decimals) * multiplier,
+    percent: suffix === '%',
+    plain: !currency && !suffix && !digits.includes(','),
+  };
+};
+
+const matches = (shown: number, tolerance: number, reference: number) => {
+  const ref = Math.abs(reference);
+  return Math.abs(ref - shown) <= tolerance + 1e-9 || (shown !== 0 && Math.abs(ref - shown) / shown <= 0.005);
+};
+
+// Round numbers with a single significant digit (0, 5, 50, 200, 1K) are typically axis ticks.
+const isRoundValue = (value: number) => value === 0 || /^[1-9]0*$/.test(String(value));
+
+const isYear = (n: ParsedNumber) => n.plain && Number.isInteger(n.value) && n.value >= 1900 && n.value <= 2100;
+
+function checkNumber(n: ParsedNumber, references: ReferenceValue[]): Pick<FidelityFinding, 'status' | 'reference'> | null {
+  const candidates = n.percent ? [n.value, n.value / 100] : [n.value];
+  for (const shown of candidates) {
+    const tolerance = shown === n.value ? n.tolerance : n.tolerance / 100;
+    const hit = references.find(r => matches(shown, tolerance, r.value));
+    if (hit) return { status: 'MATCH', reference: hit.label };
+  }
+  if (isYear(n)) return null; // Unmatched years are dates and copyright lines, not data
+  if (isRoundValue(n.value)) return { status: 'AXIS_TICK' };
+
+  let nearest: ReferenceValue | undefined;
+  let best = Infinity;
+  for (const r of references) {
+    const distance = Math.abs(Math.abs(r.value) - n.value) / Math.max(n.value, 1e-9);
+    if (distance < best) { best = distance; nearest = r; }
+  }
+  return {
+    status: 'INVENTED_NUMBER',
+    reference: nearest && best <= NEAR_MISS_RATIO ? `${nearest.label}: ${formatNumber(Math.abs(nearest.value))}` : undefined,
+  };
+}
+
+// Plain text is only counted as a label when it equals, or nearly equals, something in the data;
+// headings and free copy that resemble nothing in the data are ignored.
+function checkLabel(text: string, labels: Map<string, string>): Pick<FidelityFinding, 'status' | 'reference'> | null {
+  const truncated = /(…|\.\.\.)$/.test(text);
+  const key = normalizeLabel(text);
+  if (key.length < 2 || key.length > 60 || !/\p{L}/u.test(key)) return null;
+  if (labels.has(key)) return { status: 'MATCH', reference: labels.get(key) };
+  if (truncated) {
+    for (const [k, original] of labels) if (k.startsWith(key)) return { status: 'MATCH', reference: original };
+  }
+
+  const budget = Math.max(1, Math.floor(key.length * 0.2));
+  let nearest: string | undefined;
+  let best = Infinity;
+  for (const [k, original] of labels) {
+    if (Math.abs(k.length - key.length) > budget) continue;
+    const distance = levenshtein(key, k);
+    if (distance < best) { best = distance; nearest = original; }
+  }
+  return nearest && best <= budget ? { status: 'MISMATCHED_LABEL', reference: nearest } : null;
+}
+
+/**
+ * Cross-checks every number and label in a generated SVG against the project's data sources.
+ * Raster output and projects without tabular sample data produce a report with `skipped` set.
+ */
+export function verifyDashboardFidelity(imageData: string, dataSources: DataSource[]): FidelityReport {
+  const base: FidelityReport = { checkedAt: Date.now(), score: 100, numbersChecked: 0, labelsChecked: 0, sources: [], findings: [] };
+
+  const markup = decodeSvgDataUri(imageData);
+  const svg = markup ? sanitizeSvg(markup).svg : null;
+  if (!svg) return { ...base, skipped: 'Only SVG versions can be verified; raster images have no readable text.' };
+
+  const { values, labels, sources } = buildReferences(dataSources);
+  if (sources.length === 0) return { ...base, skipped: 'No data source has CSV or JSON sample rows to check against.' };
+
+  const extracted = extractTextNodes(svg);
+  if (!extracted) return { ...base, sources, skipped: 'The SVG has no usable viewBox.' };
+
+  const findings: FidelityFinding[] = [];
+  for (const node of extracted.nodes) {
+    const tokens = Array.from(node.text.matchAll(NUMBER_TOKEN));
+    tokens.forEach(m => {
+      const result = checkNumber(parseToken(m), values);
+      if (result) findings.push({ id: `f${findings.length}`, kind: 'NUMBER', text: m[0].trim(), x: node.x, y: node.y, ...result });
+    });
+    if (tokens.length === 0) {
+      const result = checkLabel(node.text, labels);
+      if (result) findings.push({ id: `f${findings.length}`, kind: 'LABEL', text: node.text, x: node.x, y: node.y, ...result });
+    }
+  }
+
+  const counted = findings.filter(f => f.status !== 'AXIS_TICK');
+  const matched = counted.filter(f => f.status === 'MATCH').length;
+  return {
+    ...base,
+    sources,
+    findings,
+    numbersChecked: counted.filter(f => f.kind === 'NUMBER').length,
+    labelsChecked: counted.filter(f => f.kind === 'LABEL').length,
+    score: counted.length > 0 ? Math.round((matched / counted.length) * 100) : 100,
+  };
+}
+
+export const isFidelityIssue = (finding: FidelityFinding) => finding.status === 'INVENTED_NUMBER' || finding.status === 'MISMATCHED_LABEL';
+
+/** Turns the report's discrepancies into an edit instruction for `editDashboardImage`; null when there is nothing to fix. */
+export function buildFidelityFixInstruction(report: FidelityReport): string | null {
+  const issues = report.findings.filter(isFidelityIssue);
+  if (issues.length === 0) return null;
+  const lines = issues.map(f => {
+    if (f.kind === 'LABEL') return `- The label "${f.text}" does not match the data; it should read "${f.reference}".`;
+    return f.reference
+      ? `- "${f.text}" is not in the source data; the closest real value is ${f.reference}. Use the correct value.`
+      : `- "${f.text}" is not in the source data. Replace it with a value from the data or remove it.`;
+  });
+  return [
+    'Correct these data discrepancies. Change only the listed text; keep the layout, styling and every other element identical.',
+    ...lines,
+  ].join('\n');
+}
@@ -0,0 +1,51 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { elementPath, locateElement, sanitizeFragment, spliceElement } from './fragment';
+
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">\n' +
+  '  <!-- <g>not an element</g> -->\n' +
+  '  <g id="kpi" data-label="a > b"><rect width="10" height="10"/><text x="1">Revenue</text></g>\n' +
+  '  <g id="chart"><path d="M0 0L1 1"/></g>\n' +
+  '</svg>';
+
+describe('locateElement', () => {
+  it('finds the exact source range, skipping comments and quoted ">"', () => {
+    const located = locateElement(SVG, [0, 1], 'text')!;
+    expect(SVG.slice(located.start, located.end)).toBe('<text x="1">Revenue</text>');
+    expect(located.ancestors).toEqual([SVG.slice(0, SVG.indexOf('>') + 1), '<g id="kpi" data-label="a > b">']);
+  });
+
+  it('returns null for the root, unresolved paths and a tag mismatch', () => {
+    expect(locateElement(SVG, [])).toBeNull();
+    expect(locateElement(SVG, [5])).toBeNull();
+    expect(locateElement(SVG, [1, 0], 'rect')).toBeNull();
+  });
+
+  it('agrees with the DOM path of the same element', () => {
+    const doc = new DOMParser().parseFromString(SVG, 'image/svg+xml');
+    const path = elementPath(doc.documentElement, doc.querySelector('path')!)!;
+    expect(path).toEqual([1, 0]);
+    const located = locateElement(SVG, path, 'path')!;
+    expect(SVG.slice(located.start, located.end)).toBe('<path d="M0 0L1 1"/>');
+  });
+});
+
+describe('spliceElement', () => {
+  it('replaces only the located element and leaves every other byte unchanged', () => {
+    const located = locateElement(SVG, [0, 0], 'rect')!;
+    const { markup } = sanitizeFragment(SVG, '<rect width="20" height="10" fill="#f00" onclick="alert(1)"/>');
+    const spliced = spliceElement(SVG, located, markup!);
+    expect(markup).toBe('<rect width="20" height="10" fill="#f00"/>');
+    expect(spliced.slice(0, located.start)).toBe(SVG.slice(0, located.start));
+    expect(spliced.slice(located.start + markup!.length)).toBe(SVG.slice(located.end));
+  });
+
+  it('rejects a reply that is not an element', () => {
+    expect(sanitizeFragment(SVG, 'just text').markup).toBeNull();
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/fragment.ts
+ * Locates and replaces a single element of an SVG document at the source-text level.
+ *
+ * Targeted edits must leave the rest of the document byte-identical, so the stored markup
+ * is never re-serialized: the target's exact character range is found by scanning tags,
+ * and only that range is swapped for the (sanitized) replacement fragment.
+ */
+
+import { SvgSelection } from '../types';
+import { sanitizeSvg } from './svg';
+
+export interface LocatedElement {
+  start: number;        // Offset of the element's start tag
+  end: number;          // Offset just past its end tag (or self-closing tag)
+  tag: string;
+  ancestors: string[];  // Start tags from the root <svg> down to the parent
+}
+
+// Comments, CDATA, processing instructions, doctype, then start/end tags (quoted attribute values may contain '>').
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z_][\w:.-]*)((?:"[^"]*"|'[^']*'|[^'">])*?)(\/?)>/g;
+
+const localName = (tag: string) => tag.includes(':') ? tag.split(':').pop()! : tag;
+
+/**
+ * Finds the element at `path` (element-child indices below the root <svg>) in `svg`.
+ * Returns null when the path does not resolve or resolves to an element named other than `expectedTag`.
+ */
+export function locateElement(svg: string, path: number[], expectedTag?: string): LocatedElement | null {
+  if (path.length === 0) return null; // The root itself is never a fragment
+  const target = [0, ...path];
+  const open: { index: number; tag: string; startTag: string }[] = [];
+  const counts: number[] = [0];
+  let found: { start: number; depth: number; tag: string; ancestors: string[] } | null = null;
+
+  for (const m of svg.matchAll(TOKEN)) {
+    const [token, closing, name, , selfClosing] = m;
+    if (!name) continue; // Comment, CDATA, PI or doctype
+    const offset = m.index!;
+
+    if (closing) {
+      if (found && open.length === found.depth) return { start: found.start, end: offset + token.length, tag: found.tag, ancestors: found.ancestors };
+      open.pop();
+      counts.pop();
+      continue;
+    }
+
+    const index = counts[counts.length - 1]++;
+    open.push({ index, tag: name, startTag: token });
+    counts.push(0);
+
+    if (!found && open.length === target.length && open.every((o, i) => o.index === target[i])) {
+      const tag = localName(name);
+      if (expectedTag && tag !== expectedTag) return null;
+      const ancestors = open.slice(0, -1).map(o => o.startTag);
+      if (selfClosing) return { start: offset, end: offset + token.length, tag, ancestors };
+      found = { start: offset, depth: open.length, tag, ancestors };
+    }
+
+    if (selfClosing) {
+      open.pop();
+      counts.pop();
+    }
+  }
+  return null;
+}
+
+/** Document-level context the model needs to restyle a fragment consistently: viewBox, ancestors, styles and defs. */
+export function describeFragmentContext(svg: string, located: LocatedElement, maxStyleChars = 4000): string {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const styles = Array.from(doc.getElementsByTagName('style')).map(s => s.textContent || '').join('\n').trim();
+  const defIds = Array.from(doc.querySelectorAll('defs [id]')).map(el => `#${el.getAttribute('id')} (<${el.localName}>)`);
+
+  return [
+    `Document viewBox: ${root.getAttribute('viewBox')}`,
+    `Ancestors (outermost first):\n${located.ancestors.join('\n')}`,
+    styles && `Stylesheet:\n${styles.slice(0, maxStyleChars)}${styles.length > maxStyleChars ? '\n/* truncated */' : ''}`,
+    defIds.length > 0 && `Reusable defs: ${defIds.join(', ')}`,
+  ].filter(Boolean).join('\n\n');
+}
+
+/** Pulls element markup out of a model reply (drops markdown fences and prose around it). */
+export function extractFragment(text: string): string | null {
+  const cleaned = text.replace(/```(?:svg|xml)?/gi, '');
+  const start = cleaned.search(/<[A-Za-z]/);
+  const end = cleaned.lastIndexOf('>');
+  return start >= 0 && end > start ? cleaned.slice(start, end + 1).trim() : null;
+}
+
+/**
+ * Sanitizes a replacement fragment in the context of the document's root element.
+ * Returns the sanitized markup, or the validation errors when it is malformed or not an element.
+ */
+export function sanitizeFragment(svg: string, fragment: string): { markup: string | null; errors: string[] } {
+  const rootTag = svg.match(TOKEN)?.find(t => /^<[A-Za-z]/.test(t)) || '<svg xmlns="http://www.w3.org/2000/svg">';
+  const rootName = rootTag.match(/^<([\w:.-]+)/)![1];
+  const wrapped = `${rootTag.replace(/\/>$/, '>')}${fragment}</${rootName}>`;
+  const result = sanitizeSvg(wrapped);
+  if (!result.svg) return { markup: null, errors: result.errors };
+
+  const doc = new DOMParser().parseFromString(result.svg, 'image/svg+xml');
+  if (doc.documentElement.children.length === 0) return { markup: null, errors: ['The reply did not contain an SVG element.'] };
+
+  // Strip the wrapper; the serializer escapes '>' in attribute values, so the first '>' closes the root tag.
+  const inner = result.svg.slice(result.svg.indexOf('>') + 1, result.svg.lastIndexOf('</'));
+  return { markup: inner.trim(), errors: [] };
+}
+
+/** Replaces exactly the located range; every other byte of `svg` is preserved. */
+export const spliceElement = (svg: string, located: LocatedElement, fragment: string): string =>
+  svg.slice(0, located.start) + fragment + svg.slice(located.end);
+
+/** Element-child path from `root` down to `el`, as used by `locateElement`. */
+export function elementPath(root: Element, el: Element): number[] | null {
+  const path: number[] = [];
+  for (let node: Element | null = el; node && node !== root; node = node.parentElement) {
+    if (!node.parentElement) return null;
+    path.unshift(Array.from(node.parentElement.children).indexOf(node));
+  }
+  return path;
+}
+
+/** Short human-readable description of a selected element, e.g. `<g#revenue> "Revenue $1.2M"`. */
+export function describeSelection(el: Element, path: number[]): SvgSelection {
+  const id = el.getAttribute('id');
+  const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+  const label = `<${el.localName}${id ? `#${id}` : ''}>${text ? ` "${text.slice(0, 40)}${text.length > 40 ? '…' : ''}"` : ''}`;
+  return { path, tag: el.localName, label };
+}
@@ -6,18 +6,47 @@
  * Enterprise Dashboard Generator Logic
  */
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ComplexityLevel, VisualStyle, AnalysisResult, BrandKit } from "../types";
+import { ComplexityLevel, VisualStyle, AnalysisResult, BrandKit, DataSource, DashboardSpec, GenerationStage, GenerationProgress, PromptTemplateRef, SvgSelection, SearchResultItem, GenerationOrigin, FallbackStepConfig, GeneratedImage, Narrative, PersonaProfile, ObjectiveSuggestion, ScreenshotLayout, LayoutReference } from "../types";
+import { AIProvider, getActiveProvider, InlineImage, JSONSchema } from "./providers";
+import { parseSampleData } from "./data";
+import { renderDashboardSpec, resolveSpecBindings } from "./renderer";
+import { sanitizeSvg } from "./svg";
+import { closePartialSvg, parsePartialJson } from "./stream";
+import { locateElement, describeFragmentContext, extractFragment, sanitizeFragment, spliceElement } from "./fragment";
+import { recordUsage } from "./usage";
+import { withCache } from "./cache";
+import { PromptRegistry, getPromptRegistry } from "./prompts";
+import { AIPriority, ModelLimit, scheduler, retryAfterFrom } from "./scheduler";
+import { buildCitations, collectCitations, formatCitations } from "./citations";
+import { normalizeAnalysis, formatAnalysisForPrompt } from "./bindings";
+import { FALLBACK_STEP_LABELS, getModelSettings, stepModel } from "./models";
+import { DEFAULT_LOCALE, describeLocale, localeFormatExample, isRtlLocale, extractTextSegments, applyTextTranslations } from "./locale";
+import { describeVersionForNarrative, normalizeNarrative } from "./narrative";
+import { UNTRUSTED_DATA_NOTICE, buildDataContext, inspectDataSource, needsConfirmation, quoteUntrusted, wrapUntrusted } from "./untrusted";
+import { getActivePersona } from "./persona";
+import { profileFields, describeField, normalizeModelSuggestions } from "./suggestions";
+import { REGION_KINDS, normalizeScreenshotLayout } from "./screenshot";
+
+export type AIErrorType = 'RATE_LIMIT' | 'API_ERROR' | 'INVALID_PROMPT' | 'TIMEOUT' | 'INVALID_SVG' | 'CANCELLED' | 'UNKNOWN';
 
 export class AIError extends Error {
-  constructor(public type: 'RATE_LIMIT' | 'API_ERROR' | 'INVALID_PROMPT' | 'TIMEOUT' | 'UNKNOWN', message: string, public originalError?: any) {
+  constructor(public type: AIErrorType, message: string, public originalError?: any) {
     super(message);
     this.name = 'AIError';
   }
 }
 
-const TEXT_MODEL = 'gemini-3.1-pro-preview';
-const IMAGE_MODEL = 'gemini-3.1-flash-image-preview';
+// Image generation has a much lower quota than text; keep each image model to a trickle shared by all tabs.
+const IMAGE_MODEL_LIMIT: Partial<ModelLimit> = { requestsPerMinute: 10, burst: 2, maxConcurrent: 2 };
+const configuredImageModels = new Set<string>();
+
+const imageLane = (model: string, priority: AIPriority): CallLane => {
+  if (!configuredImageModels.has(model)) {
+    scheduler.configure(model, IMAGE_MODEL_LIMIT);
+    configuredImageModels.add(model);
+  }
+  return { model, priority };
+};
 
 // --- Utility: Base64 Handling for Browser ---
 const encodeBase64 = (str: string): string => {
@@ -28,21 +57,125 @@ const decodeBase64 = (str: string): string => {
   return decodeURIComponent(escape(atob(str)));
 };
 
+// --- Utility: SVG Output ---
+// All SVG leaves this module through here: validated, allowlist-sanitized, then encoded.
+const toSvgDataUri = (svgCode: string): string => {
+  const result = sanitizeSvg(svgCode);
+  if (!result.svg) {
+    throw new AIError('INVALID_SVG', `The generated SVG failed validation: ${result.errors.join(' ')}`, result);
+  }
+  if (result.removed.length > 0) {
+    console.warn("Removed unsafe SVG content:", result.removed);
+  }
+  return `data:image/svg+xml;base64,${encodeBase64(result.svg)}`;
+};
+
+const toImageDataUri = (image: InlineImage): string => {
+  if (image.mimeType === 'image/svg+xml') return toSvgDataUri(decodeBase64(image.data));
+  return `data:${image.mimeType};base64,${image.data}`;
+};
+
+// Reference images (layout sketches) are stored as data URIs
+const toInlineImage = (dataUri: string): InlineImage => {
+  const [header, data] = dataUri.split(',');
+  return { mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg', data };
+};
+
+// --- Utility: Streaming Progress ---
+export type ProgressHandler = (progress: GenerationProgress) => void;
+
+const PREVIEW_INTERVAL_MS = 300; // Partial previews are re-parsed and re-sanitized, so throttle them
+
+// Adapts a provider `onPartial` callback into stage/byte progress with an optional throttled preview.
+const streamProgress = (stage: GenerationStage, onProgress?: ProgressHandler, toPreview?: (partial: string) => string | null) => {
+  if (!onProgress) return undefined;
+  onProgress({ stage, bytes: 0 });
+  const encoder = new TextEncoder();
+  let lastPreview = 0;
+  return (text: string) => {
+    let preview: string | undefined;
+    if (toPreview && Date.now() - lastPreview >= PREVIEW_INTERVAL_MS) {
+      lastPreview = Date.now();
+      try {
+        preview = toPreview(text) || undefined;
+      } catch {
+        preview = undefined; // Partial output is expected to be invalid most of the time
+      }
+    }
+    onProgress({ stage, bytes: encoder.encode(text).length, preview });
+  };
+};
+
+const previewPartialSvg = (partial: string): string | null => {
+  const closed = closePartialSvg(partial);
+  const result = closed ? sanitizeSvg(closed) : null;
+  return result?.svg ? `data:image/svg+xml;base64,${encodeBase64(result.svg)}` : null;
+};
+
+// --- Utility: Cancellation ---
+const cancelledError = () => new AIError('CANCELLED', "The request was cancelled.");
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts.
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 // --- Utility: Retry Logic with Exponential Backoff ---
-async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3, baseDelay = 1000): Promise<T> {
+const ATTEMPT_TIMEOUT_MS = 60000;
+
+// Runs one attempt. Its signal aborts on timeout or when the caller cancels, so the request in flight is torn down too.
+async function runAttempt<T>(operation: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(cancelledError());
+  const timer = setTimeout(() => controller.abort(new Error('TIMEOUT')), ATTEMPT_TIMEOUT_MS);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await Promise.race([
+      operation(controller.signal),
+      // Providers that ignore the signal still cannot hold the caller past the abort
+      new Promise<T>((_, reject) => controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true }))
+    ]);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Which scheduler lane an attempt queues in: the model's budget, and how urgently the user is waiting.
+interface CallLane {
+  model: string;
+  priority?: AIPriority;
+}
+
+// Every attempt waits for a scheduler slot first; rate limits pause the whole model (in every tab), honouring Retry-After.
+async function withRetry<T>(operation: (signal: AbortSignal) => Promise<T>, signal: AbortSignal | undefined, lane: CallLane, maxRetries = 3, baseDelay = 1000): Promise<T> {
   let attempt = 0;
   while (attempt < maxRetries) {
+    if (signal?.aborted) throw cancelledError();
     try {
-      return await Promise.race([
-        operation(),
-        new Promise<T>((_, reject) => setTimeout(() => reject(new Error('TIMEOUT')), 60000)) // 60s timeout
-      ]);
+      const release = await scheduler.acquire(lane.model, lane.priority, signal);
+      try {
+        return await runAttempt(operation, signal);
+      } finally {
+        release(); // Before the backoff below: a failed attempt must not hold the model's slot while it waits
+      }
     } catch (error: any) {
+      if (signal?.aborted) throw cancelledError(); // Never retry once the caller has given up
       attempt++;
       console.warn(`API call failed (attempt ${attempt}/${maxRetries}):`, error);
       
-      let errorType: 'RATE_LIMIT' | 'API_ERROR' | 'INVALID_PROMPT' | 'TIMEOUT' | 'UNKNOWN' = 'UNKNOWN';
+      let errorType: AIErrorType = 'UNKNOWN';
       let errorMessage = error.message || "An unknown error occurred.";
+      let delay = baseDelay * Math.pow(2, attempt - 1);
 
       if (error.message === 'TIMEOUT') {
           errorType = 'TIMEOUT';
@@ -50,6 +183,8 @@ async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3, baseDel
       } else if (error.status === 429 || error.message?.includes('429') || error.message?.includes('quota')) {
           errorType = 'RATE_LIMIT';
           errorMessage = "Rate limit exceeded. Please try again in a moment.";
+          delay = retryAfterFrom(error) ?? delay;
+          scheduler.pause(lane.model, Date.now() + delay);
       } else if (error.status >= 400 && error.status < 500) {
           errorType = 'INVALID_PROMPT';
           errorMessage = "The request was invalid. Please check your prompt and try again.";
@@ -63,63 +198,143 @@ async function withRetry<T>(operation: () => Promise<T>, maxRetries = 3, baseDel
       if (attempt >= maxRetries) {
         throw new AIError(errorType, errorMessage, error);
       }
-      const delay = baseDelay * Math.pow(2, attempt - 1);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      // A rate-limited model is already paused in the scheduler, so the next acquire does the waiting
+      if (errorType !== 'RATE_LIMIT') await sleep(delay, signal);
     }
   }
   throw new AIError('UNKNOWN', "Max retries reached");
 }
 
-const getLevelInstruction = (level: ComplexityLevel): string => {
-  switch (level) {
-    case 'Executive Summary':
-      return "Target Audience: C-Suite. Focus on High-level KPIs, simple trend lines, and big numbers. Minimal clutter.";
-    case 'Operational':
-      return "Target Audience: Managers. Focus on real-time status, red/green indicators, and table rows for recent activity.";
-    case 'Analytical':
-      return "Target Audience: Data Analysts. Dense data, scatter plots, complex histograms, and filtering controls.";
-    case 'Strategic':
-      return "Target Audience: Planners. Long-term trend forecasting, year-over-year comparisons, and goal tracking.";
-    default:
-      return "Target Audience: General Business.";
+// Runs one fallback step within its time budget. Running out of time is a TIMEOUT, so the chain moves on; a caller cancel stays CANCELLED.
+async function withStepTimeout<T>(timeoutMs: number, signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  if (signal?.aborted) throw cancelledError();
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal!.reason);
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new Error('TIMEOUT'));
+  }, timeoutMs);
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await run(controller.signal);
+  } catch (e) {
+    if (timedOut && !signal?.aborted) throw new AIError('TIMEOUT', `The step did not finish within ${Math.round(timeoutMs / 1000)}s.`, e);
+    throw e;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// --- Utility: Provider Resolution ---
+// Misconfiguration (e.g. a missing gateway URL) is reported like any other AI failure.
+async function resolveProvider(): Promise<AIProvider> {
+  try {
+    return await getActiveProvider();
+  } catch (e: any) {
+    throw new AIError('API_ERROR', e.message || "The AI provider is not configured correctly.", e);
   }
+}
+
+// --- Prompt Fragments ---
+// Shared instructions rendered from the workspace template registry and inserted into the main templates.
+const getLevelInstruction = (prompts: PromptRegistry, level: ComplexityLevel): string => prompts.render('level', { level }).prompt;
+
+const getStyleInstruction = (prompts: PromptRegistry, style: VisualStyle): string => prompts.render('style', { style }).prompt;
+
+const getBrandInstruction = (prompts: PromptRegistry, brand?: BrandKit): string => {
+  if (!brand) return "";
+  return prompts.render('brand', {
+    primaryColor: brand.primaryColor,
+    secondaryColor: brand.secondaryColor,
+    accentColor: brand.accentColor,
+    backgroundColor: brand.backgroundColor,
+    fontFamily: brand.fontFamily,
+    headingFont: brand.headingFont,
+    logo: brand.logo ? 'yes' : ''
+  }).prompt;
 };
 
-const getStyleInstruction = (style: VisualStyle): string => {
-   const map: Record<VisualStyle, string> = {
-       'Modern SaaS': "Aesthetic: Clean white UI, soft shadows, rounded corners, blue/purple accents (Salesforce/Stripe style).",
-       'Dark Mode Analytics': "Aesthetic: Dark charcoal background, neon chart lines, high contrast for low-light environments.",
-       'Financial Traditional': "Aesthetic: Conservative, serif fonts, muted colors, grid lines, dense tables (Bloomberg Terminal style).",
-       'Minimalist': "Aesthetic: Maximum whitespace, thin lines, grayscale with one alert color.",
-       'Futuristic HUD': "Aesthetic: Sci-fi interface, glowing elements, floating panels.",
-       'Paper Wireframe': "Aesthetic: Low-fidelity sketch, hand-drawn lines, black and white.",
-       'Neumorphism': "Aesthetic: Soft UI, extruded plastic look, low contrast shadows, pale background.",
-       'Isometric 3D': "Aesthetic: 3D charts, angled perspective, vibrant gradients, floating elements.",
-       'High Contrast': "Aesthetic: Maximum accessibility, black and white dominant, very thick lines, large text.",
-       'Swiss Design': "Aesthetic: International typographic style, heavy use of grid, sans-serif fonts, asymmetrical layout.",
-       'Vintage Terminal': "Aesthetic: Green/Amber text on black CRT screen, monospaced fonts, scanlines.",
-       'Cyberpunk Neon': "Aesthetic: High-tech, pink/cyan gradients, glitch effects, dark background, futuristic typography.",
-       'Hand-Drawn Sketch': "Aesthetic: Rough pencil lines, marker-style coloring, informal font, whiteboard feel.",
-       'Corporate Clean': "Aesthetic: Professional blue/grey palette, standard enterprise layout, very structured, dense information.",
-       'Data Journalism': "Aesthetic: Editorial style, large serif headings, beige/cream background, sophisticated chart types (Sankey, Chord).",
-       'Glassmorphism': "Aesthetic: Translucent frosted glass panels, vivid blurred background blobs, white text, airy layout."
-   };
-   return map[style] || map['Modern SaaS'];
+const getPersonaInstruction = (prompts: PromptRegistry, persona?: PersonaProfile): string => {
+  if (!persona) return "";
+  const { label, tone, density, charts, terminology } = persona;
+  return prompts.render('persona', { label, tone, density, charts, terminology }).prompt;
 };
 
-const getBrandInstruction = (brand?: BrandKit): string => {
-  if (!brand) return "";
-  return `
-BRANDING CONSTRAINTS:
-- Primary Color: ${brand.primaryColor} (Use this for primary buttons, active states, and main chart series).
-- Secondary Color: ${brand.secondaryColor}.
-- Accent Color: ${brand.accentColor} (Use for highlights or small details).
-- Background Color: ${brand.backgroundColor}.
-- Global Font: ${brand.fontFamily}.
-- Heading Font: ${brand.headingFont}.
-${brand.logo ? "- MANDATORY: Include the company logo (which is a circular/modern icon) in the top left header." : ""}
-- Ensure all charts, tables, and UI components adhere strictly to this brand palette.
-`;
+const paletteVariable = (colorPalette: string): string => colorPalette !== "Brand Default" ? colorPalette : "";
+
+// Language variables for the generation templates; all empty for the default locale, so its prompts are unchanged.
+const localeVariables = (locale?: string): { language: string; formats: string; rtl: string } =>
+  !locale || locale === DEFAULT_LOCALE
+    ? { language: '', formats: '', rtl: '' }
+    : { language: describeLocale(locale), formats: localeFormatExample(locale), rtl: isRtlLocale(locale) ? 'yes' : '' };
+
+// Only well-formed responses are worth caching
+const isJson = (text: string): boolean => {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const AGGREGATION_SCHEMA: JSONSchema = { type: 'string', enum: ['sum', 'avg', 'count', 'min', 'max'] };
+
+const FILTER_SCHEMA: JSONSchema = {
+  type: 'object',
+  description: "Row filter applied before aggregation. Omit when every row counts.",
+  properties: {
+    field: { type: 'string', description: "Column to filter on" },
+    operator: { type: 'string', enum: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'contains'] },
+    value: { type: 'string' }
+  },
+  required: ['field', 'operator', 'value']
+};
+
+const ANALYSIS_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    dashboardStrategy: {
+      type: 'string',
+      description: "One sentence explaining the layout strategy"
+    },
+    kpis: {
+      type: 'array',
+      description: "3-5 key metrics to display at the top",
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          sourceId: { type: 'string', description: "Exact id of a data source listed in DATA SOURCES; empty when none fits" },
+          field: { type: 'string', description: "Column being measured" },
+          aggregation: AGGREGATION_SCHEMA,
+          comparison: { type: 'string', enum: ['none', 'previous_period', 'previous_year', 'target'], description: "Period the value is compared against" }
+        },
+        required: ['label', 'aggregation', 'comparison']
+      }
+    },
+    suggestedCharts: {
+      type: 'array',
+      description: "3 main visualizations to include",
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          type: { type: 'string', enum: ['line', 'area', 'bar', 'pie', 'donut', 'table'] },
+          sourceId: { type: 'string', description: "Exact id of a data source listed in DATA SOURCES; empty when none fits" },
+          xField: { type: 'string', description: "Column for categories / time axis" },
+          yField: { type: 'string', description: "Column being measured" },
+          seriesField: { type: 'string', description: "Optional column that splits the measure into series" },
+          aggregation: AGGREGATION_SCHEMA,
+          filter: FILTER_SCHEMA
+        },
+        required: ['title', 'type', 'aggregation']
+      }
+    }
+  },
+  required: ["dashboardStrategy", "kpis", "suggestedCharts"]
 };
 
 export async function analyzeDashboardRequirements(
@@ -128,238 +343,907 @@ export async function analyzeDashboardRequirements(
   level: ComplexityLevel, 
   style: VisualStyle,
   brand?: BrandKit,
-  targetAudience?: string
+  targetAudience?: string,
+  onProgress?: ProgressHandler,
+  signal?: AbortSignal,
+  bypassCache = false,
+  dataSources: DataSource[] = []
 ): Promise<AnalysisResult> {
   
-  const levelInstr = getLevelInstruction(level);
-  const styleInstr = getStyleInstruction(style);
-  const brandInstr = getBrandInstruction(brand);
-  const audienceInstr = targetAudience ? `Target Audience: ${targetAudience}.` : "";
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await withRetry(() => ai.models.generateContent({
-    model: TEXT_MODEL,
-    contents: `User Objective: "${objective}"\nData Context: ${dataContext}`,
-    config: {
-      systemInstruction: `You are a Senior Product Designer and Data Scientist. Your goal is to design a Dashboard UI based on the user's data sources and objective. Design constraints: ${levelInstr} ${styleInstr} ${brandInstr} ${audienceInstr}`,
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
+  const prompts = await getPromptRegistry();
+  const model = (await getModelSettings()).models.analysis;
+  const { system, prompt } = prompts.render('analysis', {
+    objective,
+    dataContext,
+    sources: describeSourcesForSpec(dataSources),
+    level: getLevelInstruction(prompts, level),
+    style: getStyleInstruction(prompts, style),
+    brand: getBrandInstruction(prompts, brand),
+    audience: targetAudience || '',
+    persona: getPersonaInstruction(prompts, await getActivePersona())
+  });
+
+  const ai = await resolveProvider();
+  const onPartial = streamProgress('ANALYZING', onProgress);
+  const response = await withCache(
+    { operation: 'ANALYZE', model, prompt, system, schema: ANALYSIS_SCHEMA, data: dataContext },
+    bypassCache,
+    () => withRetry(attemptSignal => ai.generateJSON({
+      model,
+      prompt,
+      systemInstruction: system,
+      schema: ANALYSIS_SCHEMA,
+      onPartial,
+      signal: attemptSignal
+    }), signal, { model }),
+    isJson
+  );
+
+  if (response.cached) onPartial?.(response.text);
+  else recordUsage('ANALYZE', model, response.usage);
+
+  const text = response.text;
+  if (!text) throw new AIError('API_ERROR', "Failed to analyze requirements: Empty response from model.");
+  try {
+      return normalizeAnalysis(JSON.parse(text));
+  } catch (e) {
+      throw new AIError('API_ERROR', "Failed to parse analysis results. The model returned invalid JSON.", e);
+  }
+}
+
+const BINDING_SCHEMA: JSONSchema = {
+  type: 'object',
+  description: "Binds this panel to a connected data source. Omit when no source has a suitable column.",
+  properties: {
+    sourceId: { type: 'string', description: "Exact id of a data source listed in DATA SOURCES" },
+    xField: { type: 'string', description: "Column used for categories / time axis (charts only)" },
+    yField: { type: 'string', description: "Column being measured" },
+    aggregation: AGGREGATION_SCHEMA,
+    filter: FILTER_SCHEMA
+  },
+  required: ['sourceId', 'yField', 'aggregation']
+};
+
+const DATUM_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: { label: { type: 'string' }, value: { type: 'number' } },
+  required: ['label', 'value']
+};
+
+const DASHBOARD_SPEC_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    header: {
+      type: 'object',
+      properties: { title: { type: 'string' }, subtitle: { type: 'string' } },
+      required: ['title']
+    },
+    nav: {
+      type: 'object',
+      properties: {
+        items: { type: 'array', items: { type: 'string' }, description: "4-6 sidebar navigation labels" },
+        active: { type: 'integer', description: "Index of the active item" }
+      },
+      required: ['items']
+    },
+    grid: {
+      type: 'object',
+      properties: {
+        columns: { type: 'integer', description: "Grid columns (2-6)" },
+        rows: { type: 'integer', description: "Grid rows (2-4)" }
+      },
+      required: ['columns', 'rows']
+    },
+    panels: {
+      type: 'array',
+      description: "Non-overlapping panels. KPIs usually occupy the first row.",
+      items: {
+        type: 'object',
         properties: {
-          dashboardStrategy: {
-            type: Type.STRING,
-            description: "One sentence explaining the layout strategy"
+          id: { type: 'string', description: "Short unique slug, e.g. 'kpi-revenue'" },
+          kind: { type: 'string', enum: ['KPI', 'CHART', 'TABLE'] },
+          title: { type: 'string' },
+          col: { type: 'integer', description: "Zero-based column" },
+          row: { type: 'integer', description: "Zero-based row" },
+          colSpan: { type: 'integer' },
+          rowSpan: { type: 'integer' },
+          kpi: {
+            type: 'object',
+            properties: {
+              value: { type: 'string', description: "Display value; recomputed locally when bound" },
+              delta: { type: 'string', description: "Change vs. previous period, e.g. '+4.2%'" },
+              trend: { type: 'string', enum: ['up', 'down', 'flat'] },
+              binding: BINDING_SCHEMA
+            },
+            required: ['value']
           },
-          kpis: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "List of 3-5 key metrics to display at the top"
+          chart: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['line', 'area', 'bar', 'pie', 'donut'] },
+              data: { type: 'array', items: DATUM_SCHEMA, description: "Series values; recomputed locally when bound" },
+              binding: BINDING_SCHEMA
+            },
+            required: ['type', 'data']
           },
-          suggestedCharts: {
-            type: Type.ARRAY,
-            items: { type: Type.STRING },
-            description: "List of 3 main visualizations to include"
-          }
+          table: {
+            type: 'object',
+            properties: {
+              columns: { type: 'array', items: { type: 'string' } },
+              rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } },
+              sourceId: { type: 'string', description: "Data source to fill rows from" }
+            },
+            required: ['columns', 'rows']
+          },
+          citations: { type: 'array', items: { type: 'integer' }, description: "Footnote numbers [n] of the research passages this panel's figures come from" }
         },
-        required: ["dashboardStrategy", "kpis", "suggestedCharts"]
+        required: ['id', 'kind', 'title', 'col', 'row', 'colSpan', 'rowSpan']
       }
     }
-  }));
+  },
+  required: ['header', 'grid', 'panels']
+};
 
-  const text = response.text;
-  if (!text) throw new AIError('API_ERROR', "Failed to analyze requirements: Empty response from model.");
+export interface GeneratedDashboard {
+  data: string;         // data URI (SVG or raster)
+  spec?: DashboardSpec; // Set when the layout came from a spec and can be re-rendered locally
+  template: PromptTemplateRef; // Template that produced the final output
+  origin: GenerationOrigin;     // Model and fallback step that produced the output
+  changes?: string;             // Edits: the model's summary of what it changed
+  persona?: string;             // Persona profile id the prompts were pitched to
+}
+
+// What a single fallback step produces; the chain adds the origin.
+type StepOutput = Omit<GeneratedDashboard, 'origin'>;
+
+/** Describes connected sources (id, columns, row count) so the model can bind panels to real fields. */
+const describeSourcesForSpec = (sources: DataSource[]): string => {
+  const lines = sources.flatMap(s => {
+    const table = parseSampleData(s.sampleData);
+    return table ? [`- id ${quoteUntrusted(s.id)} (${quoteUntrusted(s.name)}): columns [${table.columns.map(quoteUntrusted).join(', ')}], ${table.rows.length} rows`] : [];
+  });
+  return lines.length > 0 ? lines.join('\n') : "None (use illustrative values, no bindings).";
+};
+
+// --- Spec Normalization ---
+// The renderer calls string and number methods on every label and value, so model output is
+// coerced field by field: labels become strings, non-finite values and non-array rows are dropped.
+
+const SPEC_CHART_TYPES = ['line', 'area', 'bar', 'pie', 'donut'];
+const SPEC_TRENDS = ['up', 'down', 'flat'];
+
+const specText = (v: unknown): string => typeof v === 'string' ? v : typeof v === 'number' && Number.isFinite(v) ? String(v) : '';
+const optionalSpecText = (v: unknown): string | undefined => specText(v) || undefined;
+const specTexts = (v: unknown): string[] => Array.isArray(v) ? v.map(specText) : [];
+const specNumber = (v: unknown, fallback: number) => Number.isFinite(Number(v)) ? Number(v) : fallback;
+
+const normalizeChart = (chart: any) => ({
+  ...chart,
+  type: SPEC_CHART_TYPES.includes(chart?.type) ? chart.type : 'bar',
+  data: (Array.isArray(chart?.data) ? chart.data : [])
+    .filter((d: any) => d && (typeof d.value === 'number' || (typeof d.value === 'string' && d.value.trim() !== '')) && Number.isFinite(Number(d.value)))
+    .map((d: any) => ({ label: specText(d.label), value: Number(d.value) })),
+});
+
+const normalizeTable = (table: any) => ({
+  ...table,
+  columns: specTexts(table?.columns),
+  rows: (Array.isArray(table?.rows) ? table.rows : []).filter(Array.isArray).map(specTexts),
+});
+
+const normalizeKpi = (kpi: any) => ({
+  ...kpi,
+  value: specText(kpi?.value) || '—',
+  delta: optionalSpecText(kpi?.delta),
+  trend: SPEC_TRENDS.includes(kpi?.trend) ? kpi.trend : undefined,
+});
+
+// Drops malformed panels so a partially valid spec still renders.
+const normalizeSpec = (raw: any): DashboardSpec | null => {
+  if (!raw || !Array.isArray(raw.panels)) return null;
+  const seen = new Set<string>();
+  const panels = raw.panels
+    .filter((p: any) => p && ['KPI', 'CHART', 'TABLE'].includes(p.kind))
+    .map((p: any, i: number) => {
+      let id = specText(p.id) || `panel-${i}`;
+      if (seen.has(id)) id = `${id}-${i}`;
+      seen.add(id);
+      return {
+        ...p,
+        id,
+        title: specText(p.title),
+        col: specNumber(p.col, 0),
+        row: specNumber(p.row, 0),
+        colSpan: specNumber(p.colSpan, 1),
+        rowSpan: specNumber(p.rowSpan, 1),
+        kpi: p.kind === 'KPI' ? normalizeKpi(p.kpi) : undefined,
+        chart: p.kind === 'CHART' ? normalizeChart(p.chart) : undefined,
+        table: p.kind === 'TABLE' ? normalizeTable(p.table) : undefined,
+        citations: Array.isArray(p.citations) ? p.citations.map(Number).filter((n: number) => Number.isInteger(n) && n > 0) : undefined,
+      };
+    });
+  if (panels.length === 0) return null;
+  const navItems = Array.isArray(raw.nav?.items) ? raw.nav.items.map(specText).filter(Boolean) : [];
+  return {
+    header: { title: specText(raw.header?.title) || 'Dashboard', subtitle: optionalSpecText(raw.header?.subtitle) },
+    nav: navItems.length > 0 ? { items: navItems, active: Number.isInteger(raw.nav.active) ? raw.nav.active : undefined } : undefined,
+    grid: { columns: Number(raw.grid?.columns) || 4, rows: Number(raw.grid?.rows) || 3 },
+    panels,
+  };
+};
+
+/**
+ * Asks the model for a layout spec and renders it locally.
+ * Returns null when the model output is not a usable spec.
+ */
+async function generateSpecDashboard(prompts: PromptRegistry, model: string, prompt: string, style: VisualStyle, brand: BrandKit | undefined, aspectRatio: string, colorPalette: string, targetAudience: string | undefined, dataSources: DataSource[], onProgress?: ProgressHandler, signal?: AbortSignal, bypassCache = false, priority: AIPriority = 'NORMAL', locale?: string, persona = '', layout?: InlineImage): Promise<StepOutput | null> {
+  // Completed panels are rendered as they arrive; the header and grid fall back to defaults until then.
+  const previewSpec = (partial: string) => {
+    const spec = normalizeSpec(parsePartialJson(partial));
+    return spec ? renderSpecToDataUri(spec, style, brand, aspectRatio, colorPalette, dataSources, locale) : null;
+  };
+
+  const rendered = prompts.render('spec', {
+    requirements: prompt,
+    sources: describeSourcesForSpec(dataSources),
+    style: getStyleInstruction(prompts, style),
+    audience: targetAudience || '',
+    language: localeVariables(locale).language,
+    persona,
+    layout: layout ? 'attached' : ''
+  });
+
+  const ai = await resolveProvider();
+  const onPartial = streamProgress('LAYOUT', onProgress, previewSpec);
+  const response = await withCache(
+    { operation: 'GENERATE', model, prompt: rendered.prompt, system: rendered.system, schema: DASHBOARD_SPEC_SCHEMA, data: dataSources.map(d => d.sampleData || '').join('\n'), image: layout?.data },
+    bypassCache,
+    () => withRetry(attemptSignal => ai.generateJSON({
+      model,
+      prompt: rendered.prompt,
+      systemInstruction: rendered.system,
+      images: layout ? [layout] : undefined,
+      schema: DASHBOARD_SPEC_SCHEMA,
+      onPartial,
+      signal: attemptSignal
+    }), signal, { model, priority }),
+    text => isJson(text) && normalizeSpec(JSON.parse(text)) !== null
+  );
+
+  let spec: DashboardSpec | null = null;
   try {
-      return JSON.parse(text);
+    spec = normalizeSpec(JSON.parse(response.text));
   } catch (e) {
-      throw new AIError('API_ERROR', "Failed to parse analysis results. The model returned invalid JSON.", e);
+    console.warn("Dashboard spec was not valid JSON.", e);
   }
+  if (response.cached) onPartial?.(response.text);
+  else recordUsage('GENERATE', model, response.usage, spec ? 1 : 0);
+  if (!spec) return null;
+
+  const resolved = resolveSpecBindings(spec, dataSources, locale);
+  const svg = renderDashboardSpec(resolved, { style, brand, colorPalette, aspectRatio, citations: collectCitations(dataSources), locale });
+  return { data: toSvgDataUri(svg), spec: resolved, template: rendered.ref };
 }
 
 /**
- * Generates an SVG dashboard mockup using the Text Model for vector precision.
- * Falls back to Raster Image model if SVG generation fails.
+ * Re-renders a stored spec (e.g. after a layout edit) without calling the model.
  */
-export async function generateDashboardImage(prompt: string, style: VisualStyle, brand?: BrandKit, aspectRatio: string = "16:9", colorPalette: string = "Brand Default", targetAudience?: string): Promise<string> {
-  const aesthetic = getStyleInstruction(style);
-  const brandInstr = getBrandInstruction(brand);
-  const paletteInstr = colorPalette !== "Brand Default" ? `\nCOLOR PALETTE: Use a ${colorPalette} color palette.` : "";
-  const audienceInstr = targetAudience ? `\nTARGET AUDIENCE: Tailor all visuals, terminology, and complexity for ${targetAudience}.` : "";
-  
-  // 1. Attempt to generate SVG Code
-  // Enhanced prompt for interactivity and grounding
-  const svgPrompt = `
-    You are an expert Frontend Engineer and UI/UX Designer.
-    Generate a comprehensive, high-fidelity Single Page Application (SPA) dashboard mockup using scalable vector graphics (SVG).
-    
-    Context:
-    ${aesthetic}
-    ${brandInstr}
-    ${paletteInstr}
-    ${audienceInstr}
-    Content Requirements: ${prompt}
-    
-    CRITICAL TECHNICAL CONSTRAINTS:
-    1. Output MUST be valid, standalone SVG code.
-    2. ViewBox: "0 0 1440 900" (Desktop resolution).
-    3. INTERACTIVITY:
-       - Use CSS within <style> tags inside the SVG.
-       - Add ':hover' effects to buttons, sidebar links, and table rows (e.g., change opacity or fill).
-       - Add 'cursor: pointer' to all interactive elements.
-       - Create a "fake" navigation sidebar with at least 5 links (Dashboard, Analytics, Users, Settings, Reports) to mimic a real app.
-    4. DATA GROUNDING (CRITICAL):
-       - If "REAL DATA TO VISUALIZE" is provided in the prompt, you MUST use the exact numbers/labels from it.
-       - Do not use "Lorem Ipsum". Use realistic business terminology matching the context.
-    5. No markdown formatting. Return raw SVG code.
-  `;
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await withRetry(() => ai.models.generateContent({
-        model: TEXT_MODEL,
-        contents: svgPrompt,
-    }));
-
-    const text = response.text;
-    if (text) {
-        // Extract SVG if wrapped in markdown
-        const svgMatch = text.match(/<svg[\s\S]*?<\/svg>/);
-        if (svgMatch) {
-            const svgCode = svgMatch[0];
-            const base64Svg = encodeBase64(svgCode);
-            return `data:image/svg+xml;base64,${base64Svg}`;
-        }
+export function renderSpecToDataUri(spec: DashboardSpec, style: VisualStyle, brand?: BrandKit, aspectRatio: string = "16:9", colorPalette: string = "Brand Default", dataSources: DataSource[] = [], locale?: string): string {
+  const svg = renderDashboardSpec(resolveSpecBindings(spec, dataSources, locale), { style, brand, colorPalette, aspectRatio, citations: collectCitations(dataSources), locale });
+  return toSvgDataUri(svg);
+}
+
+/**
+ * Generates a dashboard mockup by walking the workspace fallback chain: by default a
+ * structured spec rendered locally (deterministic, numbers taken from `dataSources`), then
+ * free-form SVG, then raster. Each step has its own model and time budget; the result
+ * records which one produced it. Rate limits and cancellation end the chain immediately.
+ * `priority` orders the calls in the scheduler queue; background batches pass 'BATCH'.
+ * `locale` sets the language of all visible text and, for spec layouts, the number format
+ * and reading direction. `layout` is a sketch or wireframe sent with every step; the output
+ * keeps its panel positions and relative sizes.
+ */
+export async function generateDashboardImage(prompt: string, style: VisualStyle, brand?: BrandKit, aspectRatio: string = "16:9", colorPalette: string = "Brand Default", targetAudience?: string, dataSources: DataSource[] = [], onProgress?: ProgressHandler, signal?: AbortSignal, bypassCache = false, priority: AIPriority = 'NORMAL', locale?: string, layout?: LayoutReference): Promise<GeneratedDashboard> {
+  const prompts = await getPromptRegistry();
+  const settings = await getModelSettings();
+  const persona = await getActivePersona();
+  const personaInstr = getPersonaInstruction(prompts, persona);
+  const layoutImage = layout ? toInlineImage(layout.data) : undefined;
+
+  const runStep = (step: FallbackStepConfig, model: string, stepSignal: AbortSignal): Promise<StepOutput | null> => {
+    switch (step.step) {
+      case 'SPEC':
+        return generateSpecDashboard(prompts, model, prompt, style, brand, aspectRatio, colorPalette, targetAudience, dataSources, onProgress, stepSignal, bypassCache, priority, locale, personaInstr, layoutImage);
+      case 'SVG':
+        return generateFreeformDashboard(prompts, model, prompt, style, brand, colorPalette, targetAudience, onProgress, stepSignal, bypassCache, priority, locale, personaInstr, layoutImage);
+      case 'RASTER':
+        return generateRasterDashboard(prompts, model, prompt, style, brand, aspectRatio, colorPalette, targetAudience, onProgress, stepSignal, priority, locale, personaInstr, layoutImage);
     }
-  } catch (e: any) {
-    console.warn("SVG Generation failed, falling back to raster.", e);
-    if (e instanceof AIError && e.type === 'RATE_LIMIT') {
-        throw e; // Don't fallback on rate limit, bubble it up
+  };
+
+  let lastError: unknown;
+  for (const [stepIndex, step] of settings.fallbackChain.entries()) {
+    const model = stepModel(settings, step);
+    try {
+      const output = await withStepTimeout(step.timeoutMs, signal, stepSignal => runStep(step, model, stepSignal));
+      if (output) return { ...output, origin: { model, step: step.step, stepIndex }, persona: persona?.id };
+      lastError = new AIError('API_ERROR', `${FALLBACK_STEP_LABELS[step.step]} step returned no usable output.`);
+    } catch (e: any) {
+      if (e instanceof AIError && (e.type === 'RATE_LIMIT' || e.type === 'CANCELLED')) {
+          throw e; // Don't fall back on rate limit or cancellation, bubble it up
+      }
+      lastError = e;
     }
+    console.warn(`${FALLBACK_STEP_LABELS[step.step]} step (${model}) failed, trying the next step.`, lastError);
   }
+  if (lastError instanceof AIError) throw lastError;
+  throw new AIError('API_ERROR', "Dashboard generation failed at every fallback step.", lastError);
+}
+
+// --- Multi-Variant Generation ---
+export const MAX_VARIANTS = 6;
+const VARIANT_CONCURRENCY = 2; // Parallel slots; drops to one after a rate-limit response
 
-  // 2. Fallback to Raster Image Generation
-  return generateRasterDashboard(prompt, style, brand, aspectRatio, colorPalette, targetAudience);
+// Appended to the requirements so each variant explores a different layout (and gets its own cache key).
+const VARIANT_DIRECTIONS = [
+  'Follow the strategy as written.',
+  'Lead with a prominent KPI band across the top, with charts in a two-column grid below.',
+  'Use a sidebar navigation layout with denser panels and at least one detail table.',
+  'Centre the layout on one large primary chart supported by smaller sparkline panels.',
+  'Use an asymmetric grid that mixes large and small panels to create visual hierarchy.',
+  'Arrange panels as a top-to-bottom narrative, ordering charts from overview to detail.',
+];
+
+// A layout sketch fixes the arrangement, so variants of a sketched project vary the treatment instead.
+const SKETCH_VARIANT_DIRECTIONS = [
+  'Follow the sketch as drawn.',
+  'Keep the sketched layout; give the KPI values more visual weight.',
+  'Keep the sketched layout; use denser charts with more labelled data points.',
+  'Keep the sketched layout; use a lighter, more spacious treatment with minimal gridlines.',
+  'Keep the sketched layout; call out the most important change in each chart.',
+  'Keep the sketched layout; prefer compact tables where a panel is small.',
+];
+
+export interface DashboardVariant {
+  index: number;
+  direction: string;
+  result?: GeneratedDashboard;
+  error?: AIError;
 }
 
-// Fallback function for Raster generation
-async function generateRasterDashboard(prompt: string, style: VisualStyle, brand?: BrandKit, aspectRatio: string = "16:9", colorPalette: string = "Brand Default", targetAudience?: string): Promise<string> {
-    const aesthetic = getStyleInstruction(style);
-    const brandInstr = getBrandInstruction(brand);
-    const paletteInstr = colorPalette !== "Brand Default" ? ` Use a ${colorPalette} color palette.` : "";
-    const audienceInstr = targetAudience ? ` Tailor for audience: ${targetAudience}.` : "";
-    const fullPrompt = `Generate a high-fidelity UI mockup of a business dashboard. ${aesthetic} ${brandInstr}${paletteInstr}${audienceInstr} Content requirements: ${prompt} Ensure all text is legible (pseudo-text is okay for body). Show a sidebar navigation and a top header with user profile. Make it look like a real React/Web application.`;
-
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await withRetry(() => ai.models.generateContent({
-        model: IMAGE_MODEL,
-        contents: fullPrompt,
-        config: { 
-            imageConfig: {
-                aspectRatio: aspectRatio as any,
-                imageSize: "1K"
-            }
-        }
-    }));
+/**
+ * Generates `count` alternative dashboards for the same requirements. Variants run in a small
+ * worker pool; after a RATE_LIMIT response the failed variant is retried once and all further
+ * calls run one at a time.
+ * Individual failures are reported per variant; cancellation rejects the whole run.
+ */
+export async function generateDashboardVariants(count: number, prompt: string, style: VisualStyle, brand?: BrandKit, aspectRatio: string = "16:9", colorPalette: string = "Brand Default", targetAudience?: string, dataSources: DataSource[] = [], onProgress?: ProgressHandler, signal?: AbortSignal, bypassCache = false, locale?: string, layout?: LayoutReference): Promise<DashboardVariant[]> {
+  const total = Math.max(1, Math.min(MAX_VARIANTS, Math.floor(count)));
+  const directions = layout ? SKETCH_VARIANT_DIRECTIONS : VARIANT_DIRECTIONS;
+  const variants: DashboardVariant[] = Array.from({ length: total }, (_, index) => ({ index, direction: directions[index] }));
+  const queue = variants.map(v => v.index);
+  const bytes = new Array<number>(total).fill(0);
+  let done = 0;
 
-    if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData && part.inlineData.data) {
-                return `data:image/png;base64,${part.inlineData.data}`;
-            }
+  // Once the provider rate-limits us, further calls are chained so only one is in flight.
+  let throttled = false;
+  let chain: Promise<unknown> = Promise.resolve();
+  const serialised = <T>(call: () => Promise<T>): Promise<T> => {
+    const run = chain.then(call);
+    chain = run.catch(() => undefined);
+    return run;
+  };
+
+  // Per-variant previews would flicker between streams, so only stage, summed bytes and counts are reported.
+  const totalBytes = () => bytes.reduce((a, b) => a + b, 0);
+  const report = (index: number): ProgressHandler => p => {
+    bytes[index] = p.bytes;
+    onProgress?.({ stage: p.stage, bytes: totalBytes(), variants: { done, total } });
+  };
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      if (signal?.aborted) throw cancelledError();
+      const variant = variants[queue.shift()!];
+      const variantPrompt = `${prompt}\n\nVARIANT ${variant.index + 1} OF ${total}: ${variant.direction}`;
+      const generate = () => generateDashboardImage(variantPrompt, style, brand, aspectRatio, colorPalette, targetAudience, dataSources, report(variant.index), signal, bypassCache, 'BATCH', locale, layout);
+      try {
+        try {
+          variant.result = await (throttled ? serialised(generate) : generate());
+        } catch (e: any) {
+          if (!(e instanceof AIError && e.type === 'RATE_LIMIT') || throttled) throw e;
+          throttled = true;
+          variant.result = await serialised(generate);
         }
+      } catch (e: any) {
+        if (e instanceof AIError && e.type === 'CANCELLED') throw e;
+        variant.error = e instanceof AIError ? e : new AIError('UNKNOWN', e?.message || "Variant generation failed.", e);
+      }
+      done++;
+      onProgress?.({ stage: 'FINALIZING', bytes: totalBytes(), variants: { done, total } });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(VARIANT_CONCURRENCY, total) }, worker));
+  return variants;
+}
+
+/**
+ * Generates an SVG dashboard mockup as free-form markup from a text model.
+ * Returns null when the reply contains no SVG.
+ */
+async function generateFreeformDashboard(prompts: PromptRegistry, model: string, prompt: string, style: VisualStyle, brand?: BrandKit, colorPalette: string = "Brand Default", targetAudience?: string, onProgress?: ProgressHandler, signal?: AbortSignal, bypassCache = false, priority: AIPriority = 'NORMAL', locale?: string, persona = '', layout?: InlineImage): Promise<StepOutput | null> {
+  const rendered = prompts.render('svg', {
+    requirements: prompt,
+    style: getStyleInstruction(prompts, style),
+    brand: getBrandInstruction(prompts, brand),
+    palette: paletteVariable(colorPalette),
+    audience: targetAudience || '',
+    ...localeVariables(locale),
+    persona,
+    layout: layout ? 'attached' : ''
+  });
+
+  const ai = await resolveProvider();
+  const onPartial = streamProgress('DRAWING', onProgress, previewPartialSvg);
+  const response = await withCache(
+      { operation: 'GENERATE', model, prompt: rendered.prompt, image: layout?.data },
+      bypassCache,
+      () => withRetry(attemptSignal => ai.generateText({
+          model,
+          prompt: rendered.prompt,
+          images: layout ? [layout] : undefined,
+          onPartial,
+          signal: attemptSignal
+      }), signal, { model, priority }),
+      text => /<svg[\s\S]*?<\/svg>/.test(text)
+  );
+
+  // Extract SVG if wrapped in markdown
+  const svgMatch = response.text?.match(/<svg[\s\S]*?<\/svg>/);
+  if (response.cached) onPartial?.(response.text);
+  else recordUsage('GENERATE', model, response.usage, svgMatch ? 1 : 0);
+  return svgMatch ? { data: toSvgDataUri(svgMatch[0]), template: rendered.ref } : null;
+}
+
+// Raster generation from an image model
+async function generateRasterDashboard(prompts: PromptRegistry, model: string, prompt: string, style: VisualStyle, brand?: BrandKit, aspectRatio: string = "16:9", colorPalette: string = "Brand Default", targetAudience?: string, onProgress?: ProgressHandler, signal?: AbortSignal, priority: AIPriority = 'NORMAL', locale?: string, persona = '', layout?: InlineImage): Promise<StepOutput> {
+    onProgress?.({ stage: 'RASTER', bytes: 0 });
+    const { language, rtl } = localeVariables(locale);
+    const rendered = prompts.render('raster', {
+        requirements: prompt,
+        style: getStyleInstruction(prompts, style),
+        brand: getBrandInstruction(prompts, brand),
+        palette: paletteVariable(colorPalette),
+        audience: targetAudience || '',
+        language,
+        rtl,
+        persona,
+        layout: layout ? 'attached' : ''
+    });
+
+    const ai = await resolveProvider();
+    const result = await withRetry(attemptSignal => ai.generateImage({
+        model,
+        prompt: rendered.prompt,
+        image: layout,
+        aspectRatio,
+        signal: attemptSignal
+    }), signal, imageLane(model, priority));
+
+    recordUsage('GENERATE', model, result.usage, result.image ? 1 : 0);
+    if (result.image) {
+        return { data: toImageDataUri(result.image), template: rendered.ref };
     }
     throw new AIError('API_ERROR', "Dashboard generation failed: No image data returned.");
 }
 
-export async function editDashboardImage(imageBase64: string, instruction: string, brand?: BrandKit): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Edit replies open with a "CHANGES:" line; it is split off before the markup is extracted.
+const splitChanges = (text: string): { changes?: string; body: string } => {
+  const match = text.match(/^[ \t]*CHANGES:[ \t]*(.+)$/im);
+  return match ? { changes: match[1].trim(), body: text.replace(match[0], '') } : { body: text };
+};
 
-  // 1. Handle SVG Editing
+/**
+ * Edits a dashboard version from an instruction. `thread` carries the earlier turns of the
+ * project's edit conversation (see `formatThreadForPrompt`), so the instruction can refer to them.
+ */
+export async function editDashboardImage(imageBase64: string, instruction: string, brand?: BrandKit, onProgress?: ProgressHandler, signal?: AbortSignal, target?: SvgSelection, thread = ''): Promise<GeneratedDashboard> {
+  const ai = await resolveProvider();
+  const prompts = await getPromptRegistry();
+  const { models } = await getModelSettings();
+  const brandInstr = getBrandInstruction(prompts, brand);
+  const persona = await getActivePersona();
+  const personaInstr = getPersonaInstruction(prompts, persona);
+
+  // 1. Targeted edit of one element; the rest of the document is left untouched
+  if (target && imageBase64.startsWith('data:image/svg+xml')) {
+      try {
+          const edited = await editSvgFragment(ai, prompts, models.edit, decodeBase64(imageBase64.split(',')[1]), target, instruction, brandInstr, personaInstr, thread, onProgress, signal);
+          return { ...edited, persona: persona?.id };
+      } catch (e: any) {
+          console.warn("Element edit failed", e);
+          if (e instanceof AIError) throw e;
+          throw new AIError('API_ERROR', "Failed to edit the selected element.", e);
+      }
+  }
+
+  // 2. Handle SVG Editing
   if (imageBase64.startsWith('data:image/svg+xml')) {
       try {
           const base64Code = imageBase64.split(',')[1];
           const svgCode = decodeBase64(base64Code);
-          const brandInstr = getBrandInstruction(brand);
-
-          const fullPrompt = `
-            You are an expert SVG coder.
-            I will provide an existing SVG dashboard code. 
-            Update the SVG code based on the user's instruction: "${instruction}".
-            
-            Constraints:
-            - Maintain the original structure and style unless asked to change.
-            - Keep the interactivity (CSS hover states).
-            - Respect brand colors: ${brandInstr}
-            - Output ONLY the updated SVG code. No markdown.
-            
-            Original SVG:
-            ${svgCode}
-          `;
-
-          const response = await withRetry(() => ai.models.generateContent({
-              model: TEXT_MODEL,
-              contents: fullPrompt,
-          }));
-
-          const text = response.text;
-          if (text) {
-              const svgMatch = text.match(/<svg[\s\S]*?<\/svg>/);
-              if (svgMatch) {
-                  const newSvgCode = svgMatch[0];
-                  const newBase64 = encodeBase64(newSvgCode);
-                  return `data:image/svg+xml;base64,${newBase64}`;
-              }
+          const rendered = prompts.render('edit-svg', { instruction, brand: brandInstr, svg: svgCode, thread, persona: personaInstr });
+
+          const response = await withRetry(attemptSignal => ai.generateText({
+              model: models.edit,
+              prompt: rendered.prompt,
+              onPartial: streamProgress('EDITING', onProgress, previewPartialSvg),
+              signal: attemptSignal
+          }), signal, { model: models.edit, priority: 'INTERACTIVE' });
+
+          const { changes, body } = splitChanges(response.text || '');
+          const svgMatch = body.match(/<svg[\s\S]*?<\/svg>/);
+          recordUsage('EDIT', models.edit, response.usage, svgMatch ? 1 : 0);
+          if (svgMatch) {
+              return { data: toSvgDataUri(svgMatch[0]), template: rendered.ref, origin: { model: models.edit, step: 'EDIT' }, changes, persona: persona?.id };
           }
       } catch (e: any) {
           console.warn("SVG Edit failed", e);
-          if (e instanceof AIError && e.type === 'RATE_LIMIT') {
+          if (e instanceof AIError && (e.type === 'RATE_LIMIT' || e.type === 'INVALID_SVG' || e.type === 'CANCELLED')) {
               throw e;
           }
           throw new AIError('API_ERROR', "Failed to edit SVG dashboard.", e);
       }
   }
 
-  // 2. Handle Raster Editing (Legacy / Fallback)
+  // 3. Handle Raster Editing (Legacy / Fallback)
+  onProgress?.({ stage: 'RASTER', bytes: 0 });
   const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
-  const brandInstr = getBrandInstruction(brand);
+  const rendered = prompts.render('edit-raster', { instruction, brand: brandInstr, thread, persona: personaInstr });
+
+  const result = await withRetry(attemptSignal => ai.generateImage({
+    model: models.raster,
+    prompt: rendered.prompt,
+    image: { mimeType: 'image/jpeg', data: cleanBase64 },
+    aspectRatio: "16:9",
+    signal: attemptSignal
+  }), signal, imageLane(models.raster, 'INTERACTIVE'));
   
-  const response = await withRetry(() => ai.models.generateContent({
-    model: IMAGE_MODEL,
-    contents: {
-      parts: [
-         { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-         { text: `Edit this UI mockup: ${instruction}. Keep the same visual style and respect these brand rules: ${brandInstr}` }
-      ]
-    },
-    config: {
-        imageConfig: {
-            aspectRatio: "16:9",
-            imageSize: "1K"
-        }
+  recordUsage('EDIT', models.raster, result.usage, result.image ? 1 : 0);
+  if (result.image) {
+      return { data: toImageDataUri(result.image), template: rendered.ref, origin: { model: models.raster, step: 'EDIT' }, persona: persona?.id };
+  }
+  throw new AIError('API_ERROR', "Edit failed: No image data returned.");
+}
+
+/**
+ * Sends only the selected subtree plus document context to the model, then splices the
+ * sanitized reply into the original markup. The document is not re-serialized unless the
+ * combined result needed sanitizing, so every untouched node stays byte-identical.
+ */
+async function editSvgFragment(ai: AIProvider, prompts: PromptRegistry, model: string, svgCode: string, target: SvgSelection, instruction: string, brandInstr: string, personaInstr: string, thread: string, onProgress?: ProgressHandler, signal?: AbortSignal): Promise<GeneratedDashboard> {
+  const located = locateElement(svgCode, target.path, target.tag);
+  if (!located) {
+      throw new AIError('INVALID_PROMPT', "The selected element no longer exists in this version. Select it again.");
+  }
+
+  const rendered = prompts.render('edit-fragment', {
+      instruction,
+      brand: brandInstr,
+      context: describeFragmentContext(svgCode, located),
+      fragment: svgCode.slice(located.start, located.end),
+      thread,
+      persona: personaInstr
+  });
+
+  const response = await withRetry(attemptSignal => ai.generateText({
+      model,
+      prompt: rendered.prompt,
+      onPartial: streamProgress('EDITING', onProgress),
+      signal: attemptSignal
+  }), signal, { model, priority: 'INTERACTIVE' });
+
+  const { changes, body } = splitChanges(response.text || '');
+  const fragment = body ? extractFragment(body) : null;
+  recordUsage('EDIT', model, response.usage, fragment ? 1 : 0);
+  if (!fragment) throw new AIError('API_ERROR', "Edit failed: no replacement element returned.");
+
+  const { markup, errors } = sanitizeFragment(svgCode, fragment);
+  if (!markup) throw new AIError('INVALID_SVG', `The edited element failed validation: ${errors.join(' ')}`);
+
+  const spliced = spliceElement(svgCode, located, markup);
+  const origin: GenerationOrigin = { model, step: 'EDIT' };
+  const check = sanitizeSvg(spliced);
+  if (!check.svg || check.removed.length > 0) return { data: toSvgDataUri(spliced), template: rendered.ref, origin, changes };
+  return { data: `data:image/svg+xml;base64,${encodeBase64(spliced)}`, template: rendered.ref, origin, changes };
+}
+
+// --- Translation ---
+
+const TRANSLATION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    translations: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'integer' },
+          text: { type: 'string' }
+        },
+        required: ['id', 'text']
+      }
     }
-  }));
-  
-  if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-              return `data:image/png;base64,${part.inlineData.data}`;
-          }
+  },
+  required: ['translations']
+};
+
+/**
+ * Translates an SVG version into `locale` by rewriting its text nodes only (see `lib/locale.ts`).
+ * Raster versions have no text nodes and are rejected.
+ */
+export async function translateDashboardImage(imageData: string, locale: string, onProgress?: ProgressHandler, signal?: AbortSignal): Promise<GeneratedDashboard> {
+  if (!imageData.startsWith('data:image/svg+xml')) {
+    throw new AIError('INVALID_PROMPT', "Only SVG versions can be translated. Regenerate this dashboard in the target language instead.");
+  }
+  const svgCode = decodeBase64(imageData.split(',')[1]);
+  const segments = extractTextSegments(svgCode);
+  if (!segments) throw new AIError('INVALID_SVG', "This version's SVG could not be read.");
+  if (segments.length === 0) throw new AIError('INVALID_PROMPT', "This version has no text to translate.");
+
+  const ai = await resolveProvider();
+  const prompts = await getPromptRegistry();
+  const model = (await getModelSettings()).models.edit;
+  const rendered = prompts.render('translate', {
+    language: describeLocale(locale),
+    formats: localeFormatExample(locale),
+    segments: JSON.stringify(segments)
+  });
+
+  const response = await withRetry(attemptSignal => ai.generateJSON({
+    model,
+    prompt: rendered.prompt,
+    systemInstruction: rendered.system,
+    schema: TRANSLATION_SCHEMA,
+    onPartial: streamProgress('EDITING', onProgress),
+    signal: attemptSignal
+  }), signal, { model, priority: 'INTERACTIVE' });
+
+  const translations = new Map<number, string>();
+  try {
+    const parsed = JSON.parse(response.text);
+    for (const t of Array.isArray(parsed?.translations) ? parsed.translations : []) {
+      if (Number.isInteger(t?.id) && typeof t.text === 'string') translations.set(t.id, t.text);
+    }
+  } catch (e) {
+    console.warn("Translation response was not valid JSON.", e);
+  }
+  recordUsage('TRANSLATE', model, response.usage, translations.size > 0 ? 1 : 0);
+  if (translations.size === 0) throw new AIError('API_ERROR', "Translation failed: no translated text was returned.");
+
+  const translated = applyTextTranslations(svgCode, translations, locale);
+  if (!translated) throw new AIError('INVALID_SVG', "This version's SVG could not be read.");
+  return {
+    data: toSvgDataUri(translated),
+    template: rendered.ref,
+    origin: { model, step: 'EDIT' },
+    changes: `Translated ${translations.size} of ${segments.length} text segments into ${describeLocale(locale)}.`
+  };
+}
+
+// --- Narrative ---
+
+const NARRATIVE_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: "Executive summary, two to four sentences" },
+    speakerNotes: { type: 'string', description: "Presenter notes, paragraphs separated by blank lines" },
+    insights: { type: 'array', items: { type: 'string' }, description: "Three to five \"so what\" insights" }
+  },
+  required: ['summary', 'speakerNotes', 'insights']
+};
+
+/**
+ * Writes the executive summary, speaker notes and insights for a version, from what it shows,
+ * the analysis it was rendered from and the grounded data. Depth follows `level`; tone and
+ * emphasis follow the active persona. The narrative is written in the version's language.
+ * Like generation, it refuses flagged sources the user has not confirmed; the version's text
+ * and figures come from that data, so they are delimited as untrusted too.
+ */
+export async function generateNarrative(image: GeneratedImage, dataSources: DataSource[], level: ComplexityLevel, signal?: AbortSignal): Promise<Narrative> {
+  if (dataSources.some(needsConfirmation)) {
+    throw new AIError('INVALID_PROMPT', "Some data sources contain instruction-like content. Review them before writing a narrative.");
+  }
+  const ai = await resolveProvider();
+  const prompts = await getPromptRegistry();
+  const model = (await getModelSettings()).models.analysis;
+  const persona = await getActivePersona();
+  const rendered = prompts.render('narrative', {
+    level: getLevelInstruction(prompts, level),
+    persona: getPersonaInstruction(prompts, persona),
+    audience: image.targetAudience || '',
+    language: localeVariables(image.locale).language,
+    dashboard: wrapUntrusted('Dashboard content', describeVersionForNarrative(image)),
+    strategy: image.analysis ? formatAnalysisForPrompt(image.analysis, dataSources).trim() : '',
+    data: buildDataContext(dataSources) || `${UNTRUSTED_DATA_NOTICE}\n\nNo data sources connected.`,
+    citations: formatCitations(image.citations || []).join('\n')
+  });
+
+  const response = await withRetry(attemptSignal => ai.generateJSON({
+    model,
+    prompt: rendered.prompt,
+    systemInstruction: rendered.system,
+    schema: NARRATIVE_SCHEMA,
+    signal: attemptSignal
+  }), signal, { model, priority: 'INTERACTIVE' });
+  recordUsage('NARRATIVE', model, response.usage);
+
+  let narrative: ReturnType<typeof normalizeNarrative> = null;
+  try {
+    narrative = normalizeNarrative(JSON.parse(response.text), { level, persona: persona?.label });
+  } catch (e) {
+    throw new AIError('API_ERROR', "Failed to parse the narrative. The model returned invalid JSON.", e);
+  }
+  if (!narrative) throw new AIError('API_ERROR', "Narrative generation failed: no summary was returned.");
+  return { ...narrative, model, template: rendered.ref };
+}
+
+// --- Objective Suggestions ---
+
+const SUGGESTION_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          text: { type: 'string' },
+          visual: { type: 'string', enum: ['line', 'area', 'bar', 'pie', 'donut', 'table', 'kpi'] },
+          fields: { type: 'array', items: { type: 'string' } },
+          why: { type: 'string' }
+        },
+        required: ['text', 'visual', 'fields', 'why']
       }
+    }
+  },
+  required: ['suggestions']
+};
+
+/**
+ * Asks the model for objectives beyond the local ones in `existing` (see `lib/suggestions.ts`).
+ * Suggestions naming no connected column are dropped. Column names and sample values are
+ * untrusted: flagged sources the user has not confirmed are left out, the rest is delimited.
+ */
+export async function suggestDashboardObjectives(dataSources: DataSource[], existing: ObjectiveSuggestion[], targetAudience?: string, signal?: AbortSignal): Promise<ObjectiveSuggestion[]> {
+  const fields = profileFields(dataSources.map(inspectDataSource).filter(s => !needsConfirmation(s)));
+  if (fields.length === 0) return [];
+  const known = new Set(fields.map(f => f.name));
+  const ai = await resolveProvider();
+  const prompts = await getPromptRegistry();
+  const model = (await getModelSettings()).models.analysis;
+  const rendered = prompts.render('suggest', {
+    fields: `${UNTRUSTED_DATA_NOTICE}\n\n${wrapUntrusted('Connected columns', fields.map(f => `- ${describeField(f)}`).join('\n'))}`,
+    existing: wrapUntrusted('Suggested objectives', existing.filter(s => s.fields.every(f => known.has(f))).map(s => `- ${s.text}`).join('\n') || 'None'),
+    audience: targetAudience || '',
+    persona: getPersonaInstruction(prompts, await getActivePersona())
+  });
+
+  const response = await withRetry(attemptSignal => ai.generateJSON({
+    model,
+    prompt: rendered.prompt,
+    systemInstruction: rendered.system,
+    schema: SUGGESTION_SCHEMA,
+    signal: attemptSignal
+  }), signal, { model, priority: 'INTERACTIVE' });
+  recordUsage('SUGGEST', model, response.usage);
+
+  try {
+    return normalizeModelSuggestions(JSON.parse(response.text), fields);
+  } catch (e) {
+    throw new AIError('API_ERROR', "Failed to parse objective suggestions. The model returned invalid JSON.", e);
   }
-  throw new AIError('API_ERROR', "Edit failed: No image data returned.");
 }
 
-export async function researchTopic(topic: string, audience: string): Promise<{ summary: string, sources: any[] }> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await withRetry(() => ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: `Research the following topic: "${topic}". Provide a comprehensive summary tailored for this audience: "${audience}". Include key statistics, trends, and actionable insights.`,
-    config: {
-      tools: [{ googleSearch: {} }],
+// --- Screenshot Import ---
+
+const SCREENSHOT_SCHEMA: JSONSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string' },
+    objective: { type: 'string' },
+    regions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          kind: { type: 'string', enum: REGION_KINDS },
+          label: { type: 'string' },
+          chartType: { type: 'string', enum: ['line', 'area', 'bar', 'pie', 'donut', 'table'] },
+          value: { type: 'string' },
+          x: { type: 'number' },
+          y: { type: 'number' },
+          w: { type: 'number' },
+          h: { type: 'number' }
+        },
+        required: ['kind', 'label', 'x', 'y', 'w', 'h']
+      }
     },
-  }));
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          columns: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                name: { type: 'string' },
+                kind: { type: 'string', enum: ['NUMBER', 'DATE', 'CATEGORY', 'TEXT'] }
+              },
+              required: ['name', 'kind']
+            }
+          },
+          rows: { type: 'array', items: { type: 'array', items: { type: 'string' } } }
+        },
+        required: ['name', 'columns', 'rows']
+      }
+    }
+  },
+  required: ['title', 'objective', 'regions', 'sources']
+};
+
+/**
+ * Reads the layout regions, KPI labels, chart types and underlying columns of a legacy
+ * dashboard screenshot with the (multimodal) analysis model. See `lib/screenshot.ts`.
+ */
+export async function extractScreenshotLayout(image: InlineImage, notes = '', signal?: AbortSignal): Promise<ScreenshotLayout> {
+  const ai = await resolveProvider();
+  const prompts = await getPromptRegistry();
+  const model = (await getModelSettings()).models.analysis;
+  const rendered = prompts.render('screenshot', { notes });
+
+  const response = await withRetry(attemptSignal => ai.generateJSON({
+    model,
+    prompt: rendered.prompt,
+    systemInstruction: rendered.system,
+    images: [image],
+    schema: SCREENSHOT_SCHEMA,
+    signal: attemptSignal
+  }), signal, { model, priority: 'INTERACTIVE' });
+  recordUsage('SCREENSHOT_IMPORT', model, response.usage);
+
+  let layout: ScreenshotLayout | null;
+  try {
+    layout = normalizeScreenshotLayout(JSON.parse(response.text));
+  } catch (e) {
+    throw new AIError('API_ERROR', "Failed to read the screenshot. The model returned invalid JSON.", e);
+  }
+  if (!layout) throw new AIError('INVALID_PROMPT', "No dashboard panels were recognised in the screenshot.");
+  return layout;
+}
+
+/**
+ * Researches a topic with search grounding. The summary carries [n] markers after each
+ * grounded passage, matching the numbered `sources`.
+ */
+export async function researchTopic(topic: string, audience: string, signal?: AbortSignal): Promise<{ summary: string, sources: SearchResultItem[] }> {
+  const ai = await resolveProvider();
+  const prompts = await getPromptRegistry();
+  const model = (await getModelSettings()).models.research;
+  const persona = getPersonaInstruction(prompts, await getActivePersona());
+  const response = await withRetry(attemptSignal => ai.searchGrounded({
+    model,
+    prompt: prompts.render('research', { topic, audience, persona }).prompt,
+    signal: attemptSignal
+  }), signal, { model });
+
+  recordUsage('RESEARCH', model, response.usage);
 
   const text = response.text || "No summary available.";
-  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  
-  return { summary: text, sources: chunks };
-}
\ No newline at end of file
+  const { summary, items } = buildCitations(text, response.sources, response.supports || []);
+  return { summary, sources: items };
+}
@@ -3,6 +3,26 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+// Uploaded images (dashboard screenshots, layout sketches) sent to multimodal models
+export const IMAGE_UPLOAD_TYPES = ['image/png', 'image/jpeg'];
+export const MAX_IMAGE_UPLOAD_BYTES = 8 * 1024 * 1024;
+
+/** Null when the file can be uploaded, otherwise the reason it cannot. */
+export function checkImageUpload(file: File): string | null {
+  if (!IMAGE_UPLOAD_TYPES.includes(file.type)) return "Choose a PNG or JPEG image.";
+  if (file.size > MAX_IMAGE_UPLOAD_BYTES) return `The image is larger than ${MAX_IMAGE_UPLOAD_BYTES / 1024 / 1024} MB.`;
+  return null;
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
 /**
  * Generates a small thumbnail from a base64 image string (SVG or Raster).
  */
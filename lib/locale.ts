@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/locale.ts
+ * Target languages for generated dashboards and text-only translation of SVG versions.
+ *
+ * Translation never regenerates a dashboard: the text nodes of the SVG are sent to the
+ * model as numbered segments and the replies are written back in place, so shapes, colors
+ * and positions are unchanged. Switching between left-to-right and right-to-left scripts
+ * sets `direction` on the root and flips each label's anchor so it keeps its box.
+ */
+
+import { LocaleOption } from '../types';
+
+export const DEFAULT_LOCALE = 'en-US';
+
+export const SUPPORTED_LOCALES: LocaleOption[] = [
+  { code: 'en-US', language: 'English', nativeName: 'English', direction: 'ltr' },
+  { code: 'de-DE', language: 'German', nativeName: 'Deutsch', direction: 'ltr' },
+  { code: 'fr-FR', language: 'French', nativeName: 'Français', direction: 'ltr' },
+  { code: 'es-ES', language: 'Spanish', nativeName: 'Español', direction: 'ltr' },
+  { code: 'pt-BR', language: 'Portuguese (Brazil)', nativeName: 'Português', direction: 'ltr' },
+  { code: 'ja-JP', language: 'Japanese', nativeName: '日本語', direction: 'ltr' },
+  { code: 'zh-CN', language: 'Chinese (Simplified)', nativeName: '简体中文', direction: 'ltr' },
+  { code: 'ar-SA', language: 'Arabic', nativeName: 'العربية', direction: 'rtl' },
+  { code: 'he-IL', language: 'Hebrew', nativeName: 'עברית', direction: 'rtl' },
+];
+
+export const getLocaleOption = (code?: string): LocaleOption =>
+  SUPPORTED_LOCALES.find(l => l.code === code) || SUPPORTED_LOCALES[0];
+
+export const isRtlLocale = (code?: string) => getLocaleOption(code).direction === 'rtl';
+
+/** Prompt wording for a locale, e.g. "German (de-DE)". */
+export const describeLocale = (code?: string) => {
+  const option = getLocaleOption(code);
+  return `${option.language} (${option.code})`;
+};
+
+/** A sample number and date in the locale's own format, so the model can follow it. */
+export const localeFormatExample = (code?: string): string => {
+  const { code: tag } = getLocaleOption(code);
+  const number = new Intl.NumberFormat(tag, { maximumFractionDigits: 2 }).format(1234567.89);
+  const date = new Intl.DateTimeFormat(tag, { dateStyle: 'medium' }).format(new Date(2025, 2, 31));
+  return `${number} and ${date}`;
+};
+
+// --- Text Segments ---
+
+export interface TextSegment {
+  id: number;
+  text: string;
+}
+
+const TEXT_ELEMENTS = new Set(['text', 'tspan', 'textPath', 'title', 'desc']);
+const FLIPPED_ANCHOR: Record<string, string> = { start: 'end', end: 'start' };
+
+const parseSvg = (svg: string): Document | null => {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  return doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'svg' ? null : doc;
+};
+
+// Non-blank text nodes in document order. Footnote markers are numbers that must not change.
+const textNodes = (root: Element): Text[] => {
+  const nodes: Text[] = [];
+  const walk = (el: Element) => {
+    if (el.getAttribute('data-role') === 'footnote') return;
+    for (const child of Array.from(el.childNodes)) {
+      if (child.nodeType === 1) walk(child as Element);
+      else if (child.nodeType === 3 && TEXT_ELEMENTS.has(el.localName) && child.textContent?.trim()) nodes.push(child as Text);
+    }
+  };
+  walk(root);
+  return nodes;
+};
+
+/** The text of an SVG document as numbered segments; null when the markup cannot be parsed. */
+export function extractTextSegments(svg: string): TextSegment[] | null {
+  const doc = parseSvg(svg);
+  return doc ? textNodes(doc.documentElement).map((node, id) => ({ id, text: node.data.trim() })) : null;
+}
+
+const isRtlDocument = (root: Element) =>
+  root.getAttribute('direction') === 'rtl' || /direction\s*:\s*rtl/i.test(root.getAttribute('style') || '');
+
+// Effective text-anchor, including one inherited from an ancestor group.
+const anchorOf = (el: Element): string => {
+  for (let e: Element | null = el; e; e = e.parentElement) {
+    const value = e.getAttribute('style')?.match(/text-anchor\s*:\s*(start|middle|end)/i)?.[1] || e.getAttribute('text-anchor');
+    if (value) return value.toLowerCase();
+  }
+  return 'start';
+};
+
+// "start" is the left edge in LTR and the right edge in RTL, so swapping start/end keeps every label where it was.
+function switchDirection(root: Element, rtl: boolean) {
+  if (rtl) root.setAttribute('direction', 'rtl');
+  else root.removeAttribute('direction');
+  const style = root.getAttribute('style');
+  if (style && /direction\s*:/i.test(style)) root.setAttribute('style', style.replace(/direction\s*:\s*[a-z]+\s*;?/gi, ''));
+
+  const labels = Array.from(root.getElementsByTagName('text'))
+    .concat(Array.from(root.getElementsByTagName('tspan')).filter(t => t.hasAttribute('text-anchor') || /text-anchor/i.test(t.getAttribute('style') || '')));
+  const flipped = labels.map(el => [el, FLIPPED_ANCHOR[anchorOf(el)]] as const);
+  for (const [el, anchor] of flipped) {
+    if (!anchor) continue;
+    const inline = el.getAttribute('style');
+    if (inline && /text-anchor/i.test(inline)) el.setAttribute('style', inline.replace(/text-anchor\s*:\s*[a-z]+/gi, `text-anchor:${anchor}`));
+    else el.setAttribute('text-anchor', anchor);
+  }
+}
+
+/**
+ * Writes translated segments back into the document (segments without a translation keep
+ * their text) and tags the root with the locale. Returns null when the markup cannot be parsed.
+ */
+export function applyTextTranslations(svg: string, translations: Map<number, string>, locale: string): string | null {
+  const doc = parseSvg(svg);
+  if (!doc) return null;
+  const root = doc.documentElement;
+  textNodes(root).forEach((node, id) => {
+    const translated = translations.get(id)?.trim();
+    if (!translated) return;
+    const [, lead, , trail] = node.data.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    node.data = `${lead}${translated}${trail}`;
+  });
+
+  const rtl = isRtlLocale(locale);
+  if (rtl !== isRtlDocument(root)) switchDirection(root, rtl);
+  root.setAttribute('lang', locale);
+  return new XMLSerializer().serializeToString(root);
+}
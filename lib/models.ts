@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/models.ts
+ * Per-workspace model selection.
+ *
+ * Each role (analysis, vector generation, raster generation, editing, research) has its own
+ * model. Dashboard generation walks an ordered fallback chain of steps (layout spec, free-form
+ * SVG, raster), each with its own time budget and optionally its own model.
+ */
+
+import { FallbackStep, FallbackStepConfig, GenerationOrigin, ModelRole, ModelSettings } from '../types';
+import { db } from './db';
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+  models: {
+    analysis: 'gemini-3.1-pro-preview',
+    vector: 'gemini-3.1-pro-preview',
+    raster: 'gemini-3.1-flash-image-preview',
+    edit: 'gemini-3.1-pro-preview',
+    research: 'gemini-3-pro-preview',
+  },
+  fallbackChain: [
+    { step: 'SPEC', timeoutMs: 90000 },
+    { step: 'SVG', timeoutMs: 120000 },
+    { step: 'RASTER', timeoutMs: 90000 },
+  ],
+};
+
+export const MODEL_ROLE_LABELS: Record<ModelRole, string> = {
+  analysis: 'Analysis',
+  vector: 'Vector Generation',
+  raster: 'Raster Generation',
+  edit: 'Editing',
+  research: 'Research',
+};
+
+export const FALLBACK_STEP_LABELS: Record<FallbackStep, string> = {
+  SPEC: 'Layout spec',
+  SVG: 'Free-form SVG',
+  RASTER: 'Raster image',
+};
+
+/** Suggestions for the model pickers; any model id the provider accepts can be typed in. */
+export const KNOWN_MODELS = ['gemini-3.1-pro-preview', 'gemini-3-pro-preview', 'gemini-3.1-flash-image-preview'];
+
+/** Resolves the current workspace's settings, filling gaps with defaults. */
+export async function getModelSettings(): Promise<ModelSettings> {
+  try {
+    const saved = (await db.getWorkspace())?.modelSettings;
+    const chosen = Object.entries(saved?.models || {}).filter(([, model]) => model); // Cleared fields fall back
+    return {
+      models: { ...DEFAULT_MODEL_SETTINGS.models, ...Object.fromEntries(chosen) },
+      fallbackChain: saved?.fallbackChain?.length ? saved.fallbackChain : DEFAULT_MODEL_SETTINGS.fallbackChain,
+    };
+  } catch (e) {
+    console.warn("Could not read workspace model settings, using defaults.", e);
+    return DEFAULT_MODEL_SETTINGS;
+  }
+}
+
+/** The model a fallback step runs on: its own override, else the role model for its output type. */
+export const stepModel = (settings: ModelSettings, step: FallbackStepConfig): string =>
+  step.model || (step.step === 'RASTER' ? settings.models.raster : settings.models.vector);
+
+/** Short description for version tooltips, e.g. "Free-form SVG (fallback step 2) • gemini-3.1-pro-preview". */
+export const formatOrigin = (origin: GenerationOrigin): string => {
+  const step = origin.step === 'EDIT' ? 'Edit' : FALLBACK_STEP_LABELS[origin.step];
+  const fallback = origin.stepIndex ? ` (fallback step ${origin.stepIndex + 1})` : '';
+  return `${step}${fallback} • ${origin.model}`;
+};
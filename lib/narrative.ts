@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/narrative.ts
+ * Written commentary for dashboard versions: what the model is told about a version, how
+ * its reply is normalized, and how the narrative is laid out in exports.
+ *
+ * The narrative is generated from what the version actually shows (its spec values, or the
+ * visible text of its SVG), so the commentary matches the figures on the slide.
+ */
+
+import { ComplexityLevel, DashboardSpec, GeneratedImage, Narrative } from '../types';
+import { decodeSvgDataUri } from './svg';
+import { extractTextSegments } from './locale';
+import { escapeXml } from './renderer';
+
+export const MIN_INSIGHTS = 3;
+export const MAX_INSIGHTS = 5;
+
+const MAX_CHART_POINTS = 24;
+const MAX_TABLE_ROWS = 5;
+const MAX_TEXT_SEGMENTS = 400;
+
+const describeSpec = (spec: DashboardSpec): string => {
+  const lines = [`Title: ${spec.header.title}${spec.header.subtitle ? ` — ${spec.header.subtitle}` : ''}`];
+  for (const p of spec.panels) {
+    if (p.kind === 'KPI' && p.kpi) {
+      lines.push(`KPI "${p.title}": ${p.kpi.value}${p.kpi.delta ? ` (${p.kpi.delta}${p.kpi.trend ? `, ${p.kpi.trend}` : ''})` : ''}`);
+    } else if (p.kind === 'CHART' && p.chart) {
+      const points = p.chart.data.slice(0, MAX_CHART_POINTS).map(d => `${d.label}=${d.value}`).join(', ');
+      lines.push(`${p.chart.type} chart "${p.title}": ${points}${p.chart.data.length > MAX_CHART_POINTS ? ', …' : ''}`);
+    } else if (p.kind === 'TABLE' && p.table) {
+      const rows = p.table.rows.slice(0, MAX_TABLE_ROWS).map(r => r.join(' | '));
+      lines.push(`Table "${p.title}" (${p.table.columns.join(' | ')}; ${p.table.rows.length} rows): ${rows.join(' / ')}`);
+    }
+  }
+  return lines.join('\n');
+};
+
+/**
+ * What a version shows, as prompt text: the spec's values when it has one, otherwise the
+ * visible text of the SVG in document order. Raster versions fall back to their request.
+ */
+export function describeVersionForNarrative(image: GeneratedImage): string {
+  if (image.spec) return describeSpec(image.spec);
+  const svg = decodeSvgDataUri(image.data);
+  const segments = svg ? extractTextSegments(svg) : null;
+  if (segments && segments.length > 0) {
+    return `Visible text, top to bottom:\n${segments.slice(0, MAX_TEXT_SEGMENTS).map(s => s.text).join('\n')}`;
+  }
+  return `Raster image; its figures cannot be read. It was generated for: ${image.prompt}`;
+}
+
+/** Trims the model's reply into a narrative; null when it has no summary. Insights are capped at MAX_INSIGHTS. */
+export function normalizeNarrative(raw: any, meta: { level: ComplexityLevel; persona?: string }): Omit<Narrative, 'model' | 'template'> | null {
+  const summary = typeof raw?.summary === 'string' ? raw.summary.trim() : '';
+  if (!summary) return null;
+  const insights = Array.isArray(raw.insights)
+    ? raw.insights.filter((i: unknown): i is string => typeof i === 'string').map((i: string) => i.trim().replace(/^[-•*]\s*/, '')).filter(Boolean).slice(0, MAX_INSIGHTS)
+    : [];
+  return {
+    summary,
+    speakerNotes: typeof raw.speakerNotes === 'string' ? raw.speakerNotes.trim() : '',
+    insights,
+    generatedAt: Date.now(),
+    level: meta.level,
+    persona: meta.persona || undefined,
+  };
+}
+
+// --- Export Layout ---
+
+export interface NarrativeLine {
+  text: string;
+  kind: 'heading' | 'body';
+  gapBefore?: boolean; // First line of a paragraph or bullet
+}
+
+export const narrativeSections = (narrative: Narrative): { title: string; paragraphs: string[]; bullets?: boolean }[] => [
+  { title: 'Executive Summary', paragraphs: [narrative.summary] },
+  { title: 'Key Insights', paragraphs: narrative.insights, bullets: true },
+  { title: 'Speaker Notes', paragraphs: narrative.speakerNotes.split(/\n\s*\n/) },
+].filter(s => s.paragraphs.some(p => p.trim()));
+
+// Greedy word wrap; `fits` decides whether a candidate line is narrow enough.
+const wrap = (text: string, fits: (line: string) => boolean, indent = ''): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && !fits(`${indent}${candidate}`)) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines.map((l, i) => i === 0 ? l : `${indent}${l}`);
+};
+
+/** The narrative as wrapped appendix lines; used by the canvas, SVG and print exports alike. */
+export function layoutNarrative(narrative: Narrative, fits: (line: string) => boolean): NarrativeLine[] {
+  const out: NarrativeLine[] = [];
+  for (const section of narrativeSections(narrative)) {
+    out.push({ text: section.title, kind: 'heading', gapBefore: out.length > 0 });
+    for (const paragraph of section.paragraphs.filter(p => p.trim())) {
+      const lines = section.bullets ? wrap(`•  ${paragraph}`, fits, '    ') : wrap(paragraph, fits);
+      lines.forEach((text, i) => out.push({ text, kind: 'body', gapBefore: i === 0 }));
+    }
+  }
+  return out;
+}
+
+/** Vertical space for a laid-out narrative at a body font size, excluding outer padding. */
+export const narrativeHeight = (lines: NarrativeLine[], fontSize: number): number =>
+  lines.reduce((h, l) => h + fontSize * (l.kind === 'heading' ? 1.9 : 1.5) + (l.gapBefore ? fontSize * (l.kind === 'heading' ? 1.2 : 0.5) : 0), 0);
+
+/**
+ * Extends an SVG document downwards with the narrative, like `appendSourcesToSvg`. The
+ * original content keeps its coordinates; only the viewBox (and a fixed height) grow.
+ */
+export function appendNarrativeToSvg(svg: string, narrative: Narrative): string {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [minX, minY, width, height] = (root.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(Number);
+  if (!(width > 0 && height > 0)) return svg;
+
+  const fontSize = Math.max(12, Math.round(width / 90));
+  const pad = fontSize * 2;
+  const maxChars = Math.floor((width - pad * 2) / (fontSize * 0.52));
+  const lines = layoutNarrative(narrative, line => line.length <= maxChars);
+  const extra = pad * 2 + narrativeHeight(lines, fontSize);
+  const x = minX + pad;
+  let y = minY + height + pad;
+
+  const texts = lines.map(l => {
+    if (l.gapBefore) y += fontSize * (l.kind === 'heading' ? 1.2 : 0.5);
+    y += fontSize * (l.kind === 'heading' ? 1.9 : 1.5);
+    return l.kind === 'heading'
+      ? `<text x="${x}" y="${y}" font-size="${fontSize * 1.2}" font-weight="bold" fill="#0f172a">${escapeXml(l.text)}</text>`
+      : `<text x="${x}" y="${y}" font-size="${fontSize}" fill="#334155" xml:space="preserve">${escapeXml(l.text)}</text>`;
+  }).join('');
+  const appendix = `<g id="narrative-appendix" data-role="narrative" font-family="Inter, Helvetica, Arial, sans-serif">` +
+    `<rect x="${minX}" y="${minY + height}" width="${width}" height="${extra}" fill="#ffffff"/>` + texts + `</g>`;
+
+  const fragment = new DOMParser().parseFromString(`<svg xmlns="http://www.w3.org/2000/svg">${appendix}</svg>`, 'image/svg+xml');
+  root.appendChild(doc.importNode(fragment.documentElement.firstElementChild!, true));
+  root.setAttribute('viewBox', `${minX} ${minY} ${width} ${height + extra}`);
+  const fixedHeight = parseFloat(root.getAttribute('height') || '');
+  if (fixedHeight > 0) root.setAttribute('height', String(fixedHeight * (height + extra) / height));
+  return new XMLSerializer().serializeToString(doc);
+}
+
+/** Print-page section for PDF export. */
+export const narrativeToHtml = (narrative: Narrative): string =>
+  `<section style="page-break-before:always; font-family:sans-serif; padding:32px; background:#fff; max-width:800px;">` +
+  narrativeSections(narrative).map(s => `<h2>${escapeXml(s.title)}</h2>` + (s.bullets
+    ? `<ul>${s.paragraphs.map(p => `<li>${escapeXml(p)}</li>`).join('')}</ul>`
+    : s.paragraphs.map(p => `<p>${escapeXml(p)}</p>`).join(''))).join('') +
+  `</section>`;
@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/persona.ts
+ * Persona profiles: how tone, information density, chart choice and terminology are pitched
+ * to the reader. The active profile is rendered through the "persona" prompt template and
+ * inserted into analysis, generation, editing, research and narrative prompts.
+ *
+ * A project may override the user's own persona; the Editor registers the override so
+ * `lib/gemini.ts` can resolve the active profile without threading it through every call.
+ */
+
+import { PersonaProfile } from '../types';
+import { db } from './db';
+
+export const PERSONA_PROFILES: PersonaProfile[] = [
+  {
+    id: 'strategic-advisor',
+    label: 'Strategic Advisor',
+    summary: 'Concise, High-level',
+    tone: 'Confident and concise; lead with the conclusion and its business impact.',
+    density: 'Low: a handful of headline KPIs with clear trends; leave out operational detail.',
+    charts: 'Big-number KPI cards, simple line trends and bar comparisons against targets; avoid scatter plots and dense tables.',
+    terminology: 'Business outcomes (revenue, margin, growth, risk, market share) rather than technical or statistical terms.',
+  },
+  {
+    id: 'deep-analyst',
+    label: 'Deep Analyst',
+    summary: 'Data-heavy, Detailed',
+    tone: 'Precise and neutral; state exact figures, comparisons and caveats.',
+    density: 'High: many metrics, breakdowns by segment and detail tables are welcome.',
+    charts: 'Scatter plots, histograms, multi-series lines and detail tables; always show axes, units and period.',
+    terminology: 'Statistical terms (median, variance, correlation, YoY, cohort) used accurately.',
+    aliases: ['Data Analyst'],
+  },
+  {
+    id: 'product-manager',
+    label: 'Product Manager',
+    summary: 'Growth & Engagement',
+    tone: 'Pragmatic and user-centred; connect each number to a product decision.',
+    density: 'Medium: funnel and engagement metrics with a few supporting breakdowns.',
+    charts: 'Funnels, cohort retention, line charts of active users and feature adoption.',
+    terminology: 'Product metrics (DAU/MAU, activation, retention, churn, conversion).',
+  },
+  {
+    id: 'creative-partner',
+    label: 'Creative Partner',
+    summary: 'Visual-first, Inspiring',
+    tone: 'Energetic and story-driven; frame findings as opportunities.',
+    density: 'Medium: fewer, larger panels with a strong visual hierarchy.',
+    charts: 'Expressive but readable visuals: area charts, donuts, progress rings and annotated highlights.',
+    terminology: 'Plain, vivid language; avoid jargon and acronyms.',
+  },
+  {
+    id: 'proofreader',
+    label: 'Proofreader',
+    summary: 'Grammar & Flow focus',
+    tone: 'Clear and correct; short sentences, consistent capitalisation and parallel phrasing.',
+    density: 'Medium: keep the requested content, with tidy and consistently worded labels.',
+    charts: 'No preference; every chart needs a title, labelled axes and units.',
+    terminology: 'One name per metric, used consistently; spell out abbreviations on first use.',
+  },
+];
+
+const normalize = (value: string) => value.replace(/\(.*\)/, '').trim().toLowerCase();
+
+/**
+ * The profile for a stored persona value: a profile id, or a label as stored by older
+ * profiles ("Strategic Advisor (Concise, High-level)") and onboarding ("Data Analyst").
+ */
+export function resolvePersona(value?: string): PersonaProfile | undefined {
+  if (!value) return undefined;
+  const byId = PERSONA_PROFILES.find(p => p.id === value);
+  if (byId) return byId;
+  const key = normalize(value);
+  return PERSONA_PROFILES.find(p => [p.label, ...(p.aliases || [])].some(l => normalize(l) === key));
+}
+
+/** "Strategic Advisor (Concise, High-level)" */
+export const describePersona = (profile: PersonaProfile) => `${profile.label} (${profile.summary})`;
+
+// --- Active Persona ---
+let projectPersona: string | undefined;
+
+export function setProjectPersona(personaId?: string) {
+  projectPersona = personaId;
+}
+
+/** The project's override when one is registered, otherwise the current user's persona. */
+export async function getActivePersona(): Promise<PersonaProfile | undefined> {
+  if (projectPersona) return resolvePersona(projectPersona);
+  try {
+    return resolvePersona((await db.getCurrentUser())?.persona);
+  } catch {
+    return undefined; // Prompts simply go out without a persona
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/providers/fixture.ts
+ * Deterministic, offline AIProvider for demos, air-gapped laptops and local development.
+ *
+ * Every response is derived from a hash of the request, so the same input always
+ * produces the same output and no network access is required.
+ */
+
+import { AIProvider, TextRequest, JSONRequest, ImageRequest, SearchRequest, ImageResult, TextResult, SearchResult, JSONSchema, TokenUsage } from './types';
+
+// FNV-1a: small, stable string hash used to seed fixture values.
+const hash = (input: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    h ^= input.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** Deterministic pseudo-random sequence (mulberry32). */
+const sequence = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Builds a value that satisfies `schema`, using descriptions as readable placeholder text. */
+const sampleFromSchema = (schema: JSONSchema, next: () => number, label = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object': {
+      const out: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(schema.properties || {})) {
+        out[key] = sampleFromSchema(child, next, key);
+      }
+      return out;
+    }
+    case 'array':
+      return Array.from({ length: 3 }, (_, i) => sampleFromSchema(schema.items || { type: 'string' }, next, `${label} ${i + 1}`));
+    case 'number':
+      return Math.round(next() * 10000) / 100;
+    case 'integer':
+      return Math.floor(next() * 1000);
+    case 'boolean':
+      return next() > 0.5;
+    case 'string':
+    default:
+      if (schema.enum?.length) return schema.enum[Math.floor(next() * schema.enum.length)];
+      return schema.description ? `Sample ${label}: ${schema.description}` : `Sample ${label}`;
+  }
+};
+
+const fixtureDashboardSvg = (seed: number): string => {
+  const next = sequence(seed);
+  const kpis = ['Revenue', 'Active Users', 'Conversion', 'Churn'].map((label, i) => ({
+    label,
+    value: i === 2 || i === 3 ? `${(next() * 10).toFixed(1)}%` : `${Math.round(next() * 900 + 100)}K`,
+  }));
+  const points = Array.from({ length: 12 }, (_, i) => `${320 + i * 60},${640 - Math.round(next() * 200)}`).join(' ');
+  const bars = Array.from({ length: 6 }, (_, i) => {
+    const h = Math.round(next() * 220 + 40);
+    return `<rect x="${1040 + i * 55}" y="${700 - h}" width="36" height="${h}" rx="4" fill="#3b82f6"/>`;
+  }).join('');
+  const nav = ['Dashboard', 'Analytics', 'Users', 'Settings', 'Reports']
+    .map((l, i) => `<g class="nav"><rect x="16" y="${110 + i * 48}" width="208" height="36" rx="8" fill="${i === 0 ? '#1e3a8a' : 'transparent'}"/><text x="40" y="${133 + i * 48}" fill="${i === 0 ? '#fff' : '#cbd5e1'}" font-size="14">${l}</text></g>`)
+    .join('');
+  const tiles = kpis
+    .map((k, i) => `<g><rect x="${272 + i * 290}" y="110" width="266" height="120" rx="12" fill="#fff" stroke="#e2e8f0"/><text x="${296 + i * 290}" y="150" fill="#64748b" font-size="14">${k.label}</text><text x="${296 + i * 290}" y="200" fill="#0f172a" font-size="32" font-weight="bold">${k.value}</text></g>`)
+    .join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1440 900" font-family="Inter, sans-serif">
+<style>.nav{cursor:pointer}.nav:hover rect{opacity:.8}</style>
+<rect width="1440" height="900" fill="#f8fafc"/>
+<rect width="240" height="900" fill="#0f172a"/>
+<text x="32" y="64" fill="#fff" font-size="20" font-weight="bold">Offline Preview</text>
+${nav}
+<text x="272" y="72" fill="#0f172a" font-size="24" font-weight="bold">Fixture Dashboard</text>
+${tiles}
+<rect x="272" y="260" width="720" height="480" rx="12" fill="#fff" stroke="#e2e8f0"/>
+<text x="296" y="296" fill="#0f172a" font-size="16" font-weight="bold">Monthly Trend</text>
+<polyline points="${points}" fill="none" stroke="#f97316" stroke-width="3"/>
+<rect x="1016" y="260" width="386" height="480" rx="12" fill="#fff" stroke="#e2e8f0"/>
+<text x="1040" y="296" fill="#0f172a" font-size="16" font-weight="bold">By Segment</text>
+${bars}
+</svg>`;
+};
+
+// Rough 4-characters-per-token estimate so usage accounting has numbers to show offline.
+const estimateUsage = (prompt: string, output: string): TokenUsage => ({
+  inputTokens: Math.ceil(prompt.length / 4),
+  outputTokens: Math.ceil(output.length / 4),
+});
+
+/** Replays `text` through `onPartial` in fixed-size chunks to exercise streaming UIs offline. */
+const replay = async (prompt: string, text: string, onPartial?: (text: string) => void, signal?: AbortSignal): Promise<TextResult> => {
+  signal?.throwIfAborted();
+  if (onPartial) {
+    for (let i = 512; i < text.length; i += 512) {
+      onPartial(text.slice(0, i));
+      await new Promise(resolve => setTimeout(resolve, 40));
+      signal?.throwIfAborted();
+    }
+    onPartial(text);
+  }
+  return { text, usage: estimateUsage(prompt, text) };
+};
+
+export class FixtureProvider implements AIProvider {
+  readonly kind = 'FIXTURE' as const;
+
+  async generateText(req: TextRequest): Promise<TextResult> {
+    // Edit requests embed the source SVG; echo it back so revisions stay stable offline.
+    const existing = req.prompt.match(/<svg[\s\S]*?<\/svg>/);
+    return replay(req.prompt, existing ? existing[0] : fixtureDashboardSvg(hash(req.model + req.prompt)), req.onPartial, req.signal);
+  }
+
+  async generateJSON(req: JSONRequest): Promise<TextResult> {
+    const next = sequence(hash(req.model + req.prompt));
+    return replay(req.prompt, JSON.stringify(sampleFromSchema(req.schema, next)), req.onPartial, req.signal);
+  }
+
+  async generateImage(req: ImageRequest): Promise<ImageResult> {
+    req.signal?.throwIfAborted();
+    const svg = fixtureDashboardSvg(hash(req.model + req.prompt));
+    return {
+      image: { mimeType: 'image/svg+xml', data: btoa(unescape(encodeURIComponent(svg))) },
+      usage: estimateUsage(req.prompt, '')
+    };
+  }
+
+  async searchGrounded(req: SearchRequest): Promise<SearchResult> {
+    req.signal?.throwIfAborted();
+    const topic = req.prompt.match(/"([^"]+)"/)?.[1] || req.prompt.slice(0, 80);
+    const next = sequence(hash(req.model + req.prompt));
+    const growth = (next() * 20 + 2).toFixed(1);
+    const growthClaim = `The market grew ${growth}% year over year.`;
+    const adoptionClaim = 'Adoption is concentrated in the top three regions.';
+    const text = `Offline research summary for "${topic}".\n\n` +
+      `- ${growthClaim}\n` +
+      `- ${adoptionClaim}\n` +
+      `- Fixture data: connect a live provider in Settings for grounded results.`;
+    return {
+      text,
+      sources: [
+        { web: { uri: 'https://example.com/fixture-report', title: 'Fixture Industry Report' } },
+        { web: { uri: 'https://example.org/fixture-survey', title: 'Fixture Market Survey' } }
+      ],
+      supports: [
+        { text: growthClaim, sourceIndices: [0] },
+        { text: adoptionClaim, sourceIndices: [0, 1] }
+      ],
+      usage: estimateUsage(req.prompt, text)
+    };
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/providers/gemini.ts
+ * Google GenAI SDK implementation of the AIProvider contract.
+ */
+
+import { GoogleGenAI, GenerateContentResponse, GenerateContentConfig } from "@google/genai";
+import { AIProvider, TextRequest, JSONRequest, ImageRequest, SearchRequest, InlineImage, TextResult, ImageResult, SearchResult, TokenUsage } from './types';
+
+const extractImage = (response: GenerateContentResponse): InlineImage | null => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) {
+      return { mimeType: part.inlineData.mimeType || 'image/png', data: part.inlineData.data };
+    }
+  }
+  return null;
+};
+
+const extractUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return { inputTokens: meta.promptTokenCount || 0, outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0) };
+};
+
+export class GeminiProvider implements AIProvider {
+  readonly kind = 'GEMINI' as const;
+  private ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+  private async complete(req: TextRequest, config?: GenerateContentConfig): Promise<TextResult> {
+    const contents = req.images?.length
+      ? { parts: [...req.images.map(inlineData => ({ inlineData })), { text: req.prompt }] }
+      : req.prompt;
+    const params = { model: req.model, contents, config: { ...config, abortSignal: req.signal } };
+    if (!req.onPartial) {
+      const response = await this.ai.models.generateContent(params);
+      return { text: response.text || '', usage: extractUsage(response) };
+    }
+
+    let text = '';
+    let usage: TokenUsage | undefined;
+    for await (const chunk of await this.ai.models.generateContentStream(params)) {
+      text += chunk.text || '';
+      usage = extractUsage(chunk) || usage; // Cumulative counts; the final chunk is authoritative
+      req.onPartial(text);
+    }
+    return { text, usage };
+  }
+
+  async generateText(req: TextRequest): Promise<TextResult> {
+    return this.complete(req, req.systemInstruction ? { systemInstruction: req.systemInstruction } : undefined);
+  }
+
+  async generateJSON(req: JSONRequest): Promise<TextResult> {
+    return this.complete(req, {
+      systemInstruction: req.systemInstruction,
+      responseMimeType: "application/json",
+      responseJsonSchema: req.schema,
+    });
+  }
+
+  async generateImage(req: ImageRequest): Promise<ImageResult> {
+    const response = await this.ai.models.generateContent({
+      model: req.model,
+      contents: req.image
+        ? { parts: [{ inlineData: req.image }, { text: req.prompt }] }
+        : req.prompt,
+      config: {
+        imageConfig: {
+          aspectRatio: req.aspectRatio || "16:9",
+          imageSize: "1K"
+        },
+        abortSignal: req.signal
+      }
+    });
+    return { image: extractImage(response), usage: extractUsage(response) };
+  }
+
+  async searchGrounded(req: SearchRequest): Promise<SearchResult> {
+    const response = await this.ai.models.generateContent({
+      model: req.model,
+      contents: req.prompt,
+      config: {
+        tools: [{ googleSearch: {} }],
+        abortSignal: req.signal,
+      },
+    });
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    return {
+      text: response.text || '',
+      sources: metadata?.groundingChunks || [],
+      supports: (metadata?.groundingSupports || [])
+        .filter(s => s.segment?.text && s.groundingChunkIndices?.length)
+        .map(s => ({ text: s.segment!.text!, sourceIndices: s.groundingChunkIndices! })),
+      usage: extractUsage(response)
+    };
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/providers/index.ts
+ * Provider-agnostic contract for the Intelligence Layer.
+ *
+ * `lib/gemini.ts` owns prompt engineering, retries and error mapping; providers only
+ * move requests over the wire. Each workspace picks its provider in Settings:
+ * - GEMINI: Google GenAI SDK (default).
+ * - OPENAI_COMPATIBLE: Any `/chat/completions` + `/images/*` gateway (self-hosted, proxies).
+ * - FIXTURE: Deterministic offline responses for demos and air-gapped machines.
+ */
+
+import { AIProviderConfig } from '../../types';
+import { db } from '../db';
+import { AIProvider } from './types';
+import { GeminiProvider } from './gemini';
+import { OpenAICompatibleProvider } from './openai';
+import { FixtureProvider } from './fixture';
+
+export * from './types';
+
+export const DEFAULT_PROVIDER_CONFIG: AIProviderConfig = { kind: 'GEMINI' };
+
+export function createProvider(config: AIProviderConfig): AIProvider {
+  switch (config.kind) {
+    case 'OPENAI_COMPATIBLE':
+      return new OpenAICompatibleProvider(config);
+    case 'FIXTURE':
+      return new FixtureProvider();
+    case 'GEMINI':
+    default:
+      return new GeminiProvider();
+  }
+}
+
+/** Resolves the provider configured for the current workspace. */
+export async function getActiveProvider(): Promise<AIProvider> {
+  let config = DEFAULT_PROVIDER_CONFIG;
+  try {
+    const ws = await db.getWorkspace();
+    if (ws?.aiProvider) config = ws.aiProvider;
+  } catch (e) {
+    console.warn("Could not read workspace provider settings, using default.", e);
+  }
+  return createProvider(config);
+}
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/providers/openai.ts
+ * AIProvider for OpenAI-compatible HTTP gateways (self-hosted LLM proxies, LiteLLM, vLLM, etc.).
+ *
+ * Endpoints used:
+ * - POST {baseUrl}/chat/completions  (text, JSON schema, search)
+ * - POST {baseUrl}/images/generations (raster generation)
+ * - POST {baseUrl}/images/edits       (raster editing, multipart)
+ */
+
+import { AIProviderConfig } from '../../types';
+import { AIProvider, TextRequest, JSONRequest, ImageRequest, SearchRequest, InlineImage, TextResult, ImageResult, SearchResult, GroundingSource, GroundingSupport, TokenUsage, ProviderError } from './types';
+import { parseRetryAfter } from '../scheduler';
+
+// Maps our aspect ratios onto the fixed sizes accepted by `/images/*`.
+const IMAGE_SIZES: Record<string, string> = {
+  '16:9': '1536x1024',
+  '4:3': '1536x1024',
+  '1:1': '1024x1024',
+  '9:16': '1024x1536',
+};
+
+const toUsage = (usage: any): TokenUsage | undefined =>
+  usage ? { inputTokens: usage.prompt_tokens ?? usage.input_tokens ?? 0, outputTokens: usage.completion_tokens ?? usage.output_tokens ?? 0 } : undefined;
+
+const base64ToBlob = (image: InlineImage): Blob => {
+  const bytes = Uint8Array.from(atob(image.data), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: image.mimeType });
+};
+
+export class OpenAICompatibleProvider implements AIProvider {
+  readonly kind = 'OPENAI_COMPATIBLE' as const;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: AIProviderConfig) {
+    if (!config.baseUrl) {
+      throw new ProviderError("OpenAI-compatible provider requires a base URL. Configure it in Settings → Workspace.");
+    }
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+  }
+
+  private async post(path: string, body: BodyInit, json = true, signal?: AbortSignal): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (json) headers['Content-Type'] = 'application/json';
+    if (this.apiKey) headers['Authorization'] = `Bearer ${this.apiKey}`;
+
+    let res: Response;
+    try {
+      res = await fetch(`${this.baseUrl}${path}`, { method: 'POST', headers, body, signal });
+    } catch (e: any) {
+      if (signal?.aborted) throw e; // Cancelled by the caller, not a network failure
+      // Network failures surface as 503 so they are retried like server errors.
+      throw new ProviderError(e?.message || "Network request failed.", 503, e);
+    }
+
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      throw new ProviderError(`Gateway responded ${res.status}: ${detail.slice(0, 500)}`, res.status, undefined, parseRetryAfter(res.headers.get('Retry-After')));
+    }
+    return res;
+  }
+
+  private async request(path: string, body: BodyInit, json = true, signal?: AbortSignal): Promise<any> {
+    return (await this.post(path, body, json, signal)).json();
+  }
+
+  /** Chat completion; streams server-sent events when `req.onPartial` is set. */
+  private async complete(req: TextRequest, extra: Record<string, unknown> = {}): Promise<TextResult> {
+    const payload = { model: req.model, messages: this.messages(req), ...extra };
+    if (!req.onPartial) {
+      const data = await this.request('/chat/completions', JSON.stringify(payload), true, req.signal);
+      return { text: data.choices?.[0]?.message?.content || '', usage: toUsage(data.usage) };
+    }
+
+    const res = await this.post('/chat/completions', JSON.stringify({ ...payload, stream: true, stream_options: { include_usage: true } }), true, req.signal);
+    if (!res.body) throw new ProviderError("Gateway returned an empty stream.", 502);
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    let usage: TokenUsage | undefined;
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        try {
+          const frame = JSON.parse(data);
+          text += frame.choices?.[0]?.delta?.content || '';
+          usage = toUsage(frame.usage) || usage;
+        } catch {
+          continue; // Ignore keep-alives and partial frames
+        }
+        req.onPartial(text);
+      }
+    }
+    return { text, usage };
+  }
+
+  private messages(req: TextRequest) {
+    const messages = [];
+    if (req.systemInstruction) messages.push({ role: 'system', content: req.systemInstruction });
+    const images = (req.images || []).map(i => ({ type: 'image_url', image_url: { url: `data:${i.mimeType};base64,${i.data}` } }));
+    messages.push({ role: 'user', content: images.length > 0 ? [{ type: 'text', text: req.prompt }, ...images] : req.prompt });
+    return messages;
+  }
+
+  async generateText(req: TextRequest): Promise<TextResult> {
+    return this.complete(req);
+  }
+
+  async generateJSON(req: JSONRequest): Promise<TextResult> {
+    return this.complete(req, {
+      response_format: {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: req.schema }
+      }
+    });
+  }
+
+  async generateImage(req: ImageRequest): Promise<ImageResult> {
+    const size = IMAGE_SIZES[req.aspectRatio || '16:9'] || IMAGE_SIZES['16:9'];
+    let data: any;
+
+    if (req.image) {
+      const form = new FormData();
+      form.append('model', req.model);
+      form.append('prompt', req.prompt);
+      form.append('size', size);
+      form.append('image', base64ToBlob(req.image), 'source');
+      data = await this.request('/images/edits', form, false, req.signal);
+    } else {
+      data = await this.request('/images/generations', JSON.stringify({
+        model: req.model,
+        prompt: req.prompt,
+        size,
+        response_format: 'b64_json',
+      }), true, req.signal);
+    }
+
+    const b64 = data.data?.[0]?.b64_json;
+    return { image: b64 ? { mimeType: 'image/png', data: b64 } : null, usage: toUsage(data.usage) };
+  }
+
+  async searchGrounded(req: SearchRequest): Promise<SearchResult> {
+    // Gateways have no standard search tool; use URL citations when the backend returns them.
+    const data = await this.request('/chat/completions', JSON.stringify({
+      model: req.model,
+      messages: this.messages(req),
+    }), true, req.signal);
+    const message = data.choices?.[0]?.message;
+    const text: string = message?.content || '';
+    const citations = (message?.annotations || []).filter((a: any) => a.type === 'url_citation' && a.url_citation?.url);
+    const sources: GroundingSource[] = citations.map((a: any) => ({ web: { uri: a.url_citation.url, title: a.url_citation.title } }));
+    // Each citation covers a character range of the answer
+    const supports: GroundingSupport[] = citations.flatMap((a: any, i: number) => {
+      const { start_index: start, end_index: end } = a.url_citation;
+      return typeof start === 'number' && end > start ? [{ text: text.slice(start, end), sourceIndices: [i] }] : [];
+    });
+    return { text, sources, supports, usage: toUsage(data.usage) };
+  }
+}
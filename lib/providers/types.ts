@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/providers/types.ts
+ * Request/response shapes shared by every AIProvider implementation.
+ */
+
+import { AIProviderConfig } from '../../types';
+
+/** Subset of JSON Schema understood by every provider. */
+export interface JSONSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  items?: JSONSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface TextRequest {
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  /** Images sent with the prompt, for multimodal models (e.g. reading a screenshot). */
+  images?: InlineImage[];
+  /** When set, the response is streamed and this receives the text accumulated so far. */
+  onPartial?: (text: string) => void;
+  /** Aborts the underlying request; providers reject once it fires. */
+  signal?: AbortSignal;
+}
+
+export interface JSONRequest extends TextRequest {
+  schema: JSONSchema;
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  image?: InlineImage; // Source image for edits
+  aspectRatio?: string;
+  signal?: AbortSignal;
+}
+
+export interface SearchRequest {
+  model: string;
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+export interface InlineImage {
+  mimeType: string;
+  data: string; // Base64 without the data URI prefix
+}
+
+export interface GroundingSource {
+  web?: { uri?: string; title?: string };
+}
+
+/** A span of the answer backed by one or more entries of `SearchResult.sources` (by index). */
+export interface GroundingSupport {
+  text: string;
+  sourceIndices: number[];
+}
+
+/** Token counts as reported by the backend (or estimated when it reports none). */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TextResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface ImageResult {
+  image: InlineImage | null; // null when the model answered without image data
+  usage?: TokenUsage;
+}
+
+export interface SearchResult {
+  text: string;
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+  usage?: TokenUsage;
+}
+
+export interface AIProvider {
+  readonly kind: AIProviderConfig['kind'];
+  generateText(req: TextRequest): Promise<TextResult>;
+  generateJSON(req: JSONRequest): Promise<TextResult>;
+  generateImage(req: ImageRequest): Promise<ImageResult>;
+  searchGrounded(req: SearchRequest): Promise<SearchResult>;
+}
+
+/**
+ * Transport-level failure. `status` mirrors the HTTP status so `withRetry`
+ * can classify errors the same way for every provider; `retryAfterMs` carries
+ * the server's `Retry-After` hint, when it sent one.
+ */
+export class ProviderError extends Error {
+  constructor(message: string, public status?: number, public originalError?: any, public retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/renderer.ts
+ * Deterministic SVG renderer for `DashboardSpec`.
+ *
+ * The model decides *what* goes on the dashboard (layout, panels, bindings);
+ * this module decides *how* it looks (VisualStyle + BrandKit) and resolves every
+ * bound number from the connected data sources, so output is reproducible and
+ * the layout can be edited without another AI call.
+ */
+
+import { DashboardSpec, SpecPanel, SpecDatum, VisualStyle, BrandKit, DataSource, SearchResultItem } from '../types';
+import { findSourceTable, groupBy, aggregate, applyFilter, formatNumber } from './data';
+import { isRtlLocale } from './locale';
+
+interface Theme {
+  background: string;
+  surface: string;
+  surfaceOpacity?: number;
+  border: string;
+  text: string;
+  muted: string;
+  navBackground: string;
+  navText: string;
+  palette: string[];
+  font: string;
+  headingFont: string;
+  radius: number;
+  strokeWidth: number;
+}
+
+const SANS = 'Inter, Helvetica, Arial, sans-serif';
+const SERIF = 'Georgia, "Times New Roman", serif';
+const MONO = '"Courier New", monospace';
+
+const THEMES: Record<VisualStyle, Theme> = {
+  'Modern SaaS': { background: '#f8fafc', surface: '#ffffff', border: '#e2e8f0', text: '#0f172a', muted: '#64748b', navBackground: '#0f172a', navText: '#cbd5e1', palette: ['#6366f1', '#3b82f6', '#8b5cf6', '#06b6d4', '#f59e0b'], font: SANS, headingFont: SANS, radius: 12, strokeWidth: 1 },
+  'Dark Mode Analytics': { background: '#0b1120', surface: '#111827', border: '#1f2937', text: '#f9fafb', muted: '#9ca3af', navBackground: '#030712', navText: '#9ca3af', palette: ['#22d3ee', '#a3e635', '#f472b6', '#facc15', '#818cf8'], font: SANS, headingFont: SANS, radius: 10, strokeWidth: 1 },
+  'Financial Traditional': { background: '#f5f3ee', surface: '#ffffff', border: '#cbd5e1', text: '#1c1917', muted: '#57534e', navBackground: '#1c1917', navText: '#d6d3d1', palette: ['#1e3a8a', '#7f1d1d', '#365314', '#78350f', '#334155'], font: SERIF, headingFont: SERIF, radius: 2, strokeWidth: 1 },
+  'Minimalist': { background: '#ffffff', surface: '#ffffff', border: '#e5e5e5', text: '#171717', muted: '#737373', navBackground: '#fafafa', navText: '#404040', palette: ['#171717', '#a3a3a3', '#d4d4d4', '#525252', '#ef4444'], font: SANS, headingFont: SANS, radius: 0, strokeWidth: 1 },
+  'Futuristic HUD': { background: '#020617', surface: '#0f172a', border: '#0ea5e9', text: '#e0f2fe', muted: '#7dd3fc', navBackground: '#020617', navText: '#7dd3fc', palette: ['#38bdf8', '#22d3ee', '#a78bfa', '#34d399', '#f472b6'], font: SANS, headingFont: SANS, radius: 4, strokeWidth: 1.5 },
+  'Paper Wireframe': { background: '#fafaf9', surface: '#ffffff', border: '#44403c', text: '#1c1917', muted: '#78716c', navBackground: '#f5f5f4', navText: '#1c1917', palette: ['#44403c', '#78716c', '#a8a29e', '#57534e', '#292524'], font: '"Patrick Hand", "Comic Sans MS", cursive', headingFont: '"Patrick Hand", "Comic Sans MS", cursive', radius: 2, strokeWidth: 2 },
+  'Neumorphism': { background: '#e0e5ec', surface: '#e0e5ec', border: '#c8d0dc', text: '#334155', muted: '#64748b', navBackground: '#e0e5ec', navText: '#334155', palette: ['#6366f1', '#14b8a6', '#f472b6', '#f59e0b', '#64748b'], font: SANS, headingFont: SANS, radius: 20, strokeWidth: 1 },
+  'Isometric 3D': { background: '#eef2ff', surface: '#ffffff', border: '#c7d2fe', text: '#1e1b4b', muted: '#6366f1', navBackground: '#312e81', navText: '#c7d2fe', palette: ['#8b5cf6', '#ec4899', '#f97316', '#06b6d4', '#22c55e'], font: SANS, headingFont: SANS, radius: 14, strokeWidth: 1 },
+  'High Contrast': { background: '#000000', surface: '#000000', border: '#ffffff', text: '#ffffff', muted: '#ffff00', navBackground: '#000000', navText: '#ffffff', palette: ['#ffff00', '#00ffff', '#ffffff', '#ff00ff', '#00ff00'], font: SANS, headingFont: SANS, radius: 0, strokeWidth: 4 },
+  'Swiss Design': { background: '#ffffff', surface: '#ffffff', border: '#000000', text: '#000000', muted: '#525252', navBackground: '#dc2626', navText: '#ffffff', palette: ['#dc2626', '#000000', '#737373', '#fbbf24', '#2563eb'], font: '"Helvetica Neue", Helvetica, Arial, sans-serif', headingFont: '"Helvetica Neue", Helvetica, Arial, sans-serif', radius: 0, strokeWidth: 2 },
+  'Vintage Terminal': { background: '#000000', surface: '#031003', border: '#14532d', text: '#4ade80', muted: '#22c55e', navBackground: '#000000', navText: '#4ade80', palette: ['#4ade80', '#fbbf24', '#86efac', '#facc15', '#16a34a'], font: MONO, headingFont: MONO, radius: 0, strokeWidth: 1 },
+  'Cyberpunk Neon': { background: '#0d0221', surface: '#1a0b3b', border: '#ff2a6d', text: '#f5f5f5', muted: '#05d9e8', navBackground: '#0d0221', navText: '#05d9e8', palette: ['#ff2a6d', '#05d9e8', '#d1f7ff', '#f9c80e', '#b967ff'], font: SANS, headingFont: SANS, radius: 6, strokeWidth: 1.5 },
+  'Hand-Drawn Sketch': { background: '#fffdf7', surface: '#fffdf7', border: '#334155', text: '#1e293b', muted: '#475569', navBackground: '#fef3c7', navText: '#1e293b', palette: ['#ef4444', '#3b82f6', '#22c55e', '#f59e0b', '#8b5cf6'], font: '"Segoe Print", "Comic Sans MS", cursive', headingFont: '"Segoe Print", "Comic Sans MS", cursive', radius: 8, strokeWidth: 2 },
+  'Corporate Clean': { background: '#f1f5f9', surface: '#ffffff', border: '#cbd5e1', text: '#0f172a', muted: '#475569', navBackground: '#1e3a8a', navText: '#dbeafe', palette: ['#1e40af', '#0284c7', '#64748b', '#0f766e', '#94a3b8'], font: SANS, headingFont: SANS, radius: 6, strokeWidth: 1 },
+  'Data Journalism': { background: '#f5f0e6', surface: '#fbf8f1', border: '#d6cfc2', text: '#1a1a1a', muted: '#6b6358', navBackground: '#1a1a1a', navText: '#f5f0e6', palette: ['#b91c1c', '#1d4ed8', '#ca8a04', '#15803d', '#57534e'], font: SANS, headingFont: SERIF, radius: 0, strokeWidth: 1 },
+  'Glassmorphism': { background: '#312e81', surface: '#ffffff', surfaceOpacity: 0.12, border: '#a5b4fc', text: '#ffffff', muted: '#e0e7ff', navBackground: '#1e1b4b', navText: '#e0e7ff', palette: ['#f0abfc', '#67e8f9', '#fde68a', '#a5b4fc', '#86efac'], font: SANS, headingFont: SANS, radius: 18, strokeWidth: 1 },
+};
+
+const PALETTE_OVERRIDES: Record<string, string[]> = {
+  'Monochrome': ['#111827', '#374151', '#6b7280', '#9ca3af', '#d1d5db'],
+  'High Contrast': ['#000000', '#ffbf00', '#0057e7', '#d62d20', '#008744'],
+  'Pastel': ['#a5b4fc', '#fbcfe8', '#bbf7d0', '#fde68a', '#bae6fd'],
+  'Vibrant': ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6'],
+};
+
+const CANVAS_SIZES: Record<string, [number, number]> = {
+  '16:9': [1440, 810],
+  '4:3': [1440, 1080],
+  '1:1': [1440, 1440],
+  '9:16': [1080, 1920],
+};
+
+export interface RenderOptions {
+  style: VisualStyle;
+  brand?: BrandKit;
+  colorPalette?: string;
+  aspectRatio?: string;
+  citations?: SearchResultItem[]; // Research sources that panel footnotes refer to
+  locale?: string;                // Number format and reading direction; right-to-left locales mirror the layout
+}
+
+export const escapeXml = (s: string) => s.replace(/[<>&"']/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[c]!));
+
+const truncate = (text: string, width: number, fontSize: number) => {
+  const max = Math.max(3, Math.floor(width / (fontSize * 0.58)));
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+};
+
+const safeId = (id: string) => id.replace(/[^A-Za-z0-9_-]/g, '-');
+
+const resolveTheme = ({ style, brand, colorPalette }: RenderOptions): Theme => {
+  const base = THEMES[style] || THEMES['Modern SaaS'];
+  const theme: Theme = { ...base, palette: [...base.palette] };
+  if (brand) {
+    theme.palette = [brand.primaryColor, brand.secondaryColor, brand.accentColor, ...base.palette.slice(3)];
+    theme.background = brand.backgroundColor;
+    theme.font = `${brand.fontFamily}, ${base.font}`;
+    theme.headingFont = `${brand.headingFont}, ${base.headingFont}`;
+  }
+  if (colorPalette && PALETTE_OVERRIDES[colorPalette]) {
+    theme.palette = PALETTE_OVERRIDES[colorPalette];
+  }
+  return theme;
+};
+
+/**
+ * Replaces bound KPI values, chart series and table rows with values computed
+ * from `sources`. Unresolvable bindings leave the model's values untouched.
+ */
+export function resolveSpecBindings(spec: DashboardSpec, sources: DataSource[], locale?: string): DashboardSpec {
+  const panels = spec.panels.map((panel): SpecPanel => {
+    if (panel.kind === 'KPI' && panel.kpi?.binding) {
+      const { sourceId, yField, aggregation, filter } = panel.kpi.binding;
+      const table = findSourceTable(sources, sourceId);
+      if (table && table.columns.includes(yField)) {
+        const value = aggregate(applyFilter(table.rows, filter).map(r => r[yField]), aggregation);
+        return { ...panel, kpi: { ...panel.kpi, value: formatNumber(value, locale) } };
+      }
+    }
+    if (panel.kind === 'CHART' && panel.chart?.binding) {
+      const { sourceId, xField, yField, aggregation, filter } = panel.chart.binding;
+      const table = findSourceTable(sources, sourceId);
+      if (table && xField && table.columns.includes(xField) && table.columns.includes(yField)) {
+        return { ...panel, chart: { ...panel.chart, data: groupBy(applyFilter(table.rows, filter), xField, yField, aggregation) } };
+      }
+    }
+    if (panel.kind === 'TABLE' && panel.table?.sourceId) {
+      const table = findSourceTable(sources, panel.table.sourceId);
+      if (table) {
+        const columns = panel.table.columns.filter(c => table.columns.includes(c));
+        const cols = columns.length > 0 ? columns : table.columns;
+        return { ...panel, table: { ...panel.table, columns: cols, rows: table.rows.map(r => cols.map(c => String(r[c] ?? ''))) } };
+      }
+    }
+    return panel;
+  });
+  return { ...spec, panels };
+}
+
+// --- Panel Renderers ---
+
+interface Box { x: number; y: number; w: number; h: number; }
+
+// Locale-dependent rendering. In RTL documents text-anchor "start" is the right edge of a label.
+interface TextContext {
+  rtl: boolean;
+  format: (value: number) => string;
+}
+
+// Where a label starting at the reading edge of a box goes: inset from the left, or from the right in RTL.
+const startX = (box: Box, inset: number, text: TextContext) => text.rtl ? box.x + box.w - inset : box.x + inset;
+
+// Superscript footnote numbers; tagged so checks such as data fidelity can skip them.
+const footnoteMark = (ids: number[] | undefined, fontSize: number): string =>
+  ids && ids.length > 0 ? `<tspan data-role="footnote" baseline-shift="super" font-size="${Math.round(fontSize * 0.5)}" font-weight="normal">${ids.join(',')}</tspan>` : '';
+
+const renderKpi = (panel: SpecPanel, box: Box, theme: Theme, text: TextContext): string => {
+  const kpi = panel.kpi || { value: '—' };
+  const valueSize = Math.min(44, Math.max(20, box.h * 0.28));
+  const trendColor = kpi.trend === 'up' ? '#16a34a' : kpi.trend === 'down' ? '#dc2626' : theme.muted;
+  const arrow = kpi.trend === 'up' ? '▲ ' : kpi.trend === 'down' ? '▼ ' : '';
+  return `<text x="${startX(box, 20, text)}" y="${box.y + box.h * 0.5 + valueSize * 0.35}" fill="${theme.text}" font-family="${escapeXml(theme.headingFont)}" font-size="${valueSize.toFixed(0)}" font-weight="bold">${escapeXml(truncate(String(kpi.value), box.w - 40, valueSize))}${footnoteMark(panel.citations, valueSize)}</text>` +
+    (kpi.delta ? `<text x="${startX(box, 20, text)}" y="${box.y + box.h - 18}" fill="${trendColor}" font-size="13" font-weight="bold">${escapeXml(arrow + kpi.delta)}</text>` : '');
+};
+
+// Axes keep their left-to-right order in every locale; only the labels follow the reading direction.
+const renderCartesian = (type: 'line' | 'area' | 'bar', data: SpecDatum[], box: Box, theme: Theme, text: TextContext): string => {
+  const plot = { x: box.x + 48, y: box.y + 56, w: box.w - 68, h: box.h - 96 };
+  if (data.length === 0 || plot.w <= 0 || plot.h <= 0) return '';
+  const max = Math.max(...data.map(d => d.value), 0) || 1;
+  const min = Math.min(...data.map(d => d.value), 0);
+  const range = max - min || 1;
+  const yFor = (v: number) => plot.y + plot.h - ((v - min) / range) * plot.h;
+  const step = plot.w / data.length;
+  const labelSize = 11;
+  const showValues = data.length <= 12;
+
+  let out = `<line x1="${plot.x}" y1="${yFor(0)}" x2="${plot.x + plot.w}" y2="${yFor(0)}" stroke="${theme.border}" stroke-width="1"/>`;
+  out += `<text x="${plot.x - 8}" y="${plot.y + 4}" fill="${theme.muted}" font-size="${labelSize}" text-anchor="${text.rtl ? 'start' : 'end'}">${escapeXml(text.format(max))}</text>`;
+
+  data.forEach((d, i) => {
+    const cx = plot.x + step * i + step / 2;
+    out += `<text x="${cx}" y="${plot.y + plot.h + 18}" fill="${theme.muted}" font-size="${labelSize}" text-anchor="middle">${escapeXml(truncate(d.label, step - 4, labelSize))}</text>`;
+  });
+
+  if (type === 'bar') {
+    const barW = Math.max(4, step * 0.6);
+    data.forEach((d, i) => {
+      const x = plot.x + step * i + (step - barW) / 2;
+      const y0 = yFor(Math.max(0, d.value));
+      const h = Math.abs(yFor(d.value) - yFor(0));
+      out += `<rect x="${x.toFixed(1)}" y="${y0.toFixed(1)}" width="${barW.toFixed(1)}" height="${h.toFixed(1)}" rx="${Math.min(4, theme.radius)}" fill="${theme.palette[i % 2 === 0 ? 0 : 1]}"/>`;
+      if (showValues) out += `<text x="${(x + barW / 2).toFixed(1)}" y="${(y0 - 6).toFixed(1)}" fill="${theme.text}" font-size="${labelSize}" text-anchor="middle">${escapeXml(text.format(d.value))}</text>`;
+    });
+    return out;
+  }
+
+  const points = data.map((d, i) => `${(plot.x + step * i + step / 2).toFixed(1)},${yFor(d.value).toFixed(1)}`);
+  if (type === 'area') {
+    const first = (plot.x + step / 2).toFixed(1);
+    const last = (plot.x + step * (data.length - 1) + step / 2).toFixed(1);
+    out += `<polygon points="${first},${yFor(min)} ${points.join(' ')} ${last},${yFor(min)}" fill="${theme.palette[0]}" fill-opacity="0.2"/>`;
+  }
+  out += `<polyline points="${points.join(' ')}" fill="none" stroke="${theme.palette[0]}" stroke-width="${Math.max(2, theme.strokeWidth * 1.5)}" stroke-linejoin="round"/>`;
+  data.forEach((d, i) => {
+    const [x, y] = points[i].split(',');
+    out += `<circle cx="${x}" cy="${y}" r="3.5" fill="${theme.palette[0]}"/>`;
+    if (showValues) out += `<text x="${x}" y="${(Number(y) - 10).toFixed(1)}" fill="${theme.text}" font-size="${labelSize}" text-anchor="middle">${escapeXml(text.format(d.value))}</text>`;
+  });
+  return out;
+};
+
+const renderRadial = (type: 'pie' | 'donut', data: SpecDatum[], box: Box, theme: Theme, text: TextContext): string => {
+  const total = data.reduce((a, d) => a + Math.max(0, d.value), 0);
+  if (total <= 0) return '';
+  const r = Math.max(10, Math.min(box.w * 0.45, box.h - 80) / 2);
+  const cx = text.rtl ? box.x + box.w - 24 - r : box.x + 24 + r;
+  const cy = box.y + 52 + (box.h - 72) / 2;
+  let angle = -Math.PI / 2;
+  let out = '';
+
+  data.forEach((d, i) => {
+    const slice = (Math.max(0, d.value) / total) * Math.PI * 2;
+    const color = theme.palette[i % theme.palette.length];
+    if (slice >= Math.PI * 2 - 1e-6) {
+      out += `<circle cx="${cx}" cy="${cy}" r="${r}" fill="${color}"/>`;
+    } else if (slice > 0) {
+      const x1 = cx + r * Math.cos(angle), y1 = cy + r * Math.sin(angle);
+      const x2 = cx + r * Math.cos(angle + slice), y2 = cy + r * Math.sin(angle + slice);
+      out += `<path d="M${cx},${cy} L${x1.toFixed(1)},${y1.toFixed(1)} A${r},${r} 0 ${slice > Math.PI ? 1 : 0} 1 ${x2.toFixed(1)},${y2.toFixed(1)} Z" fill="${color}"/>`;
+    }
+    angle += slice;
+  });
+  if (type === 'donut') out += `<circle cx="${cx}" cy="${cy}" r="${r * 0.6}" fill="${theme.surface}"/>`;
+
+  // The legend sits beside the pie on the reading side that follows it, swatch first.
+  const legend: Box = text.rtl
+    ? { x: box.x + 16, y: box.y, w: cx - r - 24 - (box.x + 16), h: box.h }
+    : { x: cx + r + 24, y: box.y, w: box.x + box.w - (cx + r + 24) - 16, h: box.h };
+  data.slice(0, Math.floor((box.h - 60) / 22)).forEach((d, i) => {
+    const y = box.y + 64 + i * 22;
+    out += `<rect x="${text.rtl ? legend.x + legend.w - 12 : legend.x}" y="${y - 10}" width="12" height="12" rx="2" fill="${theme.palette[i % theme.palette.length]}"/>`;
+    out += `<text x="${startX(legend, 18, text)}" y="${y}" fill="${theme.text}" font-size="12">${escapeXml(truncate(`${d.label}: ${text.format(d.value)}`, legend.w - 18, 12))}</text>`;
+  });
+  return out;
+};
+
+const renderTable = (panel: SpecPanel, box: Box, theme: Theme, text: TextContext): string => {
+  const table = panel.table;
+  if (!table || table.columns.length === 0) return '';
+  const rowH = 30;
+  const colW = (box.w - 40) / table.columns.length;
+  const maxRows = Math.max(0, Math.floor((box.h - 90) / rowH));
+  const colX = (i: number) => text.rtl ? box.x + box.w - 20 - i * colW : box.x + 20 + i * colW;
+  let out = '';
+  table.columns.forEach((c, i) => {
+    out += `<text x="${colX(i)}" y="${box.y + 72}" fill="${theme.muted}" font-size="12" font-weight="bold">${escapeXml(truncate(c, colW - 8, 12))}</text>`;
+  });
+  out += `<line x1="${box.x + 20}" y1="${box.y + 82}" x2="${box.x + box.w - 20}" y2="${box.y + 82}" stroke="${theme.border}"/>`;
+  table.rows.slice(0, maxRows).forEach((row, r) => {
+    const y = box.y + 82 + (r + 1) * rowH - 10;
+    out += `<g class="table-row">`;
+    row.slice(0, table.columns.length).forEach((cell, i) => {
+      out += `<text x="${colX(i)}" y="${y}" fill="${theme.text}" font-size="13">${escapeXml(truncate(String(cell), colW - 8, 13))}</text>`;
+    });
+    out += `</g>`;
+  });
+  return out;
+};
+
+const renderPanel = (panel: SpecPanel, box: Box, theme: Theme, text: TextContext): string => {
+  let body = '';
+  if (panel.kind === 'KPI') body = renderKpi(panel, box, theme, text);
+  else if (panel.kind === 'TABLE') body = renderTable(panel, box, theme, text);
+  else if (panel.chart) {
+    const { type, data } = panel.chart;
+    body = type === 'pie' || type === 'donut' ? renderRadial(type, data, box, theme, text) : renderCartesian(type, data, box, theme, text);
+  }
+  const opacity = theme.surfaceOpacity !== undefined ? ` fill-opacity="${theme.surfaceOpacity}"` : '';
+  return `<g id="panel-${safeId(panel.id)}" data-kind="${panel.kind}">` +
+    `<rect x="${box.x}" y="${box.y}" width="${box.w}" height="${box.h}" rx="${theme.radius}" fill="${theme.surface}"${opacity} stroke="${theme.border}" stroke-width="${theme.strokeWidth}"/>` +
+    `<text x="${startX(box, 20, text)}" y="${box.y + 32}" fill="${theme.muted}" font-size="14" font-weight="600">${escapeXml(truncate(panel.title, box.w - 40, 14))}${panel.kind === 'KPI' ? '' : footnoteMark(panel.citations, 14)}</text>` +
+    body +
+    `</g>`;
+};
+
+// Summary for the document's <desc>: subtitle plus panel titles.
+const describeSpec = (spec: DashboardSpec): string =>
+  [spec.header?.subtitle, spec.panels.length > 0 ? `Panels: ${spec.panels.map(p => p.title).join(', ')}.` : '']
+    .filter(Boolean).join(' ') || 'Dashboard';
+
+/**
+ * Renders a spec to a standalone SVG document. Bindings should already be
+ * resolved via `resolveSpecBindings`.
+ */
+export function renderDashboardSpec(spec: DashboardSpec, options: RenderOptions): string {
+  const theme = resolveTheme(options);
+  const rtl = isRtlLocale(options.locale);
+  const text: TextContext = { rtl, format: value => formatNumber(value, options.locale) };
+  const [W, H] = CANVAS_SIZES[options.aspectRatio || '16:9'] || CANVAS_SIZES['16:9'];
+  const pad = 24;
+  const gap = 20;
+  const navItems = spec.nav?.items || [];
+  const navW = navItems.length > 0 ? (W < 1200 ? 180 : 220) : 0;
+  const headerH = 88;
+
+  // Only sources some panel actually cites are footnoted
+  const known = new Set((options.citations || []).map(c => c.id));
+  const panelsToRender = spec.panels.map(p => ({ ...p, citations: p.citations?.filter(id => known.has(id)) }));
+  const citedIds = new Set(panelsToRender.flatMap(p => p.citations || []));
+  const cited = (options.citations || []).filter(c => citedIds.has(c.id));
+  const footerH = cited.length > 0 ? 28 : 0;
+
+  const columns = Math.max(1, Math.min(12, Math.round(spec.grid?.columns || 4)));
+  const rows = Math.max(1, Math.min(12, Math.round(spec.grid?.rows || 3)));
+  // RTL mirrors the page: navigation on the right, panels placed from the right edge.
+  const area = { x: rtl ? pad : navW + pad, y: headerH, w: W - navW - pad * 2, h: H - headerH - pad - footerH };
+  const cellW = (area.w - gap * (columns - 1)) / columns;
+  const cellH = (area.h - gap * (rows - 1)) / rows;
+
+  const boxFor = (p: SpecPanel): Box => {
+    const col = Math.max(0, Math.min(columns - 1, Math.round(p.col)));
+    const row = Math.max(0, Math.min(rows - 1, Math.round(p.row)));
+    const colSpan = Math.max(1, Math.min(columns - col, Math.round(p.colSpan || 1)));
+    const rowSpan = Math.max(1, Math.min(rows - row, Math.round(p.rowSpan || 1)));
+    const w = cellW * colSpan + gap * (colSpan - 1);
+    const offset = col * (cellW + gap);
+    return {
+      x: rtl ? area.x + area.w - offset - w : area.x + offset,
+      y: area.y + row * (cellH + gap),
+      w,
+      h: cellH * rowSpan + gap * (rowSpan - 1),
+    };
+  };
+
+  let nav = '';
+  if (navW > 0) {
+    const bar: Box = { x: rtl ? W - navW : 0, y: 0, w: navW, h: H };
+    nav += `<rect x="${bar.x}" y="0" width="${navW}" height="${H}" fill="${theme.navBackground}"/>`;
+    if (options.brand?.logo) {
+      nav += `<image href="${escapeXml(options.brand.logo)}" x="${rtl ? bar.x + navW - 64 : 24}" y="24" width="40" height="40" preserveAspectRatio="xMidYMid meet"/>`;
+    }
+    navItems.forEach((item, i) => {
+      const y = 104 + i * 48;
+      const active = i === (spec.nav?.active ?? 0);
+      nav += `<g class="nav-item"><rect x="${bar.x + 12}" y="${y}" width="${navW - 24}" height="38" rx="${Math.min(8, theme.radius)}" fill="${active ? theme.palette[0] : 'transparent'}"/>` +
+        `<text x="${startX(bar, 32, text)}" y="${y + 24}" fill="${active ? '#ffffff' : theme.navText}" font-size="14">${escapeXml(truncate(item, navW - 56, 14))}</text></g>`;
+    });
+  } else if (options.brand?.logo) {
+    nav += `<image href="${escapeXml(options.brand.logo)}" x="${rtl ? pad : W - pad - 40}" y="24" width="40" height="40" preserveAspectRatio="xMidYMid meet"/>`;
+  }
+
+  const headX = startX(area, 0, text);
+  const header =
+    `<text x="${headX}" y="48" fill="${theme.text}" font-family="${escapeXml(theme.headingFont)}" font-size="26" font-weight="bold">${escapeXml(truncate(spec.header?.title || 'Dashboard', area.w, 26))}</text>` +
+    (spec.header?.subtitle ? `<text x="${headX}" y="72" fill="${theme.muted}" font-size="14">${escapeXml(truncate(spec.header.subtitle, area.w, 14))}</text>` : '');
+
+  const panels = panelsToRender.map(p => renderPanel(p, boxFor(p), theme, text)).join('\n');
+
+  const footer = cited.length > 0
+    ? `<g data-role="sources"><text x="${headX}" y="${H - pad / 2 - 4}" fill="${theme.muted}" font-size="11">${escapeXml(truncate(`Sources: ${cited.map(c => `${c.id}. ${c.title} (${c.domain})`).join(' · ')}`, area.w, 11))}</text></g>`
+    : '';
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${W} ${H}" role="img" font-family="${escapeXml(theme.font)}"${options.locale ? ` lang="${escapeXml(options.locale)}"` : ''}${rtl ? ' direction="rtl"' : ''}>
+<title>${escapeXml(spec.header?.title || 'Dashboard')}</title>
+<desc>${escapeXml(describeSpec(spec))}</desc>
+<style>.nav-item{cursor:pointer}.nav-item:hover rect{opacity:.85}.table-row:hover text{opacity:.7}</style>
+<rect width="${W}" height="${H}" fill="${theme.background}"/>
+${nav}
+${header}
+${panels}
+${footer}
+</svg>`;
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AIPriority, parseRetryAfter, retryAfterFrom, scheduler } from './scheduler';
+
+// Each test uses its own model so bucket state does not leak between them.
+let modelId = 0;
+const nextModel = () => `test-model-${modelId++}`;
+
+describe('scheduler', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('grants the burst at once and refills at the configured rate', async () => {
+    const model = nextModel();
+    scheduler.configure(model, { requestsPerMinute: 60, burst: 2, maxConcurrent: 10 });
+    const granted: number[] = [];
+    for (let i = 0; i < 3; i++) scheduler.acquire(model).then(release => { granted.push(i); release(); });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(granted).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(granted).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(granted).toEqual([0, 1, 2]);
+  });
+
+  it('serves waiting calls by priority, then in arrival order', async () => {
+    const model = nextModel();
+    scheduler.configure(model, { requestsPerMinute: 60, burst: 1, maxConcurrent: 10 });
+    (await scheduler.acquire(model))();
+    const order: string[] = [];
+    const queue = (name: string, priority: AIPriority) => scheduler.acquire(model, priority).then(release => { order.push(name); release(); });
+    queue('batch', 'BATCH');
+    queue('normal-1', 'NORMAL');
+    queue('interactive', 'INTERACTIVE');
+    queue('normal-2', 'NORMAL');
+
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(order).toEqual(['interactive', 'normal-1', 'normal-2', 'batch']);
+  });
+
+  it('caps concurrent calls and holds calls during a pause', async () => {
+    const model = nextModel();
+    scheduler.configure(model, { requestsPerMinute: 600, burst: 5, maxConcurrent: 1 });
+    const release = await scheduler.acquire(model);
+    let second = false;
+    scheduler.acquire(model).then(r => { second = true; r(); });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(second).toBe(false);
+
+    scheduler.pause(model, Date.now() + 5000);
+    release();
+    await vi.advanceTimersByTimeAsync(4000);
+    expect(second).toBe(false);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(second).toBe(true);
+  });
+
+  it('rejects a waiting call when its signal aborts', async () => {
+    const model = nextModel();
+    scheduler.configure(model, { requestsPerMinute: 1, burst: 1, maxConcurrent: 10 });
+    (await scheduler.acquire(model))();
+    const controller = new AbortController();
+    const waiting = scheduler.acquire(model, 'NORMAL', controller.signal);
+    controller.abort(new Error('cancelled'));
+    await expect(waiting).rejects.toThrow('cancelled');
+    expect(scheduler.status().queued).toBe(0);
+  });
+});
+
+describe('retry hints', () => {
+  it('parses Retry-After seconds and HTTP dates', () => {
+    expect(parseRetryAfter('7')).toBe(7000);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:10 GMT', Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'))).toBe(10000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+
+  it('reads the delay from provider errors', () => {
+    expect(retryAfterFrom({ retryAfterMs: 1500 })).toBe(1500);
+    expect(retryAfterFrom(new Error('{"retryDelay": "2.5s"}'))).toBe(2500);
+    expect(retryAfterFrom(new Error('Please retry in 3s.'))).toBe(3000);
+    expect(retryAfterFrom(new Error('Bad request'))).toBeNull();
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/scheduler.ts
+ * App-wide admission control for model calls.
+ *
+ * Every attempt made by `withRetry` first acquires a slot here. Each model has a token
+ * bucket (sustained rate plus burst) and a concurrency cap; waiting calls are served by
+ * priority (interactive edits, then generation, then batch work) and FIFO within a priority.
+ * A `Retry-After` hint pauses the model until the server says it is ready again.
+ *
+ * Tabs of the same origin share one budget via BroadcastChannel: each tab announces the
+ * tokens it spends, pauses it learns about and a snapshot of its queue.
+ */
+
+export type AIPriority = 'INTERACTIVE' | 'NORMAL' | 'BATCH';
+
+export interface ModelLimit {
+  requestsPerMinute: number;
+  burst: number;         // Bucket capacity
+  maxConcurrent: number; // Calls in flight per tab
+}
+
+export interface SchedulerStatus {
+  running: number;
+  queued: number;
+  queuedByPriority: Record<AIPriority, number>;
+  remoteRunning: number; // Other tabs, from their latest snapshots
+  remoteQueued: number;
+  pausedUntil?: number;  // Latest Retry-After pause across models, when one is active
+}
+
+export const DEFAULT_MODEL_LIMIT: ModelLimit = { requestsPerMinute: 20, burst: 4, maxConcurrent: 3 };
+
+const PRIORITY_RANK: Record<AIPriority, number> = { INTERACTIVE: 0, NORMAL: 1, BATCH: 2 };
+const CHANNEL_NAME = 'intake-ai-scheduler';
+const HEARTBEAT_MS = 5000;
+const SNAPSHOT_TTL_MS = 15000; // Snapshots from tabs that stopped reporting are ignored after this
+
+type ChannelMessage =
+  | { type: 'take'; model: string }
+  | { type: 'pause'; model: string; until: number }
+  | { type: 'status'; tabId: string; running: number; queued: number; at: number };
+
+interface Waiter {
+  id: number;
+  model: string;
+  priority: AIPriority;
+  resolve: (release: () => void) => void;
+  reject: (reason: unknown) => void;
+  cleanup: () => void;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(private limit: ModelLimit) {
+    this.tokens = limit.burst;
+  }
+
+  private refill(now: number) {
+    const perMs = this.limit.requestsPerMinute / 60000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + (now - this.updatedAt) * perMs);
+    this.updatedAt = now;
+  }
+
+  /** Spends one token; may go negative when other tabs spend on the shared budget. */
+  take(now = Date.now()) {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  /** Milliseconds until a whole token is available (0 when one is available now). */
+  waitTime(now = Date.now()): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / (this.limit.requestsPerMinute / 60000));
+  }
+
+  setLimit(limit: ModelLimit) {
+    this.limit = limit;
+    this.tokens = Math.min(this.tokens, limit.burst);
+  }
+}
+
+class AIScheduler {
+  private readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private limits = new Map<string, ModelLimit>();
+  private buckets = new Map<string, TokenBucket>();
+  private running = new Map<string, number>();
+  private pausedUntil = new Map<string, number>();
+  private queue: Waiter[] = [];
+  private nextId = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private remote = new Map<string, { running: number; queued: number; at: number }>();
+  private listeners = new Set<(status: SchedulerStatus) => void>();
+  private channel: BroadcastChannel | null = null;
+
+  constructor() {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (e: MessageEvent<ChannelMessage>) => this.receive(e.data);
+    }
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.post({ type: 'status', tabId: this.tabId, running: 0, queued: 0, at: Date.now() }));
+    }
+  }
+
+  configure(model: string, limit: Partial<ModelLimit>) {
+    const merged = { ...DEFAULT_MODEL_LIMIT, ...this.limits.get(model), ...limit };
+    this.limits.set(model, merged);
+    this.buckets.get(model)?.setLimit(merged);
+  }
+
+  /**
+   * Resolves with a release function once `model` has budget and a free slot. Rejects with
+   * the signal's reason if it aborts while waiting. Callers must call the release function.
+   */
+  acquire(model: string, priority: AIPriority = 'NORMAL', signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { id: this.nextId++, model, priority, resolve, reject, cleanup: () => {} };
+      const onAbort = () => {
+        this.queue = this.queue.filter(w => w !== waiter);
+        reject(signal!.reason);
+        this.changed();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      waiter.cleanup = () => signal?.removeEventListener('abort', onAbort);
+      this.queue.push(waiter);
+      this.queue.sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.id - b.id);
+      this.pump();
+      this.changed();
+    });
+  }
+
+  /** Holds back every call to `model` until `until`, here and in other tabs. */
+  pause(model: string, until: number, broadcast = true) {
+    if (until <= (this.pausedUntil.get(model) || 0)) return;
+    this.pausedUntil.set(model, until);
+    if (broadcast) this.post({ type: 'pause', model, until });
+    setTimeout(() => this.changed(), until - Date.now()); // Listeners see the pause lift even with nothing queued
+    this.pump();
+    this.changed();
+  }
+
+  subscribe(listener: (status: SchedulerStatus) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.status());
+    return () => { this.listeners.delete(listener); };
+  }
+
+  status(): SchedulerStatus {
+    const now = Date.now();
+    const queuedByPriority: Record<AIPriority, number> = { INTERACTIVE: 0, NORMAL: 0, BATCH: 0 };
+    this.queue.forEach(w => queuedByPriority[w.priority]++);
+    const live = Array.from(this.remote.values()).filter(r => now - r.at < SNAPSHOT_TTL_MS);
+    const pausedUntil = Math.max(0, ...this.pausedUntil.values());
+    return {
+      running: Array.from(this.running.values()).reduce((a, b) => a + b, 0),
+      queued: this.queue.length,
+      queuedByPriority,
+      remoteRunning: live.reduce((a, r) => a + r.running, 0),
+      remoteQueued: live.reduce((a, r) => a + r.queued, 0),
+      pausedUntil: pausedUntil > now ? pausedUntil : undefined,
+    };
+  }
+
+  private bucket(model: string): TokenBucket {
+    let bucket = this.buckets.get(model);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limits.get(model) || DEFAULT_MODEL_LIMIT);
+      this.buckets.set(model, bucket);
+    }
+    return bucket;
+  }
+
+  // Grants every waiter that can start now, in priority order; a blocked waiter blocks lower priorities for its model only.
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    const now = Date.now();
+    const blocked = new Set<string>();
+    let nextCheck = Infinity;
+
+    for (const waiter of [...this.queue]) {
+      if (blocked.has(waiter.model)) continue;
+      const limit = this.limits.get(waiter.model) || DEFAULT_MODEL_LIMIT;
+      const bucket = this.bucket(waiter.model);
+      const pausedFor = (this.pausedUntil.get(waiter.model) || 0) - now;
+      const wait = Math.max(pausedFor, bucket.waitTime(now));
+      if ((this.running.get(waiter.model) || 0) >= limit.maxConcurrent) {
+        blocked.add(waiter.model); // Re-pumped on release
+        continue;
+      }
+      if (wait > 0) {
+        blocked.add(waiter.model);
+        nextCheck = Math.min(nextCheck, wait);
+        continue;
+      }
+      this.grant(waiter);
+    }
+
+    if (nextCheck !== Infinity) this.timer = setTimeout(() => this.pump(), nextCheck);
+  }
+
+  private grant(waiter: Waiter) {
+    this.queue = this.queue.filter(w => w !== waiter);
+    waiter.cleanup();
+    this.bucket(waiter.model).take();
+    this.running.set(waiter.model, (this.running.get(waiter.model) || 0) + 1);
+    this.post({ type: 'take', model: waiter.model });
+
+    let released = false;
+    waiter.resolve(() => {
+      if (released) return;
+      released = true;
+      this.running.set(waiter.model, Math.max(0, (this.running.get(waiter.model) || 1) - 1));
+      this.pump();
+      this.changed();
+    });
+    this.changed();
+  }
+
+  private receive(message: ChannelMessage) {
+    switch (message.type) {
+      case 'take':
+        this.bucket(message.model).take();
+        break;
+      case 'pause':
+        this.pause(message.model, message.until, false);
+        return;
+      case 'status':
+        if (message.running === 0 && message.queued === 0) this.remote.delete(message.tabId);
+        else this.remote.set(message.tabId, { running: message.running, queued: message.queued, at: message.at });
+        this.notify();
+        return;
+    }
+  }
+
+  private post(message: ChannelMessage) {
+    try {
+      this.channel?.postMessage(message);
+    } catch (e) {
+      console.warn("Scheduler broadcast failed", e);
+    }
+  }
+
+  // Local state changed: tell other tabs and local listeners; keep a heartbeat while work is pending
+  private changed() {
+    const status = this.status();
+    this.post({ type: 'status', tabId: this.tabId, running: status.running, queued: status.queued, at: Date.now() });
+    const busy = status.running + status.queued > 0;
+    if (busy && !this.heartbeat) {
+      this.heartbeat = setInterval(() => this.changed(), HEARTBEAT_MS);
+    } else if (!busy && this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.notify(status);
+  }
+
+  private notify(status: SchedulerStatus = this.status()) {
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const scheduler = new AIScheduler();
+
+/**
+ * Reads a server-provided retry hint from a failed call: `retryAfterMs` set by providers from the
+ * `Retry-After` header, or a `retryDelay` / "retry in Ns" in the error body. Returns null when absent.
+ */
+export function retryAfterFrom(error: any): number | null {
+  if (typeof error?.retryAfterMs === 'number' && error.retryAfterMs > 0) return error.retryAfterMs;
+  const text = String(error?.message || '');
+  const match = text.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) || text.match(/retry (?:in|after) (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+}
+
+/** Parses an HTTP `Retry-After` header (delta-seconds or HTTP-date) into milliseconds. */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
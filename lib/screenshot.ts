@@ -0,0 +1,151 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/screenshot.ts
+ * Screenshot import: turns the layout the multimodal model reads from a legacy BI
+ * screenshot (`extractScreenshotLayout` in `lib/gemini.ts`) into what a new project
+ * needs — placeholder data sources, a layout reference for the generation prompt and
+ * the closest supported aspect ratio.
+ *
+ * Everything printed on a screenshot is untrusted: placeholder rows are inspected like
+ * any other source and the layout reference is delimited before it reaches a prompt.
+ */
+
+import { DataSource, FieldKind, PlaceholderSource, RegionKind, ScreenshotLayout, ScreenshotRegion } from '../types';
+import { CHART_TYPES } from './bindings';
+import { inspectDataSource, wrapUntrusted } from './untrusted';
+
+export const REGION_KINDS: RegionKind[] = ['HEADER', 'NAV', 'FILTER', 'KPI', 'CHART', 'TABLE', 'TEXT'];
+const FIELD_KINDS: FieldKind[] = ['NUMBER', 'DATE', 'CATEGORY', 'TEXT'];
+const MAX_REGIONS = 24;
+const MAX_SOURCES = 4;
+const MAX_ROWS = 12;
+
+// --- Normalization ---
+
+const text = (v: unknown, max = 120) => typeof v === 'string' ? v.replace(/\s+/g, ' ').trim().slice(0, max) : '';
+const percent = (v: unknown) => typeof v === 'number' && Number.isFinite(v) ? Math.min(100, Math.max(0, v)) : 0;
+
+function normalizeRegion(raw: any): ScreenshotRegion | null {
+  const kind = REGION_KINDS.find(k => k === text(raw?.kind).toUpperCase());
+  if (!kind) return null;
+  const x = percent(raw.x);
+  const y = percent(raw.y);
+  const w = Math.min(percent(raw.w), 100 - x);
+  const h = Math.min(percent(raw.h), 100 - y);
+  if (w <= 0 || h <= 0) return null;
+  const chartType = CHART_TYPES.find(t => t === text(raw.chartType).toLowerCase());
+  return {
+    kind,
+    label: text(raw.label),
+    chartType: kind === 'CHART' ? chartType || 'bar' : undefined,
+    value: kind === 'KPI' ? text(raw.value, 40) || undefined : undefined,
+    x, y, w, h,
+  };
+}
+
+function normalizeSource(raw: any): PlaceholderSource | null {
+  const name = text(raw?.name, 60);
+  const seen = new Set<string>();
+  // Keeps each column's original position so row cells stay aligned after duplicates are dropped
+  const columns: { name: string; kind: FieldKind; index: number }[] = (Array.isArray(raw?.columns) ? raw.columns : []).flatMap((c: any, index: number) => {
+    const column = text(c?.name, 60);
+    if (!column || seen.has(column.toLowerCase())) return [];
+    seen.add(column.toLowerCase());
+    return [{ name: column, kind: FIELD_KINDS.find(k => k === text(c.kind).toUpperCase()) || 'TEXT', index }];
+  });
+  if (!name || columns.length === 0) return null;
+  const rows = (Array.isArray(raw.rows) ? raw.rows : [])
+    .filter(Array.isArray)
+    .slice(0, MAX_ROWS)
+    .map((row: unknown[]) => columns.map(c => text(typeof row[c.index] === 'number' ? String(row[c.index]) : row[c.index], 60)));
+  return { name, columns: columns.map(({ name, kind }) => ({ name, kind })), rows };
+}
+
+/**
+ * Validates the model's reading of a screenshot: unknown region kinds are dropped, boxes
+ * are clamped to the image, charts default to bar. Null when no region was recognised.
+ */
+export function normalizeScreenshotLayout(raw: any): ScreenshotLayout | null {
+  const regions = (Array.isArray(raw?.regions) ? raw.regions : [])
+    .map(normalizeRegion)
+    .filter((r: ScreenshotRegion | null): r is ScreenshotRegion => !!r)
+    .slice(0, MAX_REGIONS)
+    .sort((a: ScreenshotRegion, b: ScreenshotRegion) => a.y - b.y || a.x - b.x);
+  if (regions.length === 0) return null;
+  const sources = (Array.isArray(raw.sources) ? raw.sources : [])
+    .map(normalizeSource)
+    .filter((s: PlaceholderSource | null): s is PlaceholderSource => !!s)
+    .slice(0, MAX_SOURCES);
+  const title = text(raw.title) || regions.find(r => r.kind === 'HEADER')?.label || 'Imported Dashboard';
+  return {
+    title,
+    objective: text(raw.objective, 400) || `Modernize the "${title}" dashboard`,
+    regions,
+    sources,
+  };
+}
+
+// --- Project Inputs ---
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Data sources standing in for the systems behind the screenshot. They stay PENDING so it
+ * is clear the numbers were read off an image; replace them with real connections.
+ */
+export function placeholderDataSources(layout: ScreenshotLayout): DataSource[] {
+  const base = Date.now();
+  return layout.sources.map((s, i) => inspectDataSource({
+    id: `${base}-${i}`,
+    type: 'FILE_UPLOAD',
+    name: `${s.name} (placeholder)`,
+    status: 'PENDING',
+    meta: { rowCount: s.rows.length },
+    sampleData: s.rows.length > 0
+      ? [s.columns.map(c => c.name), ...s.rows].map(row => row.map(csvCell).join(',')).join('\n')
+      : undefined,
+  }));
+}
+
+const box = (r: ScreenshotRegion) =>
+  `x ${Math.round(r.x)}–${Math.round(r.x + r.w)}%, y ${Math.round(r.y)}–${Math.round(r.y + r.h)}%`;
+
+function describeRegion(r: ScreenshotRegion): string {
+  const label = r.label ? ` "${r.label}"` : '';
+  switch (r.kind) {
+    case 'KPI': return `KPI card${label}${r.value ? ` showing ${r.value}` : ''}`;
+    case 'CHART': return `${r.chartType} chart${label}`;
+    case 'TABLE': return `Table${label}`;
+    case 'FILTER': return `Filter bar${label}`;
+    case 'NAV': return `Navigation${label}`;
+    case 'HEADER': return `Header${label}`;
+    case 'TEXT': return `Text block${label}`;
+  }
+}
+
+/** The imported layout as a reference for the generation prompt, delimited as untrusted. */
+export function describeLayoutForPrompt(layout: ScreenshotLayout): string {
+  const regions = layout.regions.map(r => `- ${describeRegion(r)} at ${box(r)}`).join('\n');
+  return `REFERENCE LAYOUT (read from a legacy dashboard screenshot): keep its panels, KPI labels, chart types and overall arrangement, but redesign them in the requested visual style. Positions are percentages of the canvas.
+${wrapUntrusted('Screenshot layout', `${layout.title}\n${regions}`)}`;
+}
+
+/** Region counts for the import summary, e.g. "3 KPIs, 2 charts, 1 table". */
+export function summarizeLayout(layout: ScreenshotLayout): string {
+  const count = (kind: RegionKind) => layout.regions.filter(r => r.kind === kind).length;
+  const parts: [number, string][] = [[count('KPI'), 'KPI'], [count('CHART'), 'chart'], [count('TABLE'), 'table']];
+  return parts.filter(([n]) => n > 0).map(([n, noun]) => `${n} ${noun}${n === 1 ? '' : 's'}`).join(', ') || `${layout.regions.length} regions`;
+}
+
+const ASPECT_RATIOS: [string, number][] = [['16:9', 16 / 9], ['4:3', 4 / 3], ['1:1', 1], ['9:16', 9 / 16]];
+
+/** The supported aspect ratio closest to the screenshot's. */
+export function nearestAspectRatio(width: number, height: number): string {
+  if (!(width > 0 && height > 0)) return '16:9';
+  const ratio = Math.log(width / height);
+  return ASPECT_RATIOS.reduce((best, candidate) =>
+    Math.abs(Math.log(candidate[1]) - ratio) < Math.abs(Math.log(best[1]) - ratio) ? candidate : best
+  )[0];
+}
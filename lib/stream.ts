@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/stream.ts
+ * Helpers for turning incomplete, still-streaming model output into something renderable.
+ * Results must still pass `sanitizeSvg` before they are displayed.
+ */
+
+const XML_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<(\/?)([A-Za-z][\w:.-]*)[^>]*?(\/?)>/g;
+
+/**
+ * Cuts a partial SVG document back to its last complete tag and closes every
+ * element still open. Returns null until the root `<svg ...>` tag has arrived.
+ */
+export function closePartialSvg(partial: string): string | null {
+  const start = partial.indexOf('<svg');
+  if (start < 0) return null;
+  const end = partial.lastIndexOf('>');
+  if (end <= start) return null;
+  const text = partial.slice(start, end + 1);
+
+  const open: string[] = [];
+  for (const match of text.matchAll(XML_TOKEN)) {
+    const [, closing, name, selfClosing] = match;
+    if (!name || selfClosing) continue;
+    if (closing) {
+      const idx = open.lastIndexOf(name);
+      if (idx >= 0) open.length = idx;
+    } else {
+      open.push(name);
+    }
+  }
+  if (open[0] !== 'svg' && open.length > 0) return null;
+  return text + open.reverse().map(name => `</${name}>`).join('');
+}
+
+/**
+ * Parses the longest prefix of a partial JSON document that ends on a closed
+ * object or array, closing any enclosing containers. Returns null if nothing
+ * parseable has arrived yet.
+ */
+export function parsePartialJson(partial: string): unknown {
+  const start = partial.indexOf('{');
+  if (start < 0) return null;
+
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+  let safeEnd = -1;
+  let safeClosers = '';
+
+  for (let i = start; i < partial.length; i++) {
+    const ch = partial[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') closers.push('}');
+    else if (ch === '[') closers.push(']');
+    else if (ch === '}' || ch === ']') {
+      closers.pop();
+      safeEnd = i;
+      safeClosers = closers.slice().reverse().join('');
+      if (closers.length === 0) break;
+    }
+  }
+  if (safeEnd < 0) return null;
+
+  try {
+    return JSON.parse(partial.slice(start, safeEnd + 1) + safeClosers);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/suggestions.ts
+ * Schema-aware help for the objective box: column profiles of the connected sources,
+ * ranked objective suggestions with a "why this chart" explanation, and field-name
+ * autocomplete.
+ *
+ * Everything here is computed locally from `sampleData`, so suggestions work without a
+ * model call; `suggestDashboardObjectives` in `lib/gemini.ts` adds model ideas on request.
+ */
+
+import { ChartType, DataSource, FieldKind, FieldProfile, ObjectiveSuggestion } from '../types';
+import { CellValue, parseSampleData, formatNumber } from './data';
+import { CHART_TYPES } from './bindings';
+
+export const MAX_SUGGESTIONS = 6;
+const MAX_CATEGORIES = 12;     // More distinct values than this are too many for one chart
+const MAX_SERIES = 6;          // Lines per chart before it turns to spaghetti
+const MAX_SHARE_SLICES = 5;    // Slices per donut
+const MAX_SAMPLES = 4;
+
+const DATE_NAME = /date|month|year|week|day|period|quarter|time/i;
+const TARGET_NAME = /target|goal|budget|plan|quota|forecast/i;
+const ID_NAME = /(^id$|_id$|[a-z]Id$|\sid$)/;
+const MEASURE_NAME = /revenue|sales|profit|margin|cost|spend|users|customers|orders|conversion|churn|arr|mrr|amount|total/i;
+const DIMENSION_NAME = /region|segment|category|product|channel|country|team|department|market|plan|tier/i;
+const MONTH_VALUE = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?(\s+\d{2,4})?$/i;
+const QUARTER_VALUE = /^(q[1-4](\s*[-/]?\s*\d{2,4})?|\d{4}\s*[-/]?\s*q[1-4])$/i;
+const DATE_VALUE = /^\d{4}-\d{1,2}(-\d{1,2})?([ T].*)?$|^\d{1,2}\/\d{1,2}\/\d{2,4}$/;
+
+// --- Field Profiles ---
+
+const isDateValue = (v: CellValue) => typeof v === 'string' && (DATE_VALUE.test(v) || MONTH_VALUE.test(v) || QUARTER_VALUE.test(v));
+const isYear = (v: CellValue) => typeof v === 'number' && Number.isInteger(v) && v >= 1900 && v <= 2100;
+
+function fieldKind(name: string, values: CellValue[], distinct: number): FieldKind {
+  const share = (test: (v: CellValue) => boolean) => values.filter(test).length / values.length;
+  if (share(isDateValue) >= 0.8 || (DATE_NAME.test(name) && share(isYear) >= 0.8)) return 'DATE';
+  if (share(v => typeof v === 'number') >= 0.8) return ID_NAME.test(name) ? 'TEXT' : 'NUMBER';
+  if (distinct <= MAX_CATEGORIES || distinct < values.length) return 'CATEGORY';
+  return 'TEXT';
+}
+
+/** Column profiles of every tabular source; free-text sources (e.g. research summaries) have none. */
+export function profileFields(sources: DataSource[]): FieldProfile[] {
+  return sources.flatMap(source => {
+    const table = parseSampleData(source.sampleData);
+    if (!table) return [];
+    return table.columns.map(name => {
+      const values = table.rows.map(r => r[name]).filter(v => v !== '' && v !== undefined);
+      const unique = Array.from(new Set(values.map(String)));
+      const kind = values.length > 0 ? fieldKind(name, values, unique.length) : 'TEXT';
+      const numbers = kind === 'NUMBER' ? values.filter((v): v is number => typeof v === 'number') : [];
+      return {
+        sourceId: source.id,
+        sourceName: source.name,
+        name,
+        kind,
+        distinct: unique.length,
+        min: numbers.length > 0 ? Math.min(...numbers) : undefined,
+        max: numbers.length > 0 ? Math.max(...numbers) : undefined,
+        samples: unique.slice(0, MAX_SAMPLES),
+      };
+    });
+  });
+}
+
+/** "order_date" → "order date", "totalRevenue" → "total revenue"; all-caps words (MRR) are kept. */
+export const humanizeField = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[\s_\-.]+/)
+    .filter(Boolean)
+    .map(w => (w.length > 1 && w === w.toUpperCase() ? w : w.toLowerCase()))
+    .join(' ');
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+const describeRange = (f: FieldProfile) =>
+  f.min !== undefined && f.max !== undefined ? `${formatNumber(f.min)}–${formatNumber(f.max)}` : '';
+
+/** One line per field for prompts and tooltips, e.g. `"Sales" › revenue: number, 1.2K–98K`. */
+export const describeField = (f: FieldProfile): string => {
+  const detail = f.kind === 'NUMBER' ? describeRange(f) : `${f.distinct} values, e.g. ${f.samples.slice(0, 3).join(', ')}`;
+  return `"${f.sourceName}" › ${f.name}: ${f.kind.toLowerCase()}${detail ? `, ${detail}` : ''}`;
+};
+
+// --- Time Grain ---
+
+type Grain = { adjective: string; noun: string };
+const GRAINS: Record<string, Grain> = {
+  day: { adjective: 'Daily', noun: 'days' },
+  week: { adjective: 'Weekly', noun: 'weeks' },
+  month: { adjective: 'Monthly', noun: 'months' },
+  quarter: { adjective: 'Quarterly', noun: 'quarters' },
+  year: { adjective: 'Yearly', noun: 'years' },
+};
+
+// From the column name when it says so, otherwise from the median gap between sample dates.
+function timeGrain(field: FieldProfile): Grain {
+  const named = Object.keys(GRAINS).find(g => field.name.toLowerCase().includes(g));
+  if (named && named !== 'day') return GRAINS[named];
+  if (field.samples.every(s => MONTH_VALUE.test(s))) return GRAINS.month;
+  if (field.samples.every(s => QUARTER_VALUE.test(s))) return GRAINS.quarter;
+  if (field.samples.every(s => isYear(Number(s)))) return GRAINS.year;
+  const times = field.samples.map(s => Date.parse(s)).filter(t => !isNaN(t)).sort((a, b) => a - b);
+  if (times.length < 2) return GRAINS.month;
+  const gaps = times.slice(1).map((t, i) => (t - times[i]) / 86_400_000).sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)];
+  if (median <= 1.5) return GRAINS.day;
+  if (median <= 8) return GRAINS.week;
+  if (median <= 32) return GRAINS.month;
+  if (median <= 95) return GRAINS.quarter;
+  return GRAINS.year;
+}
+
+// --- Local Suggestions ---
+
+const rankByName = (fields: FieldProfile[], pattern: RegExp) =>
+  [...fields].sort((a, b) => Number(pattern.test(b.name)) - Number(pattern.test(a.name)));
+
+function suggestForSource(fields: FieldProfile[]): ObjectiveSuggestion[] {
+  const numeric = fields.filter(f => f.kind === 'NUMBER');
+  const targets = numeric.filter(f => TARGET_NAME.test(f.name));
+  const measures = rankByName(numeric.filter(f => !TARGET_NAME.test(f.name)), MEASURE_NAME);
+  const categories = rankByName(fields.filter(f => f.kind === 'CATEGORY' && f.distinct >= 2), DIMENSION_NAME);
+  const date = fields.find(f => f.kind === 'DATE');
+  const measure = measures[0];
+  const target = targets[0];
+  if (!measure) return [];
+
+  const out: Omit<ObjectiveSuggestion, 'id' | 'origin'>[] = [];
+  const m = humanizeField(measure.name);
+  const bonus = MEASURE_NAME.test(measure.name) ? 5 : 0;
+  const range = describeRange(measure);
+  const series = categories.find(c => c.distinct <= MAX_SERIES);
+  const compared = categories.find(c => c.distinct <= MAX_CATEGORIES);
+  const share = categories.find(c => c.distinct <= MAX_SHARE_SLICES);
+  const ranked = categories.find(c => c.distinct > MAX_CATEGORIES) || fields.find(f => f.kind === 'TEXT' && f.distinct > MAX_CATEGORIES);
+
+  if (date) {
+    const grain = timeGrain(date);
+    out.push({
+      text: `${grain.adjective} ${m}${series ? ` by ${humanizeField(series.name)}` : ''}${target ? ` vs. ${humanizeField(target.name)}` : ''}`,
+      visual: 'line',
+      fields: [date.name, measure.name, ...(series ? [series.name] : []), ...(target ? [target.name] : [])],
+      why: `${date.name} spans ${date.distinct} ${grain.noun} and ${measure.name} is numeric${range ? ` (${range})` : ''}, so a line chart shows direction and seasonality.` +
+        (series ? ` One line per ${series.name} (${series.distinct} values) stays readable.` : '') +
+        (target ? ` ${target.name} is drawn as a reference line to show the gap.` : ''),
+      score: 90 + bonus + (series ? 3 : 0) + (target ? 4 : 0),
+    });
+  }
+  if (target && compared) {
+    out.push({
+      text: `${capitalize(m)} vs. ${humanizeField(target.name)} by ${humanizeField(compared.name)}`,
+      visual: 'bar',
+      fields: [compared.name, measure.name, target.name],
+      why: `${target.name} is a plan figure for ${measure.name}; paired bars per ${compared.name} (${compared.distinct} values) show who is ahead or behind.`,
+      score: 85 + bonus,
+    });
+  }
+  if (compared) {
+    out.push({
+      text: `${capitalize(m)} by ${humanizeField(compared.name)}`,
+      visual: 'bar',
+      fields: [compared.name, measure.name],
+      why: `${compared.name} has ${compared.distinct} values, few enough to compare side by side; bars make differences in ${measure.name} easy to rank.`,
+      score: 80 + bonus,
+    });
+  }
+  if (measures.length >= 2) {
+    const kpis = measures.slice(0, 3);
+    const names = kpis.map(f => humanizeField(f.name));
+    out.push({
+      text: `${capitalize(names.slice(0, -1).join(', '))} and ${names[names.length - 1]} KPI overview${date ? ` with ${timeGrain(date).noun.replace(/s$/, '')}-over-${timeGrain(date).noun.replace(/s$/, '')} change` : ''}`,
+      visual: 'kpi',
+      fields: [...kpis.map(f => f.name), ...(date ? [date.name] : [])],
+      why: `${kpis.map(f => f.name).join(kpis.length > 2 ? ', ' : ' and ')} are the headline numbers in this source; big-number cards put them first${date ? `, and ${date.name} gives each a trend arrow` : ''}.`,
+      score: 70 + bonus,
+    });
+  }
+  if (share) {
+    out.push({
+      text: `Share of ${m} by ${humanizeField(share.name)}`,
+      visual: 'donut',
+      fields: [share.name, measure.name],
+      why: `With only ${share.distinct} ${share.name} values, a donut shows each one's share of total ${measure.name} at a glance.`,
+      score: 65 + bonus,
+    });
+  }
+  if (ranked) {
+    out.push({
+      text: `Top 10 ${humanizeField(ranked.name)} by ${m}`,
+      visual: 'table',
+      fields: [ranked.name, measure.name],
+      why: `${ranked.name} has ${ranked.distinct} values, too many for one chart, so a ranked table of the top 10 keeps it readable.`,
+      score: 60 + bonus,
+    });
+  }
+  return out.map((s, i) => ({ ...s, id: `${fields[0].sourceId}-${i}`, origin: 'LOCAL' }));
+}
+
+/** Ranked objective suggestions for the connected sources, without a model call. */
+export function suggestObjectives(sources: DataSource[], max = MAX_SUGGESTIONS): ObjectiveSuggestion[] {
+  const fields = profileFields(sources);
+  const bySource = sources.map(s => fields.filter(f => f.sourceId === s.id)).filter(f => f.length > 0);
+  return mergeSuggestions(bySource.flatMap(suggestForSource), [], max);
+}
+
+/** Model replies as suggestions; entries naming no known column are dropped. */
+export function normalizeModelSuggestions(raw: any, fields: FieldProfile[]): ObjectiveSuggestion[] {
+  const known = new Set(fields.map(f => f.name));
+  const visuals: string[] = [...CHART_TYPES, 'kpi'];
+  const items: any[] = Array.isArray(raw?.suggestions) ? raw.suggestions : [];
+  return items.flatMap((item, i) => {
+    const text = typeof item?.text === 'string' ? item.text.trim() : '';
+    const used = Array.isArray(item?.fields) ? item.fields.filter((f: unknown): f is string => typeof f === 'string' && known.has(f)) : [];
+    if (!text || used.length === 0) return [];
+    return [{
+      id: `model-${Date.now()}-${i}`,
+      text,
+      visual: visuals.includes(item.visual) ? item.visual as ChartType | 'kpi' : 'bar',
+      fields: used,
+      why: typeof item.why === 'string' ? item.why.trim() : '',
+      score: 75 - i * 5,
+      origin: 'MODEL' as const,
+    }];
+  });
+}
+
+/** Ranked union of two suggestion lists; the first of any duplicate wording wins. */
+export function mergeSuggestions(a: ObjectiveSuggestion[], b: ObjectiveSuggestion[], max = MAX_SUGGESTIONS): ObjectiveSuggestion[] {
+  const seen = new Set<string>();
+  return [...a, ...b]
+    .filter(s => {
+      const key = s.text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((x, y) => y.score - x.score)
+    .slice(0, max);
+}
+
+// --- Autocomplete ---
+
+export interface FieldCompletion {
+  start: number; // Range of the partial word being replaced
+  end: number;
+  matches: FieldProfile[];
+}
+
+/**
+ * Field names matching the word being typed at `caret` (at least two characters). Prefix
+ * matches on the column name or any of its words rank before substring matches.
+ */
+export function completeField(text: string, caret: number, fields: FieldProfile[], limit = 6): FieldCompletion | null {
+  const token = text.slice(0, caret).match(/[\w.-]{2,}$/)?.[0];
+  if (!token || /[\w.-]/.test(text.charAt(caret))) return null;
+  const key = token.toLowerCase();
+  const unique = fields.filter((f, i) => fields.findIndex(g => g.name === f.name) === i && f.name.toLowerCase() !== key);
+  const rank = (f: FieldProfile) => {
+    const name = f.name.toLowerCase();
+    if (name.startsWith(key)) return 0;
+    if (humanizeField(f.name).toLowerCase().split(' ').some(w => w.startsWith(key))) return 1;
+    return name.includes(key) ? 2 : -1;
+  };
+  const matches = unique
+    .map(f => ({ f, r: rank(f) }))
+    .filter(m => m.r >= 0)
+    .sort((a, b) => a.r - b.r)
+    .slice(0, limit)
+    .map(m => m.f);
+  return matches.length > 0 ? { start: caret - token.length, end: caret, matches } : null;
+}
+
+/** Replaces the partial word with the column name; returns the new text and caret. */
+export function applyCompletion(text: string, completion: FieldCompletion, field: FieldProfile): { text: string; caret: number } {
+  const inserted = `${field.name} `;
+  const rest = text.slice(completion.end).replace(/^ /, '');
+  return { text: text.slice(0, completion.start) + inserted + rest, caret: completion.start + inserted.length };
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Fields named in the objective, by column name or its humanized form, as whole words. */
+export function findMentionedFields(text: string, fields: FieldProfile[]): FieldProfile[] {
+  if (!text.trim()) return [];
+  return fields.filter((f, i) => {
+    if (fields.findIndex(g => g.name === f.name) !== i) return false;
+    return [f.name, humanizeField(f.name)].some(n => new RegExp(`(^|[^\\w])${escapeRegExp(n)}($|[^\\w])`, 'i').test(text));
+  });
+}
@@ -0,0 +1,115 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { sanitizeSvg, scopeCss } from './svg';
+
+const wrap = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">${body}</svg>`;
+
+// Renders sanitized markup the way DashboardCanvas does (HTML parser, inline SVG)
+const renderAsHtml = (svg: string) => {
+  const host = document.createElement('div');
+  host.innerHTML = svg;
+  return host;
+};
+
+describe('sanitizeSvg', () => {
+  it('keeps allowed elements and attributes', () => {
+    const { svg, removed } = sanitizeSvg(wrap('<rect x="1" y="2" width="3" height="4" fill="#fff"/><text x="5">Revenue</text>'));
+    expect(svg).toContain('<rect x="1" y="2" width="3" height="4" fill="#fff"/>');
+    expect(svg).toContain('Revenue');
+    expect(removed).toEqual([]);
+  });
+
+  it('rejects malformed markup, a non-svg root and a missing viewBox', () => {
+    expect(sanitizeSvg('<svg viewBox="0 0 1 1"><rect></svg>').svg).toBeNull();
+    expect(sanitizeSvg('<html xmlns="http://www.w3.org/1999/xhtml"/>').svg).toBeNull();
+    expect(sanitizeSvg('<svg xmlns="http://www.w3.org/2000/svg"/>').errors[0]).toMatch(/viewBox/);
+  });
+
+  it('removes scripts, event handlers and external references', () => {
+    const { svg } = sanitizeSvg(wrap('<script>alert(1)</script><rect onclick="alert(1)" width="1" height="1"/><image href="https://evil.example/x.png"/><foreignObject><div/></foreignObject>'));
+    expect(svg).not.toMatch(/script|onclick|evil\.example|foreignObject/);
+  });
+
+  it('unwraps links but keeps their content', () => {
+    const { svg } = sanitizeSvg(wrap('<a href="javascript:alert(1)"><text>Open</text></a>'));
+    expect(svg).not.toMatch(/<a|javascript/);
+    expect(svg).toContain('<text>Open</text>');
+  });
+
+  it('drops comments whose content the HTML parser would read as markup', () => {
+    const { svg, removed } = sanitizeSvg(wrap('<!--><img src=x onerror=alert(1)>--><rect width="1" height="1"/>'));
+    expect(svg).not.toContain('onerror');
+    expect(removed).toContain('comment in <svg>');
+    const host = renderAsHtml(svg!);
+    expect(host.querySelector('img')).toBeNull();
+    expect(host.querySelector('rect')).not.toBeNull();
+  });
+
+  it('drops nested comments, processing instructions and CDATA outside <style>', () => {
+    const { svg, removed } = sanitizeSvg(wrap(
+      '<g><!--><img src=x onerror=alert(1)>--></g>' +
+      '<?pi <img src=x onerror=alert(2)>?>' +
+      '<text><![CDATA[<img src=x onerror=alert(3)>]]></text>'
+    ));
+    expect(svg).not.toContain('onerror');
+    expect(removed).toEqual(expect.arrayContaining(['comment in <g>', 'processing instruction in <svg>', 'CDATA section in <text>']));
+    expect(renderAsHtml(svg!).querySelector('img')).toBeNull();
+  });
+
+  it('keeps CDATA inside <style> as escaped text', () => {
+    const { svg } = sanitizeSvg(wrap('<style><![CDATA[ rect { fill: red; } </style><img src=x onerror=alert(1)> ]]></style>'));
+    expect(svg).not.toContain('<img');
+    expect(renderAsHtml(svg!).querySelector('img')).toBeNull();
+  });
+
+  it('drops CSS that hides @import, url() or expression() behind escapes', () => {
+    const { svg, removed } = sanitizeSvg(wrap(
+      '<style>@\\69mport "https://evil.example/a.css"; rect { fill: u\\72l(https://evil.example/x) }</style>' +
+      '<rect style="fill: \\75rl(https://evil.example/y)" width="1" height="1"/>' +
+      '<rect fill="\\75rl(https://evil.example/z)" width="1" height="1"/>'
+    ));
+    expect(svg).not.toMatch(/evil\.example|\\/);
+    expect(removed).toEqual(expect.arrayContaining(['escaped CSS in <style>', 'escaped CSS in style on <rect>', 'escaped CSS in fill on <rect>']));
+  });
+
+  it('scopes <style> rules to the SVG root so they cannot style the host page', () => {
+    const { svg } = sanitizeSvg(wrap('<style>rect, .kpi text { fill: red; } svg .bg { fill: #000 } @media (min-width: 1px) { :root { color: blue } }</style><rect class="bg" width="1" height="1"/>'));
+    const scope = svg!.match(/data-svg-scope="([a-z0-9]+)"/)![1];
+    const prefix = `svg[data-svg-scope="${scope}"]`;
+    expect(svg).toContain(`${prefix} rect,${prefix} .kpi text{`);
+    expect(svg).toContain(`${prefix} .bg{`);
+    expect(svg).toContain(`@media (min-width: 1px){${prefix}{`);
+
+    const host = renderAsHtml(`${svg}<svg><rect id="outside"/></svg>`);
+    expect(host.querySelectorAll(`${prefix} rect`)).toHaveLength(1);
+    expect(host.querySelector('#outside')!.matches(`${prefix} rect`)).toBe(false);
+  });
+
+  it('keeps the same scope when sanitized again', () => {
+    const once = sanitizeSvg(wrap('<style>rect { fill: red; }</style>')).svg!;
+    const twice = sanitizeSvg(once).svg!;
+    expect(twice).toBe(once);
+    expect(twice.match(/svg\[data-svg-scope/g)).toHaveLength(1);
+  });
+});
+
+describe('scopeCss', () => {
+  const scope = 'svg[data-svg-scope="a"]';
+
+  it('drops other at-rules and keeps keyframes verbatim', () => {
+    expect(scopeCss('@import "x.css"; @page { margin: 0 } @keyframes spin { to { opacity: 0 } } .x { a: b }', scope))
+      .toBe(`@keyframes spin{ to { opacity: 0 } }${scope} .x{ a: b }`);
+  });
+
+  it('does not let braces inside strings or selectors escape the scope', () => {
+    const out = scopeCss('.a::after { content: "}" } .b { fill: red } .c} .d { fill: blue }', scope);
+    expect(out).toContain(`${scope} .a::after{ content: "}" }`);
+    expect(out).toContain(`${scope} .b{`);
+    expect(out).not.toMatch(/(^|\})\s*\.d/);
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/svg.ts
+ * Sanitizer and validator for SVG markup produced by models (or restored from storage).
+ *
+ * Every SVG is parsed as XML, checked for well-formedness and a usable viewBox, then
+ * filtered against an element/attribute allowlist before it is rendered or exported.
+ *
+ * SVG is rendered inline, where a <style> element applies to the whole page; its rules are
+ * therefore rewritten to match only inside the SVG's root (`data-svg-scope`).
+ */
+
+const ALLOWED_ELEMENTS = new Set([
+  'svg', 'g', 'defs', 'title', 'desc', 'style', 'symbol', 'use',
+  'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon', 'path',
+  'text', 'tspan', 'textPath', 'image',
+  'linearGradient', 'radialGradient', 'stop', 'pattern', 'clipPath', 'mask', 'marker',
+  'filter', 'feGaussianBlur', 'feOffset', 'feBlend', 'feColorMatrix', 'feComposite',
+  'feDropShadow', 'feFlood', 'feMerge', 'feMergeNode',
+]);
+
+// Elements whose children are kept when the wrapper itself is dropped.
+const UNWRAP_ELEMENTS = new Set(['a', 'switch']);
+
+const ALLOWED_ATTRIBUTES = new Set([
+  'id', 'class', 'style', 'transform', 'role', 'tabindex', 'focusable', 'xml:space', 'lang',
+  'xmlns', 'xmlns:xlink', 'version', 'viewBox', 'preserveAspectRatio', 'width', 'height',
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'd', 'points',
+  'dx', 'dy', 'rotate', 'textLength', 'lengthAdjust', 'href', 'xlink:href', 'startOffset',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-linecap',
+  'stroke-linejoin', 'stroke-dasharray', 'stroke-dashoffset', 'stroke-miterlimit', 'opacity',
+  'color', 'visibility', 'display', 'overflow', 'cursor', 'pointer-events', 'vector-effect',
+  'shape-rendering', 'text-rendering', 'clip-rule', 'clip-path', 'mask', 'filter',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline',
+  'alignment-baseline', 'baseline-shift', 'letter-spacing', 'word-spacing', 'text-decoration',
+  'direction', 'unicode-bidi',
+  'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform', 'spreadMethod',
+  'patternUnits', 'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits',
+  'maskContentUnits', 'filterUnits', 'primitiveUnits', 'in', 'in2', 'result', 'stdDeviation',
+  'mode', 'values', 'type', 'operator', 'k1', 'k2', 'k3', 'k4', 'flood-color', 'flood-opacity',
+  'markerWidth', 'markerHeight', 'markerUnits', 'refX', 'refY', 'orient',
+  'marker-start', 'marker-mid', 'marker-end',
+]);
+
+// Inline raster images are the only non-fragment references allowed.
+const SAFE_DATA_URI = /^data:image\/(png|jpe?g|gif|webp);base64,[A-Za-z0-9+/=\s]+$/i;
+const UNSAFE_VALUE = /javascript:|vbscript:|expression\s*\(|-moz-binding|behavior\s*:/i;
+const CSS_URL = /url\(\s*(['"]?)(.*?)\1\s*\)/gi;
+
+export interface SvgSanitizeResult {
+  svg: string | null;  // Sanitized markup; null when validation failed
+  errors: string[];    // Validation failures that reject the document
+  removed: string[];   // Unsafe content that was stripped
+}
+
+const isSafeReference = (value: string) => {
+  const v = value.trim();
+  return v.startsWith('#') || SAFE_DATA_URI.test(v);
+};
+
+/**
+ * Strips @import, external url() references and script-like constructs from CSS text.
+ * CSS escapes (`@\69mport`, `\75rl(`) are decoded by the browser but not by the patterns
+ * here, so any CSS containing a backslash is dropped whole.
+ */
+const sanitizeCss = (css: string, where: string, removed: string[]): string => {
+  if (css.includes('\\')) {
+    removed.push(`escaped CSS in ${where}`);
+    return '';
+  }
+  let out = css.replace(/@import[^;]*;?/gi, () => {
+    removed.push(`@import in ${where}`);
+    return '';
+  });
+  out = out.replace(CSS_URL, (match, _q, ref: string) => {
+    if (isSafeReference(ref)) return match;
+    removed.push(`external url() in ${where}`);
+    return 'none';
+  });
+  if (UNSAFE_VALUE.test(out)) {
+    removed.push(`script-like CSS in ${where}`);
+    out = out.replace(new RegExp(UNSAFE_VALUE.source, 'gi'), '');
+  }
+  return out;
+};
+
+const validateViewBox = (root: Element, errors: string[]) => {
+  const viewBox = root.getAttribute('viewBox');
+  if (!viewBox) {
+    errors.push('Missing viewBox on root <svg>.');
+    return;
+  }
+  const parts = viewBox.trim().split(/[\s,]+/).map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n)) || parts[2] <= 0 || parts[3] <= 0) {
+    errors.push(`Invalid viewBox "${viewBox}".`);
+  }
+};
+
+// Comments, processing instructions and stray CDATA survive XML serialization verbatim, and
+// the HTML parser reads them differently (`<!-->` closes at once), so only elements and text are kept.
+const NODE_NAMES: Record<number, string> = { 4: 'CDATA section', 7: 'processing instruction', 8: 'comment' };
+
+const sanitizeElement = (el: Element, removed: string[]) => {
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === Node.ELEMENT_NODE || node.nodeType === Node.TEXT_NODE) continue;
+    if (node.nodeType === Node.CDATA_SECTION_NODE && el.localName === 'style') continue; // Rewritten as text below
+    removed.push(`${NODE_NAMES[node.nodeType] || 'node'} in <${el.localName}>`);
+    node.remove();
+  }
+
+  for (const child of Array.from(el.children)) {
+    const name = child.localName;
+    if (UNWRAP_ELEMENTS.has(name)) {
+      removed.push(`<${name}> (unwrapped)`);
+      sanitizeElement(child, removed);
+      child.replaceWith(...Array.from(child.childNodes));
+      continue;
+    }
+    if (!ALLOWED_ELEMENTS.has(name)) {
+      removed.push(`<${name}>`);
+      child.remove();
+      continue;
+    }
+    sanitizeElement(child, removed);
+  }
+
+  for (const attr of Array.from(el.attributes)) {
+    const name = attr.name;
+    const allowed = ALLOWED_ATTRIBUTES.has(name) || name.startsWith('data-') || name.startsWith('aria-');
+    if (!allowed) {
+      removed.push(`${name} on <${el.localName}>`);
+      el.removeAttribute(name);
+    } else if ((name === 'href' || name === 'xlink:href') && !isSafeReference(attr.value)) {
+      removed.push(`external ${name} on <${el.localName}>`);
+      el.removeAttribute(name);
+    } else if (name === 'style') {
+      el.setAttribute(name, sanitizeCss(attr.value, `style on <${el.localName}>`, removed));
+    } else if (UNSAFE_VALUE.test(attr.value) || /url\(|\\/i.test(attr.value)) {
+      const clean = sanitizeCss(attr.value, `${name} on <${el.localName}>`, removed);
+      if (!clean.trim()) el.removeAttribute(name);
+      else if (clean !== attr.value) el.setAttribute(name, clean);
+    }
+  }
+
+  if (el.localName === 'style' && el.textContent) {
+    el.textContent = sanitizeCss(el.textContent, '<style>', removed);
+  }
+};
+
+// --- Style Scoping ---
+
+const SCOPE_ATTRIBUTE = 'data-svg-scope';
+const SCOPE_PREFIX = /^svg\[data-svg-scope="[^"]*"\]/;
+const ROOT_SELECTOR = /^(svg|:root)(?=$|[\s.#:[>+~])/i;
+const NESTED_AT_RULES = new Set(['media', 'supports', 'container', 'layer']);
+const VERBATIM_AT_RULES = new Set(['keyframes', '-webkit-keyframes', 'font-face']);
+
+// Deterministic, so re-sanitizing an unchanged document yields the same markup.
+const scopeId = (markup: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < markup.length; i++) hash = Math.imul(hash ^ markup.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+// Index just past a quoted string starting at `i`; an unescaped newline ends it, as in CSS.
+const skipString = (css: string, i: number) => {
+  const quote = css[i];
+  let j = i + 1;
+  while (j < css.length && css[j] !== quote && css[j] !== '\n') j++;
+  return j + 1;
+};
+
+// First of `chars` at or after `from`, outside strings; -1 when there is none.
+const findOutsideStrings = (css: string, from: number, chars: string) => {
+  for (let i = from; i < css.length;) {
+    if (css[i] === '"' || css[i] === "'") { i = skipString(css, i); continue; }
+    if (chars.includes(css[i])) return i;
+    i++;
+  }
+  return -1;
+};
+
+// Index of the `}` closing the block opened at `open`, or the end of the text.
+const closingBrace = (css: string, open: number) => {
+  let depth = 0;
+  for (let i = open; i < css.length;) {
+    const next = findOutsideStrings(css, i, '{}');
+    if (next < 0) break;
+    depth += css[next] === '{' ? 1 : -1;
+    if (depth === 0) return next;
+    i = next + 1;
+  }
+  return css.length;
+};
+
+const splitSelectors = (prelude: string) => {
+  const parts: string[] = [];
+  let depth = 0, start = 0;
+  for (let i = 0; i < prelude.length; i++) {
+    const ch = prelude[i];
+    if (ch === '(' || ch === '[') depth++;
+    else if (ch === ')' || ch === ']') depth--;
+    else if (ch === ',' && depth === 0) { parts.push(prelude.slice(start, i)); start = i + 1; }
+  }
+  parts.push(prelude.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+/** Prefixes a selector with the root's scope; a leading `svg` or `:root` becomes the scope itself. */
+const scopeSelector = (selector: string, scope: string): string | null => {
+  if (/[{};]/.test(selector)) return null;
+  const bare = selector.replace(SCOPE_PREFIX, '').replace(ROOT_SELECTOR, '');
+  if (bare === selector) return `${scope} ${selector}`;
+  return `${scope}${bare}`;
+};
+
+/**
+ * Rewrites a stylesheet so every rule matches only inside the scoped root. Conditional
+ * at-rules are scoped recursively, keyframes and font faces kept, and any other at-rule
+ * (@import, @namespace, @page...) dropped.
+ */
+export function scopeCss(css: string, scope: string): string {
+  const text = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  let out = '';
+  let i = 0;
+  while (i < text.length) {
+    const open = findOutsideStrings(text, i, '{;');
+    if (open < 0) break;
+    if (text[open] === ';') { i = open + 1; continue; } // Statement at-rule or stray declaration
+    const prelude = text.slice(i, open).trim();
+    const close = closingBrace(text, open);
+    const body = text.slice(open + 1, close);
+    i = close + 1;
+    if (prelude.startsWith('@')) {
+      const name = prelude.slice(1).match(/^[\w-]+/)?.[0].toLowerCase() || '';
+      if (NESTED_AT_RULES.has(name)) out += `${prelude}{${scopeCss(body, scope)}}`;
+      else if (VERBATIM_AT_RULES.has(name)) out += `${prelude}{${body}}`;
+      continue;
+    }
+    const selectors = splitSelectors(prelude).map(s => scopeSelector(s, scope));
+    if (selectors.length > 0 && selectors.every(Boolean)) out += `${selectors.join(',')}{${body}}`;
+  }
+  return out;
+}
+
+const scopeStyles = (root: Element, markup: string) => {
+  const styles = Array.from(root.getElementsByTagName('style')).filter(s => s.textContent?.trim());
+  if (styles.length === 0) return;
+  const existing = root.getAttribute(SCOPE_ATTRIBUTE);
+  const id = existing && /^[a-z0-9]+$/.test(existing) ? existing : scopeId(markup);
+  root.setAttribute(SCOPE_ATTRIBUTE, id);
+  for (const style of styles) style.textContent = scopeCss(style.textContent || '', `svg[${SCOPE_ATTRIBUTE}="${id}"]`);
+};
+
+/**
+ * Parses, validates and sanitizes SVG markup.
+ * Malformed documents, a non-<svg> root or a missing/invalid viewBox are rejected;
+ * anything outside the allowlist is removed and listed in `removed`.
+ */
+export function sanitizeSvg(markup: string): SvgSanitizeResult {
+  const errors: string[] = [];
+  const removed: string[] = [];
+
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    errors.push(`Malformed SVG: ${(parseError.textContent || 'XML parse error').trim().slice(0, 200)}`);
+    return { svg: null, errors, removed };
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'svg') {
+    errors.push(`Root element is <${root.localName}>, expected <svg>.`);
+    return { svg: null, errors, removed };
+  }
+  validateViewBox(root, errors);
+  if (errors.length > 0) return { svg: null, errors, removed };
+
+  sanitizeElement(root, removed);
+  scopeStyles(root, markup);
+  if (!root.getAttribute('xmlns')) root.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+
+  return { svg: new XMLSerializer().serializeToString(root), errors, removed };
+}
+
+/** Markup inside an SVG data URI (base64 or URL-encoded); null for raster images. */
+export const decodeSvgDataUri = (data: string): string | null => {
+  if (!data.startsWith('data:image/svg+xml')) return null;
+  const comma = data.indexOf(',');
+  const header = data.slice(0, comma);
+  const payload = data.slice(comma + 1);
+  return header.endsWith(';base64') ? decodeURIComponent(escape(atob(payload))) : decodeURIComponent(payload);
+};
+
+export const encodeSvgDataUri = (svg: string): string => `data:image/svg+xml;base64,${btoa(unescape(encodeURIComponent(svg)))}`;
+
+// Only the translation part of transforms is applied; anchors are approximate by design.
+export const translationOf = (el: Element): [number, number] => {
+  const transform = el.getAttribute('transform') || '';
+  let dx = 0, dy = 0;
+  for (const m of transform.matchAll(/(translate|matrix)\(([^)]*)\)/g)) {
+    const args = m[2].trim().split(/[\s,]+/).map(Number);
+    if (m[1] === 'translate') { dx += args[0] || 0; dy += args[1] || 0; }
+    else { dx += args[4] || 0; dy += args[5] || 0; }
+  }
+  return [dx, dy];
+};
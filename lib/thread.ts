@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/thread.ts
+ * Per-project edit thread.
+ *
+ * Every edit adds the user's instruction and the model's account of what it changed, each
+ * linked to a version in the history. The recent turns are sent with the next edit, so an
+ * instruction can refer back ("undo the color change but keep the new table").
+ */
+
+import { EditTurn, GeneratedImage } from '../types';
+
+const MAX_PROMPT_TURNS = 20; // Older turns are dropped from the prompt, not from the project
+
+/** Label used for a version throughout the UI, e.g. "Rev 3" (history is newest first). */
+export function versionLabel(history: GeneratedImage[], imageId?: string): string | null {
+  const index = history.findIndex(h => h.id === imageId);
+  return index >= 0 ? `Rev ${history.length - index}` : null;
+}
+
+export const createTurn = (role: EditTurn['role'], text: string, fields: Partial<EditTurn> = {}): EditTurn => ({
+  id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  role,
+  text,
+  timestamp: Date.now(),
+  ...fields,
+});
+
+/**
+ * Earlier turns for the edit prompt, oldest first, with the version each one refers to.
+ * Empty when there are no earlier turns.
+ */
+export function formatThreadForPrompt(thread: EditTurn[], history: GeneratedImage[], currentId: string): string {
+  const turns = thread.filter(t => !t.failed).slice(-MAX_PROMPT_TURNS);
+  if (turns.length === 0) return '';
+  const lines = turns.map(t => {
+    const version = versionLabel(history, t.imageId) || 'a deleted version';
+    return t.role === 'user'
+      ? `[User, on ${version}${t.target ? `, element ${t.target}` : ''}] ${t.text}`
+      : `[You, producing ${version}] ${t.text}`;
+  });
+  return `${lines.join('\n')}\nThe version being edited now is ${versionLabel(history, currentId) || 'unsaved'}; changes made in later versions are not in it.`;
+}
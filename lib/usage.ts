@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ *
+ * lib/usage.ts
+ * Token and cost accounting for every model call.
+ *
+ * `lib/gemini.ts` reports each successful call here; records are attributed to the
+ * current user and the project open in the Editor, and stored per billing period
+ * (calendar month) in IndexedDB.
+ */
+
+import { UsageOperation, UsageRecord, UsageStats, Workspace } from '../types';
+import { TokenUsage } from './providers';
+import { db } from './db';
+
+// USD list prices per 1M tokens (and per generated image). Unknown models use DEFAULT_PRICING.
+interface ModelPricing { input: number; output: number; image: number; }
+
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-3.1-pro-preview': { input: 2.0, output: 12.0, image: 0 },
+  'gemini-3-pro-preview': { input: 2.0, output: 12.0, image: 0 },
+  'gemini-3.1-flash-image-preview': { input: 0.5, output: 3.0, image: 0.045 },
+};
+const DEFAULT_PRICING: ModelPricing = { input: 1.0, output: 4.0, image: 0.04 };
+
+/** Monthly token allowance per workspace plan. */
+export const PLAN_TOKEN_QUOTA: Record<Workspace['plan'], number> = {
+  FREE: 100_000,
+  PRO: 1_000_000,
+  ENTERPRISE: 5_000_000,
+};
+
+/** Display names for the Usage tab's per-operation breakdown. */
+export const OPERATION_LABELS: Record<UsageOperation, string> = {
+  ANALYZE: 'Analysis',
+  GENERATE: 'Generation',
+  EDIT: 'Edits',
+  RESEARCH: 'Research',
+  NARRATIVE: 'Narratives',
+  SUGGEST: 'Objective suggestions',
+  SCREENSHOT_IMPORT: 'Screenshot imports',
+  TRANSLATE: 'Translations',
+};
+
+export const billingPeriod = (timestamp: number = Date.now()): string => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const periodBounds = (period: string): { start: number; end: number } => {
+  const [year, month] = period.split('-').map(Number);
+  return { start: new Date(year, month - 1, 1).getTime(), end: new Date(year, month, 1).getTime() - 1 };
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+};
+
+export const estimateCost = (model: string, inputTokens: number, outputTokens: number, images = 0): number => {
+  const p = MODEL_PRICING[model] || DEFAULT_PRICING;
+  return (inputTokens * p.input + outputTokens * p.output) / 1_000_000 + images * p.image;
+};
+
+// --- Attribution ---
+// The Editor registers the open project so calls made from it are attributed without threading ids through lib/gemini.ts.
+let activeProjectId: string | undefined;
+
+export function setUsageProject(projectId?: string) {
+  activeProjectId = projectId;
+}
+
+/**
+ * Persists one model call. `images` counts dashboard visuals the call produced (SVG or raster).
+ * Failures are logged, never surfaced: accounting must not break generation.
+ */
+export async function recordUsage(operation: UsageOperation, model: string, usage?: TokenUsage, images = 0): Promise<void> {
+  try {
+    const user = await db.getCurrentUser();
+    const inputTokens = usage?.inputTokens || 0;
+    const outputTokens = usage?.outputTokens || 0;
+    const now = Date.now();
+    const record: UsageRecord = {
+      id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+      period: billingPeriod(now),
+      timestamp: now,
+      userId: user?.id || 'anonymous',
+      userName: user?.name || 'Unknown User',
+      projectId: activeProjectId,
+      model,
+      operation,
+      inputTokens,
+      outputTokens,
+      images,
+      costUsd: estimateCost(model, inputTokens, outputTokens, images),
+    };
+    await db.addUsageRecord(record);
+  } catch (e) {
+    console.warn("Failed to record usage", e);
+  }
+}
+
+// --- Reporting ---
+
+export interface UsageBucket {
+  key: string;
+  tokens: number;
+  cost: number;
+  calls: number;
+}
+
+export interface UsageBreakdown {
+  byUser: UsageBucket[];
+  byProject: UsageBucket[];
+  byModel: UsageBucket[];
+  byOperation: UsageBucket[];
+  byDay: UsageBucket[]; // key = day of month ("1".."31"), in order
+}
+
+const bucketize = (records: UsageRecord[], keyOf: (r: UsageRecord) => string): UsageBucket[] => {
+  const buckets = new Map<string, UsageBucket>();
+  for (const r of records) {
+    const key = keyOf(r);
+    const b = buckets.get(key) || { key, tokens: 0, cost: 0, calls: 0 };
+    b.tokens += r.inputTokens + r.outputTokens;
+    b.cost += r.costUsd;
+    b.calls += 1;
+    buckets.set(key, b);
+  }
+  return Array.from(buckets.values()).sort((a, b) => b.tokens - a.tokens);
+};
+
+export function summarizeUsage(records: UsageRecord[], period: string): UsageBreakdown {
+  const days = new Date(periodBounds(period).end).getDate();
+  const perDay = bucketize(records, r => String(new Date(r.timestamp).getDate()));
+  const byDay = Array.from({ length: days }, (_, i) =>
+    perDay.find(b => b.key === String(i + 1)) || { key: String(i + 1), tokens: 0, cost: 0, calls: 0 });
+
+  return {
+    byUser: bucketize(records, r => r.userName),
+    byProject: bucketize(records, r => r.projectId || 'Unassigned'),
+    byModel: bucketize(records, r => r.model),
+    byOperation: bucketize(records, r => r.operation),
+    byDay,
+  };
+}
+
+/** Aggregates a billing period into `UsageStats`, including storage measured from IndexedDB. */
+export async function getUsageStats(period: string = billingPeriod()): Promise<{ stats: UsageStats; records: UsageRecord[]; storage: Record<string, number> }> {
+  const [records, storage] = await Promise.all([db.getUsageRecords(period), db.getStorageBreakdown()]);
+  const { start, end } = periodBounds(period);
+  const storageBytes = Object.values(storage).reduce((a, b) => a + b, 0);
+  return {
+    stats: {
+      tokensUsed: records.reduce((a, r) => a + r.inputTokens + r.outputTokens, 0),
+      imagesGenerated: records.reduce((a, r) => a + r.images, 0),
+      requests: records.length,
+      estimatedCost: records.reduce((a, r) => a + r.costUsd, 0),
+      storageUsed: formatBytes(storageBytes),
+      storageBytes,
+      periodStart: start,
+      periodEnd: end,
+    },
+    records,
+    storage,
+  };
+}
@@ -9,6 +9,8 @@
  */
 
 import { generateDashboardImage, editDashboardImage } from '../lib/gemini';
+import { verifyDashboardFidelity, buildFidelityFixInstruction, isFidelityIssue } from '../lib/fidelity';
+import { DataSource } from '../types';
 
 // Stubs for deprecated functions to maintain compatibility with legacy code
 const researchTopic = async (topic: string) => {
@@ -17,7 +19,7 @@ const researchTopic = async (topic: string) => {
 
 const generateImage = async (prompt: string) => {
     // Basic mapping: new API requires a style
-    const data = await generateDashboardImage(prompt, 'Modern SaaS'); 
+    const { data } = await generateDashboardImage(prompt, 'Modern SaaS'); 
     return {
         id: Date.now().toString(),
         data,
@@ -28,12 +30,22 @@ const generateImage = async (prompt: string) => {
 };
 
 const editImage = async (image: any, prompt: string) => {
-    const data = await editDashboardImage(image.data || image, prompt);
+    const { data } = await editDashboardImage(image.data || image, prompt);
     return { ...image, data };
 };
 
+// Legacy result shape over lib/fidelity.ts; `critique` doubles as the fix instruction.
+const verifyImage = async (image: any, dataSources: DataSource[] = []) => {
+    const report = verifyDashboardFidelity(image.data || image, dataSources);
+    return {
+        isAccurate: !report.findings.some(isFidelityIssue),
+        critique: buildFidelityFixInstruction(report) || report.skipped || "",
+        report
+    };
+};
+
 export const researchTopicForPrompt = researchTopic;
 export const generateInfographicImage = generateImage;
 export const editInfographicImage = editImage;
-export const verifyInfographicAccuracy = async () => ({ isAccurate: true, critique: "" });
+export const verifyInfographicAccuracy = verifyImage;
 export const fixInfographicImage = editImage;
@@ -11,7 +11,7 @@ export interface User {
   email: string;
   role: 'ADMIN' | 'EDITOR' | 'VIEWER';
   avatar?: string;
-  persona?: string; // e.g., "Critical Thinker", "Strategic Exec", "Operational Manager"
+  persona?: string; // Persona profile id (lib/persona.ts); older profiles hold a label such as "Strategic Advisor (Concise, High-level)"
 }
 
 export interface TeamMember extends User {
@@ -25,6 +25,67 @@ export interface Workspace {
   plan: 'FREE' | 'PRO' | 'ENTERPRISE';
   ownerId: string;
   brandKit?: BrandKit;
+  aiProvider?: AIProviderConfig;
+  promptOverrides?: Partial<Record<PromptTemplateId, PromptTemplateOverride>>;
+  responseCache?: ResponseCacheConfig;
+  modelSettings?: ModelSettings;
+  brandCompliance?: BrandComplianceConfig;
+}
+
+// --- Prompt Templates ---
+
+export type PromptTemplateId = 'analysis' | 'spec' | 'svg' | 'raster' | 'edit-svg' | 'edit-fragment' | 'edit-raster' | 'translate' | 'narrative' | 'suggest' | 'screenshot' | 'research' | 'style' | 'level' | 'brand' | 'persona';
+
+/** Identifies the exact template wording that produced an output. */
+export interface PromptTemplateRef {
+  id: PromptTemplateId;
+  version: number;
+  source: 'BUILTIN' | 'WORKSPACE';
+}
+
+/** Workspace-level replacement for a built-in template. */
+export interface PromptTemplateOverride {
+  version: number; // Incremented on every save
+  basedOn: number; // Built-in version the override was written against
+  system?: string;
+  prompt: string;
+  cases?: Record<string, string>;
+  updatedAt: number;
+  updatedBy: string;
+  disabled?: boolean; // Reset to built-in; kept so later overrides continue the version sequence
+}
+
+export type AIProviderKind = 'GEMINI' | 'OPENAI_COMPATIBLE' | 'FIXTURE';
+
+export interface AIProviderConfig {
+  kind: AIProviderKind;
+  baseUrl?: string; // OpenAI-compatible gateway root, e.g. https://llm.internal/v1
+  apiKey?: string;
+}
+
+// --- Model Selection ---
+
+export type ModelRole = 'analysis' | 'vector' | 'raster' | 'edit' | 'research';
+
+/** Generation strategies, tried in the order of the workspace fallback chain. */
+export type FallbackStep = 'SPEC' | 'SVG' | 'RASTER';
+
+export interface FallbackStepConfig {
+  step: FallbackStep;
+  model?: string;    // Overrides the role model (vector for SPEC/SVG, raster for RASTER)
+  timeoutMs: number; // Budget for the whole step, retries included
+}
+
+export interface ModelSettings {
+  models: Record<ModelRole, string>;
+  fallbackChain: FallbackStepConfig[];
+}
+
+/** Which model and generation step produced a version. */
+export interface GenerationOrigin {
+  model: string;
+  step: FallbackStep | 'EDIT';
+  stepIndex?: number; // Position in the fallback chain (0 = first choice); absent for edits
 }
 
 export type DataSourceType = 'FILE_UPLOAD' | 'API_REST' | 'GOOGLE_DRIVE' | 'DROPBOX' | 'ONEDRIVE';
@@ -40,6 +101,22 @@ export interface DataSource {
     lastSync?: number;
   };
   sampleData?: string; // Real extracted data for grounding
+  injection?: InjectionWarning; // Set when sampleData contains instruction-like text
+  citations?: SearchResultItem[]; // Web sources behind a research summary; sampleData carries matching [n] markers
+}
+
+// --- Untrusted Content ---
+export interface InjectionFinding {
+  pattern: string;  // Detector id, e.g. 'override' or 'role-marker'
+  label: string;
+  excerpt: string;  // Surrounding text, whitespace-collapsed
+}
+
+export interface InjectionWarning {
+  detectedAt: number;
+  findings: InjectionFinding[];
+  confirmedAt?: number; // The user chose to generate with this content anyway
+  confirmedBy?: string;
 }
 
 export interface GeneratedImage {
@@ -52,6 +129,132 @@ export interface GeneratedImage {
   style: VisualStyle;
   aspectRatio?: string;
   colorPalette?: string;
+  spec?: DashboardSpec; // Present when rendered locally from a layout spec
+  template?: PromptTemplateRef; // Prompt template that produced this version
+  variant?: VariantInfo; // Present when produced by a multi-variant run
+  fidelity?: FidelityReport; // Latest data-fidelity check of this version
+  citations?: SearchResultItem[]; // Sources the version's footnotes refer to
+  origin?: GenerationOrigin; // Model and fallback step that produced the version
+  accessibility?: AccessibilityReport; // Latest accessibility audit of this version
+  locale?: string; // BCP 47 tag of the version's text; absent on versions from before localization (en-US)
+  analysis?: AnalysisResult; // Analysis the version was rendered from; carried over to versions derived from it
+  narrative?: Narrative; // Written commentary for the version; editable, included in exports
+  persona?: string; // Persona profile id that shaped the prompts; absent when none was set
+}
+
+export interface VariantInfo {
+  groupId: string; // Shared by every variant of one run
+  index: number;   // 0-based position within the run
+  total: number;
+  direction: string; // Layout direction the variant was steered towards
+  discardedAt?: number; // Set while the variant sits in Project.alternatives
+}
+
+/** An element picked on the canvas for a targeted edit. */
+export interface SvgSelection {
+  path: number[]; // Element-child indices below the root <svg>
+  tag: string;
+  label: string;  // Short description shown in the edit bar
+}
+
+// --- Data Fidelity ---
+
+export type FidelityStatus = 'MATCH' | 'INVENTED_NUMBER' | 'MISMATCHED_LABEL' | 'AXIS_TICK';
+
+export interface FidelityFinding {
+  id: string;
+  kind: 'NUMBER' | 'LABEL';
+  text: string;       // Token as rendered, e.g. "$1.2M" or "Nort America"
+  status: FidelityStatus;
+  reference?: string; // Matched or nearest source value, e.g. "Revenue (sum) = 1.2M"
+  x: number;          // Text anchor as % of canvas width/height (same space as annotations)
+  y: number;
+}
+
+export interface FidelityReport {
+  checkedAt: number;
+  score: number; // % of checked numbers and labels that trace back to the data
+  numbersChecked: number;
+  labelsChecked: number;
+  sources: string[]; // Data sources with parseable rows
+  findings: FidelityFinding[];
+  skipped?: string;  // Why nothing could be checked (raster output, no tabular data)
+}
+
+// --- Accessibility ---
+
+export type WcagLevel = 'AA' | 'AAA';
+
+export type AccessibilityRule = 'CONTRAST' | 'FONT_SIZE' | 'COLOR_ONLY' | 'MISSING_TITLE' | 'MISSING_DESC' | 'MISSING_ROLE';
+
+export interface AccessibilityFinding {
+  id: string;
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+  text?: string;      // Offending text, for text rules
+  ratio?: number;     // Measured contrast, for CONTRAST
+  required?: number;  // Contrast the text needs at the report's level
+  fix: 'PATCH' | 'MODEL'; // Patched in the markup, or sent to the model as an edit
+  x?: number;         // % of canvas width/height; absent for document-level findings
+  y?: number;
+}
+
+export interface AccessibilityReport {
+  checkedAt: number;
+  level: WcagLevel;
+  score: number;        // 100 minus weighted deductions per rule
+  textsChecked: number;
+  findings: AccessibilityFinding[];
+  skipped?: string;     // Why nothing could be checked (raster output, no viewBox)
+}
+
+// --- Dashboard Spec (Layout DSL) ---
+
+export type SpecAggregation = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains';
+
+/** Row filter applied before aggregation, e.g. Region eq "EMEA". */
+export interface DataFilter {
+  field: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface DataBinding {
+  sourceId: string;
+  xField?: string; // Category / time axis (charts only)
+  yField: string;  // Measured field
+  aggregation: SpecAggregation;
+  filter?: DataFilter;
+}
+
+export interface SpecDatum {
+  label: string;
+  value: number;
+}
+
+export interface SpecPanel {
+  id: string;
+  kind: 'KPI' | 'CHART' | 'TABLE';
+  title: string;
+  // Grid placement (zero-based, in grid cells)
+  col: number;
+  row: number;
+  colSpan: number;
+  rowSpan: number;
+  kpi?: { value: string; delta?: string; trend?: 'up' | 'down' | 'flat'; binding?: DataBinding };
+  chart?: { type: 'line' | 'area' | 'bar' | 'pie' | 'donut'; data: SpecDatum[]; binding?: DataBinding };
+  table?: { columns: string[]; rows: string[][]; sourceId?: string };
+  citations?: number[]; // Footnote numbers of the research sources behind the panel's figures
+}
+
+export interface DashboardSpec {
+  header: { title: string; subtitle?: string };
+  nav?: { items: string[]; active?: number };
+  grid: { columns: number; rows: number };
+  panels: SpecPanel[];
 }
 
 export interface BrandKit {
@@ -64,6 +267,141 @@ export interface BrandKit {
   headingFont: string;
 }
 
+// --- Objective Suggestions ---
+
+export type FieldKind = 'NUMBER' | 'DATE' | 'CATEGORY' | 'TEXT';
+
+/** One column of a connected source, profiled from its sample rows. */
+export interface FieldProfile {
+  sourceId: string;
+  sourceName: string;
+  name: string;       // Exact column name
+  kind: FieldKind;
+  distinct: number;   // Distinct non-empty values in the sample
+  min?: number;       // NUMBER only
+  max?: number;
+  samples: string[];  // A few distinct values, for display
+}
+
+/** A ranked dashboard objective the user can pick instead of writing one. */
+export interface ObjectiveSuggestion {
+  id: string;
+  text: string;                // e.g. "Monthly revenue by region vs. target"
+  visual: ChartType | 'kpi';   // Lead visual the objective implies
+  fields: string[];            // Columns it is built from
+  why: string;                 // "Why this chart", shown on demand
+  score: number;               // Higher ranks first
+  origin: 'LOCAL' | 'MODEL';
+}
+
+// --- Screenshot Import ---
+
+export type RegionKind = 'HEADER' | 'NAV' | 'FILTER' | 'KPI' | 'CHART' | 'TABLE' | 'TEXT';
+
+/** A panel read from a legacy dashboard screenshot. Box values are percentages of the image size. */
+export interface ScreenshotRegion {
+  kind: RegionKind;
+  label: string;         // Title or KPI label as printed
+  chartType?: ChartType; // CHART only
+  value?: string;        // KPI only, as printed, e.g. "$1.2M"
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Columns and rows inferred from what a screenshot shows, until the real source is connected. */
+export interface PlaceholderSource {
+  name: string;
+  columns: { name: string; kind: FieldKind }[];
+  rows: string[][];
+}
+
+export interface ScreenshotLayout {
+  title: string;
+  objective: string;      // What the dashboard is for, phrased as an objective
+  regions: ScreenshotRegion[]; // Top-to-bottom, left-to-right
+  sources: PlaceholderSource[];
+}
+
+// --- Layout Reference ---
+
+/** A whiteboard photo or hand-drawn wireframe attached to a project as a layout constraint. */
+export interface LayoutReference {
+  name: string;    // Original file name
+  data: string;    // JPEG data URI, downscaled on upload
+  addedAt: number;
+}
+
+// --- Personas ---
+
+/** How generated output is pitched to a reader: inserted into every generation, edit and research prompt. */
+export interface PersonaProfile {
+  id: string;
+  label: string;
+  summary: string;     // Short description shown next to the label, e.g. "Concise, High-level"
+  tone: string;
+  density: string;     // How much information a panel or paragraph should carry
+  charts: string;      // Preferred (and avoided) chart types
+  terminology: string;
+  aliases?: string[];  // Labels stored by older profiles and onboarding
+}
+
+// --- Narrative ---
+
+/** Commentary for a version, written for leadership decks. */
+export interface Narrative {
+  summary: string;      // Executive summary, a few sentences
+  speakerNotes: string;
+  insights: string[];   // 3–5 "so what" bullets
+  generatedAt: number;
+  editedAt?: number;    // Set once a user has edited the generated text
+  level: ComplexityLevel; // Depth it was written for
+  persona?: string;     // Reader persona it was written for
+  model?: string;
+  template?: PromptTemplateRef;
+}
+
+// --- Localization ---
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export interface LocaleOption {
+  code: string;       // BCP 47 tag, e.g. "de-DE"
+  language: string;   // English name, used in prompts
+  nativeName: string; // Shown in the language picker
+  direction: TextDirection;
+}
+
+// --- Brand Compliance ---
+
+export interface BrandComplianceConfig {
+  strict: boolean;        // Block export while the current version has violations
+  tolerance: number;      // Max CIEDE2000 distance from the nearest brand color
+  allowNeutrals: boolean; // Greys, black and white pass regardless of the palette
+}
+
+export type BrandViolationKind = 'COLOR' | 'FONT' | 'LOGO';
+
+export interface BrandViolation {
+  id: string;
+  kind: BrandViolationKind;
+  value: string;     // Offending color (hex) or font family; empty for LOGO
+  count: number;     // Occurrences in the markup
+  nearest?: string;  // Closest brand color, or the brand font to use instead
+  deltaE?: number;
+  message: string;
+}
+
+export interface BrandReport {
+  checkedAt: number;
+  tolerance: number;
+  colorsChecked: number; // Distinct colors found
+  fontsChecked: number;  // Distinct font families found
+  violations: BrandViolation[];
+  skipped?: string;      // Why nothing could be checked (raster output)
+}
+
 export interface Project {
   id: string;
   title: string;
@@ -80,6 +418,9 @@ export interface Project {
   style: VisualStyle;
   aspectRatio?: string;
   colorPalette?: string;
+  locale?: string; // Target language for new versions
+  persona?: string; // Persona profile id overriding the user's own for this project
+  layoutReference?: LayoutReference; // Sketch whose panel arrangement new versions keep
   
   // Canvas Data
   canvasState: {
@@ -90,13 +431,27 @@ export interface Project {
 
   // Versioning
   history: GeneratedImage[];
+  alternatives?: GeneratedImage[]; // Variants not promoted into history, newest first
+  editThread?: EditTurn[]; // Conversational edit history, oldest first
+}
+
+/** One message in a project's edit thread. */
+export interface EditTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;      // The instruction, or the model's account of what it changed
+  timestamp: number;
+  author?: string;   // User turns
+  imageId?: string;  // User: version the instruction was applied to. Assistant: version it produced
+  target?: string;   // Label of the selected element, for targeted edits
+  failed?: boolean;  // Assistant turn reporting an edit that produced no version
 }
 
 export interface AuditEntry {
   id: string;
   userId: string;
   userName: string;
-  action: 'GENERATE' | 'EDIT' | 'EXPORT' | 'DELETE' | 'LOGIN' | 'INVITE';
+  action: 'GENERATE' | 'EDIT' | 'EXPORT' | 'DELETE' | 'LOGIN' | 'INVITE' | 'CANCEL' | 'SECURITY';
   resourceId?: string;
   resourceType?: string;
   timestamp: number;
@@ -109,6 +464,52 @@ export interface UsageStats {
   storageUsed: string;
   periodStart: number;
   periodEnd: number;
+  requests: number;
+  estimatedCost: number; // USD
+  storageBytes: number;
+}
+
+export type UsageOperation = 'ANALYZE' | 'GENERATE' | 'EDIT' | 'RESEARCH' | 'NARRATIVE' | 'SUGGEST' | 'SCREENSHOT_IMPORT' | 'TRANSLATE';
+
+export interface UsageRecord {
+  id: string;
+  period: string; // Billing period key, "YYYY-MM"
+  timestamp: number;
+  userId: string;
+  userName: string;
+  projectId?: string;
+  model: string;
+  operation: UsageOperation;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  costUsd: number; // Estimated from list prices at the time of the call
+}
+
+// --- Response Cache ---
+
+export interface ResponseCacheConfig {
+  enabled: boolean;
+  ttlHours: number;
+}
+
+export interface CacheEntry {
+  key: string; // SHA-256 of the resolved request
+  operation: UsageOperation;
+  model: string;
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  period: string; // "YYYY-MM"
+  hits: number;
+  misses: number;
+  tokensSaved: number;
+  costSaved: number; // USD
 }
 
 export interface Annotation {
@@ -164,12 +565,51 @@ export type VisualStyle =
   | 'Glassmorphism';
 
 export interface SearchResultItem {
+  id: number;       // Footnote number, 1-based
   title: string;
   url: string;
+  domain: string;
+  claims: string[]; // Passages of the research summary this source supports
+}
+
+export type ChartType = 'line' | 'area' | 'bar' | 'pie' | 'donut' | 'table';
+
+export type ComparisonPeriod = 'none' | 'previous_period' | 'previous_year' | 'target';
+
+/** A planned chart and the columns it is computed from. Fields are empty when no source fits. */
+export interface ChartPlan {
+  id: string;
+  title: string;
+  type: ChartType;
+  sourceId?: string;
+  xField?: string;
+  yField?: string;
+  seriesField?: string; // Splits the measure into one series per value
+  aggregation: SpecAggregation;
+  filter?: DataFilter;
+}
+
+export interface KpiPlan {
+  id: string;
+  label: string;
+  sourceId?: string;
+  field?: string;
+  aggregation: SpecAggregation;
+  comparison: ComparisonPeriod;
 }
 
 export interface AnalysisResult {
   dashboardStrategy: string;
-  kpis: string[];
-  suggestedCharts: string[];
-}
\ No newline at end of file
+  kpis: KpiPlan[];
+  suggestedCharts: ChartPlan[];
+}
+// --- Generation Progress ---
+
+export type GenerationStage = 'ANALYZING' | 'LAYOUT' | 'DRAWING' | 'RASTER' | 'EDITING' | 'FINALIZING';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  bytes: number;    // Bytes of model output received so far in this stage
+  preview?: string; // Sanitized SVG data URI of the partial output, when renderable
+  variants?: { done: number; total: number }; // Set during multi-variant runs
+}